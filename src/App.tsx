@@ -4,6 +4,7 @@ import DashboardLayout from './components/layout/DashboardLayout';
 import Dashboard from './pages/Dashboard';
 import InvoiceList from './pages/invoices/InvoiceList';
 import InvoiceForm from './pages/invoices/InvoiceForm';
+import RecurringInvoiceList from './pages/invoices/RecurringInvoiceList';
 import CreditNoteList from './pages/credit-notes/CreditNoteList';
 import CreditNoteForm from './pages/credit-notes/CreditNoteForm';
 import ClientList from './pages/clients/ClientList';
@@ -12,14 +13,25 @@ import Reports from './pages/Reports';
 import Settings from './pages/Settings';
 import AuthPage from './pages/auth/AuthPage';
 import StudentList from './pages/students/StudentList';
+import AssessmentList from './pages/assessments/AssessmentList';
+import MarkEntry from './pages/assessments/MarkEntry';
 import ReportCardList from './pages/reports/ReportCardList';
 import ReportCardForm from './pages/reports/ReportCardForm';
 import ReportCardView from './pages/reports/ReportCardView';
+import ReportCardBatch from './pages/reports/ReportCardBatch';
+import FeeStructure from './pages/fees/FeeStructure';
+import CommentBank from './pages/comments/CommentBank';
+import Team from './pages/team/Team';
+import ClassList from './pages/classes/ClassList';
+import RequirePermission from './components/auth/RequirePermission';
 import { useAuthStore } from './store/auth';
+import { useSettingsStore } from './store/settings';
 import { supabase } from './lib/supabase';
 
 function App() {
-  const { user, setUser } = useAuthStore();
+  const { user, setUser, setMembership } = useAuthStore();
+  const { loadSettings, resetSettings } = useSettingsStore();
+  const userId = user?.id;
 
   // Set up auth state listener
   useEffect(() => {
@@ -66,6 +78,38 @@ function App() {
     };
   }, [setUser]);
 
+  // Load the school and its settings for whoever is signed in
+  useEffect(() => {
+    if (!userId) {
+      setMembership(null);
+      resetSettings();
+      return;
+    }
+
+    const loadOrganisation = async () => {
+      try {
+        // Joins an invited school or sets up a new one on first sign in
+        const { data, error } = await supabase.rpc('ensure_organisation');
+        if (error) throw error;
+
+        const membership = data?.[0];
+        if (!membership) throw new Error('No organisation membership found');
+
+        setMembership({
+          organisationId: membership.organisation_id,
+          organisationName: membership.organisation_name,
+          role: membership.role,
+        });
+
+        await loadSettings();
+      } catch (err) {
+        console.error('Error loading organisation:', err);
+      }
+    };
+
+    void loadOrganisation();
+  }, [userId, setMembership, loadSettings, resetSettings]);
+
   return (
     <BrowserRouter>
       <Routes>
@@ -80,20 +124,32 @@ function App() {
           path="/"
           element={user ? <DashboardLayout /> : <Navigate to="/auth" />}
         >
-          <Route index element={<Dashboard />} />
+          <Route
+            index
+            element={
+              <RequirePermission permission="finance:view">
+                <Dashboard />
+              </RequirePermission>
+            }
+          />
           
           {/* Invoice routes */}
-          <Route path="invoices">
+          <Route path="invoices" element={<RequirePermission permission="finance:view" />}>
             <Route index element={<InvoiceList />} />
-            <Route path="new" element={<InvoiceForm />} />
-            <Route path=":id/edit" element={<InvoiceForm />} />
+            <Route path="recurring" element={<RecurringInvoiceList />} />
+            <Route element={<RequirePermission permission="finance:manage" fallback="/invoices" />}>
+              <Route path="new" element={<InvoiceForm />} />
+              <Route path=":id/edit" element={<InvoiceForm />} />
+            </Route>
           </Route>
 
           {/* Credit note routes */}
-          <Route path="credit-notes">
+          <Route path="credit-notes" element={<RequirePermission permission="finance:view" />}>
             <Route index element={<CreditNoteList />} />
-            <Route path="new" element={<CreditNoteForm />} />
-            <Route path=":id/edit" element={<CreditNoteForm />} />
+            <Route element={<RequirePermission permission="finance:manage" fallback="/credit-notes" />}>
+              <Route path="new" element={<CreditNoteForm />} />
+              <Route path=":id/edit" element={<CreditNoteForm />} />
+            </Route>
           </Route>
 
           {/* Student routes */}
@@ -101,19 +157,60 @@ function App() {
             <Route index element={<StudentList />} />
           </Route>
 
+          <Route
+            path="classes"
+            element={
+              <RequirePermission permission="classes:manage">
+                <ClassList />
+              </RequirePermission>
+            }
+          />
+
+          {/* Assessment routes */}
+          <Route path="assessments">
+            <Route index element={<AssessmentList />} />
+            <Route element={<RequirePermission permission="academics:manage" fallback="/assessments" />}>
+              <Route path="mark-entry" element={<MarkEntry />} />
+            </Route>
+          </Route>
+
           {/* Report card routes */}
           <Route path="report-cards">
             <Route index element={<ReportCardList />} />
-            <Route path="new" element={<ReportCardForm />} />
-            <Route path=":id/edit" element={<ReportCardForm />} />
+            <Route element={<RequirePermission permission="academics:manage" fallback="/report-cards" />}>
+              <Route path="new" element={<ReportCardForm />} />
+              <Route path="batch" element={<ReportCardBatch />} />
+              <Route path=":id/edit" element={<ReportCardForm />} />
+            </Route>
             <Route path=":id" element={<ReportCardView />} />
           </Route>
 
+          {/* Finance routes */}
+          <Route element={<RequirePermission permission="finance:view" />}>
+            <Route path="clients" element={<ClientList />} />
+            <Route path="fees" element={<FeeStructure />} />
+            <Route path="statement" element={<Statement />} />
+            <Route path="reports" element={<Reports />} />
+          </Route>
+
           {/* Other routes */}
-          <Route path="clients" element={<ClientList />} />
-          <Route path="statement" element={<Statement />} />
-          <Route path="reports" element={<Reports />} />
-          <Route path="settings" element={<Settings />} />
+          <Route path="comment-bank" element={<CommentBank />} />
+          <Route
+            path="settings"
+            element={
+              <RequirePermission permission="settings:manage">
+                <Settings />
+              </RequirePermission>
+            }
+          />
+          <Route
+            path="team"
+            element={
+              <RequirePermission permission="team:manage">
+                <Team />
+              </RequirePermission>
+            }
+          />
         </Route>
 
         {/* Catch all - redirect to dashboard */}
@@ -4,6 +4,8 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { X, AlertCircle } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { scopeIncludesStudent, scopeIncludesSubject, useTeachingScope } from '../../lib/classes';
+import { gradeLabel } from '../../lib/grades';
 import type { Student, Subject } from '../../types/supabase';
 
 const assessmentSchema = z.object({
@@ -12,6 +14,7 @@ const assessmentSchema = z.object({
   term: z.number().min(1, 'Term must be between 1 and 4').max(4),
   year: z.number().min(2020, 'Invalid year'),
   assessment_type: z.enum(['exam', 'assignment', 'practical', 'project', 'test']),
+  name: z.string().optional(),
   weight: z.number().min(0, 'Weight must be between 0 and 100').max(100),
   score: z.number().min(0, 'Score must be between 0 and 100').max(100),
   comment: z.string().optional(),
@@ -32,6 +35,7 @@ export default function AddAssessmentModal({
   const [students, setStudents] = useState<Student[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [loading, setLoading] = useState(true);
+  const { scope, loading: scopeLoading } = useTeachingScope();
 
   const {
     register,
@@ -107,7 +111,11 @@ export default function AddAssessmentModal({
         .insert({
           ...data,
         })
-        .select()
+        .select(`
+          *,
+          student:students(*),
+          subject:subjects(*)
+        `)
         .single();
 
       if (insertError) throw insertError;
@@ -120,7 +128,7 @@ export default function AddAssessmentModal({
     }
   };
 
-  if (loading) {
+  if (loading || scopeLoading) {
     return (
       <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
         <div className="bg-white rounded-lg max-w-md w-full p-6">
@@ -166,11 +174,13 @@ export default function AddAssessmentModal({
               className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
             >
               <option value="">Select a student</option>
-              {students.map((student) => (
-                <option key={student.id} value={student.id}>
-                  {student.first_name} {student.last_name} (Grade {student.grade})
-                </option>
-              ))}
+              {students
+                .filter(student => scopeIncludesStudent(scope, student))
+                .map((student) => (
+                  <option key={student.id} value={student.id}>
+                    {student.first_name} {student.last_name} ({gradeLabel(student.grade)})
+                  </option>
+                ))}
             </select>
             {errors.student_id && (
               <p className="mt-1 text-sm text-red-600">
@@ -190,6 +200,7 @@ export default function AddAssessmentModal({
               <option value="">Select a subject</option>
               {subjects
                 .filter(subject => !selectedStudent || subject.grade === selectedStudent.grade)
+                .filter(subject => scopeIncludesSubject(scope, subject.id, selectedStudent ? selectedStudent.class_id ?? null : undefined))
                 .map((subject) => (
                   <option key={subject.id} value={subject.id}>
                     {subject.name_en}
@@ -263,6 +274,18 @@ export default function AddAssessmentModal({
             )}
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Name (Optional)
+            </label>
+            <input
+              type="text"
+              {...register('name')}
+              placeholder="e.g. Test 1"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700">
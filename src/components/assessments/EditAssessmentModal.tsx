@@ -12,6 +12,7 @@ const assessmentSchema = z.object({
   term: z.number().min(1, 'Term must be between 1 and 4').max(4),
   year: z.number().min(2020, 'Invalid year'),
   assessment_type: z.enum(['exam', 'assignment', 'practical', 'project', 'test']),
+  name: z.string().optional(),
   weight: z.number().min(0, 'Weight must be between 0 and 100').max(100),
   score: z.number().min(0, 'Score must be between 0 and 100').max(100),
   comment: z.string().optional(),
@@ -47,6 +48,7 @@ export default function EditAssessmentModal({
       term: assessment.term,
       year: assessment.year,
       assessment_type: assessment.assessment_type,
+      name: assessment.name,
       weight: assessment.weight,
       score: assessment.score,
       comment: assessment.comment,
@@ -61,7 +63,11 @@ export default function EditAssessmentModal({
         .from('assessments')
         .update(data)
         .eq('id', assessment.id)
-        .select()
+        .select(`
+          *,
+          student:students(*),
+          subject:subjects(*)
+        `)
         .single();
 
       if (updateError) throw updateError;
@@ -185,6 +191,18 @@ export default function EditAssessmentModal({
             )}
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Name (Optional)
+            </label>
+            <input
+              type="text"
+              {...register('name')}
+              placeholder="e.g. Test 1"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700">
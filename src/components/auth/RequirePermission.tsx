@@ -0,0 +1,29 @@
+import { Navigate, Outlet } from 'react-router-dom';
+import { useAuthStore } from '../../store/auth';
+import { hasPermission, type Permission } from '../../lib/permissions';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  // Where members without the permission are sent instead
+  fallback?: string;
+  children?: JSX.Element;
+}
+
+export default function RequirePermission({ permission, fallback = '/students', children }: RequirePermissionProps) {
+  const membership = useAuthStore((state) => state.membership);
+
+  // Wait for the membership before deciding
+  if (!membership) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-gray-200 border-t-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!hasPermission(membership.role, permission)) {
+    return <Navigate to={fallback} replace />;
+  }
+
+  return children || <Outlet />;
+}
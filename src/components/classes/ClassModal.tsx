@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { GRADES, MIN_GRADE, MAX_GRADE, gradeLabel } from '../../lib/grades';
+import type { Database, SchoolClass } from '../../types/supabase';
+
+type Member = Database['public']['Functions']['get_organisation_members']['Returns'][number];
+
+const classSchema = z.object({
+  grade: z.number().min(MIN_GRADE, 'Please select a grade').max(MAX_GRADE),
+  section: z.string().trim().min(1, 'Section is required').max(10),
+  class_teacher_id: z.string().optional(),
+});
+
+type ClassFormData = z.infer<typeof classSchema>;
+
+interface ClassModalProps {
+  schoolClass?: SchoolClass | null;
+  teachers: Member[];
+  onClose: () => void;
+  onSaved: (schoolClass: SchoolClass) => void;
+}
+
+export default function ClassModal({ schoolClass, teachers, onClose, onSaved }: ClassModalProps) {
+  const [error, setError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ClassFormData>({
+    resolver: zodResolver(classSchema),
+    defaultValues: {
+      grade: schoolClass?.grade ?? 1,
+      section: schoolClass?.section ?? '',
+      class_teacher_id: schoolClass?.class_teacher_id ?? '',
+    },
+  });
+
+  const onSubmit = async (data: ClassFormData) => {
+    try {
+      setError(null);
+
+      const values = {
+        grade: data.grade,
+        section: data.section.toUpperCase(),
+        class_teacher_id: data.class_teacher_id || null,
+      };
+
+      const { data: saved, error: saveError } = schoolClass
+        ? await supabase
+            .from('classes')
+            .update(values)
+            .eq('id', schoolClass.id)
+            .select()
+            .single()
+        : await supabase
+            .from('classes')
+            .insert(values)
+            .select()
+            .single();
+
+      if (saveError) {
+        if (saveError.code === '23505') {
+          setError('This class already exists.');
+          return;
+        }
+        throw saveError;
+      }
+
+      if (saved) {
+        onSaved(saved);
+      }
+    } catch (err) {
+      console.error('Error saving class:', err);
+      setError('Failed to save class. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {schoolClass ? 'Edit Class' : 'New Class'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Grade</label>
+              <select
+                {...register('grade', { valueAsNumber: true })}
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              >
+                {GRADES.map(grade => (
+                  <option key={grade} value={grade}>{gradeLabel(grade)}</option>
+                ))}
+              </select>
+              {errors.grade && (
+                <p className="mt-1 text-sm text-red-600">{errors.grade.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Section</label>
+              <input
+                type="text"
+                {...register('section')}
+                placeholder="e.g. A"
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+              {errors.section && (
+                <p className="mt-1 text-sm text-red-600">{errors.section.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Class Teacher (Optional)</label>
+            <select
+              {...register('class_teacher_id')}
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="">No class teacher</option>
+              {teachers.map(teacher => (
+                <option key={teacher.user_id} value={teacher.user_id}>{teacher.email}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              The class teacher writes the teacher's comment on the class's report cards.
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : schoolClass ? 'Save Changes' : 'Add Class'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { classLabel } from '../../lib/classes';
+import type { Database, SchoolClass, Subject, TeacherAssignment } from '../../types/supabase';
+
+type Member = Database['public']['Functions']['get_organisation_members']['Returns'][number];
+
+interface TeacherAssignmentsModalProps {
+  schoolClass: SchoolClass;
+  teachers: Member[];
+  onClose: () => void;
+  onChanged: (assignments: TeacherAssignment[]) => void;
+}
+
+export default function TeacherAssignmentsModal({
+  schoolClass,
+  teachers,
+  onClose,
+  onChanged,
+}: TeacherAssignmentsModalProps) {
+  const [assignments, setAssignments] = useState<TeacherAssignment[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newAssignment, setNewAssignment] = useState({ subjectId: '', teacherId: '' });
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [
+          { data: assignmentsData, error: assignmentsError },
+          { data: subjectsData, error: subjectsError },
+        ] = await Promise.all([
+          supabase
+            .from('teacher_assignments')
+            .select('*')
+            .eq('class_id', schoolClass.id),
+          supabase
+            .from('subjects')
+            .select('*')
+            .eq('grade', schoolClass.grade)
+            .order('name_en', { ascending: true }),
+        ]);
+
+        if (assignmentsError) throw assignmentsError;
+        if (subjectsError) throw subjectsError;
+
+        setAssignments(assignmentsData || []);
+        setSubjects(subjectsData || []);
+      } catch (err) {
+        console.error('Error fetching teacher assignments:', err);
+        setError('Failed to load teacher assignments. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [schoolClass.id, schoolClass.grade]);
+
+  const updateAssignments = (next: TeacherAssignment[]) => {
+    setAssignments(next);
+    onChanged(next);
+  };
+
+  const handleAdd = async () => {
+    if (!newAssignment.subjectId || !newAssignment.teacherId) {
+      setError('Please select a subject and a teacher');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const { data, error: insertError } = await supabase
+        .from('teacher_assignments')
+        .insert({
+          class_id: schoolClass.id,
+          subject_id: newAssignment.subjectId,
+          teacher_id: newAssignment.teacherId,
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        if (insertError.code === '23505') {
+          setError('This teacher already teaches this subject to the class.');
+          return;
+        }
+        throw insertError;
+      }
+
+      if (data) {
+        updateAssignments([...assignments, data]);
+        setNewAssignment({ subjectId: '', teacherId: '' });
+      }
+    } catch (err) {
+      console.error('Error adding teacher assignment:', err);
+      setError('Failed to assign teacher. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (assignmentId: string) => {
+    try {
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('teacher_assignments')
+        .delete()
+        .eq('id', assignmentId);
+
+      if (deleteError) throw deleteError;
+      updateAssignments(assignments.filter(a => a.id !== assignmentId));
+    } catch (err) {
+      console.error('Error removing teacher assignment:', err);
+      setError('Failed to remove assignment. Please try again.');
+    }
+  };
+
+  const subjectName = (subjectId: string) =>
+    subjects.find(s => s.id === subjectId)?.name_en || 'Unknown subject';
+  const teacherEmail = (teacherId: string) =>
+    teachers.find(t => t.user_id === teacherId)?.email || 'Former staff member';
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Subject Teachers – {classLabel(schoolClass)}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            <ul className="divide-y divide-gray-200 border rounded-md mb-4 max-h-72 overflow-y-auto">
+              {assignments.map(assignment => (
+                <li key={assignment.id} className="px-4 py-3 flex items-center justify-between text-sm">
+                  <div>
+                    <span className="font-medium text-gray-900">{subjectName(assignment.subject_id)}</span>
+                    <span className="ml-2 text-gray-500">{teacherEmail(assignment.teacher_id)}</span>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(assignment.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Remove assignment"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+              {assignments.length === 0 && (
+                <li className="px-4 py-3 text-sm text-gray-500">No subject teachers assigned</li>
+              )}
+            </ul>
+
+            <div className="grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700">Subject</label>
+                <select
+                  value={newAssignment.subjectId}
+                  onChange={(e) => setNewAssignment(prev => ({ ...prev, subjectId: e.target.value }))}
+                  className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  <option value="">Select a subject</option>
+                  {subjects.map(subject => (
+                    <option key={subject.id} value={subject.id}>{subject.name_en}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700">Teacher</label>
+                <select
+                  value={newAssignment.teacherId}
+                  onChange={(e) => setNewAssignment(prev => ({ ...prev, teacherId: e.target.value }))}
+                  className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  <option value="">Select a teacher</option>
+                  {teachers.map(teacher => (
+                    <option key={teacher.user_id} value={teacher.user_id}>{teacher.email}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleAdd}
+                disabled={saving}
+                className="inline-flex items-center justify-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Assign
+              </button>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
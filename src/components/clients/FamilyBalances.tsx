@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { Users } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useSettingsStore } from '../../store/settings';
+import { gradeLabel } from '../../lib/grades';
+import type { FamilyBalance } from '../../types/supabase';
+
+interface FamilyBalancesProps {
+  clientId: string;
+  title?: string;
+  className?: string;
+}
+
+export default function FamilyBalances({
+  clientId,
+  title = 'Family Balances',
+  className = '',
+}: FamilyBalancesProps) {
+  const { currency } = useSettingsStore();
+  const [balances, setBalances] = useState<FamilyBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchBalances = async () => {
+      try {
+        setLoading(true);
+
+        const { data, error } = await supabase
+          .rpc('get_family_balances', { p_client_id: clientId });
+
+        if (error) throw error;
+        setBalances(data || []);
+      } catch (err) {
+        console.error('Error fetching family balances:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (clientId) {
+      fetchBalances();
+    }
+  }, [clientId]);
+
+  if (loading || balances.length === 0) {
+    return null;
+  }
+
+  const householdTotal = balances.reduce((sum, row) => sum + Number(row.balance_due), 0);
+
+  return (
+    <div className={`rounded-lg border border-gray-200 ${className}`}>
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center">
+        <Users className="h-5 w-5 text-gray-400 mr-2" />
+        <h3 className="text-sm font-medium text-gray-900">{title}</h3>
+      </div>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Learner
+            </th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Billed To
+            </th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Balance
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {balances.map((row) => (
+            <tr key={`${row.student_id}-${row.client_id}-${row.student_name}`}>
+              <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                {row.student_name}
+                {row.grade !== null && (
+                  <span className="ml-1 text-gray-500">({gradeLabel(row.grade)})</span>
+                )}
+              </td>
+              <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                {row.client_name}
+                {row.fee_share !== null && ` (${row.fee_share}%)`}
+              </td>
+              <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 text-right">
+                {currency.symbol}{Number(row.balance_due).toFixed(2)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="bg-gray-50">
+          <tr>
+            <td colSpan={2} className="px-4 py-2 text-sm font-medium text-gray-900">
+              Household Total
+            </td>
+            <td className="px-4 py-2 text-sm font-medium text-gray-900 text-right">
+              {currency.symbol}{householdTotal.toFixed(2)}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { commentCategories, commentPlaceholders, performanceLevels } from '../../lib/comments';
+import { gradeLabel } from '../../lib/grades';
+import type { CommentLibrary, Subject } from '../../types/supabase';
+
+const commentSchema = z.object({
+  language: z.enum(['english', 'afrikaans']),
+  category: z.enum(['positive', 'constructive', 'general', 'subject_specific']),
+  performance_level: z.string(),
+  subject_id: z.string(),
+  comment_text: z.string().min(1, 'Comment is required'),
+});
+
+type CommentFormData = z.infer<typeof commentSchema>;
+
+interface CommentModalProps {
+  comment?: CommentLibrary;
+  subjects: Subject[];
+  onClose: () => void;
+  onSaved: (comment: CommentLibrary) => void;
+}
+
+export default function CommentModal({ comment, subjects, onClose, onSaved }: CommentModalProps) {
+  const [error, setError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<CommentFormData>({
+    resolver: zodResolver(commentSchema),
+    defaultValues: {
+      language: comment?.language || 'english',
+      category: comment?.category || 'general',
+      performance_level: comment?.performance_level || '',
+      subject_id: comment?.subject_id || '',
+      comment_text: comment?.comment_text || '',
+    },
+  });
+
+  const onSubmit = async (data: CommentFormData) => {
+    try {
+      setError(null);
+
+      // Get the current user
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) throw userError;
+      if (!user) {
+        setError('You must be logged in to manage comments');
+        return;
+      }
+
+      const values = {
+        language: data.language,
+        category: data.category,
+        performance_level: (data.performance_level || null) as CommentLibrary['performance_level'],
+        subject_id: data.subject_id || null,
+        comment_text: data.comment_text.trim(),
+      };
+
+      const { data: saved, error: saveError } = comment
+        ? await supabase
+            .from('comments_library')
+            .update(values)
+            .eq('id', comment.id)
+            .select()
+            .single()
+        : await supabase
+            .from('comments_library')
+            .insert({ ...values, user_id: user.id })
+            .select()
+            .single();
+
+      if (saveError) throw saveError;
+      if (saved) {
+        onSaved(saved);
+      }
+    } catch (err) {
+      console.error('Error saving comment:', err);
+      setError('Failed to save comment. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {comment ? 'Edit Comment' : 'New Comment'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Language</label>
+              <select
+                {...register('language')}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="english">English</option>
+                <option value="afrikaans">Afrikaans</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Category</label>
+              <select
+                {...register('category')}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                {commentCategories.map(category => (
+                  <option key={category.value} value={category.value}>{category.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Performance Level</label>
+            <select
+              {...register('performance_level')}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="">Any Level</option>
+              {performanceLevels.map(level => (
+                <option key={level.value} value={level.value}>{level.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Subject</label>
+            <select
+              {...register('subject_id')}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="">All Subjects</option>
+              {subjects.map(subject => (
+                <option key={subject.id} value={subject.id}>
+                  {subject.name_en} ({gradeLabel(subject.grade)})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Comment</label>
+            <textarea
+              {...register('comment_text')}
+              rows={4}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Placeholders: {commentPlaceholders.join(', ')}
+            </p>
+            {errors.comment_text && (
+              <p className="mt-1 text-sm text-red-600">{errors.comment_text.message}</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import type { CreditNote, CreditNoteEvent } from '../../types/supabase';
+
+interface CreditNoteHistoryModalProps {
+  creditNote: Pick<CreditNote, 'id' | 'number'>;
+  onClose: () => void;
+}
+
+const eventLabels: Record<CreditNoteEvent['event_type'], string> = {
+  created: 'Created',
+  issued: 'Issued',
+  voided: 'Voided',
+};
+
+const eventStyles: Record<CreditNoteEvent['event_type'], string> = {
+  created: 'bg-gray-400',
+  issued: 'bg-green-500',
+  voided: 'bg-red-500',
+};
+
+export default function CreditNoteHistoryModal({ creditNote, onClose }: CreditNoteHistoryModalProps) {
+  const [events, setEvents] = useState<CreditNoteEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data, error: fetchError } = await supabase
+          .from('credit_note_events')
+          .select('*')
+          .eq('credit_note_id', creditNote.id)
+          .order('created_at', { ascending: true });
+
+        if (fetchError) throw fetchError;
+        setEvents(data || []);
+      } catch (err) {
+        console.error('Error fetching credit note history:', err);
+        setError('Failed to load history. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [creditNote.id]);
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">History of {creditNote.number}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-6">
+            <div className="inline-block animate-spin rounded-full h-6 w-6 border-4 border-gray-200 border-t-blue-600"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500">No history recorded for this credit note.</p>
+        ) : (
+          <ul className="space-y-4">
+            {events.map((event) => (
+              <li key={event.id} className="flex items-start">
+                <span className={`mt-1.5 h-2 w-2 rounded-full ${eventStyles[event.event_type]}`} />
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-gray-900">{eventLabels[event.event_type]}</p>
+                  {event.created_at && (
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(event.created_at), 'MMM d, yyyy HH:mm')}
+                    </p>
+                  )}
+                  {event.notes && (
+                    <p className="mt-1 text-sm text-gray-700">{event.notes}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
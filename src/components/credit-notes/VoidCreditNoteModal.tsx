@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { X, Ban } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import type { CreditNote } from '../../types/supabase';
+
+const voidSchema = z.object({
+  void_reason: z.string().trim().min(1, 'Reason is required'),
+});
+
+type VoidFormData = z.infer<typeof voidSchema>;
+
+interface VoidCreditNoteModalProps {
+  creditNote: Pick<CreditNote, 'id' | 'number'>;
+  onClose: () => void;
+  onVoided: () => void;
+}
+
+export default function VoidCreditNoteModal({ creditNote, onClose, onVoided }: VoidCreditNoteModalProps) {
+  const [error, setError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<VoidFormData>({
+    resolver: zodResolver(voidSchema),
+    defaultValues: {
+      void_reason: '',
+    },
+  });
+
+  const onSubmit = async (data: VoidFormData) => {
+    try {
+      setError(null);
+
+      const { error: voidError } = await supabase
+        .from('credit_notes')
+        .update({
+          status: 'void',
+          void_reason: data.void_reason,
+        })
+        .eq('id', creditNote.id);
+
+      if (voidError) throw voidError;
+      onVoided();
+    } catch (err) {
+      console.error('Error voiding credit note:', err);
+      setError('Failed to void credit note. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Void Credit Note</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600 mb-4">
+          Voiding {creditNote.number} removes its credit from the invoice and client account.
+          The note is kept with its history and cannot be issued again.
+        </p>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Reason</label>
+            <textarea
+              {...register('void_reason')}
+              rows={3}
+              placeholder="Why is this credit note being voided?"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {errors.void_reason && (
+              <p className="mt-1 text-sm text-red-600">{errors.void_reason.message}</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+            >
+              <Ban className="h-4 w-4 mr-2" />
+              {isSubmitting ? 'Voiding...' : 'Void Credit Note'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { describeReminderOffset } from '../../lib/reminders';
+import type {
+  EmailDocumentType,
+  EmailEvent,
+  EmailLog,
+  EmailTrackingStats,
+} from '../../types/supabase';
+
+type EmailLogWithEvents = EmailLog & {
+  events: EmailEvent[];
+};
+
+interface EmailHistoryModalProps {
+  title: string;
+  documentType: EmailDocumentType;
+  documentId: string;
+  onClose: () => void;
+}
+
+const documentColumns: Record<EmailDocumentType, 'invoice_id' | 'client_id' | 'report_card_id'> = {
+  invoice: 'invoice_id',
+  statement: 'client_id',
+  report_card: 'report_card_id',
+};
+
+const statusStyles: Record<EmailLog['status'], string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  sending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const eventLabels: Record<EmailEvent['event_type'], string> = {
+  queued: 'Queued',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  opened: 'Opened',
+  clicked: 'Link clicked',
+  bounced: 'Bounced',
+  complained: 'Marked as spam',
+  unsubscribed: 'Unsubscribed',
+};
+
+const eventStyles: Record<EmailEvent['event_type'], string> = {
+  queued: 'bg-gray-400',
+  sent: 'bg-blue-500',
+  delivered: 'bg-green-500',
+  opened: 'bg-green-500',
+  clicked: 'bg-green-500',
+  bounced: 'bg-red-500',
+  complained: 'bg-red-500',
+  unsubscribed: 'bg-yellow-500',
+};
+
+const formatTime = (value: string) => format(new Date(value), 'MMM d, yyyy HH:mm');
+
+// Reminders are sent by the daily job rather than by a person
+const reminderLabel = (log: EmailLog) => {
+  const daysOffset = log.metadata?.reminder_days_offset;
+  return typeof daysOffset === 'number'
+    ? `Payment reminder, ${describeReminderOffset(daysOffset).toLowerCase()}`
+    : null;
+};
+
+export default function EmailHistoryModal({
+  title,
+  documentType,
+  documentId,
+  onClose,
+}: EmailHistoryModalProps) {
+  const [logs, setLogs] = useState<EmailLogWithEvents[]>([]);
+  const [stats, setStats] = useState<EmailTrackingStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data, error: fetchError } = await supabase
+          .from('email_logs')
+          .select('*, events:email_events(*)')
+          .eq('document_type', documentType)
+          .eq(documentColumns[documentType], documentId)
+          .order('created_at', { ascending: false });
+
+        if (fetchError) throw fetchError;
+        setLogs((data || []) as EmailLogWithEvents[]);
+
+        // Open and click totals are only kept for invoices
+        if (documentType === 'invoice') {
+          const { data: statsData, error: statsError } = await supabase
+            .rpc('get_email_tracking_stats', { p_invoice_id: documentId });
+
+          if (statsError) throw statsError;
+          setStats(statsData?.[0] || null);
+        }
+      } catch (err) {
+        console.error('Error fetching email history:', err);
+        setError('Failed to load email history. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [documentType, documentId]);
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {stats && stats.total_sent > 0 && (
+          <dl className="mb-4 grid grid-cols-3 gap-4 rounded-md bg-gray-50 p-3 text-center">
+            <div>
+              <dt className="text-xs text-gray-500">Sent</dt>
+              <dd className="text-lg font-semibold text-gray-900">{stats.total_sent}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Delivered</dt>
+              <dd className="text-lg font-semibold text-gray-900">{stats.total_delivered}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Opened</dt>
+              <dd className="text-lg font-semibold text-gray-900">{stats.total_opened}</dd>
+              {stats.last_opened && (
+                <dd className="text-xs text-gray-500">Last {formatTime(stats.last_opened)}</dd>
+              )}
+            </div>
+          </dl>
+        )}
+
+        {loading ? (
+          <div className="text-center py-6">
+            <div className="inline-block animate-spin rounded-full h-6 w-6 border-4 border-gray-200 border-t-blue-600"></div>
+          </div>
+        ) : logs.length === 0 ? (
+          <p className="text-sm text-gray-500">This has not been emailed yet.</p>
+        ) : (
+          <div className="space-y-6 max-h-96 overflow-y-auto">
+            {logs.map((log) => (
+              <div key={log.id}>
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{log.subject}</p>
+                    {reminderLabel(log) && (
+                      <p className="text-xs text-blue-600">{reminderLabel(log)}</p>
+                    )}
+                    <p className="text-xs text-gray-500 truncate">To {log.to_email}</p>
+                    {log.cc_email && (
+                      <p className="text-xs text-gray-500 truncate">Cc {log.cc_email}</p>
+                    )}
+                  </div>
+                  <span className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[log.status]}`}>
+                    {log.status}
+                  </span>
+                </div>
+
+                <ul className="mt-3 space-y-3 border-l border-gray-200 ml-1 pl-4">
+                  {log.created_at && (
+                    <li className="relative">
+                      <span className={`absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full ${eventStyles.queued}`} />
+                      <p className="text-sm text-gray-900">{eventLabels.queued}</p>
+                      <p className="text-xs text-gray-500">{formatTime(log.created_at)}</p>
+                    </li>
+                  )}
+                  {[...log.events]
+                    .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at))
+                    .map((event) => (
+                      <li key={event.id} className="relative">
+                        <span className={`absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full ${eventStyles[event.event_type]}`} />
+                        <p className="text-sm text-gray-900">{eventLabels[event.event_type]}</p>
+                        <p className="text-xs text-gray-500">{formatTime(event.occurred_at)}</p>
+                      </li>
+                    ))}
+                  {log.status === 'failed' && log.error && (
+                    <li className="relative">
+                      <span className="absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full bg-red-500" />
+                      <p className="text-sm text-gray-900">Failed</p>
+                      <p className="text-xs text-red-600">{log.error}</p>
+                    </li>
+                  )}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
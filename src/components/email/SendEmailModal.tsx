@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { X, Paperclip, Send } from 'lucide-react';
+import type { jsPDF } from 'jspdf';
+import { useSettingsStore } from '../../store/settings';
+import {
+  isValidEmail,
+  parseAddresses,
+  renderTemplate,
+  sendDocumentEmail,
+  type MergeValues,
+} from '../../lib/email';
+import type { EmailDocumentType } from '../../types/supabase';
+
+const addressList = (required: boolean) =>
+  z.string().refine(
+    (value) => {
+      const addresses = parseAddresses(value);
+      return (!required || addresses.length > 0) && addresses.every(isValidEmail);
+    },
+    required ? 'Enter one or more valid email addresses' : 'Enter valid email addresses'
+  );
+
+const emailSchema = z.object({
+  to: addressList(true),
+  cc: addressList(false),
+  bcc: addressList(false),
+  subject: z.string().trim().min(1, 'Subject is required'),
+  body: z.string().trim().min(1, 'Message is required'),
+  attachPdf: z.boolean(),
+});
+
+type EmailFormData = z.infer<typeof emailSchema>;
+
+interface SendEmailModalProps {
+  documentType: EmailDocumentType;
+  title: string;
+  recipient?: string | null;
+  mergeValues: MergeValues;
+  attachment: {
+    filename: string;
+    create: () => jsPDF;
+  };
+  // The document the email is about
+  reference: {
+    invoiceId?: string;
+    clientId?: string;
+    reportCardId?: string;
+  };
+  onClose: () => void;
+  onSent: () => void;
+}
+
+export default function SendEmailModal({
+  documentType,
+  title,
+  recipient,
+  mergeValues,
+  attachment,
+  reference,
+  onClose,
+  onSent,
+}: SendEmailModalProps) {
+  const template = useSettingsStore((state) => state.emailSettings.templates[documentType]);
+  const [error, setError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<EmailFormData>({
+    resolver: zodResolver(emailSchema),
+    defaultValues: {
+      to: recipient || '',
+      cc: '',
+      bcc: '',
+      subject: renderTemplate(template.subject, mergeValues),
+      body: renderTemplate(template.body, mergeValues),
+      attachPdf: true,
+    },
+  });
+
+  const onSubmit = async (data: EmailFormData) => {
+    try {
+      setError(null);
+
+      await sendDocumentEmail({
+        documentType,
+        ...reference,
+        to: parseAddresses(data.to),
+        cc: parseAddresses(data.cc),
+        bcc: parseAddresses(data.bcc),
+        subject: data.subject,
+        body: data.body,
+        attachment: data.attachPdf
+          ? { filename: attachment.filename, doc: attachment.create() }
+          : undefined,
+      });
+
+      onSent();
+    } catch (err) {
+      console.error('Error sending email:', err);
+      setError('Failed to send email. Please check the addresses and try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To</label>
+            <input
+              type="text"
+              {...register('to')}
+              placeholder="name@example.com"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {errors.to && (
+              <p className="mt-1 text-sm text-red-600">{errors.to.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Cc</label>
+              <input
+                type="text"
+                {...register('cc')}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+              {errors.cc && (
+                <p className="mt-1 text-sm text-red-600">{errors.cc.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Bcc</label>
+              <input
+                type="text"
+                {...register('bcc')}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+              {errors.bcc && (
+                <p className="mt-1 text-sm text-red-600">{errors.bcc.message}</p>
+              )}
+            </div>
+          </div>
+          <p className="-mt-2 text-xs text-gray-500">
+            Separate several addresses with commas.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Subject</label>
+            <input
+              type="text"
+              {...register('subject')}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {errors.subject && (
+              <p className="mt-1 text-sm text-red-600">{errors.subject.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Message</label>
+            <textarea
+              {...register('body')}
+              rows={8}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {errors.body && (
+              <p className="mt-1 text-sm text-red-600">{errors.body.message}</p>
+            )}
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              {...register('attachPdf')}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <Paperclip className="h-4 w-4 ml-2 mr-1 text-gray-400" />
+            <span>Attach {attachment.filename}</span>
+          </label>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {isSubmitting ? 'Sending...' : 'Send'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { gradeLabel } from '../../lib/grades';
+import type { FeeItem } from '../../types/supabase';
+
+type StudentOption = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  grade: number;
+};
+
+interface FeeExtraStudentsModalProps {
+  feeItem: FeeItem;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export default function FeeExtraStudentsModal({
+  feeItem,
+  onClose,
+  onSaved,
+}: FeeExtraStudentsModalProps) {
+  const [students, setStudents] = useState<StudentOption[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+
+        let studentQuery = supabase
+          .from('students')
+          .select('id, first_name, last_name, grade')
+          .order('grade')
+          .order('last_name');
+
+        if (feeItem.grade !== null) {
+          studentQuery = studentQuery.eq('grade', feeItem.grade);
+        }
+
+        const [
+          { data: studentData, error: studentError },
+          { data: extraData, error: extraError },
+        ] = await Promise.all([
+          studentQuery,
+          supabase
+            .from('student_fee_extras')
+            .select('student_id')
+            .eq('fee_item_id', feeItem.id),
+        ]);
+
+        if (studentError) throw studentError;
+        if (extraError) throw extraError;
+
+        setStudents(studentData || []);
+        setSelected(new Set((extraData || []).map((extra) => extra.student_id)));
+      } catch (err) {
+        console.error('Error fetching fee extra learners:', err);
+        setError('Failed to load learners. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [feeItem.id]);
+
+  const toggleStudent = (studentId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(studentId)) {
+        next.delete(studentId);
+      } else {
+        next.add(studentId);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      // Get the current user
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) throw userError;
+      if (!user) {
+        setError('You must be logged in to manage fees');
+        return;
+      }
+
+      const { error: deleteError } = await supabase
+        .from('student_fee_extras')
+        .delete()
+        .eq('fee_item_id', feeItem.id);
+
+      if (deleteError) throw deleteError;
+
+      if (selected.size > 0) {
+        const { error: insertError } = await supabase
+          .from('student_fee_extras')
+          .insert(
+            Array.from(selected).map((studentId) => ({
+              student_id: studentId,
+              fee_item_id: feeItem.id,
+              user_id: user.id,
+            }))
+          );
+
+        if (insertError) throw insertError;
+      }
+
+      onSaved();
+      onClose();
+    } catch (err) {
+      console.error('Error saving fee extra learners:', err);
+      setError('Failed to save learners. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">{feeItem.name} – Learners</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-200">
+              {students.map((student) => (
+                <label key={student.id} className="flex items-center px-3 py-2 text-sm hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(student.id)}
+                    onChange={() => toggleStudent(student.id)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span className="ml-2 text-gray-900">
+                    {student.first_name} {student.last_name}
+                  </span>
+                  <span className="ml-auto text-gray-500">{gradeLabel(student.grade)}</span>
+                </label>
+              ))}
+              {students.length === 0 && (
+                <p className="px-3 py-4 text-sm text-center text-gray-500">No learners found</p>
+              )}
+            </div>
+
+            <div className="flex justify-between items-center mt-6">
+              <span className="text-sm text-gray-500">{selected.size} selected</span>
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
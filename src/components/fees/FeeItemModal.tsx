@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useSettingsStore } from '../../store/settings';
+import { GRADES, gradeLabel } from '../../lib/grades';
+import type { FeeItem } from '../../types/supabase';
+
+const feeItemSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  grade: z.string(),
+  amount: z.number().min(0, 'Amount must be at least 0'),
+  category: z.enum(['tuition', 'extra']),
+  is_active: z.boolean(),
+});
+
+type FeeItemFormData = z.infer<typeof feeItemSchema>;
+
+interface FeeItemModalProps {
+  feeItem?: FeeItem;
+  onClose: () => void;
+  onSaved: (feeItem: FeeItem) => void;
+}
+
+export default function FeeItemModal({ feeItem, onClose, onSaved }: FeeItemModalProps) {
+  const { currency } = useSettingsStore();
+  const [error, setError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<FeeItemFormData>({
+    resolver: zodResolver(feeItemSchema),
+    defaultValues: {
+      name: feeItem?.name || '',
+      grade: feeItem?.grade === null || feeItem?.grade === undefined ? '' : feeItem.grade.toString(),
+      amount: feeItem?.amount || 0,
+      category: feeItem?.category || 'tuition',
+      is_active: feeItem?.is_active ?? true,
+    },
+  });
+
+  const onSubmit = async (data: FeeItemFormData) => {
+    try {
+      setError(null);
+
+      // Get the current user
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) throw userError;
+      if (!user) {
+        setError('You must be logged in to manage fees');
+        return;
+      }
+
+      const values = {
+        name: data.name,
+        grade: data.grade === '' ? null : parseInt(data.grade),
+        amount: data.amount,
+        category: data.category,
+        is_active: data.is_active,
+      };
+
+      const { data: saved, error: saveError } = feeItem
+        ? await supabase
+            .from('fee_items')
+            .update({ ...values, updated_at: new Date().toISOString() })
+            .eq('id', feeItem.id)
+            .select()
+            .single()
+        : await supabase
+            .from('fee_items')
+            .insert({ ...values, user_id: user.id })
+            .select()
+            .single();
+
+      if (saveError) throw saveError;
+      if (saved) {
+        onSaved(saved);
+      }
+    } catch (err) {
+      console.error('Error saving fee item:', err);
+      setError('Failed to save fee item. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {feeItem ? 'Edit Fee Item' : 'New Fee Item'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              {...register('name')}
+              placeholder="e.g. Tuition"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {errors.name && (
+              <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Category</label>
+              <select
+                {...register('category')}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="tuition">Tuition (every learner)</option>
+                <option value="extra">Extra (opt-in)</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Grade</label>
+              <select
+                {...register('grade')}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="">All Grades</option>
+                {GRADES.map(grade => (
+                  <option key={grade} value={grade}>{gradeLabel(grade)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Amount per Term ({currency.symbol})
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              {...register('amount', { valueAsNumber: true })}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {errors.amount && (
+              <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>
+            )}
+          </div>
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              {...register('is_active')}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            <label className="ml-2 block text-sm text-gray-700">Active</label>
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
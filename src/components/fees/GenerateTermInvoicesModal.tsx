@@ -0,0 +1,438 @@
+import { useState } from 'react';
+import { format, addDays } from 'date-fns';
+import { X, AlertCircle } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useSettingsStore } from '../../store/settings';
+import { gradeLabel } from '../../lib/grades';
+import {
+  buildTermInvoices,
+  applyEarlyPaymentDiscount,
+  type DraftTermInvoice,
+  type FeeStudent,
+} from '../../lib/fees';
+import type { FeeDiscount, FeeItem } from '../../types/supabase';
+
+// Shape of the learner query below. The Database type has no relationships,
+// so the embedded client is cast from the inferred result
+type FeeStudentRow = Omit<FeeStudent, 'guardians'> & {
+  guardians: {
+    client_id: string;
+    fee_share: number;
+    client: { name: string } | null;
+  }[] | null;
+};
+
+type PreviewRow = DraftTermInvoice & {
+  selected: boolean;
+  earlyPayment: boolean;
+  alreadyInvoiced: boolean;
+};
+
+interface GenerateTermInvoicesModalProps {
+  feeItems: FeeItem[];
+  discounts: FeeDiscount[];
+  onClose: () => void;
+  onGenerated: (count: number) => void;
+}
+
+export default function GenerateTermInvoicesModal({
+  feeItems,
+  discounts,
+  onClose,
+  onGenerated,
+}: GenerateTermInvoicesModalProps) {
+  const { currency, invoiceSettings } = useSettingsStore();
+  const [term, setTerm] = useState(1);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [invoiceDate, setInvoiceDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [dueDate, setDueDate] = useState(
+    format(addDays(new Date(), invoiceSettings.defaultDueDate), 'yyyy-MM-dd')
+  );
+  const [taxRate, setTaxRate] = useState(invoiceSettings.defaultTaxRate);
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [unlinkedCount, setUnlinkedCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const earlyPaymentDiscount = discounts.find((d) => d.discount_type === 'early_payment');
+
+  const formatAmount = (amount: number) => `${currency.symbol}${amount.toFixed(2)}`;
+
+  const handlePreview = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        { data: studentData, error: studentError },
+        { data: extraData, error: extraError },
+        { data: existingData, error: existingError },
+      ] = await Promise.all([
+        supabase
+          .from('students')
+          .select(`
+            id, first_name, last_name, grade, date_of_birth,
+            guardians:student_guardians(client_id, fee_share, client:clients(name))
+          `)
+          .order('grade', { ascending: false }),
+        supabase.from('student_fee_extras').select('student_id, fee_item_id'),
+        supabase
+          .from('invoices')
+          .select('client_id, student_id')
+          .eq('fee_term', term)
+          .eq('fee_year', year),
+      ]);
+
+      if (studentError) throw studentError;
+      if (extraError) throw extraError;
+      if (existingError) throw existingError;
+
+      const students: FeeStudent[] = ((studentData || []) as unknown as FeeStudentRow[]).map((student) => ({
+        ...student,
+        guardians: (student.guardians || []).map((guardian) => ({
+          client_id: guardian.client_id,
+          client_name: guardian.client?.name || 'Unknown Client',
+          fee_share: Number(guardian.fee_share),
+        })),
+      }));
+
+      const invoiced = new Set(
+        (existingData || []).map((invoice) => `${invoice.student_id}-${invoice.client_id}`)
+      );
+
+      const drafts = buildTermInvoices({
+        students,
+        feeItems,
+        extras: extraData || [],
+        discounts,
+        term,
+        year,
+      });
+
+      setUnlinkedCount(students.filter((student) => student.guardians.length === 0).length);
+      setPreview(
+        drafts.map((draft) => ({
+          ...draft,
+          alreadyInvoiced: invoiced.has(draft.key),
+          selected: !invoiced.has(draft.key),
+          earlyPayment: false,
+        }))
+      );
+    } catch (err) {
+      console.error('Error building term invoice preview:', err);
+      setError('Failed to build the invoice preview. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resolveRow = (row: PreviewRow) =>
+    row.earlyPayment && earlyPaymentDiscount
+      ? applyEarlyPaymentDiscount(row, earlyPaymentDiscount)
+      : row;
+
+  const updateRow = (key: string, changes: Partial<PreviewRow>) => {
+    setPreview(prev => prev?.map((row) => (row.key === key ? { ...row, ...changes } : row)) || null);
+  };
+
+  const selectedRows = preview?.filter((row) => row.selected) || [];
+  const selectedTotal = selectedRows.reduce((sum, row) => sum + resolveRow(row).subtotal, 0);
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      setError(null);
+      setProgress(0);
+
+      // Get the current user
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) throw userError;
+      if (!user) {
+        setError('You must be logged in to generate invoices');
+        return;
+      }
+
+      let created = 0;
+      const failed: string[] = [];
+
+      // Invoice numbers are sequential, so create one invoice at a time
+      for (const row of selectedRows) {
+        const draft = resolveRow(row);
+        try {
+          const { data: number, error: numberError } = await supabase.rpc('generate_invoice_number');
+          if (numberError) throw numberError;
+
+          const { data: invoice, error: invoiceError } = await supabase
+            .from('invoices')
+            .insert({
+              number,
+              client_id: draft.client_id,
+              student_id: draft.student_id,
+              date: invoiceDate,
+              due_date: dueDate,
+              tax_rate: taxRate,
+              currency_code: currency.code,
+              status: 'draft',
+              fee_term: term,
+              fee_year: year,
+              user_id: user.id,
+            })
+            .select()
+            .single();
+
+          if (invoiceError) throw invoiceError;
+
+          const { error: itemsError } = await supabase
+            .from('invoice_items')
+            .insert(draft.items.map((item) => ({ ...item, invoice_id: invoice.id })));
+
+          if (itemsError) {
+            // Don't leave an empty draft behind; it would count as invoiced
+            const { error: deleteError } = await supabase
+              .from('invoices')
+              .delete()
+              .eq('id', invoice.id);
+
+            if (deleteError) console.error('Error removing incomplete invoice:', deleteError);
+            throw itemsError;
+          }
+          created++;
+        } catch (err) {
+          console.error(`Error creating invoice for ${draft.student_name}:`, err);
+          failed.push(`${draft.student_name} (${draft.client_name})`);
+        }
+        setProgress(prev => prev + 1);
+      }
+
+      // Keep the dialog open so the failures can be reviewed
+      if (failed.length > 0) {
+        setError(`Created ${created} invoices. Failed for: ${failed.join(', ')}`);
+        setPreview(null);
+        return;
+      }
+
+      onGenerated(created);
+      onClose();
+    } catch (err) {
+      console.error('Error generating term invoices:', err);
+      setError('Failed to generate invoices. Please try again.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Generate Term Invoices</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Term</label>
+            <select
+              value={term}
+              onChange={(e) => {
+                setTerm(parseInt(e.target.value));
+                setPreview(null);
+              }}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              {[1, 2, 3, 4].map((t) => (
+                <option key={t} value={t}>Term {t}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Year</label>
+            <input
+              type="number"
+              value={year}
+              onChange={(e) => {
+                setYear(parseInt(e.target.value));
+                setPreview(null);
+              }}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Invoice Date</label>
+            <input
+              type="date"
+              value={invoiceDate}
+              onChange={(e) => setInvoiceDate(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Due Date</label>
+            <input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Tax Rate (%)</label>
+            <input
+              type="number"
+              step="0.1"
+              value={taxRate}
+              onChange={(e) => setTaxRate(parseFloat(e.target.value) || 0)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+        </div>
+
+        {!preview ? (
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={loading}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? 'Building Preview...' : 'Preview Invoices'}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {unlinkedCount > 0 && (
+              <div className="flex items-center p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+                <AlertCircle className="h-5 w-5 mr-2" />
+                {unlinkedCount} learner(s) have no billing guardian and will not be invoiced.
+              </div>
+            )}
+
+            <div className="overflow-x-auto border border-gray-200 rounded-md">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2"></th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Learner
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Billed To
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Lines
+                    </th>
+                    {earlyPaymentDiscount && (
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Early Payment
+                      </th>
+                    )}
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Subtotal
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {preview.map((row) => {
+                    const draft = resolveRow(row);
+                    return (
+                      <tr key={row.key} className={row.selected ? '' : 'opacity-50'}>
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={row.selected}
+                            onChange={(e) => updateRow(row.key, { selected: e.target.checked })}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {row.student_name}
+                          <div className="text-xs text-gray-500">{gradeLabel(row.grade)}</div>
+                          {row.alreadyInvoiced && (
+                            <div className="text-xs text-yellow-700">Already invoiced this term</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500">
+                          {row.client_name}
+                          {row.fee_share < 100 && ` (${row.fee_share}%)`}
+                        </td>
+                        <td className="px-4 py-2 text-xs text-gray-500">
+                          {draft.items.map((item, index) => (
+                            <div key={index}>
+                              {item.description}: {formatAmount(item.amount)}
+                            </div>
+                          ))}
+                        </td>
+                        {earlyPaymentDiscount && (
+                          <td className="px-4 py-2">
+                            <input
+                              type="checkbox"
+                              checked={row.earlyPayment}
+                              onChange={(e) => updateRow(row.key, { earlyPayment: e.target.checked })}
+                              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                            />
+                          </td>
+                        )}
+                        <td className="px-4 py-2 text-sm text-gray-900 text-right">
+                          {formatAmount(draft.subtotal)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {preview.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-4 text-center text-sm text-gray-500">
+                        No fees apply to any linked learner for this term
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">
+                {generating
+                  ? `Creating ${progress} of ${selectedRows.length}...`
+                  : `${selectedRows.length} draft invoices, ${formatAmount(selectedTotal)} before tax`}
+              </span>
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setPreview(null)}
+                  disabled={generating}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handleGenerate}
+                  disabled={generating || selectedRows.length === 0}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {generating ? 'Generating...' : 'Create Draft Invoices'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,18 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { X, DollarSign } from 'lucide-react';
+import { X, DollarSign, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { supabase } from '../../lib/supabase';
+import { getAmountCredited, getAmountPaid, paymentMethods } from '../../lib/payments';
+import type { CreditAllocation, Payment } from '../../types/supabase';
 
 const paymentSchema = z.object({
   amount: z.number().min(0.01, 'Amount must be greater than 0'),
   date: z.string().min(1, 'Payment date is required'),
+  method: z.enum(['eft', 'cash', 'card', 'cheque', 'debit_order', 'other']),
+  reference: z.string().optional(),
   notes: z.string().optional(),
 });
 
@@ -17,9 +21,12 @@ type PaymentFormData = z.infer<typeof paymentSchema>;
 interface RecordPaymentModalProps {
   invoice: {
     id: string;
+    client_id: string;
     total: number;
     number: string;
     currency_code: string;
+    payments?: Payment[];
+    credit_allocations?: Pick<CreditAllocation, 'amount'>[];
   };
   onClose: () => void;
   onPaymentRecorded: () => void;
@@ -31,33 +38,101 @@ export default function RecordPaymentModal({
   onPaymentRecorded,
 }: RecordPaymentModalProps) {
   const [error, setError] = useState<string | null>(null);
+  const [payments, setPayments] = useState<Payment[]>(invoice.payments || []);
+  const amountPaid = getAmountPaid(payments);
+  const amountCredited = getAmountCredited(invoice.credit_allocations);
+  const balanceDue = Math.max(invoice.total - amountPaid - amountCredited, 0);
   const {
     register,
     handleSubmit,
+    setValue,
     formState: { errors, isSubmitting },
   } = useForm<PaymentFormData>({
     resolver: zodResolver(paymentSchema),
     defaultValues: {
-      amount: invoice.total,
+      amount: balanceDue,
       date: format(new Date(), 'yyyy-MM-dd'),
+      method: 'eft',
     },
   });
 
+  useEffect(() => {
+    const fetchPayments = async () => {
+      try {
+        const { data, error: fetchError } = await supabase
+          .from('payments')
+          .select('*')
+          .eq('invoice_id', invoice.id)
+          .order('date', { ascending: true });
+
+        if (fetchError) throw fetchError;
+        setPayments(data || []);
+        setValue('amount', Math.max(invoice.total - getAmountPaid(data) - amountCredited, 0));
+      } catch (err) {
+        console.error('Error fetching payments:', err);
+      }
+    };
+
+    fetchPayments();
+  }, [invoice.id]);
+
+  const handleDeletePayment = async (paymentId: string) => {
+    if (!confirm('Are you sure you want to remove this payment?')) return;
+
+    try {
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('payments')
+        .delete()
+        .eq('id', paymentId);
+
+      if (deleteError) throw deleteError;
+
+      const remaining = payments.filter((payment) => payment.id !== paymentId);
+      setPayments(remaining);
+      setValue('amount', Math.max(invoice.total - getAmountPaid(remaining) - amountCredited, 0));
+      onPaymentRecorded();
+    } catch (err) {
+      console.error('Error deleting payment:', err);
+      setError('Failed to remove payment. Please try again.');
+    }
+  };
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: invoice.currency_code,
+    }).format(amount);
+
   const onSubmit = async (data: PaymentFormData) => {
     try {
       setError(null);
 
-      // Update invoice status to paid
-      const { error: updateError } = await supabase
-        .from('invoices')
-        .update({
-          status: 'paid',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', invoice.id);
+      // Get the current user
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) throw userError;
+      if (!user) {
+        setError('You must be logged in to record payments');
+        return;
+      }
+
+      const { error: insertError } = await supabase
+        .from('payments')
+        .insert({
+          invoice_id: invoice.id,
+          client_id: invoice.client_id,
+          amount: data.amount,
+          date: data.date,
+          method: data.method,
+          reference: data.reference || undefined,
+          notes: data.notes || undefined,
+          user_id: user.id,
+        });
 
-      if (updateError) throw updateError;
+      if (insertError) throw insertError;
 
+      // The invoice status is updated from the payments by the database
       onPaymentRecorded();
       onClose();
     } catch (error) {
@@ -80,8 +155,56 @@ export default function RecordPaymentModal({
           <p className="text-sm text-gray-600">
             Recording payment for invoice #{invoice.number}
           </p>
+          <dl className={`mt-2 grid ${amountCredited > 0 ? 'grid-cols-4' : 'grid-cols-3'} gap-2 text-sm`}>
+            <div>
+              <dt className="text-gray-500">Total</dt>
+              <dd className="font-medium text-gray-900">{formatAmount(invoice.total)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Paid</dt>
+              <dd className="font-medium text-gray-900">{formatAmount(amountPaid)}</dd>
+            </div>
+            {amountCredited > 0 && (
+              <div>
+                <dt className="text-gray-500">Credited</dt>
+                <dd className="font-medium text-gray-900">{formatAmount(amountCredited)}</dd>
+              </div>
+            )}
+            <div>
+              <dt className="text-gray-500">Balance Due</dt>
+              <dd className="font-medium text-gray-900">{formatAmount(balanceDue)}</dd>
+            </div>
+          </dl>
         </div>
 
+        {payments.length > 0 && (
+          <div className="mb-4">
+            <h3 className="text-sm font-medium text-gray-700">Payment History</h3>
+            <ul className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {payments.map((payment) => (
+                <li key={payment.id} className="px-3 py-2 flex justify-between text-sm">
+                  <span className="text-gray-600">
+                    {format(new Date(payment.date), 'MMM d, yyyy')} &middot;{' '}
+                    {paymentMethods.find((m) => m.value === payment.method)?.label}
+                    {payment.reference && ` (${payment.reference})`}
+                  </span>
+                  <span className="flex items-center font-medium text-gray-900">
+                    {formatAmount(payment.amount)}
+                    <button
+                      type="button"
+                      onClick={() => handleDeletePayment(payment.id)}
+                      className="ml-2 text-gray-400 hover:text-red-600"
+                      title="Remove payment"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {error && (
           <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
             {error}
@@ -134,6 +257,42 @@ export default function RecordPaymentModal({
             )}
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="method"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Payment Method
+              </label>
+              <select
+                {...register('method')}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                {paymentMethods.map((method) => (
+                  <option key={method.value} value={method.value}>
+                    {method.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label
+                htmlFor="reference"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Reference (Optional)
+              </label>
+              <input
+                type="text"
+                {...register('reference')}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="e.g. bank reference"
+              />
+            </div>
+          </div>
+
           <div>
             <label
               htmlFor="notes"
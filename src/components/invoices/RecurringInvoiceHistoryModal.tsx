@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+
+type GeneratedInvoice = {
+  id: string;
+  number: string;
+  date: string;
+  due_date: string;
+  total: number;
+  currency_code: string;
+  status: string;
+};
+
+interface RecurringInvoiceHistoryModalProps {
+  scheduleId: string;
+  title: string;
+  onClose: () => void;
+}
+
+const statusStyles: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_paid: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  overdue: 'bg-red-100 text-red-800',
+};
+
+export default function RecurringInvoiceHistoryModal({
+  scheduleId,
+  title,
+  onClose,
+}: RecurringInvoiceHistoryModalProps) {
+  const [invoices, setInvoices] = useState<GeneratedInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchInvoices = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data, error: fetchError } = await supabase
+          .from('invoices')
+          .select('id, number, date, due_date, total, currency_code, status')
+          .eq('recurring_invoice_id', scheduleId)
+          .order('date', { ascending: false });
+
+        if (fetchError) throw fetchError;
+        setInvoices(data || []);
+      } catch (err) {
+        console.error('Error fetching generated invoices:', err);
+        setError('Failed to load the invoices for this schedule. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvoices();
+  }, [scheduleId]);
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-6">
+            <div className="inline-block animate-spin rounded-full h-6 w-6 border-4 border-gray-200 border-t-blue-600"></div>
+          </div>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-gray-500">This schedule has not created any invoices yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border rounded-md max-h-96 overflow-y-auto">
+            {invoices.map((invoice) => (
+              <li key={invoice.id} className="px-4 py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{invoice.number}</p>
+                  <p className="text-xs text-gray-500">
+                    {format(new Date(invoice.date), 'MMM d, yyyy')}, due{' '}
+                    {format(new Date(invoice.due_date), 'MMM d, yyyy')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm text-gray-900">
+                    {new Intl.NumberFormat('en-US', {
+                      style: 'currency',
+                      currency: invoice.currency_code,
+                    }).format(invoice.total)}
+                  </span>
+                  <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[invoice.status] || statusStyles.draft}`}>
+                    {invoice.status.replace('_', ' ')}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
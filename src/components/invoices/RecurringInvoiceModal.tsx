@@ -1,10 +1,11 @@
-import React, { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import React, { useState, useEffect } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { X, Calendar, AlertCircle } from 'lucide-react';
+import { X, Calendar, AlertCircle, Plus, Trash2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useSettingsStore } from '../../store/settings';
+import type { RecurringInvoice } from '../../types/supabase';
 
 const recurringInvoiceSchema = z.object({
   client_id: z.string().uuid('Please select a client'),
@@ -12,20 +13,37 @@ const recurringInvoiceSchema = z.object({
   start_date: z.string().min(1, 'Start date is required'),
   end_date: z.string().optional(),
   description: z.string().min(1, 'Description is required'),
-  amount: z.number().min(0.01, 'Amount must be greater than 0'),
+  items: z.array(
+    z.object({
+      description: z.string().min(1, 'Description is required'),
+      quantity: z.number().min(1, 'Quantity must be at least 1'),
+      rate: z.number().min(0, 'Rate must be at least 0'),
+    })
+  ).min(1, 'Add at least one item'),
   tax_rate: z.number().min(0, 'Tax rate must be at least 0'),
+  auto_send: z.boolean(),
+  catch_up: z.enum(['latest', 'all']),
+}).refine((data) => !data.end_date || data.end_date > data.start_date, {
+  message: 'End date must be after the start date',
+  path: ['end_date'],
+}).refine((data) => data.items.some((item) => item.quantity * item.rate > 0), {
+  message: 'Amount must be greater than 0',
+  path: ['items'],
 });
 
 type RecurringInvoiceFormData = z.infer<typeof recurringInvoiceSchema>;
 
 interface RecurringInvoiceModalProps {
   clients: Array<{ id: string; name: string }>;
+  // Edits this schedule instead of creating one
+  schedule?: RecurringInvoice | null;
   onClose: () => void;
   onSuccess: () => void;
 }
 
 export default function RecurringInvoiceModal({
   clients,
+  schedule,
   onClose,
   onSuccess,
 }: RecurringInvoiceModalProps) {
@@ -34,16 +52,72 @@ export default function RecurringInvoiceModal({
 
   const {
     register,
+    control,
     handleSubmit,
+    watch,
+    reset,
     formState: { errors, isSubmitting },
   } = useForm<RecurringInvoiceFormData>({
     resolver: zodResolver(recurringInvoiceSchema),
-    defaultValues: {
-      tax_rate: 0,
-      frequency: 'monthly',
-    },
+    defaultValues: schedule
+      ? {
+          client_id: schedule.client_id,
+          frequency: schedule.frequency,
+          start_date: schedule.next_run_date,
+          end_date: schedule.end_date || '',
+          description: schedule.description,
+          items: [],
+          tax_rate: Number(schedule.tax_rate),
+          auto_send: schedule.auto_send,
+          catch_up: schedule.catch_up,
+        }
+      : {
+          items: [{ description: '', quantity: 1, rate: 0 }],
+          tax_rate: 0,
+          frequency: 'monthly',
+          auto_send: false,
+          catch_up: 'latest',
+        },
   });
 
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: 'items',
+  });
+
+  useEffect(() => {
+    if (!schedule) return;
+
+    const fetchItems = async () => {
+      try {
+        const { data, error: itemsError } = await supabase
+          .from('recurring_invoice_items')
+          .select('*')
+          .eq('recurring_invoice_id', schedule.id)
+          .order('created_at');
+
+        if (itemsError) throw itemsError;
+        reset((values) => ({
+          ...values,
+          items: (data || []).map((item) => ({
+            description: item.description,
+            quantity: Number(item.quantity),
+            rate: Number(item.rate),
+          })),
+        }));
+      } catch (err) {
+        console.error('Error fetching recurring invoice items:', err);
+        setError('Failed to load the schedule items. Please try again.');
+      }
+    };
+
+    fetchItems();
+  }, [schedule]);
+
+  const items = watch('items');
+  const subtotal = items.reduce((sum, item) => sum + (item.quantity || 0) * (item.rate || 0), 0);
+  const taxRate = watch('tax_rate') || 0;
+
   const onSubmit = async (data: RecurringInvoiceFormData) => {
     try {
       setError(null);
@@ -56,37 +130,91 @@ export default function RecurringInvoiceModal({
         return;
       }
 
-      // Create recurring invoice
-      const { error: insertError } = await supabase
-        .from('recurring_invoices')
-        .insert({
-          client_id: data.client_id,
-          frequency: data.frequency,
-          start_date: data.start_date,
-          end_date: data.end_date || null,
-          description: data.description,
-          amount: data.amount,
-          tax_rate: data.tax_rate,
-          currency_code: currency.code,
-          user_id: user.id,
-          status: 'active'
-        });
-
-      if (insertError) throw insertError;
+      const amount = data.items.reduce((sum, item) => sum + item.quantity * item.rate, 0);
+      let scheduleId = schedule?.id;
+
+      if (schedule) {
+        // Changes apply from the next invoice; invoices already created stay as they are
+        const { error: updateError } = await supabase
+          .from('recurring_invoices')
+          .update({
+            client_id: data.client_id,
+            frequency: data.frequency,
+            next_run_date: data.start_date,
+            end_date: data.end_date || null,
+            description: data.description,
+            amount,
+            tax_rate: data.tax_rate,
+            auto_send: data.auto_send,
+            catch_up: data.catch_up,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', schedule.id);
+
+        if (updateError) throw updateError;
+
+        // Replace the items with the ones on the form
+        const { error: deleteError } = await supabase
+          .from('recurring_invoice_items')
+          .delete()
+          .eq('recurring_invoice_id', schedule.id);
+
+        if (deleteError) throw deleteError;
+      } else {
+        // Create recurring invoice
+        const { data: created, error: insertError } = await supabase
+          .from('recurring_invoices')
+          .insert({
+            client_id: data.client_id,
+            frequency: data.frequency,
+            start_date: data.start_date,
+            next_run_date: data.start_date,
+            end_date: data.end_date || null,
+            description: data.description,
+            amount,
+            tax_rate: data.tax_rate,
+            auto_send: data.auto_send,
+            catch_up: data.catch_up,
+            currency_code: currency.code,
+            user_id: user.id,
+            status: 'active'
+          })
+          .select('id')
+          .single();
+
+        if (insertError) throw insertError;
+        scheduleId = created.id;
+      }
+
+      const { error: itemsError } = await supabase
+        .from('recurring_invoice_items')
+        .insert(
+          data.items.map((item) => ({
+            recurring_invoice_id: scheduleId!,
+            description: item.description,
+            quantity: item.quantity,
+            rate: item.rate,
+            amount: item.quantity * item.rate,
+          }))
+        );
+
+      if (itemsError) throw itemsError;
 
       onSuccess();
       onClose();
     } catch (error) {
-      console.error('Error creating recurring invoice:', error);
-      setError('Failed to create recurring invoice. Please try again.');
+      console.error('Error saving recurring invoice:', error);
+      setError('Failed to save recurring invoice. Please try again.');
     }
   };
 
   return (
     <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-lg max-w-md w-full p-6">
+      <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-xl font-semibold text-gray-900">Create Recurring Invoice</h2>
+          <h2 className="text-xl font-semibold text-gray-900">
+            {schedule ? 'Edit Recurring Invoice' : 'Create Recurring Invoice'}
+          </h2>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
             <X className="h-6 w-6" />
           </button>
@@ -142,7 +270,7 @@ export default function RecurringInvoiceModal({
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label htmlFor="start_date" className="block text-sm font-medium text-gray-700">
-                Start Date
+                {schedule ? 'Next Invoice Date' : 'Start Date'}
               </label>
               <input
                 type="date"
@@ -163,6 +291,9 @@ export default function RecurringInvoiceModal({
                 {...register('end_date')}
                 className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               />
+              {errors.end_date && (
+                <p className="mt-2 text-sm text-red-600">{errors.end_date.message}</p>
+              )}
             </div>
           </div>
 
@@ -170,9 +301,10 @@ export default function RecurringInvoiceModal({
             <label htmlFor="description" className="block text-sm font-medium text-gray-700">
               Description
             </label>
-            <textarea
+            <input
+              type="text"
               {...register('description')}
-              rows={3}
+              placeholder="e.g. Monthly school fees"
               className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
             />
             {errors.description && (
@@ -181,17 +313,57 @@ export default function RecurringInvoiceModal({
           </div>
 
           <div>
-            <label htmlFor="amount" className="block text-sm font-medium text-gray-700">
-              Amount ({currency.symbol})
-            </label>
-            <input
-              type="number"
-              step="0.01"
-              {...register('amount', { valueAsNumber: true })}
-              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-            />
-            {errors.amount && (
-              <p className="mt-2 text-sm text-red-600">{errors.amount.message}</p>
+            <div className="flex justify-between items-center">
+              <label className="block text-sm font-medium text-gray-700">Items</label>
+              <button
+                type="button"
+                onClick={() => append({ description: '', quantity: 1, rate: 0 })}
+                className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Item
+              </button>
+            </div>
+
+            <div className="mt-2 space-y-2">
+              {fields.map((field, index) => (
+                <div key={field.id} className="flex items-start space-x-2">
+                  <div className="flex-grow grid grid-cols-6 gap-2">
+                    <input
+                      type="text"
+                      placeholder="Description"
+                      {...register(`items.${index}.description`)}
+                      className="col-span-4 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                    <input
+                      type="number"
+                      placeholder="Qty"
+                      {...register(`items.${index}.quantity`, { valueAsNumber: true })}
+                      className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      placeholder={`Rate (${currency.symbol})`}
+                      {...register(`items.${index}.rate`, { valueAsNumber: true })}
+                      className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => remove(index)}
+                    disabled={fields.length === 1}
+                    className="mt-2 text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {errors.items && (
+              <p className="mt-2 text-sm text-red-600">
+                {errors.items.message || errors.items.root?.message || 'Each item needs a description, quantity and rate'}
+              </p>
             )}
           </div>
 
@@ -210,6 +382,47 @@ export default function RecurringInvoiceModal({
             )}
           </div>
 
+          <div className="flex justify-between text-sm font-medium text-gray-900 border-t pt-3">
+            <span>Total per invoice</span>
+            <span>
+              {currency.symbol}
+              {(subtotal + (subtotal * taxRate) / 100).toFixed(2)}
+            </span>
+          </div>
+
+          <div>
+            <label htmlFor="catch_up" className="block text-sm font-medium text-gray-700">
+              Missed Invoices
+            </label>
+            <select
+              {...register('catch_up')}
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="latest">Create only the most recent one</option>
+              <option value="all">Create all of them (up to 12 a night)</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Applies when the schedule resumes or starts in the past. Invoices are due
+              after the client's payment terms.
+            </p>
+          </div>
+
+          <div className="flex items-start">
+            <input
+              type="checkbox"
+              id="auto_send"
+              {...register('auto_send')}
+              className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            <label htmlFor="auto_send" className="ml-2 text-sm text-gray-700">
+              Email each invoice to the client when it is created
+              <span className="block text-xs text-gray-500">
+                Uses the recurring invoice email template in Settings, which lists the
+                invoice lines. The PDF is not attached.
+              </span>
+            </label>
+          </div>
+
           <div className="flex justify-end space-x-3 mt-6">
             <button
               type="button"
@@ -223,7 +436,9 @@ export default function RecurringInvoiceModal({
               disabled={isSubmitting}
               className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
             >
-              {isSubmitting ? 'Creating...' : 'Create Recurring Invoice'}
+              {isSubmitting
+                ? 'Saving...'
+                : schedule ? 'Save Changes' : 'Create Recurring Invoice'}
             </button>
           </div>
         </form>
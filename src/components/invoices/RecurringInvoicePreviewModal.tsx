@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { X, Mail } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import type { RecurringInvoicePreview } from '../../types/supabase';
+
+interface RecurringInvoicePreviewModalProps {
+  onClose: () => void;
+}
+
+// Shows what generate_recurring_invoices() would create, without creating anything
+export default function RecurringInvoicePreviewModal({ onClose }: RecurringInvoicePreviewModalProps) {
+  // The job runs at midnight, so its next run is tomorrow's
+  const [runDate, setRunDate] = useState(format(addDays(new Date(), 1), 'yyyy-MM-dd'));
+  const [invoices, setInvoices] = useState<RecurringInvoicePreview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!runDate) return;
+
+    const fetchPreview = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data, error: previewError } = await supabase
+          .rpc('preview_recurring_invoices', { p_run_date: runDate });
+
+        if (previewError) throw previewError;
+        setInvoices(data || []);
+      } catch (err) {
+        console.error('Error previewing recurring invoices:', err);
+        setError('Failed to preview the next run. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPreview();
+  }, [runDate]);
+
+  const formatAmount = (invoice: RecurringInvoicePreview, amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: invoice.currency_code,
+    }).format(amount);
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Preview Next Run</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-4 flex items-end justify-between">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Run Date</label>
+            <input
+              type="date"
+              value={runDate}
+              onChange={(e) => setRunDate(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <p className="ml-4 text-sm text-gray-500 text-right">
+            Schedules that missed runs may create more than one invoice.
+            Nothing is created from this preview.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-6">
+            <div className="inline-block animate-spin rounded-full h-6 w-6 border-4 border-gray-200 border-t-blue-600"></div>
+          </div>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-gray-500">No invoices would be created on this date.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto border rounded-md">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Client
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Invoice Date
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Due Date
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Total
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {invoices.map((invoice) => (
+                  <tr key={`${invoice.recurring_invoice_id}-${invoice.invoice_date}`}>
+                    <td className="px-4 py-2 text-sm">
+                      <p className="text-gray-900 flex items-center">
+                        {invoice.client_name}
+                        {invoice.auto_send && invoice.client_email && (
+                          <span title={`Emailed to ${invoice.client_email}`}>
+                            <Mail className="h-3.5 w-3.5 ml-1 text-gray-400" />
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">{invoice.description}</p>
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {format(new Date(invoice.invoice_date), 'MMM d, yyyy')}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                      {format(new Date(invoice.due_date), 'MMM d, yyyy')}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {formatAmount(invoice, invoice.total)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
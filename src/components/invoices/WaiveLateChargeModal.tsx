@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+
+const waiveSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required'),
+});
+
+type WaiveFormData = z.infer<typeof waiveSchema>;
+
+interface WaiveLateChargeModalProps {
+  charge: {
+    id: string;
+    description: string;
+    amount: string;
+  };
+  onClose: () => void;
+  onWaived: () => void;
+}
+
+export default function WaiveLateChargeModal({ charge, onClose, onWaived }: WaiveLateChargeModalProps) {
+  const [error, setError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<WaiveFormData>({
+    resolver: zodResolver(waiveSchema),
+    defaultValues: {
+      reason: '',
+    },
+  });
+
+  const onSubmit = async (data: WaiveFormData) => {
+    try {
+      setError(null);
+
+      const { error: waiveError } = await supabase
+        .rpc('waive_late_charge', {
+          p_charge_id: charge.id,
+          p_reason: data.reason,
+        });
+
+      if (waiveError) throw waiveError;
+      onWaived();
+    } catch (err) {
+      console.error('Error waiving late charge:', err);
+      setError('Failed to waive late charge. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Waive Late Charge</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600 mb-4">
+          {charge.description} ({charge.amount}) will be taken off the invoice and
+          statement. That month is not charged again.
+        </p>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Reason</label>
+            <textarea
+              {...register('reason')}
+              rows={3}
+              placeholder="Why is this charge being waived?"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {errors.reason && (
+              <p className="mt-1 text-sm text-red-600">{errors.reason.message}</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Waiving...' : 'Waive Charge'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
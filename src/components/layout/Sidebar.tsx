@@ -10,21 +10,46 @@ import {
   Settings,
   GraduationCap,
   BookOpen,
+  Receipt,
+  ClipboardList,
+  MessageSquare,
+  UserCog,
+  School,
 } from 'lucide-react';
+import { useAuthStore } from '../../store/auth';
+import { hasPermission, type Permission } from '../../lib/permissions';
 
-const navigation = [
-  { name: 'Dashboard', to: '/', icon: LayoutDashboard },
+type NavigationItem = {
+  name: string;
+  to: string;
+  icon: typeof LayoutDashboard;
+  // Hidden from members without this permission
+  permission?: Permission;
+};
+
+const navigation: NavigationItem[] = [
+  { name: 'Dashboard', to: '/', icon: LayoutDashboard, permission: 'finance:view' },
   { name: 'Students', to: '/students', icon: GraduationCap },
+  { name: 'Classes', to: '/classes', icon: School, permission: 'classes:manage' },
+  { name: 'Assessments', to: '/assessments', icon: ClipboardList },
   { name: 'Report Cards', to: '/report-cards', icon: BookOpen },
-  { name: 'Invoices', to: '/invoices', icon: FileText },
-  { name: 'Credit Notes', to: '/credit-notes', icon: FileX },
-  { name: 'Statement', to: '/statement', icon: FileSpreadsheet },
-  { name: 'Clients', to: '/clients', icon: Users },
-  { name: 'Reports', to: '/reports', icon: BarChart3 },
-  { name: 'Settings', to: '/settings', icon: Settings },
+  { name: 'Comment Bank', to: '/comment-bank', icon: MessageSquare },
+  { name: 'Invoices', to: '/invoices', icon: FileText, permission: 'finance:view' },
+  { name: 'Credit Notes', to: '/credit-notes', icon: FileX, permission: 'finance:view' },
+  { name: 'Fee Structure', to: '/fees', icon: Receipt, permission: 'finance:view' },
+  { name: 'Statement', to: '/statement', icon: FileSpreadsheet, permission: 'finance:view' },
+  { name: 'Clients', to: '/clients', icon: Users, permission: 'finance:view' },
+  { name: 'Reports', to: '/reports', icon: BarChart3, permission: 'finance:view' },
+  { name: 'Team', to: '/team', icon: UserCog, permission: 'team:manage' },
+  { name: 'Settings', to: '/settings', icon: Settings, permission: 'settings:manage' },
 ];
 
 export default function Sidebar() {
+  const membership = useAuthStore((state) => state.membership);
+  const visibleNavigation = navigation.filter(
+    (item) => !item.permission || hasPermission(membership?.role, item.permission)
+  );
+
   return (
     <div className="hidden lg:flex lg:flex-shrink-0">
       <div className="flex flex-col w-64">
@@ -32,8 +57,11 @@ export default function Sidebar() {
           <div className="flex items-center flex-shrink-0 px-4">
             <h1 className="text-xl font-semibold text-primary-600">EduVance</h1>
           </div>
+          {membership && (
+            <p className="px-4 mt-1 text-sm text-gray-500 truncate">{membership.organisationName}</p>
+          )}
           <nav className="mt-8 flex-1 px-2 space-y-1">
-            {navigation.map((item) => (
+            {visibleNavigation.map((item) => (
               <NavLink
                 key={item.name}
                 to={item.to}
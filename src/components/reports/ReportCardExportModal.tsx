@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import JSZip from 'jszip';
+import { useSettingsStore } from '../../store/settings';
+import { brandingFromSettings } from '../../lib/documents/render';
+import {
+  fetchReportCardsWithDetails,
+  getReportCardFileName,
+  renderReportCardPDF,
+} from '../../lib/documents/reportCard';
+import { reportLanguages, type ReportLanguage } from '../../lib/reportLanguage';
+
+interface ReportCardExportModalProps {
+  reportCardIds: string[];
+  onClose: () => void;
+}
+
+type ExportFailure = {
+  name: string;
+  reason: string;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Give the browser a chance to paint progress between cards
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export default function ReportCardExportModal({ reportCardIds, onClose }: ReportCardExportModalProps) {
+  const settings = useSettingsStore();
+  const branding = brandingFromSettings(settings);
+  const { achievementScale } = settings.reportSettings;
+  const [mode, setMode] = useState<'merged' | 'zip'>('merged');
+  // Empty prints each card in its learner's language
+  const [language, setLanguage] = useState<ReportLanguage | ''>('');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: reportCardIds.length });
+  const [failures, setFailures] = useState<ExportFailure[]>([]);
+  const [finished, setFinished] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    try {
+      setRunning(true);
+      setFinished(false);
+      setError(null);
+
+      const cards = await fetchReportCardsWithDetails(reportCardIds);
+      cards.sort((a, b) =>
+        a.student.grade - b.student.grade ||
+        a.student.last_name.localeCompare(b.student.last_name) ||
+        a.student.first_name.localeCompare(b.student.first_name)
+      );
+
+      const failed: ExportFailure[] = [];
+      if (cards.length < reportCardIds.length) {
+        failed.push({
+          name: `${reportCardIds.length - cards.length} report card(s)`,
+          reason: 'Not found or no longer accessible',
+        });
+      }
+
+      setProgress({ done: 0, total: cards.length });
+      let exported = 0;
+
+      if (mode === 'merged') {
+        let doc = new jsPDF();
+
+        for (const [index, card] of cards.entries()) {
+          const pagesBefore = doc.getNumberOfPages();
+          if (exported > 0) doc.addPage();
+
+          try {
+            renderReportCardPDF(doc, card, branding, achievementScale, language || undefined);
+            exported++;
+          } catch (err) {
+            console.error('Error rendering report card:', err);
+            failed.push({
+              name: `${card.student.first_name} ${card.student.last_name}`,
+              reason: err instanceof Error ? err.message : 'Failed to render PDF',
+            });
+
+            // Drop any pages the failed card left behind
+            if (exported === 0) {
+              doc = new jsPDF();
+            } else {
+              while (doc.getNumberOfPages() > pagesBefore) {
+                doc.deletePage(doc.getNumberOfPages());
+              }
+            }
+          }
+
+          setProgress({ done: index + 1, total: cards.length });
+          await nextFrame();
+        }
+
+        if (exported > 0) {
+          doc.save(
+            exported === 1 && cards.length === 1
+              ? getReportCardFileName(cards[0])
+              : `report-cards-${format(new Date(), 'yyyy-MM-dd')}.pdf`
+          );
+        }
+      } else {
+        const zip = new JSZip();
+        const usedNames = new Set<string>();
+
+        for (const [index, card] of cards.entries()) {
+          try {
+            const doc = new jsPDF();
+            renderReportCardPDF(doc, card, branding, achievementScale, language || undefined);
+
+            // Learners can share a name, so fall back to the student number
+            let fileName = getReportCardFileName(card);
+            if (usedNames.has(fileName)) {
+              fileName = fileName.replace(/\.pdf$/, `-${card.student.student_number}.pdf`);
+            }
+            usedNames.add(fileName);
+
+            zip.file(fileName, doc.output('arraybuffer'));
+            exported++;
+          } catch (err) {
+            console.error('Error rendering report card:', err);
+            failed.push({
+              name: `${card.student.first_name} ${card.student.last_name}`,
+              reason: err instanceof Error ? err.message : 'Failed to render PDF',
+            });
+          }
+
+          setProgress({ done: index + 1, total: cards.length });
+          await nextFrame();
+        }
+
+        if (exported > 0) {
+          const blob = await zip.generateAsync({ type: 'blob' });
+          downloadBlob(blob, `report-cards-${format(new Date(), 'yyyy-MM-dd')}.zip`);
+        }
+      }
+
+      setFailures(failed);
+      setFinished(true);
+    } catch (err) {
+      console.error('Error exporting report cards:', err);
+      setError('Failed to export report cards. Please try again.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Export Report Cards</h2>
+          <button onClick={onClose} disabled={running} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <p className="text-sm text-gray-700 mb-4">
+          {reportCardIds.length} report card{reportCardIds.length === 1 ? '' : 's'} selected.
+        </p>
+
+        <div className="space-y-2">
+          <label className="flex items-start text-sm">
+            <input
+              type="radio"
+              checked={mode === 'merged'}
+              onChange={() => setMode('merged')}
+              disabled={running}
+              className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300"
+            />
+            <span className="ml-2">
+              <span className="block font-medium text-gray-900">Single merged PDF</span>
+              <span className="block text-gray-500">Each learner starts on a new page, ready for printing</span>
+            </span>
+          </label>
+          <label className="flex items-start text-sm">
+            <input
+              type="radio"
+              checked={mode === 'zip'}
+              onChange={() => setMode('zip')}
+              disabled={running}
+              className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300"
+            />
+            <span className="ml-2">
+              <span className="block font-medium text-gray-900">Zip of individual PDFs</span>
+              <span className="block text-gray-500">One file per learner, named by learner and term</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700">Language</label>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value as ReportLanguage | '')}
+            disabled={running}
+            className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          >
+            <option value="">Each learner's own language</option>
+            {reportLanguages.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label} for everyone
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {(running || finished) && (
+          <div className="mt-4">
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full"
+                style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              {progress.done} of {progress.total} rendered
+            </p>
+          </div>
+        )}
+
+        {finished && failures.length === 0 && (
+          <p className="mt-4 text-sm text-green-700">All report cards exported.</p>
+        )}
+
+        {failures.length > 0 && (
+          <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            <p className="font-medium">Some report cards could not be exported:</p>
+            <ul className="mt-1 list-disc list-inside">
+              {failures.map((failure, index) => (
+                <li key={index}>{failure.name}: {failure.reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={running}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {finished ? 'Close' : 'Cancel'}
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={running || reportCardIds.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {running ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
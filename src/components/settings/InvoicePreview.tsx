@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { jsPDF } from 'jspdf';
+import { addDays } from 'date-fns';
+import type { InvoiceTemplate } from '../../store/settings';
+import { brandingFromSettings, type SettingsSource } from '../../lib/documents/render';
+import { renderInvoicePDF, type InvoiceDocument } from '../../lib/documents/invoice';
+
+interface InvoicePreviewProps {
+  settings: SettingsSource;
+  template: InvoiceTemplate;
+  taxRate: number;
+}
+
+// Sample invoice shown while choosing a template
+function sampleInvoice(taxRate: number): InvoiceDocument {
+  const items = [
+    { description: 'Tuition fees - Term 1', quantity: 1, rate: 4500, amount: 4500 },
+    { description: 'Stationery pack', quantity: 1, rate: 350, amount: 350 },
+    { description: 'School outing', quantity: 2, rate: 120, amount: 240 },
+  ];
+  const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
+  const taxAmount = subtotal * (taxRate / 100);
+  const today = new Date();
+
+  return {
+    number: 'INV-0001',
+    date: today.toISOString(),
+    due_date: addDays(today, 30).toISOString(),
+    client: {
+      name: 'Sample Parent',
+      address: '12 Example Street',
+      email: 'parent@example.com',
+    },
+    items,
+    subtotal,
+    tax_rate: taxRate,
+    tax_amount: taxAmount,
+    total: subtotal + taxAmount,
+  };
+}
+
+export default function InvoicePreview({ settings, template, taxRate }: InvoicePreviewProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-render shortly after the last change so typing stays responsive
+  useEffect(() => {
+    let objectUrl: string | null = null;
+
+    const timer = setTimeout(() => {
+      try {
+        const doc = new jsPDF();
+        renderInvoicePDF(doc, sampleInvoice(taxRate || 0), brandingFromSettings(settings), template);
+        objectUrl = URL.createObjectURL(doc.output('blob'));
+        setUrl(objectUrl);
+        setError(null);
+      } catch (err) {
+        console.error('Error rendering invoice preview:', err);
+        setError('Failed to render the preview. Check the settings and try again.');
+      }
+    }, 400);
+
+    return () => {
+      clearTimeout(timer);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [settings, template, taxRate]);
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 mb-2">Preview</h3>
+      {error ? (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">{error}</div>
+      ) : url ? (
+        <iframe
+          src={url}
+          title="Invoice preview"
+          className="w-full h-[600px] border border-gray-200 rounded-md"
+        />
+      ) : (
+        <div className="flex items-center justify-center h-[600px] border border-gray-200 rounded-md">
+          <div className="inline-block animate-spin rounded-full h-6 w-6 border-4 border-gray-200 border-t-blue-600"></div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { describeReminderOffset, suggestedReminderSteps } from '../../lib/reminders';
+import ReminderStepModal from './ReminderStepModal';
+import type { PaymentReminderStep } from '../../types/supabase';
+
+const byOffset = (a: PaymentReminderStep, b: PaymentReminderStep) => a.days_offset - b.days_offset;
+
+// Reminder steps are rows of their own, so they save as soon as they change
+// rather than with the rest of the settings
+export default function ReminderSchedule() {
+  const [steps, setSteps] = useState<PaymentReminderStep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showStepModal, setShowStepModal] = useState(false);
+  const [selectedStep, setSelectedStep] = useState<PaymentReminderStep | null>(null);
+
+  useEffect(() => {
+    const fetchSteps = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data, error: fetchError } = await supabase
+          .from('payment_reminder_steps')
+          .select('*')
+          .order('days_offset', { ascending: true });
+
+        if (fetchError) throw fetchError;
+        setSteps(data || []);
+      } catch (err) {
+        console.error('Error fetching reminder schedule:', err);
+        setError('Failed to load the reminder schedule. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSteps();
+  }, []);
+
+  const handleUseSuggested = async () => {
+    try {
+      setError(null);
+
+      const { data, error: insertError } = await supabase
+        .from('payment_reminder_steps')
+        .insert(suggestedReminderSteps.map(step => ({ ...step, is_active: true })))
+        .select();
+
+      if (insertError) throw insertError;
+      setSteps((data || []).sort(byOffset));
+    } catch (err) {
+      console.error('Error adding suggested reminders:', err);
+      setError('Failed to add the suggested reminders. Please try again.');
+    }
+  };
+
+  const handleToggle = async (step: PaymentReminderStep) => {
+    try {
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .from('payment_reminder_steps')
+        .update({ is_active: !step.is_active })
+        .eq('id', step.id);
+
+      if (updateError) throw updateError;
+      setSteps(steps.map(s => s.id === step.id ? { ...s, is_active: !step.is_active } : s));
+    } catch (err) {
+      console.error('Error updating reminder:', err);
+      setError('Failed to update reminder. Please try again.');
+    }
+  };
+
+  const handleDelete = async (step: PaymentReminderStep) => {
+    if (!confirm(`Stop sending the "${describeReminderOffset(step.days_offset)}" reminder?`)) return;
+
+    try {
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('payment_reminder_steps')
+        .delete()
+        .eq('id', step.id);
+
+      if (deleteError) throw deleteError;
+      setSteps(steps.filter(s => s.id !== step.id));
+    } catch (err) {
+      console.error('Error deleting reminder:', err);
+      setError('Failed to delete reminder. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {showStepModal && (
+        <ReminderStepModal
+          step={selectedStep}
+          defaults={suggestedReminderSteps[suggestedReminderSteps.length - 1]}
+          onClose={() => {
+            setShowStepModal(false);
+            setSelectedStep(null);
+          }}
+          onSaved={(saved) => {
+            setSteps(prev =>
+              (prev.some(s => s.id === saved.id)
+                ? prev.map(s => s.id === saved.id ? saved : s)
+                : [...prev, saved]
+              ).sort(byOffset)
+            );
+            setShowStepModal(false);
+            setSelectedStep(null);
+          }}
+        />
+      )}
+
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Payment Reminders</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Every morning unpaid invoices past their due date are marked overdue and
+            clients are emailed the latest reminder their invoice has reached. Reminders
+            stop once an invoice is paid or credited. Changes here are saved straight away.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            setSelectedStep(null);
+            setShowStepModal(true);
+          }}
+          className="ml-4 inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 whitespace-nowrap"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Reminder
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-6">
+          <div className="inline-block animate-spin rounded-full h-6 w-6 border-4 border-gray-200 border-t-blue-600"></div>
+        </div>
+      ) : steps.length === 0 ? (
+        <div className="rounded-md border border-dashed border-gray-300 p-6 text-center">
+          <p className="text-sm text-gray-500">No reminders are sent.</p>
+          <button
+            type="button"
+            onClick={handleUseSuggested}
+            className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            Use the suggested schedule: 3 days before, on the due date, then 7, 14 and 30 days after
+          </button>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 border rounded-md">
+          {steps.map(step => (
+            <li key={step.id} className="px-4 py-3 flex items-center justify-between">
+              <div className="min-w-0">
+                <p className={`text-sm font-medium ${step.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                  {describeReminderOffset(step.days_offset)}
+                  {!step.is_active && ' (off)'}
+                </p>
+                <p className="text-sm text-gray-500 truncate">{step.subject}</p>
+              </div>
+              <div className="ml-4 flex items-center space-x-3">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={step.is_active}
+                    onChange={() => handleToggle(step)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="ml-2">On</span>
+                </label>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSelectedStep(step);
+                    setShowStepModal(true);
+                  }}
+                  className="text-gray-400 hover:text-gray-500"
+                  title="Edit reminder"
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(step)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Delete reminder"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
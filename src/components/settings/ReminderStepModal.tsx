@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { reminderMergeFields } from '../../lib/reminders';
+import type { PaymentReminderStep } from '../../types/supabase';
+
+const stepSchema = z.object({
+  timing: z.enum(['before', 'on', 'after']),
+  days: z.number().int('Whole days only').min(0, 'Must be 0 or greater').max(365),
+  subject: z.string().trim().min(1, 'Subject is required'),
+  body: z.string().trim().min(1, 'Message is required'),
+  is_active: z.boolean(),
+}).refine((data) => data.timing === 'on' || data.days > 0, {
+  message: 'Enter the number of days',
+  path: ['days'],
+});
+
+type StepFormData = z.infer<typeof stepSchema>;
+
+interface ReminderStepModalProps {
+  step?: PaymentReminderStep | null;
+  defaults?: Pick<PaymentReminderStep, 'subject' | 'body'>;
+  onClose: () => void;
+  onSaved: (step: PaymentReminderStep) => void;
+}
+
+export default function ReminderStepModal({ step, defaults, onClose, onSaved }: ReminderStepModalProps) {
+  const [error, setError] = useState<string | null>(null);
+  const offset = step?.days_offset ?? 7;
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<StepFormData>({
+    resolver: zodResolver(stepSchema),
+    defaultValues: {
+      timing: offset < 0 ? 'before' : offset === 0 ? 'on' : 'after',
+      days: Math.abs(offset),
+      subject: step?.subject ?? defaults?.subject ?? '',
+      body: step?.body ?? defaults?.body ?? '',
+      is_active: step?.is_active ?? true,
+    },
+  });
+
+  const timing = watch('timing');
+
+  const onSubmit = async (data: StepFormData) => {
+    try {
+      setError(null);
+
+      const values = {
+        days_offset: data.timing === 'on' ? 0 : data.timing === 'before' ? -data.days : data.days,
+        subject: data.subject,
+        body: data.body,
+        is_active: data.is_active,
+      };
+
+      const { data: saved, error: saveError } = step
+        ? await supabase
+            .from('payment_reminder_steps')
+            .update(values)
+            .eq('id', step.id)
+            .select()
+            .single()
+        : await supabase
+            .from('payment_reminder_steps')
+            .insert(values)
+            .select()
+            .single();
+
+      if (saveError) {
+        if (saveError.code === '23505') {
+          setError('There is already a reminder at this time.');
+          return;
+        }
+        throw saveError;
+      }
+
+      if (saved) {
+        onSaved(saved);
+      }
+    } catch (err) {
+      console.error('Error saving reminder:', err);
+      setError('Failed to save reminder. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {step ? 'Edit Reminder' : 'New Reminder'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">When</label>
+              <select
+                {...register('timing')}
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              >
+                <option value="before">Before the due date</option>
+                <option value="on">On the due date</option>
+                <option value="after">After the due date</option>
+              </select>
+            </div>
+
+            {timing !== 'on' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Days</label>
+                <input
+                  type="number"
+                  min="1"
+                  {...register('days', { valueAsNumber: true })}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+                {errors.days && (
+                  <p className="mt-1 text-sm text-red-600">{errors.days.message}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Subject</label>
+            <input
+              type="text"
+              {...register('subject')}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {errors.subject && (
+              <p className="mt-1 text-sm text-red-600">{errors.subject.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Message</label>
+            <textarea
+              {...register('body')}
+              rows={8}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {errors.body && (
+              <p className="mt-1 text-sm text-red-600">{errors.body.message}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              Merge fields:{' '}
+              {reminderMergeFields.map(({ field, label }, index) => (
+                <span key={field} title={label}>
+                  {index > 0 && ', '}
+                  <code>{`{{${field}}}`}</code>
+                </span>
+              ))}
+            </p>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              {...register('is_active')}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span className="ml-2">Send this reminder</span>
+          </label>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : step ? 'Save Changes' : 'Add Reminder'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
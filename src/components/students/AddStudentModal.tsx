@@ -1,16 +1,20 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { X } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { classLabel } from '../../lib/classes';
+import { GRADES, MIN_GRADE, MAX_GRADE, gradeLabel } from '../../lib/grades';
+import type { SchoolClass } from '../../types/supabase';
 
 const studentSchema = z.object({
   first_name: z.string().min(1, 'First name is required'),
   last_name: z.string().min(1, 'Last name is required'),
   date_of_birth: z.string().min(1, 'Date of birth is required'),
-  grade: z.number().min(1, 'Grade must be between 1 and 12').max(12),
+  grade: z.number().min(MIN_GRADE, 'Please select a grade').max(MAX_GRADE),
   language: z.enum(['english', 'afrikaans']),
+  class_id: z.string().optional(),
   parent_name: z.string().min(1, 'Parent name is required'),
   parent_email: z.string().email('Invalid email address'),
   parent_phone: z.string().optional(),
@@ -26,18 +30,52 @@ interface AddStudentModalProps {
 
 export default function AddStudentModal({ onClose, onStudentAdded }: AddStudentModalProps) {
   const [error, setError] = useState<string | null>(null);
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
   const {
     register,
     handleSubmit,
+    watch,
+    setValue,
+    getValues,
     formState: { errors, isSubmitting },
   } = useForm<StudentFormData>({
     resolver: zodResolver(studentSchema),
     defaultValues: {
       grade: 1,
       language: 'english',
+      class_id: '',
     },
   });
 
+  const selectedGrade = watch('grade');
+
+  useEffect(() => {
+    const fetchClasses = async () => {
+      try {
+        const { data, error: classesError } = await supabase
+          .from('classes')
+          .select('*')
+          .order('grade', { ascending: true })
+          .order('section', { ascending: true });
+
+        if (classesError) throw classesError;
+        setClasses(data || []);
+      } catch (err) {
+        console.error('Error fetching classes:', err);
+      }
+    };
+
+    fetchClasses();
+  }, []);
+
+  // A class belongs to one grade
+  useEffect(() => {
+    const selectedClass = classes.find(c => c.id === getValues('class_id'));
+    if (selectedClass && selectedClass.grade !== selectedGrade) {
+      setValue('class_id', '');
+    }
+  }, [selectedGrade, classes, getValues, setValue]);
+
   const onSubmit = async (data: StudentFormData) => {
     try {
       setError(null);
@@ -54,6 +92,7 @@ export default function AddStudentModal({ onClose, onStudentAdded }: AddStudentM
         .from('students')
         .insert({
           ...data,
+          class_id: data.class_id || null,
           user_id: user.id,
         })
         .select()
@@ -142,8 +181,8 @@ export default function AddStudentModal({ onClose, onStudentAdded }: AddStudentM
                 {...register('grade', { valueAsNumber: true })}
                 className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
               >
-                {Array.from({ length: 12 }, (_, i) => i + 1).map(grade => (
-                  <option key={grade} value={grade}>Grade {grade}</option>
+                {GRADES.map(grade => (
+                  <option key={grade} value={grade}>{gradeLabel(grade)}</option>
                 ))}
               </select>
               {errors.grade && (
@@ -168,6 +207,23 @@ export default function AddStudentModal({ onClose, onStudentAdded }: AddStudentM
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Class (Optional)
+            </label>
+            <select
+              {...register('class_id')}
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="">No class</option>
+              {classes
+                .filter(schoolClass => schoolClass.grade === selectedGrade)
+                .map(schoolClass => (
+                  <option key={schoolClass.id} value={schoolClass.id}>{classLabel(schoolClass)}</option>
+                ))}
+            </select>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700">
               Parent/Guardian Name
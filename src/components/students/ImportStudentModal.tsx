@@ -4,6 +4,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { X, Upload, AlertCircle, Download } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { parseGrade } from '../../lib/grades';
 
 const importSchema = z.object({
   file: z.any(),
@@ -63,6 +64,13 @@ export default function ImportStudentModal({ onClose, onSuccess }: ImportStudent
         return obj;
       });
 
+      const badGrade = data.findIndex(row => parseGrade(row.grade) === null);
+      if (badGrade !== -1) {
+        setError(`Row ${badGrade + 2} has a grade that is not recognised: "${data[badGrade].grade}"`);
+        setPreview([]);
+        return;
+      }
+
       setPreview(data);
       setError(null);
     } catch (err) {
@@ -124,7 +132,7 @@ export default function ImportStudentModal({ onClose, onSuccess }: ImportStudent
             first_name: row.first_name,
             last_name: row.last_name,
             date_of_birth: row.date_of_birth,
-            grade: parseInt(row.grade),
+            grade: parseGrade(row.grade),
             language: row.language.toLowerCase(),
             parent_name: row.parent_name,
             parent_email: row.parent_email,
@@ -182,7 +190,7 @@ export default function ImportStudentModal({ onClose, onSuccess }: ImportStudent
               <li>first_name</li>
               <li>last_name</li>
               <li>date_of_birth (YYYY-MM-DD)</li>
-              <li>grade (1-12)</li>
+              <li>grade (R or 1-12; RR and RRR for pre-school)</li>
               <li>language (english/afrikaans)</li>
               <li>parent_name</li>
               <li>parent_email</li>
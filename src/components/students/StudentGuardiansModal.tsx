@@ -0,0 +1,255 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import FamilyBalances from '../clients/FamilyBalances';
+import type { Student } from '../../types/supabase';
+
+type GuardianRow = {
+  client_id: string;
+  relationship: string;
+  fee_share: number;
+};
+
+interface StudentGuardiansModalProps {
+  student: Student;
+  onClose: () => void;
+  onGuardiansUpdated: () => void;
+}
+
+export default function StudentGuardiansModal({
+  student,
+  onClose,
+  onGuardiansUpdated,
+}: StudentGuardiansModalProps) {
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
+  const [guardians, setGuardians] = useState<GuardianRow[]>([]);
+  const [savedClientIds, setSavedClientIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+
+        const [
+          { data: clientData, error: clientError },
+          { data: guardianData, error: guardianError },
+        ] = await Promise.all([
+          supabase.from('clients').select('id, name').order('name'),
+          supabase
+            .from('student_guardians')
+            .select('*')
+            .eq('student_id', student.id)
+            .order('created_at'),
+        ]);
+
+        if (clientError) throw clientError;
+        if (guardianError) throw guardianError;
+
+        setClients(clientData || []);
+        setGuardians(
+          (guardianData || []).map((guardian) => ({
+            client_id: guardian.client_id,
+            relationship: guardian.relationship || '',
+            fee_share: Number(guardian.fee_share),
+          }))
+        );
+        setSavedClientIds((guardianData || []).map((guardian) => guardian.client_id));
+      } catch (err) {
+        console.error('Error fetching guardians:', err);
+        setError('Failed to load billing guardians. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [student.id]);
+
+  const totalShare = guardians.reduce((sum, guardian) => sum + (guardian.fee_share || 0), 0);
+
+  const updateGuardian = (index: number, changes: Partial<GuardianRow>) => {
+    setGuardians(prev =>
+      prev.map((guardian, i) => (i === index ? { ...guardian, ...changes } : guardian))
+    );
+  };
+
+  const addGuardian = () => {
+    setGuardians(prev => [
+      ...prev,
+      { client_id: '', relationship: '', fee_share: Math.max(100 - totalShare, 0) },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const clientIds = guardians.map((guardian) => guardian.client_id);
+
+    if (clientIds.some((clientId) => !clientId)) {
+      setError('Please select a client for every guardian');
+      return;
+    }
+    if (new Set(clientIds).size !== clientIds.length) {
+      setError('Each client can only be linked once');
+      return;
+    }
+    if (guardians.length > 0 && Math.abs(totalShare - 100) > 0.001) {
+      setError('Fee shares must add up to 100%');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      // Replace the learner's links with the edited set in one transaction
+      const { error: saveError } = await supabase.rpc('set_student_guardians', {
+        p_student_id: student.id,
+        p_guardians: guardians.map((guardian) => ({
+          client_id: guardian.client_id,
+          relationship: guardian.relationship,
+          fee_share: guardian.fee_share,
+        })),
+      });
+
+      if (saveError) throw saveError;
+
+      onGuardiansUpdated();
+      onClose();
+    } catch (err) {
+      console.error('Error saving guardians:', err);
+      setError('Failed to save billing guardians. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Billing Guardians – {student.first_name} {student.last_name}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              {guardians.map((guardian, index) => (
+                <div key={index} className="flex items-end space-x-3 p-3 bg-gray-50 rounded-lg">
+                  <div className="flex-grow">
+                    <label className="block text-sm font-medium text-gray-700">Client</label>
+                    <select
+                      value={guardian.client_id}
+                      onChange={(e) => updateGuardian(index, { client_id: e.target.value })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    >
+                      <option value="">Select a client</option>
+                      {clients.map((client) => (
+                        <option key={client.id} value={client.id}>
+                          {client.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="w-36">
+                    <label className="block text-sm font-medium text-gray-700">Relationship</label>
+                    <input
+                      type="text"
+                      value={guardian.relationship}
+                      onChange={(e) => updateGuardian(index, { relationship: e.target.value })}
+                      placeholder="e.g. Mother"
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  <div className="w-24">
+                    <label className="block text-sm font-medium text-gray-700">Share (%)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      step="0.01"
+                      value={guardian.fee_share}
+                      onChange={(e) => updateGuardian(index, { fee_share: parseFloat(e.target.value) })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setGuardians(prev => prev.filter((_, i) => i !== index))}
+                    className="pb-2 text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </div>
+              ))}
+
+              {guardians.length === 0 && (
+                <p className="text-sm text-gray-500">
+                  No billing clients linked. Fees for this learner cannot be invoiced to a family yet.
+                </p>
+              )}
+
+              <div className="flex justify-between items-center">
+                <button
+                  type="button"
+                  onClick={addGuardian}
+                  className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Guardian
+                </button>
+                {guardians.length > 0 && (
+                  <span className={`text-sm ${Math.abs(totalShare - 100) > 0.001 ? 'text-red-600' : 'text-gray-500'}`}>
+                    Total share: {totalShare}%
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {savedClientIds.map((clientId) => (
+              <FamilyBalances
+                key={clientId}
+                clientId={clientId}
+                title={`Household of ${clients.find(c => c.id === clientId)?.name || 'Unknown Client'}`}
+              />
+            ))}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
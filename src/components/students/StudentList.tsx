@@ -17,6 +17,7 @@ import {
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../store/auth';
+import { GRADES, gradeLabel } from '../../lib/grades';
 import type { Student } from '../../types/supabase';
 import AddStudentModal from './AddStudentModal';
 import EditStudentModal from './EditStudentModal';
@@ -213,8 +214,8 @@ export default function StudentList() {
                   className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
                 >
                   <option value="">All Grades</option>
-                  {Array.from({ length: 12 }, (_, i) => i + 1).map(grade => (
-                    <option key={grade} value={grade}>Grade {grade}</option>
+                  {GRADES.map(grade => (
+                    <option key={grade} value={grade}>{gradeLabel(grade)}</option>
                   ))}
                 </select>
               </div>
@@ -292,7 +293,7 @@ export default function StudentList() {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">Grade {student.grade}</div>
+                      <div className="text-sm text-gray-900">{gradeLabel(student.grade)}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { roleLabels, roles } from '../../lib/permissions';
+import type { OrganisationInvite } from '../../types/supabase';
+
+const inviteSchema = z.object({
+  email: z.string().trim().email('Invalid email address'),
+  role: z.enum(['admin', 'principal', 'accountant', 'teacher', 'read_only']),
+});
+
+type InviteFormData = z.infer<typeof inviteSchema>;
+
+interface InviteMemberModalProps {
+  organisationId: string;
+  onClose: () => void;
+  onInvited: (invite: OrganisationInvite) => void;
+}
+
+export default function InviteMemberModal({ organisationId, onClose, onInvited }: InviteMemberModalProps) {
+  const [error, setError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<InviteFormData>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: {
+      email: '',
+      role: 'teacher',
+    },
+  });
+
+  const onSubmit = async (data: InviteFormData) => {
+    try {
+      setError(null);
+
+      // Get the current user
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError) throw userError;
+      if (!user) {
+        setError('You must be logged in to invite staff');
+        return;
+      }
+
+      const { data: invite, error: inviteError } = await supabase
+        .from('organisation_invites')
+        .insert({
+          organisation_id: organisationId,
+          email: data.email.toLowerCase(),
+          role: data.role,
+          invited_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (inviteError) {
+        if (inviteError.code === '23505') {
+          setError('This email address has already been invited.');
+          return;
+        }
+        throw inviteError;
+      }
+
+      if (invite) {
+        onInvited(invite);
+      }
+    } catch (err) {
+      console.error('Error inviting member:', err);
+      setError('Failed to send invite. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Invite Staff Member</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600 mb-4">
+          They join the school with this role the first time they sign in with this email address.
+        </p>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Email</label>
+            <input
+              type="email"
+              {...register('email')}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {errors.email && (
+              <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Role</label>
+            <select
+              {...register('role')}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              {roles.map((role) => (
+                <option key={role} value={role}>{roleLabels[role]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Inviting...' : 'Send Invite'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
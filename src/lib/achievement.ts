@@ -0,0 +1,53 @@
+import type { Student } from '../types/supabase';
+
+export type AchievementLevel = {
+  level: number;
+  // Lowest mark, as a percentage, that reaches this level
+  minMark: number;
+  descriptorEn: string;
+  descriptorAf: string;
+};
+
+// The CAPS seven-point scale used on South African report cards
+export const capsAchievementScale: AchievementLevel[] = [
+  { level: 7, minMark: 80, descriptorEn: 'Outstanding achievement', descriptorAf: 'Uitstekende prestasie' },
+  { level: 6, minMark: 70, descriptorEn: 'Meritorious achievement', descriptorAf: 'Verdienstelike prestasie' },
+  { level: 5, minMark: 60, descriptorEn: 'Substantial achievement', descriptorAf: 'Beduidende prestasie' },
+  { level: 4, minMark: 50, descriptorEn: 'Adequate achievement', descriptorAf: 'Voldoende prestasie' },
+  { level: 3, minMark: 40, descriptorEn: 'Moderate achievement', descriptorAf: 'Matige prestasie' },
+  { level: 2, minMark: 30, descriptorEn: 'Elementary achievement', descriptorAf: 'Basiese prestasie' },
+  { level: 1, minMark: 0, descriptorEn: 'Not achieved', descriptorAf: 'Nie bereik nie' },
+];
+
+// Highest level first, however the scale was saved
+function sortScale(scale: AchievementLevel[]): AchievementLevel[] {
+  return [...scale].sort((a, b) => b.minMark - a.minMark);
+}
+
+// The level a mark reaches; null for marks not captured yet
+export function getAchievementLevel(
+  mark: number | null | undefined,
+  scale: AchievementLevel[]
+): AchievementLevel | null {
+  if (mark === null || mark === undefined) return null;
+  return sortScale(scale).find(level => mark >= level.minMark) ?? null;
+}
+
+export function achievementDescriptor(level: AchievementLevel, language: Student['language']): string {
+  return language === 'afrikaans' ? level.descriptorAf : level.descriptorEn;
+}
+
+// The key printed under the marks, e.g. "80–100%", highest level first
+export function achievementKey(
+  scale: AchievementLevel[],
+  language: Student['language']
+): { level: number; range: string; descriptor: string }[] {
+  return sortScale(scale).map((level, index, sorted) => {
+    const upper = index === 0 ? 100 : sorted[index - 1].minMark - 1;
+    return {
+      level: level.level,
+      range: `${level.minMark}–${upper}%`,
+      descriptor: achievementDescriptor(level, language),
+    };
+  });
+}
@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+import type { Assessment } from '../types/supabase';
+
+export type SubjectMarkSource = {
+  subject_id: string;
+  term_mark: number | null;
+  year_to_date: number | null;
+  assessments: Assessment[];
+  totalWeight: number;
+  status: 'ok' | 'missing' | 'overweighted';
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Builds each subject's term and year-to-date mark from the learner's
+// weighted assessments, using calculate_subject_average for every term.
+export async function pullSubjectMarks({
+  studentId,
+  subjectIds,
+  term,
+  year,
+}: {
+  studentId: string;
+  subjectIds: string[];
+  term: number;
+  year: number;
+}): Promise<SubjectMarkSource[]> {
+  const { data: assessments, error: assessmentsError } = await supabase
+    .from('assessments')
+    .select('*')
+    .eq('student_id', studentId)
+    .eq('year', year)
+    .lte('term', term)
+    .in('subject_id', subjectIds)
+    .order('created_at', { ascending: true });
+
+  if (assessmentsError) throw assessmentsError;
+
+  return Promise.all(
+    subjectIds.map(async (subjectId) => {
+      const subjectAssessments = (assessments || []).filter(a => a.subject_id === subjectId);
+      const termAssessments = subjectAssessments.filter(a => a.term === term);
+      const assessedTerms = Array.from(new Set(subjectAssessments.map(a => a.term)));
+
+      const termAverages = await Promise.all(
+        assessedTerms.map(async (assessedTerm) => {
+          const { data, error: averageError } = await supabase.rpc('calculate_subject_average', {
+            p_student_id: studentId,
+            p_subject_id: subjectId,
+            p_term: assessedTerm,
+            p_year: year,
+          });
+
+          if (averageError) throw averageError;
+          return { term: assessedTerm, average: Number(data) || 0 };
+        })
+      );
+
+      const termMark = termAverages.find(t => t.term === term)?.average;
+      const yearToDate = termAverages.length > 0
+        ? termAverages.reduce((sum, t) => sum + t.average, 0) / termAverages.length
+        : undefined;
+      const totalWeight = termAssessments.reduce((sum, a) => sum + Number(a.weight), 0);
+
+      return {
+        subject_id: subjectId,
+        term_mark: termMark === undefined ? null : round(termMark),
+        year_to_date: yearToDate === undefined ? null : round(yearToDate),
+        assessments: termAssessments,
+        totalWeight,
+        status: termAssessments.length === 0
+          ? 'missing'
+          : totalWeight > 100
+            ? 'overweighted'
+            : 'ok',
+      };
+    })
+  );
+}
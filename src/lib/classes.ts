@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import { supabase } from './supabase';
+import { useAuthStore } from '../store/auth';
+import { hasPermission } from './permissions';
+import { gradeLabel } from './grades';
+import type { Role } from '../types';
+import type { SchoolClass, Student, TeacherAssignment } from '../types/supabase';
+
+export type TeachingScope = {
+  // Classes the teacher is class teacher of or teaches a subject to
+  classIds: string[];
+  // Classes the teacher is class teacher of, who write the teacher's comment
+  classTeacherIds: string[];
+  assignments: TeacherAssignment[];
+};
+
+// e.g. "Grade 7B"; reception grades are spaced, "Grade R A", so that Grade R
+// section R cannot be read as Grade RR
+export function classLabel(schoolClass: Pick<SchoolClass, 'grade' | 'section'>): string {
+  const separator = schoolClass.grade > 0 ? '' : ' ';
+  return `${gradeLabel(schoolClass.grade)}${separator}${schoolClass.section}`;
+}
+
+// Teachers only work with their own classes. Admins and principals see every
+// class, and roles that never capture marks are not limited by class.
+export function isLimitedToClasses(role: Role | undefined): boolean {
+  return hasPermission(role, 'academics:manage') && !hasPermission(role, 'classes:manage');
+}
+
+export function scopeIncludesStudent(scope: TeachingScope | null, student: Pick<Student, 'class_id'>): boolean {
+  return !scope || (!!student.class_id && scope.classIds.includes(student.class_id));
+}
+
+export function isClassTeacher(scope: TeachingScope | null, student: Pick<Student, 'class_id'>): boolean {
+  return !scope || (!!student.class_id && scope.classTeacherIds.includes(student.class_id));
+}
+
+// Leave out the class to ask whether the subject is taught in any class
+export function scopeIncludesSubject(scope: TeachingScope | null, subjectId: string, classId?: string | null): boolean {
+  return !scope || scope.assignments.some(
+    assignment => assignment.subject_id === subjectId && (classId === undefined || assignment.class_id === classId)
+  );
+}
+
+// Loads the signed-in teacher's classes and subjects; the scope stays null
+// for members who see every class
+export function useTeachingScope(): { scope: TeachingScope | null; loading: boolean } {
+  const user = useAuthStore((state) => state.user);
+  const role = useAuthStore((state) => state.membership?.role);
+  const limited = isLimitedToClasses(role);
+  const [scope, setScope] = useState<TeachingScope | null>(null);
+  const [loading, setLoading] = useState(limited);
+
+  useEffect(() => {
+    if (!user || !limited) {
+      setScope(null);
+      setLoading(false);
+      return;
+    }
+
+    const fetchScope = async () => {
+      try {
+        setLoading(true);
+
+        const [
+          { data: classesData, error: classesError },
+          { data: assignmentsData, error: assignmentsError },
+        ] = await Promise.all([
+          supabase
+            .from('classes')
+            .select('id')
+            .eq('class_teacher_id', user.id),
+          supabase
+            .from('teacher_assignments')
+            .select('*')
+            .eq('teacher_id', user.id),
+        ]);
+
+        if (classesError) throw classesError;
+        if (assignmentsError) throw assignmentsError;
+
+        const assignments = assignmentsData || [];
+        const classTeacherIds = (classesData || []).map(c => c.id);
+        setScope({
+          classIds: Array.from(new Set([
+            ...classTeacherIds,
+            ...assignments.map(a => a.class_id),
+          ])),
+          classTeacherIds,
+          assignments,
+        });
+      } catch (err) {
+        console.error('Error fetching teaching scope:', err);
+        // Show nothing rather than everything
+        setScope({ classIds: [], classTeacherIds: [], assignments: [] });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchScope();
+  }, [user?.id, limited]);
+
+  return { scope, loading };
+}
@@ -0,0 +1,31 @@
+import type { CommentLibrary } from '../types/supabase';
+
+export const commentCategories: { value: CommentLibrary['category']; label: string }[] = [
+  { value: 'positive', label: 'Positive' },
+  { value: 'constructive', label: 'Constructive' },
+  { value: 'general', label: 'General' },
+  { value: 'subject_specific', label: 'Subject Specific' },
+];
+
+export const performanceLevels: {
+  value: NonNullable<CommentLibrary['performance_level']>;
+  label: string;
+}[] = [
+  { value: 'excellent', label: 'Excellent (80%+)' },
+  { value: 'good', label: 'Good (70–79%)' },
+  { value: 'average', label: 'Average (50–69%)' },
+  { value: 'needs_improvement', label: 'Needs Improvement (below 50%)' },
+];
+
+export const commentPlaceholders = ['{first_name}', '{last_name}', '{subject}'];
+
+// Fills the learner and subject placeholders in a comment bank entry
+export function fillCommentPlaceholders(
+  text: string,
+  values: { firstName: string; lastName: string; subject?: string }
+): string {
+  return text
+    .replace(/\{first_name\}/g, values.firstName)
+    .replace(/\{last_name\}/g, values.lastName)
+    .replace(/\{subject\}/g, values.subject || '');
+}
@@ -0,0 +1,69 @@
+import { format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import {
+  type DocumentBranding,
+  type LineItem,
+  renderAddressBlock,
+  renderFooter,
+  renderHeader,
+  renderLineItems,
+  renderTextBlock,
+  renderTotals,
+  renderWatermark,
+} from './render';
+
+export type CreditNoteDocument = {
+  number: string;
+  date: string;
+  invoiceNumber?: string | null;
+  client: {
+    name: string;
+    address?: string | null;
+    email?: string | null;
+  } | null;
+  reason: string;
+  items: LineItem[];
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  status: 'draft' | 'issued' | 'void';
+  void_reason?: string | null;
+};
+
+export function renderCreditNotePDF(doc: jsPDF, note: CreditNoteDocument, branding: DocumentBranding) {
+  const details: Array<[string, string]> = [
+    ['Credit Note Number:', note.number],
+    ['Date:', format(new Date(note.date), 'MMM dd, yyyy')],
+  ];
+  if (note.invoiceNumber) {
+    details.push(['Invoice Number:', note.invoiceNumber]);
+  }
+
+  let y = renderHeader(doc, branding, { title: 'CREDIT NOTE', details });
+
+  y = renderAddressBlock(doc, branding, {
+    label: 'Credit To:',
+    lines: note.client ? [note.client.name, note.client.address, note.client.email] : [],
+    y,
+  });
+
+  y = renderTextBlock(doc, branding, { label: 'Reason:', text: note.reason, y });
+  y = renderLineItems(doc, branding, note.items, y);
+
+  y = renderTotals(doc, branding, [
+    { label: 'Subtotal:', amount: note.subtotal },
+    { label: `Tax (${note.tax_rate}%):`, amount: note.tax_amount },
+    { label: 'Total Credit:', amount: note.total, bold: true },
+  ], y);
+
+  // Mark drafts and voided notes so they can't pass for an issued credit
+  if (note.status !== 'issued') {
+    if (note.status === 'void' && note.void_reason) {
+      renderTextBlock(doc, branding, { label: 'Voided:', text: note.void_reason, y: y + 5 });
+    }
+    renderWatermark(doc, note.status === 'void' ? 'VOID' : 'DRAFT');
+  }
+
+  renderFooter(doc, branding, { pageNumbers: true });
+}
@@ -0,0 +1,107 @@
+import { format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import type { InvoiceTemplate } from '../../store/settings';
+import {
+  type DocumentBranding,
+  type HeaderLayout,
+  type LineItem,
+  type TotalRow,
+  renderAddressBlock,
+  renderBankDetails,
+  renderFooter,
+  renderHeader,
+  renderLineItems,
+  renderTotals,
+} from './render';
+
+export type InvoiceDocument = {
+  number: string;
+  date: string;
+  due_date: string;
+  client: {
+    name: string;
+    address?: string | null;
+    email?: string | null;
+  } | null;
+  items: LineItem[];
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  amountPaid?: number;
+  amountCredited?: number;
+  lateCharges?: number;
+};
+
+export const invoiceTemplates: { value: InvoiceTemplate; label: string }[] = [
+  { value: 'classic', label: 'Classic' },
+  { value: 'modern', label: 'Modern' },
+  { value: 'compact', label: 'Compact' },
+];
+
+// Header layout and table theme used by each invoice template
+const templateStyles: Record<InvoiceTemplate, { header: HeaderLayout; theme: 'striped' | 'grid' | 'plain' }> = {
+  classic: { header: 'classic', theme: 'striped' },
+  modern: { header: 'banner', theme: 'plain' },
+  compact: { header: 'compact', theme: 'grid' },
+};
+
+export function renderInvoicePDF(
+  doc: jsPDF,
+  invoice: InvoiceDocument,
+  branding: DocumentBranding,
+  template: InvoiceTemplate = 'classic'
+) {
+  const style = templateStyles[template] || templateStyles.classic;
+
+  let y = renderHeader(doc, branding, {
+    title: 'INVOICE',
+    layout: style.header,
+    details: [
+      ['Invoice Number:', invoice.number],
+      ['Invoice Date:', format(new Date(invoice.date), 'MMM dd, yyyy')],
+      ['Due Date:', format(new Date(invoice.due_date), 'MMM dd, yyyy')],
+    ],
+  });
+
+  y = renderAddressBlock(doc, branding, {
+    label: 'Bill To:',
+    lines: invoice.client
+      ? [invoice.client.name, invoice.client.address, invoice.client.email]
+      : [],
+    y,
+  });
+
+  y = renderLineItems(doc, branding, invoice.items, y + 5, style.theme);
+
+  const totals: TotalRow[] = [
+    { label: 'Subtotal:', amount: invoice.subtotal },
+    { label: `Tax (${invoice.tax_rate}%):`, amount: invoice.tax_amount },
+    { label: 'Total:', amount: invoice.total, bold: true },
+  ];
+
+  // Add late charges, payments, credits and the amount still owing
+  const amountPaid = invoice.amountPaid || 0;
+  const amountCredited = invoice.amountCredited || 0;
+  const lateCharges = invoice.lateCharges || 0;
+  if (amountPaid > 0 || amountCredited > 0 || lateCharges > 0) {
+    if (lateCharges > 0) {
+      totals.push({ label: 'Late Charges:', amount: lateCharges });
+    }
+    if (amountPaid > 0) {
+      totals.push({ label: 'Amount Paid:', amount: amountPaid });
+    }
+    if (amountCredited > 0) {
+      totals.push({ label: 'Credit Applied:', amount: amountCredited });
+    }
+    totals.push({
+      label: 'Balance Due:',
+      amount: Math.max(invoice.total + lateCharges - amountPaid - amountCredited, 0),
+      bold: true,
+    });
+  }
+
+  y = renderTotals(doc, branding, totals, y);
+  renderBankDetails(doc, branding, y);
+  renderFooter(doc, branding, { pageNumbers: true });
+}
@@ -0,0 +1,475 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { type UserOptions } from 'jspdf-autotable';
+import type { DocumentFont } from '../../store/settings';
+
+export type RGB = [number, number, number];
+
+// Everything a document needs to know about the organisation issuing it.
+// Templates only read from this, so a branding change applies to every document.
+export type DocumentBranding = {
+  company: {
+    name: string;
+    registrationNumber: string;
+    vatNumber: string;
+    address: string;
+    city: string;
+    state: string;
+    postalCode: string;
+    country: string;
+  };
+  contact: {
+    email: string;
+    phone: string;
+    website: string;
+  };
+  bank: {
+    bankName: string;
+    accountName: string;
+    accountNumber: string;
+    sortCode: string;
+    swiftCode: string;
+    iban: string;
+  };
+  logo?: string;
+  schoolLogo?: string;
+  currencySymbol: string;
+  primaryColor: RGB;
+  font: DocumentFont;
+  showBankDetails: boolean;
+  showVatNumber: boolean;
+  footerText: string;
+};
+
+export const defaultPrimaryColor: RGB = [59, 130, 246];
+
+export const documentFonts: { value: DocumentFont; label: string }[] = [
+  { value: 'helvetica', label: 'Helvetica' },
+  { value: 'times', label: 'Times' },
+  { value: 'courier', label: 'Courier' },
+];
+
+// Converts a #rrggbb colour from the settings into jsPDF's RGB triple
+export function hexToRgb(hex: string): RGB {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  if (!match) return defaultPrimaryColor;
+
+  return [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)];
+}
+
+export const PAGE_MARGIN = 20;
+
+export type SettingsSource = {
+  companyDetails: DocumentBranding['company'] & { logo?: string; schoolLogo?: string };
+  contactDetails: DocumentBranding['contact'];
+  bankDetails: DocumentBranding['bank'];
+  currency: { symbol: string };
+  invoiceSettings: {
+    brandColor: string;
+    font: DocumentFont;
+    showLogo: boolean;
+    showBankDetails: boolean;
+    showVatNumber: boolean;
+    footerText: string;
+  };
+};
+
+// Builds document branding from the settings store
+export function brandingFromSettings(settings: SettingsSource): DocumentBranding {
+  const { logo, schoolLogo, ...company } = settings.companyDetails;
+  const { invoiceSettings } = settings;
+
+  return {
+    company,
+    contact: settings.contactDetails,
+    bank: settings.bankDetails,
+    logo: invoiceSettings.showLogo ? logo : undefined,
+    schoolLogo: invoiceSettings.showLogo ? schoolLogo : undefined,
+    currencySymbol: settings.currency.symbol,
+    primaryColor: hexToRgb(invoiceSettings.brandColor),
+    font: invoiceSettings.font,
+    showBankDetails: invoiceSettings.showBankDetails,
+    showVatNumber: invoiceSettings.showVatNumber,
+    footerText: invoiceSettings.footerText,
+  };
+}
+
+export function formatMoney(branding: DocumentBranding, amount: number): string {
+  return `${branding.currencySymbol}${Number(amount).toFixed(2)}`;
+}
+
+export function pageWidth(doc: jsPDF): number {
+  return doc.internal.pageSize.width;
+}
+
+export function pageHeight(doc: jsPDF): number {
+  return doc.internal.pageSize.height;
+}
+
+// Starts a new page when the next block would run into the footer; returns
+// the y position to draw the block at
+export function ensureSpace(doc: jsPDF, y: number, needed: number): number {
+  if (y + needed > pageHeight(doc) - 25) {
+    doc.addPage();
+    return PAGE_MARGIN;
+  }
+
+  return y;
+}
+
+function addImage(doc: jsPDF, image: string, x: number, y: number, size: number): boolean {
+  try {
+    doc.addImage(image, 'PNG', x, y, size, size, undefined, 'FAST');
+    return true;
+  } catch (logoError) {
+    console.error('Error adding logo:', logoError);
+    // Continue without logo
+    return false;
+  }
+}
+
+export type HeaderLayout = 'classic' | 'banner' | 'compact';
+
+function companyLines(branding: DocumentBranding, showContact?: boolean): string[] {
+  const { company, contact } = branding;
+  const lines = [
+    company.name || 'Your Company Name',
+    company.address,
+    [company.city, company.state, company.postalCode].filter(Boolean).join(', '),
+    company.country,
+  ];
+  if (showContact) {
+    lines.push(contact.email, contact.phone, contact.website);
+  }
+
+  return lines.filter(Boolean);
+}
+
+// Reference details, label on the left and value right-aligned; returns the
+// y position below them
+function renderDetails(
+  doc: jsPDF,
+  branding: DocumentBranding,
+  details: Array<[string, string]>,
+  y: number
+): number {
+  const right = pageWidth(doc) - PAGE_MARGIN;
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(10);
+  details.forEach(([label, value]) => {
+    doc.setFont(branding.font, 'normal');
+    doc.text(label, right - 80, y);
+    doc.setFont(branding.font, 'bold');
+    doc.text(value, right, y, { align: 'right' });
+    y += 6;
+  });
+  doc.setFont(branding.font, 'normal');
+
+  return y;
+}
+
+// Document header with the company details, title and reference details.
+// Returns the y position below the header.
+//  - classic: logos on either side, company details beside the logo, title on the right
+//  - banner: a full-width band in the brand colour carrying the title and company name
+//  - compact: no logos, title and company details on one line to leave room for items
+export function renderHeader(
+  doc: jsPDF,
+  branding: DocumentBranding,
+  options: {
+    title: string;
+    details?: Array<[string, string]>;
+    showContact?: boolean;
+    layout?: HeaderLayout;
+  }
+): number {
+  const layout = options.layout || 'classic';
+  const right = pageWidth(doc) - PAGE_MARGIN;
+  const lines = companyLines(branding, options.showContact);
+  const details = options.details || [];
+
+  if (layout === 'banner') {
+    doc.setFillColor(...branding.primaryColor);
+    doc.rect(0, 0, pageWidth(doc), 45, 'F');
+
+    let textX = PAGE_MARGIN;
+    if (branding.logo && addImage(doc, branding.logo, PAGE_MARGIN, 7, 30)) {
+      textX = PAGE_MARGIN + 35;
+    }
+
+    doc.setTextColor(255, 255, 255);
+    doc.setFont(branding.font, 'bold');
+    doc.setFontSize(14);
+    doc.text(lines[0], textX, 20);
+    doc.setFont(branding.font, 'normal');
+    doc.setFontSize(9);
+    doc.text(lines.slice(1, 4).join(', '), textX, 28, { maxWidth: right - textX - 70 });
+
+    doc.setFontSize(24);
+    doc.setFont(branding.font, 'bold');
+    doc.text(options.title, right, 27, { align: 'right' });
+    doc.setFont(branding.font, 'normal');
+
+    // Contact details sit under the band on the left, reference details on the right
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(10);
+    let contactY = 58;
+    lines.slice(4).forEach((line) => {
+      doc.text(line, PAGE_MARGIN, contactY);
+      contactY += 5;
+    });
+
+    return Math.max(contactY, renderDetails(doc, branding, details, 58)) + 5;
+  }
+
+  if (layout === 'compact') {
+    doc.setFontSize(18);
+    doc.setTextColor(...branding.primaryColor);
+    doc.setFont(branding.font, 'bold');
+    doc.text(options.title, PAGE_MARGIN, 22);
+
+    doc.setTextColor(0, 0, 0);
+    doc.setFont(branding.font, 'normal');
+    doc.setFontSize(9);
+    let companyY = 20;
+    lines.forEach((line) => {
+      doc.text(line, right, companyY, { align: 'right' });
+      companyY += 4;
+    });
+
+    doc.setDrawColor(...branding.primaryColor);
+    doc.line(PAGE_MARGIN, Math.max(companyY, 28), right, Math.max(companyY, 28));
+
+    return renderDetails(doc, branding, details, Math.max(companyY, 28) + 8) + 2;
+  }
+
+  if (branding.logo) {
+    addImage(doc, branding.logo, PAGE_MARGIN, 20, 40);
+  }
+
+  if (branding.schoolLogo) {
+    addImage(doc, branding.schoolLogo, right - 40, 20, 40);
+  }
+
+  // Company info
+  doc.setFont(branding.font, 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(0, 0, 0);
+  let companyY = 30;
+  lines.forEach((line) => {
+    doc.text(line, 70, companyY);
+    companyY += 5;
+  });
+
+  // Title
+  doc.setFontSize(24);
+  doc.setTextColor(...branding.primaryColor);
+  doc.text(options.title, right, 70, { align: 'right' });
+
+  const detailsY = renderDetails(doc, branding, details, 80);
+
+  return Math.max(companyY, detailsY, 65) + 5;
+}
+
+// Labelled block of address lines, e.g. "Bill To:". Returns the y position below it.
+export function renderAddressBlock(
+  doc: jsPDF,
+  branding: DocumentBranding,
+  options: { label: string; lines: Array<string | undefined | null>; x?: number; y: number }
+): number {
+  const x = options.x ?? PAGE_MARGIN;
+
+  doc.setFontSize(12);
+  doc.setFont(branding.font, 'bold');
+  doc.text(options.label, x, options.y);
+
+  doc.setFontSize(10);
+  doc.setFont(branding.font, 'normal');
+  let y = options.y + 8;
+  options.lines.filter(Boolean).forEach((line) => {
+    doc.text(line as string, x, y);
+    y += 5;
+  });
+
+  return y + 5;
+}
+
+// Branded table; returns the y position below it
+export function renderTable(
+  doc: jsPDF,
+  branding: DocumentBranding,
+  options: Omit<UserOptions, 'headStyles'> & { headStyles?: UserOptions['headStyles'] }
+): number {
+  autoTable(doc, {
+    theme: 'striped',
+    ...options,
+    styles: {
+      font: branding.font,
+      ...options.styles,
+    },
+    headStyles: {
+      fillColor: branding.primaryColor,
+      textColor: [255, 255, 255],
+      ...options.headStyles,
+    },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, ...(options.margin as object) },
+  });
+
+  return (doc as any).lastAutoTable.finalY;
+}
+
+export type LineItem = {
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+};
+
+// Description/quantity/rate/amount table used by invoices and credit notes
+export function renderLineItems(
+  doc: jsPDF,
+  branding: DocumentBranding,
+  items: LineItem[],
+  startY: number,
+  theme: UserOptions['theme'] = 'striped'
+): number {
+  return renderTable(doc, branding, {
+    startY,
+    theme,
+    head: [['Description', 'Quantity', 'Rate', 'Amount']],
+    body: items.map(item => [
+      item.description,
+      item.quantity.toString(),
+      formatMoney(branding, item.rate),
+      formatMoney(branding, item.amount),
+    ]),
+    columnStyles: {
+      1: { halign: 'right' },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+    },
+  });
+}
+
+export type TotalRow = {
+  label: string;
+  amount: number;
+  bold?: boolean;
+};
+
+// Right-aligned label/amount rows under a table; returns the y position below them
+export function renderTotals(
+  doc: jsPDF,
+  branding: DocumentBranding,
+  rows: TotalRow[],
+  startY: number
+): number {
+  const right = pageWidth(doc) - PAGE_MARGIN;
+  let y = ensureSpace(doc, startY + 10, rows.length * 6);
+
+  doc.setFontSize(10);
+  rows.forEach((row) => {
+    doc.setFont(branding.font, row.bold ? 'bold' : 'normal');
+    doc.text(row.label, right - 60, y);
+    doc.text(formatMoney(branding, row.amount), right, y, { align: 'right' });
+    y += 6;
+  });
+  doc.setFont(branding.font, 'normal');
+
+  return y;
+}
+
+// Labelled free text, wrapped to the page width; returns the y position below it
+export function renderTextBlock(
+  doc: jsPDF,
+  branding: DocumentBranding,
+  options: { label: string; text: string; y: number }
+): number {
+  const width = pageWidth(doc) - PAGE_MARGIN * 2;
+  const lines = doc.splitTextToSize(options.text, width) as string[];
+  let y = ensureSpace(doc, options.y, 8 + lines.length * 5);
+
+  doc.setFontSize(10);
+  doc.setFont(branding.font, 'bold');
+  doc.text(options.label, PAGE_MARGIN, y);
+  doc.setFont(branding.font, 'normal');
+  doc.text(lines, PAGE_MARGIN, y + 6);
+
+  return y + 6 + lines.length * 5 + 5;
+}
+
+// Banking details for EFT payments; skipped when hidden or none are set up
+export function renderBankDetails(doc: jsPDF, branding: DocumentBranding, startY: number): number {
+  if (!branding.showBankDetails) return startY;
+
+  const { bank } = branding;
+  const rows: Array<[string, string]> = [
+    ['Bank', bank.bankName],
+    ['Account Name', bank.accountName],
+    ['Account Number', bank.accountNumber],
+    ['Branch / Sort Code', bank.sortCode],
+    ['SWIFT', bank.swiftCode],
+    ['IBAN', bank.iban],
+  ].filter((row): row is [string, string] => Boolean(row[1]));
+
+  if (rows.length === 0) return startY;
+
+  let y = ensureSpace(doc, startY + 5, 8 + rows.length * 5);
+
+  doc.setFontSize(10);
+  doc.setFont(branding.font, 'bold');
+  doc.text('Banking Details', PAGE_MARGIN, y);
+  doc.setFont(branding.font, 'normal');
+  y += 6;
+
+  rows.forEach(([label, value]) => {
+    doc.text(`${label}:`, PAGE_MARGIN, y);
+    doc.text(value, PAGE_MARGIN + 40, y);
+    y += 5;
+  });
+
+  return y + 5;
+}
+
+// Large diagonal label across the page, e.g. DRAFT or VOID
+export function renderWatermark(doc: jsPDF, text: string) {
+  doc.setFontSize(60);
+  doc.setTextColor(220, 38, 38);
+  doc.text(text, pageWidth(doc) / 2, pageHeight(doc) / 2 + 50, { align: 'center', angle: 30 });
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(10);
+}
+
+// Footer text, registration numbers and page numbers on every page of the document
+export function renderFooter(
+  doc: jsPDF,
+  branding: DocumentBranding,
+  options: { lines?: string[]; pageNumbers?: boolean } = {}
+) {
+  const { company } = branding;
+  const registration = [
+    company.registrationNumber && `Reg. No: ${company.registrationNumber}`,
+    branding.showVatNumber && company.vatNumber && `VAT No: ${company.vatNumber}`,
+  ].filter(Boolean).join('  |  ');
+  const lines = [...(options.lines || []), branding.footerText, registration].filter(Boolean);
+
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setFont(branding.font, 'normal');
+    doc.setTextColor(128);
+
+    let y = pageHeight(doc) - 10 - lines.length * 4 - (options.pageNumbers ? 4 : 0);
+    lines.forEach((line) => {
+      doc.text(line, pageWidth(doc) / 2, y, { align: 'center' });
+      y += 4;
+    });
+
+    if (options.pageNumbers) {
+      doc.text(`Page ${i} of ${pageCount}`, pageWidth(doc) / 2, pageHeight(doc) - 10, { align: 'center' });
+    }
+  }
+
+  doc.setTextColor(0, 0, 0);
+}
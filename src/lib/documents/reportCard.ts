@@ -0,0 +1,177 @@
+import { jsPDF } from 'jspdf';
+import { supabase } from '../supabase';
+import { formatMark } from '../reportCards';
+import { gradeName } from '../grades';
+import { achievementKey, getAchievementLevel, type AchievementLevel } from '../achievement';
+import {
+  formatReportDate,
+  reportLabels,
+  reportSubjectName,
+  type ReportLanguage,
+} from '../reportLanguage';
+import { type DocumentBranding, pageHeight, pageWidth, renderTable } from './render';
+import type { ReportCard, Student, Subject } from '../../types/supabase';
+
+export type ReportCardWithDetails = ReportCard & {
+  student: Student;
+  subjects: Array<{
+    subject: Subject;
+    term_mark: number | null;
+    year_to_date: number | null;
+    subject_comment?: string;
+  }>;
+};
+
+export async function fetchReportCardsWithDetails(ids: string[]): Promise<ReportCardWithDetails[]> {
+  const { data, error } = await supabase
+    .from('report_cards')
+    .select(`
+      *,
+      student:students(*),
+      subjects:report_card_subjects(
+        *,
+        subject:subjects(*)
+      )
+    `)
+    .in('id', ids);
+
+  if (error) throw error;
+  return (data || []) as ReportCardWithDetails[];
+}
+
+export function getReportCardFileName(reportCard: ReportCardWithDetails): string {
+  return `report-card-${reportCard.student.first_name}-${reportCard.student.last_name}-term${reportCard.term}-${reportCard.year}.pdf`;
+}
+
+// Draws the school logo centred at the top of the page; returns how far the
+// rest of the page has to move down to make room for it
+function addSchoolLogo(doc: jsPDF, schoolLogo?: string): number {
+  if (!schoolLogo) return 0;
+
+  try {
+    const logoWidth = 40;
+    const logoHeight = 40;
+    const xPosition = (doc.internal.pageSize.width - logoWidth) / 2;
+
+    doc.addImage(schoolLogo, 'PNG', xPosition, 15, logoWidth, logoHeight, undefined, 'FAST');
+    return 50;
+  } catch (logoError) {
+    console.error('Error adding logo:', logoError);
+    // Continue without logo if there's an error
+    return 0;
+  }
+}
+
+// Renders one learner's report card onto the current page of the document.
+// Unlike the financial documents it only fills one page, so several cards
+// can be rendered into the same document. The card is printed in the
+// learner's language unless another is given.
+export function renderReportCardPDF(
+  doc: jsPDF,
+  reportCard: ReportCardWithDetails,
+  branding: DocumentBranding,
+  achievementScale: AchievementLevel[],
+  language: ReportLanguage = reportCard.student.language
+) {
+  const labels = reportLabels[language];
+  const width = pageWidth(doc);
+  const height = pageHeight(doc);
+  const offset = addSchoolLogo(doc, branding.schoolLogo);
+
+  doc.setFontSize(24);
+  doc.setTextColor(...branding.primaryColor);
+  doc.text((branding.company.name || 'Eduvance Academy').toUpperCase(), width / 2, 20 + offset, { align: 'center' });
+
+  doc.setFontSize(18);
+  doc.text(labels.title.toUpperCase(), width / 2, 30 + offset, { align: 'center' });
+
+  doc.setFontSize(14);
+  doc.setTextColor(0);
+  doc.text(`${labels.term} ${reportCard.term} - ${reportCard.year}`, width / 2, 40 + offset, { align: 'center' });
+
+  doc.setFontSize(12);
+  doc.text(labels.studentInformation, 20, 60 + offset);
+  doc.setFontSize(10);
+  doc.text(`${labels.name}: ${reportCard.student.first_name} ${reportCard.student.last_name}`, 20, 70 + offset);
+  doc.text(`${labels.grade}: ${gradeName(reportCard.student.grade)}`, 20, 75 + offset);
+  doc.text(`${labels.language}: ${labels.languageNames[reportCard.student.language]}`, 20, 80 + offset);
+
+  doc.setFontSize(12);
+  doc.text(labels.attendance, 20, 95 + offset);
+  doc.setFontSize(10);
+  doc.text(`${labels.daysPresent}: ${reportCard.attendance_days - reportCard.absent_days}`, 20, 105 + offset);
+  doc.text(`${labels.daysAbsent}: ${reportCard.absent_days}`, 20, 110 + offset);
+  doc.text(`${labels.totalDays}: ${reportCard.attendance_days}`, 20, 115 + offset);
+
+  const finalY = renderTable(doc, branding, {
+    startY: 130 + offset,
+    head: [[labels.subject, labels.termMark, labels.level, labels.yearToDate, labels.comment]],
+    body: reportCard.subjects.map(subject => [
+      reportSubjectName(subject.subject, language),
+      formatMark(subject.term_mark),
+      getAchievementLevel(subject.term_mark, achievementScale)?.level.toString() ?? '–',
+      formatMark(subject.year_to_date),
+      subject.subject_comment || ''
+    ]),
+    styles: {
+      fontSize: 10,
+      cellPadding: 5
+    },
+    columnStyles: {
+      0: { cellWidth: 55 },
+      1: { cellWidth: 25, halign: 'center' },
+      2: { cellWidth: 18, halign: 'center' },
+      3: { cellWidth: 25, halign: 'center' },
+      4: { cellWidth: 'auto' }
+    }
+  });
+
+  // Add the achievement level key in two columns
+  const key = achievementKey(achievementScale, language);
+  const keyColumnWidth = (width - 40) / 2;
+  const keyRows = Math.ceil(key.length / 2);
+
+  doc.setFontSize(9);
+  doc.text(labels.achievementLevels, 20, finalY + 8);
+  doc.setFontSize(8);
+  key.forEach((entry, index) => {
+    doc.text(
+      `${entry.level}  ${entry.descriptor} (${entry.range})`,
+      20 + (index % 2) * keyColumnWidth,
+      finalY + 13 + Math.floor(index / 2) * 4
+    );
+  });
+
+  // Add comments section
+  const commentsY = finalY + 13 + keyRows * 4 + 12;
+
+  if (reportCard.teacher_comment) {
+    doc.setFontSize(12);
+    doc.text(`${labels.teacherComment}:`, 20, commentsY);
+    doc.setFontSize(10);
+    doc.text(reportCard.teacher_comment, 20, commentsY + 10, {
+      maxWidth: width - 40
+    });
+  }
+
+  if (reportCard.principal_comment) {
+    const principalY = commentsY + (reportCard.teacher_comment ? 30 : 0);
+    doc.setFontSize(12);
+    doc.text(`${labels.principalComment}:`, 20, principalY);
+    doc.setFontSize(10);
+    doc.text(reportCard.principal_comment, 20, principalY + 10, {
+      maxWidth: width - 40
+    });
+  }
+
+  // Add signature lines
+  const signatureY = height - 40;
+  doc.setFontSize(10);
+  doc.text('_____________________', 30, signatureY);
+  doc.text('_____________________', width - 80, signatureY);
+  doc.text(labels.classTeacher, 40, signatureY + 10);
+  doc.text(labels.principal, width - 65, signatureY + 10);
+
+  // Add date
+  doc.text(`${labels.generatedOn}: ${formatReportDate(new Date(), language)}`, 20, height - 10);
+}
@@ -0,0 +1,119 @@
+import { format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import {
+  type DocumentBranding,
+  PAGE_MARGIN,
+  formatMoney,
+  pageWidth,
+  renderAddressBlock,
+  renderBankDetails,
+  renderFooter,
+  renderHeader,
+  renderTable,
+} from './render';
+
+export type StatementEntry = {
+  date: string;
+  description: string;
+  reference: string;
+  type: string;
+  debit: number;
+  credit: number;
+  running_balance: number;
+  // Invoice, late charge, credit note or payment behind the line
+  source_id: string | null;
+};
+
+export type StatementSummary = {
+  openingBalance: number;
+  totalInvoiced: number;
+  totalLateCharges: number;
+  totalCredited: number;
+  totalPaid: number;
+  closingBalance: number;
+};
+
+export type StatementDocument = {
+  clientName: string;
+  startDate: string;
+  endDate: string;
+  entries: StatementEntry[];
+  summary: StatementSummary;
+};
+
+export function renderStatementPDF(doc: jsPDF, statement: StatementDocument, branding: DocumentBranding) {
+  const { summary, entries } = statement;
+
+  let y = renderHeader(doc, branding, {
+    title: 'STATEMENT',
+    details: [
+      ['Period:', `${format(new Date(statement.startDate), 'MMM d, yyyy')} - ${format(new Date(statement.endDate), 'MMM d, yyyy')}`],
+      ['Date Issued:', format(new Date(), 'MMM d, yyyy')],
+    ],
+    showContact: true,
+  });
+
+  y = renderAddressBlock(doc, branding, { label: 'Statement For:', lines: [statement.clientName], y });
+
+  // Add summary section, with a second line for any late charges
+  const hasLateCharges = summary.totalLateCharges > 0;
+  const summaryHeight = hasLateCharges ? 36 : 30;
+  doc.setFillColor(247, 250, 252);
+  doc.rect(PAGE_MARGIN, y, pageWidth(doc) - PAGE_MARGIN * 2, summaryHeight, 'F');
+
+  doc.setFontSize(10);
+  doc.setFont(branding.font, 'bold');
+  doc.text('Summary', PAGE_MARGIN + 5, y + 10);
+  doc.setFont(branding.font, 'normal');
+  doc.setFontSize(9);
+  doc.text(`Opening: ${formatMoney(branding, summary.openingBalance)}`, 25, y + 20);
+  doc.text(`Invoiced: ${formatMoney(branding, summary.totalInvoiced)}`, 60, y + 20);
+  doc.text(`Credited: ${formatMoney(branding, summary.totalCredited)}`, 95, y + 20);
+  doc.text(`Paid: ${formatMoney(branding, summary.totalPaid)}`, 130, y + 20);
+  doc.setFont(branding.font, 'bold');
+  doc.text(`Balance Due: ${formatMoney(branding, summary.closingBalance)}`, 160, y + 20);
+  doc.setFont(branding.font, 'normal');
+  if (hasLateCharges) {
+    doc.text(`Late Charges: ${formatMoney(branding, summary.totalLateCharges)}`, 60, y + 28);
+  }
+  doc.setFontSize(10);
+
+  y = renderTable(doc, branding, {
+    startY: y + summaryHeight + 10,
+    head: [['Date', 'Description', 'Reference', 'Debit', 'Credit', 'Balance']],
+    body: entries.map(entry => [
+      format(new Date(entry.date), 'MMM d, yyyy'),
+      entry.description,
+      entry.reference,
+      entry.debit > 0 ? formatMoney(branding, entry.debit) : '',
+      entry.credit > 0 ? formatMoney(branding, entry.credit) : '',
+      formatMoney(branding, entry.running_balance),
+    ]),
+    headStyles: {
+      fontSize: 10,
+      fontStyle: 'bold',
+    },
+    bodyStyles: {
+      fontSize: 9,
+    },
+    alternateRowStyles: {
+      fillColor: [247, 250, 252],
+    },
+    didParseCell: (data) => {
+      // Emphasise the balance brought forward
+      if (data.section === 'body' && entries[data.row.index]?.type === 'opening_balance') {
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  renderBankDetails(doc, branding, y + 5);
+
+  renderFooter(doc, branding, {
+    lines: [
+      'This statement includes all transactions within the specified date range, with the balance brought forward from earlier periods.',
+      'For any queries regarding this statement, please contact our accounts department.',
+    ],
+    pageNumbers: true,
+  });
+}
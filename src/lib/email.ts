@@ -0,0 +1,115 @@
+import type { jsPDF } from 'jspdf';
+import { supabase } from './supabase';
+import type { EmailDocumentType, EmailLog } from '../types/supabase';
+
+export type MergeValues = Record<string, string>;
+
+// Fields each template can use, written as {{field}}
+export const mergeFields: Record<EmailDocumentType, Array<{ field: string; label: string }>> = {
+  invoice: [
+    { field: 'client_name', label: 'Client name' },
+    { field: 'invoice_number', label: 'Invoice number' },
+    { field: 'invoice_date', label: 'Invoice date' },
+    { field: 'due_date', label: 'Due date' },
+    { field: 'total', label: 'Invoice total' },
+    { field: 'amount_due', label: 'Amount outstanding' },
+    { field: 'company_name', label: 'School name' },
+  ],
+  statement: [
+    { field: 'client_name', label: 'Client name' },
+    { field: 'statement_period', label: 'Statement period' },
+    { field: 'balance_due', label: 'Balance due' },
+    { field: 'company_name', label: 'School name' },
+  ],
+  report_card: [
+    { field: 'parent_name', label: 'Parent name' },
+    { field: 'student_name', label: 'Learner name' },
+    { field: 'term', label: 'Term' },
+    { field: 'year', label: 'Year' },
+    { field: 'company_name', label: 'School name' },
+  ],
+};
+
+// Invoices from recurring schedules are emailed by the database without a
+// PDF, so their template can list the invoice lines instead
+export const recurringInvoiceMergeFields = [
+  ...mergeFields.invoice,
+  { field: 'invoice_lines', label: 'Invoice lines' },
+];
+
+export const emailDocumentLabels: Record<EmailDocumentType, string> = {
+  invoice: 'Invoice',
+  statement: 'Statement',
+  report_card: 'Report Card',
+};
+
+// Unknown fields are left as written so a typo shows up in the preview
+export function renderTemplate(template: string, values: MergeValues): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, field: string) =>
+    values[field] ?? match
+  );
+}
+
+export function parseAddresses(value: string): string[] {
+  return value
+    .split(/[,;\s]+/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+export function isValidEmail(address: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address);
+}
+
+export type SendEmailOptions = {
+  documentType: EmailDocumentType;
+  invoiceId?: string;
+  clientId?: string;
+  reportCardId?: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string;
+  attachment?: {
+    filename: string;
+    doc: jsPDF;
+  };
+};
+
+// Queues the email in email_logs, then asks the send-email function to send
+// it. A failed send is recorded on the log as well as thrown.
+export async function sendDocumentEmail(options: SendEmailOptions): Promise<EmailLog> {
+  const { data: log, error: logError } = await supabase
+    .from('email_logs')
+    .insert({
+      document_type: options.documentType,
+      invoice_id: options.invoiceId || null,
+      client_id: options.clientId || null,
+      report_card_id: options.reportCardId || null,
+      to_email: options.to.join(', '),
+      cc_email: options.cc.length ? options.cc.join(', ') : null,
+      bcc_email: options.bcc.length ? options.bcc.join(', ') : null,
+      subject: options.subject,
+      body: options.body,
+      status: 'queued',
+    })
+    .select()
+    .single();
+
+  if (logError) throw logError;
+
+  const { error: sendError } = await supabase.functions.invoke('send-email', {
+    body: {
+      emailLogId: log.id,
+      attachment: options.attachment && {
+        filename: options.attachment.filename,
+        content: options.attachment.doc.output('datauristring').split(',')[1],
+      },
+    },
+  });
+
+  if (sendError) throw sendError;
+
+  return { ...log, status: 'sent' };
+}
@@ -0,0 +1,154 @@
+import type { FeeDiscount, FeeItem } from '../types/supabase';
+
+export type FeeStudent = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  grade: number;
+  date_of_birth: string;
+  guardians: {
+    client_id: string;
+    client_name: string;
+    fee_share: number;
+  }[];
+};
+
+export type DraftInvoiceLine = {
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+};
+
+export type DraftTermInvoice = {
+  key: string;
+  client_id: string;
+  client_name: string;
+  student_id: string;
+  student_name: string;
+  grade: number;
+  fee_share: number;
+  items: DraftInvoiceLine[];
+  subtotal: number;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const line = (description: string, amount: number): DraftInvoiceLine => ({
+  description,
+  quantity: 1,
+  rate: round(amount),
+  amount: round(amount),
+});
+
+// Position of each learner within their primary guardian's family, eldest first
+function getChildPositions(students: FeeStudent[]): Map<string, number> {
+  const families = new Map<string, FeeStudent[]>();
+
+  students.forEach((student) => {
+    const primary = [...student.guardians].sort((a, b) => b.fee_share - a.fee_share)[0];
+    if (!primary) return;
+    families.set(primary.client_id, [...(families.get(primary.client_id) || []), student]);
+  });
+
+  const positions = new Map<string, number>();
+  families.forEach((children) => {
+    children
+      .sort((a, b) => b.grade - a.grade || a.date_of_birth.localeCompare(b.date_of_birth))
+      .forEach((child, index) => positions.set(child.id, index + 1));
+  });
+
+  return positions;
+}
+
+// Most generous sibling discount that applies at the given child position
+function getSiblingDiscount(discounts: FeeDiscount[], position: number) {
+  return discounts
+    .filter((d) => d.discount_type === 'sibling' && d.min_child_position <= position)
+    .sort((a, b) => b.percentage - a.percentage)[0];
+}
+
+export function buildTermInvoices({
+  students,
+  feeItems,
+  extras,
+  discounts,
+  term,
+  year,
+}: {
+  students: FeeStudent[];
+  feeItems: FeeItem[];
+  extras: { student_id: string; fee_item_id: string }[];
+  discounts: FeeDiscount[];
+  term: number;
+  year: number;
+}): DraftTermInvoice[] {
+  const positions = getChildPositions(students);
+  const period = `Term ${term} ${year}`;
+
+  return students.flatMap((student) => {
+    const tuition = feeItems.filter(
+      (item) =>
+        item.is_active &&
+        item.category === 'tuition' &&
+        (item.grade === null || item.grade === student.grade)
+    );
+    const studentExtras = feeItems.filter(
+      (item) =>
+        item.is_active &&
+        item.category === 'extra' &&
+        extras.some((e) => e.student_id === student.id && e.fee_item_id === item.id)
+    );
+
+    const lines = [...tuition, ...studentExtras].map((item) =>
+      line(`${item.name} – ${period}`, Number(item.amount))
+    );
+
+    // Sibling discounts only reduce tuition, never extras
+    const siblingDiscount = getSiblingDiscount(discounts, positions.get(student.id) || 1);
+    if (siblingDiscount) {
+      const tuitionTotal = tuition.reduce((sum, item) => sum + Number(item.amount), 0);
+      lines.push(
+        line(
+          `${siblingDiscount.name} (${siblingDiscount.percentage}%)`,
+          -tuitionTotal * (siblingDiscount.percentage / 100)
+        )
+      );
+    }
+
+    if (lines.length === 0) return [];
+
+    // Split the learner's fees between their billing guardians
+    return student.guardians.map((guardian) => {
+      const items = lines.map((l) => line(l.description, l.amount * (guardian.fee_share / 100)));
+      return {
+        key: `${student.id}-${guardian.client_id}`,
+        client_id: guardian.client_id,
+        client_name: guardian.client_name,
+        student_id: student.id,
+        student_name: `${student.first_name} ${student.last_name}`,
+        grade: student.grade,
+        fee_share: guardian.fee_share,
+        items,
+        subtotal: round(items.reduce((sum, item) => sum + item.amount, 0)),
+      };
+    });
+  });
+}
+
+// Adds an early-payment discount line to a draft invoice
+export function applyEarlyPaymentDiscount(
+  invoice: DraftTermInvoice,
+  discount: FeeDiscount
+): DraftTermInvoice {
+  const items = [
+    ...invoice.items,
+    line(`${discount.name} (${discount.percentage}%)`, -invoice.subtotal * (discount.percentage / 100)),
+  ];
+
+  return {
+    ...invoice,
+    items,
+    subtotal: round(items.reduce((sum, item) => sum + item.amount, 0)),
+  };
+}
@@ -0,0 +1,28 @@
+// Grades are stored as numbers. Grade R is 0 and the pre-school years count
+// down from it, so ordering by grade still runs from youngest to oldest.
+export const MIN_GRADE = -2;
+export const MAX_GRADE = 12;
+
+export const GRADES = Array.from({ length: MAX_GRADE - MIN_GRADE + 1 }, (_, i) => MIN_GRADE + i);
+
+const RECEPTION_NAMES: Record<number, string> = {
+  [-2]: 'RRR',
+  [-1]: 'RR',
+  0: 'R',
+};
+
+// The grade without the word "Grade", e.g. "R" or "7"
+export function gradeName(grade: number): string {
+  return RECEPTION_NAMES[grade] ?? grade.toString();
+}
+
+export function gradeLabel(grade: number): string {
+  return `Grade ${gradeName(grade)}`;
+}
+
+// Reads a grade typed by a person, e.g. "R", "Grade R", "Gr 7" or "7"
+export function parseGrade(value: string): number | null {
+  const name = value.trim().toUpperCase().replace(/^(GRADE|GR\.?)\s*/, '');
+  const grade = GRADES.find((g) => gradeName(g) === name);
+  return grade ?? null;
+}
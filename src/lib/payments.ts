@@ -0,0 +1,40 @@
+import type { CreditAllocation, LateCharge, Payment } from '../types/supabase';
+
+export const paymentMethods: { value: Payment['method']; label: string }[] = [
+  { value: 'eft', label: 'EFT' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'debit_order', label: 'Debit Order' },
+  { value: 'other', label: 'Other' },
+];
+
+// Sum of all payments recorded against an invoice
+export function getAmountPaid(payments?: Pick<Payment, 'amount'>[] | null): number {
+  return (payments || []).reduce((sum, payment) => sum + Number(payment.amount), 0);
+}
+
+// Sum of all credit note amounts applied to an invoice
+export function getAmountCredited(allocations?: Pick<CreditAllocation, 'amount'>[] | null): number {
+  return (allocations || []).reduce((sum, allocation) => sum + Number(allocation.amount), 0);
+}
+
+// Sum of the late charges on an invoice that have not been waived
+export function getLateChargeTotal(charges?: Pick<LateCharge, 'amount' | 'status'>[] | null): number {
+  return (charges || [])
+    .filter(charge => charge.status === 'active')
+    .reduce((sum, charge) => sum + Number(charge.amount), 0);
+}
+
+// Amount still owing on an invoice; negative when the client has overpaid
+export function getBalanceDue(invoice: {
+  total: number;
+  payments?: Pick<Payment, 'amount'>[] | null;
+  credit_allocations?: Pick<CreditAllocation, 'amount'>[] | null;
+  late_charges?: Pick<LateCharge, 'amount' | 'status'>[] | null;
+}): number {
+  return Number(invoice.total)
+    + getLateChargeTotal(invoice.late_charges)
+    - getAmountPaid(invoice.payments)
+    - getAmountCredited(invoice.credit_allocations);
+}
@@ -0,0 +1,51 @@
+import { useAuthStore } from '../store/auth';
+import type { Role } from '../types';
+
+// What each role may do in the app. Row level security enforces the same
+// rules in the database; these only decide what is shown.
+export type Permission =
+  | 'finance:view'
+  | 'finance:manage'
+  | 'students:manage'
+  | 'academics:manage'
+  | 'classes:manage'
+  | 'reports:principal'
+  | 'settings:manage'
+  | 'team:manage';
+
+const rolePermissions: Record<Role, Permission[]> = {
+  admin: [
+    'finance:view',
+    'finance:manage',
+    'students:manage',
+    'academics:manage',
+    'classes:manage',
+    'reports:principal',
+    'settings:manage',
+    'team:manage',
+  ],
+  principal: ['academics:manage', 'classes:manage', 'reports:principal'],
+  accountant: ['finance:view', 'finance:manage', 'students:manage'],
+  teacher: ['academics:manage'],
+  read_only: ['finance:view'],
+};
+
+export const roleLabels: Record<Role, string> = {
+  admin: 'Admin',
+  principal: 'Principal',
+  accountant: 'Bursar / Accountant',
+  teacher: 'Teacher',
+  read_only: 'Read-only',
+};
+
+export const roles = Object.keys(roleLabels) as Role[];
+
+export function hasPermission(role: Role | undefined, permission: Permission): boolean {
+  return !!role && rolePermissions[role].includes(permission);
+}
+
+// Whether the signed-in member may do something
+export function usePermission(permission: Permission): boolean {
+  const role = useAuthStore((state) => state.membership?.role);
+  return hasPermission(role, permission);
+}
@@ -0,0 +1,48 @@
+import { mergeFields } from './email';
+import type { PaymentReminderStep } from '../types/supabase';
+
+// Reminders are filled in by queue_payment_reminders() in the database
+export const reminderMergeFields = [
+  ...mergeFields.invoice,
+  { field: 'days_overdue', label: 'Days overdue' },
+];
+
+export function describeReminderOffset(daysOffset: number): string {
+  if (daysOffset === 0) return 'On the due date';
+
+  const days = Math.abs(daysOffset);
+  const unit = days === 1 ? 'day' : 'days';
+  return daysOffset < 0 ? `${days} ${unit} before due` : `${days} ${unit} after due`;
+}
+
+const beforeDueBody = 'Dear {{client_name}}\n\nThis is a friendly reminder that invoice {{invoice_number}} for {{amount_due}} is due on {{due_date}}.\n\nIf you have already paid, please ignore this email.\n\nKind regards\n{{company_name}}';
+
+const overdueBody = 'Dear {{client_name}}\n\nInvoice {{invoice_number}} was due on {{due_date}} and {{amount_due}} is still outstanding, {{days_overdue}} days later. Please settle the balance or contact us to make an arrangement.\n\nIf you have already paid, please ignore this email.\n\nKind regards\n{{company_name}}';
+
+export const suggestedReminderSteps: Array<Pick<PaymentReminderStep, 'days_offset' | 'subject' | 'body'>> = [
+  {
+    days_offset: -3,
+    subject: 'Invoice {{invoice_number}} is due on {{due_date}}',
+    body: beforeDueBody,
+  },
+  {
+    days_offset: 0,
+    subject: 'Invoice {{invoice_number}} is due today',
+    body: beforeDueBody,
+  },
+  {
+    days_offset: 7,
+    subject: 'Invoice {{invoice_number}} is overdue',
+    body: overdueBody,
+  },
+  {
+    days_offset: 14,
+    subject: 'Second reminder: invoice {{invoice_number}} is overdue',
+    body: overdueBody,
+  },
+  {
+    days_offset: 30,
+    subject: 'Final reminder: invoice {{invoice_number}} is {{days_overdue}} days overdue',
+    body: overdueBody,
+  },
+];
@@ -0,0 +1,40 @@
+import type { ReportCard, ReportCardSubject } from '../types/supabase';
+
+export type ReportCardCompleteness = {
+  missingMarks: number;
+  missingComments: number;
+  missingTeacherComment: boolean;
+  isComplete: boolean;
+};
+
+// Marks are left empty on drafts until they are captured
+export function formatMark(mark: number | null | undefined): string {
+  return mark === null || mark === undefined ? '–' : `${mark}%`;
+}
+
+// Checks a report card against the subjects offered in the learner's grade
+export function getReportCardCompleteness(
+  reportCard: Pick<ReportCard, 'teacher_comment'> & {
+    subjects: Pick<ReportCardSubject, 'subject_id' | 'term_mark' | 'year_to_date' | 'subject_comment'>[];
+  },
+  gradeSubjectIds: string[]
+): ReportCardCompleteness {
+  const missingMarks = gradeSubjectIds.filter((subjectId) => {
+    const row = reportCard.subjects.find(s => s.subject_id === subjectId);
+    return !row || row.term_mark === null || row.year_to_date === null;
+  }).length;
+
+  const missingComments = gradeSubjectIds.filter((subjectId) => {
+    const row = reportCard.subjects.find(s => s.subject_id === subjectId);
+    return !row?.subject_comment?.trim();
+  }).length;
+
+  const missingTeacherComment = !reportCard.teacher_comment?.trim();
+
+  return {
+    missingMarks,
+    missingComments,
+    missingTeacherComment,
+    isComplete: missingMarks === 0 && missingComments === 0 && !missingTeacherComment,
+  };
+}
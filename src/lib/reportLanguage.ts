@@ -0,0 +1,127 @@
+import { format } from 'date-fns';
+import { af, enUS } from 'date-fns/locale';
+import { gradeName } from './grades';
+import type { ReportCard, Student, Subject } from '../types/supabase';
+
+// Report cards are printed in the learner's language unless another is chosen
+export type ReportLanguage = Student['language'];
+
+export const reportLanguages: { value: ReportLanguage; label: string }[] = [
+  { value: 'english', label: 'English' },
+  { value: 'afrikaans', label: 'Afrikaans' },
+];
+
+type ReportLabels = {
+  title: string;
+  studentInformation: string;
+  name: string;
+  grade: string;
+  language: string;
+  languageNames: Record<ReportLanguage, string>;
+  reportPeriod: string;
+  term: string;
+  lastUpdated: string;
+  status: string;
+  statuses: Record<ReportCard['status'], string>;
+  attendance: string;
+  days: string;
+  daysPresent: string;
+  daysAbsent: string;
+  totalDays: string;
+  subjectResults: string;
+  subject: string;
+  termMark: string;
+  level: string;
+  yearToDate: string;
+  comment: string;
+  noComment: string;
+  achievementLevels: string;
+  teacherComment: string;
+  principalComment: string;
+  classTeacher: string;
+  principal: string;
+  generatedOn: string;
+};
+
+export const reportLabels: Record<ReportLanguage, ReportLabels> = {
+  english: {
+    title: 'Student Progress Report',
+    studentInformation: 'Student Information',
+    name: 'Name',
+    grade: 'Grade',
+    language: 'Language',
+    languageNames: { english: 'English', afrikaans: 'Afrikaans' },
+    reportPeriod: 'Report Period',
+    term: 'Term',
+    lastUpdated: 'Last Updated',
+    status: 'Status',
+    statuses: { draft: 'Draft', published: 'Published', archived: 'Archived' },
+    attendance: 'Attendance',
+    days: 'Days',
+    daysPresent: 'Days Present',
+    daysAbsent: 'Days Absent',
+    totalDays: 'Total Days',
+    subjectResults: 'Subject Results',
+    subject: 'Subject',
+    termMark: 'Term Mark',
+    level: 'Level',
+    yearToDate: 'Year to Date',
+    comment: 'Comment',
+    noComment: 'No comment',
+    achievementLevels: 'Achievement Levels',
+    teacherComment: "Teacher's Comment",
+    principalComment: "Principal's Comment",
+    classTeacher: 'Class Teacher',
+    principal: 'Principal',
+    generatedOn: 'Generated on',
+  },
+  afrikaans: {
+    title: 'Leerdervorderingsverslag',
+    studentInformation: 'Leerderinligting',
+    name: 'Naam',
+    grade: 'Graad',
+    language: 'Taal',
+    languageNames: { english: 'Engels', afrikaans: 'Afrikaans' },
+    reportPeriod: 'Verslagtydperk',
+    term: 'Kwartaal',
+    lastUpdated: 'Laas bygewerk',
+    status: 'Status',
+    statuses: { draft: 'Konsep', published: 'Gepubliseer', archived: 'Geargiveer' },
+    attendance: 'Bywoning',
+    days: 'Dae',
+    daysPresent: 'Dae teenwoordig',
+    daysAbsent: 'Dae afwesig',
+    totalDays: 'Totale dae',
+    subjectResults: 'Vakuitslae',
+    subject: 'Vak',
+    termMark: 'Kwartaalpunt',
+    level: 'Vlak',
+    yearToDate: 'Jaar tot op datum',
+    comment: 'Kommentaar',
+    noComment: 'Geen kommentaar',
+    achievementLevels: 'Prestasievlakke',
+    teacherComment: 'Klasonderwyser se kommentaar',
+    principalComment: 'Skoolhoof se kommentaar',
+    classTeacher: 'Klasonderwyser',
+    principal: 'Skoolhoof',
+    generatedOn: 'Opgestel op',
+  },
+};
+
+export function reportSubjectName(subject: Pick<Subject, 'name_en' | 'name_af'>, language: ReportLanguage): string {
+  return language === 'afrikaans' ? subject.name_af : subject.name_en;
+}
+
+// e.g. "Grade R" or "Graad 7"
+export function reportGradeLabel(grade: number, language: ReportLanguage): string {
+  return `${reportLabels[language].grade} ${gradeName(grade)}`;
+}
+
+// Long dates for the printed report, short ones on screen, e.g.
+// "March 4, 2025" or "4 Maart 2025"
+export function formatReportDate(date: Date, language: ReportLanguage, style: 'long' | 'short' = 'long'): string {
+  if (language === 'afrikaans') {
+    return format(date, style === 'long' ? 'd MMMM yyyy' : 'd MMM yyyy', { locale: af });
+  }
+  return format(date, style === 'long' ? 'MMMM d, yyyy' : 'MMM d, yyyy', { locale: enUS });
+}
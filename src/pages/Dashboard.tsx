@@ -17,6 +17,8 @@ import { useNavigate } from 'react-router-dom';
 import { format, subMonths } from 'date-fns';
 import { supabase } from '../lib/supabase';
 import { useSettingsStore } from '../store/settings';
+import { usePermission } from '../lib/permissions';
+import { getBalanceDue } from '../lib/payments';
 
 ChartJS.register(
   CategoryScale,
@@ -46,6 +48,7 @@ type DashboardStats = {
 export default function Dashboard() {
   const navigate = useNavigate();
   const { currency } = useSettingsStore();
+  const canManage = usePermission('finance:manage');
   const queryClient = useQueryClient();
 
   // Fetch dashboard statistics
@@ -64,26 +67,40 @@ export default function Dashboard() {
 
       if (monthlyError) throw monthlyError;
 
-      // Fetch invoices for calculations
+      // Fetch invoices with their payments for balance calculations
       const { data: invoices, error: invoicesError } = await supabase
         .from('invoices')
-        .select('total, status, due_date')
+        .select('total, status, due_date, payments(amount), credit_allocations(amount), late_charges(amount, status)')
         .gte('created_at', startDate.toISOString());
 
       if (invoicesError) throw invoicesError;
 
+      // Fetch payments received in the period
+      const { data: payments, error: paymentsError } = await supabase
+        .from('payments')
+        .select('amount')
+        .gte('date', format(startDate, 'yyyy-MM-dd'));
+
+      if (paymentsError) throw paymentsError;
+
       // Calculate statistics
-      const totalRevenue = invoices
-        ?.filter((inv) => inv.status === 'paid')
-        .reduce((sum, inv) => sum + inv.total, 0) || 0;
+      const totalRevenue = payments
+        ?.reduce((sum, payment) => sum + Number(payment.amount), 0) || 0;
+
+      const today = format(endDate, 'yyyy-MM-dd');
+      const unpaidInvoices = invoices
+        ?.filter((inv) => inv.status !== 'draft' && getBalanceDue(inv) > 0) || [];
+
+      const isOverdue = (inv: { status: string; due_date: string }) =>
+        inv.status === 'overdue' || inv.due_date < today;
 
-      const outstandingAmount = invoices
-        ?.filter((inv) => inv.status === 'sent')
-        .reduce((sum, inv) => sum + inv.total, 0) || 0;
+      const outstandingAmount = unpaidInvoices
+        .filter((inv) => !isOverdue(inv))
+        .reduce((sum, inv) => sum + getBalanceDue(inv), 0);
 
-      const overdueAmount = invoices
-        ?.filter((inv) => inv.status === 'overdue')
-        .reduce((sum, inv) => sum + inv.total, 0) || 0;
+      const overdueAmount = unpaidInvoices
+        .filter(isOverdue)
+        .reduce((sum, inv) => sum + getBalanceDue(inv), 0);
 
       // Fetch top clients
       const { data: topClients, error: clientsError } = await supabase
@@ -122,6 +139,18 @@ export default function Dashboard() {
           void queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'payments',
+        },
+        () => {
+          // Refetch dashboard stats when payments change
+          void queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+        }
+      )
       .subscribe();
 
     return () => {
@@ -190,13 +219,15 @@ export default function Dashboard() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-semibold text-gray-900">Dashboard</h1>
-        <button 
-          onClick={() => navigate('/invoices/new')}
-          className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Invoice
-        </button>
+        {canManage && (
+          <button 
+            onClick={() => navigate('/invoices/new')}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Invoice
+          </button>
+        )}
       </div>
 
       <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
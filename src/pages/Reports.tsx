@@ -26,6 +26,7 @@ import {
 import { Bar, Line, Doughnut } from 'react-chartjs-2';
 import { supabase } from '../lib/supabase';
 import { useSettingsStore } from '../store/settings';
+import { getBalanceDue } from '../lib/payments';
 
 ChartJS.register(
   CategoryScale,
@@ -77,16 +78,24 @@ export default function Reports() {
       // Fetch all required data in parallel
       const [
         { data: invoices, error: invoicesError },
+        { data: payments, error: paymentsError },
         { data: monthlyData, error: monthlyError },
         { data: clientData, error: clientError },
       ] = await Promise.all([
         // Get overall invoice statistics
         supabase
           .from('invoices')
-          .select('total, status, created_at')
+          .select('total, status, due_date, created_at, payments(amount), credit_allocations(amount), late_charges(amount, status)')
           .gte('created_at', startDate.toISOString())
           .lte('created_at', endDate.toISOString()),
 
+        // Get payments received in the period
+        supabase
+          .from('payments')
+          .select('amount, invoice_id')
+          .gte('date', format(startDate, 'yyyy-MM-dd'))
+          .lte('date', format(endDate, 'yyyy-MM-dd')),
+
         // Get monthly revenue
         supabase.rpc('get_monthly_revenue', {
           start_date: startDate.toISOString(),
@@ -102,24 +111,31 @@ export default function Reports() {
       ]);
 
       if (invoicesError) throw invoicesError;
+      if (paymentsError) throw paymentsError;
       if (monthlyError) throw monthlyError;
       if (clientError) throw clientError;
 
       // Calculate statistics
-      const totalRevenue = invoices
-        ?.filter((inv) => inv.status === 'paid')
-        .reduce((sum, inv) => sum + inv.total, 0) || 0;
+      const totalRevenue = payments
+        ?.reduce((sum, payment) => sum + Number(payment.amount), 0) || 0;
+
+      const today = format(endDate, 'yyyy-MM-dd');
+      const unpaidInvoices = invoices
+        ?.filter((inv) => inv.status !== 'draft' && getBalanceDue(inv) > 0) || [];
+
+      const isOverdue = (inv: { status: string; due_date: string }) =>
+        inv.status === 'overdue' || inv.due_date < today;
 
-      const outstandingAmount = invoices
-        ?.filter((inv) => inv.status === 'sent')
-        .reduce((sum, inv) => sum + inv.total, 0) || 0;
+      const outstandingAmount = unpaidInvoices
+        .filter((inv) => !isOverdue(inv))
+        .reduce((sum, inv) => sum + getBalanceDue(inv), 0);
 
-      const overdueAmount = invoices
-        ?.filter((inv) => inv.status === 'overdue')
-        .reduce((sum, inv) => sum + inv.total, 0) || 0;
+      const overdueAmount = unpaidInvoices
+        .filter(isOverdue)
+        .reduce((sum, inv) => sum + getBalanceDue(inv), 0);
 
-      const averageInvoiceValue =
-        totalRevenue / (invoices?.filter((inv) => inv.status === 'paid').length || 1);
+      const paidInvoiceCount = new Set(payments?.map((payment) => payment.invoice_id)).size;
+      const averageInvoiceValue = totalRevenue / (paidInvoiceCount || 1);
 
       // Calculate status distribution
       const statusCounts = invoices?.reduce((acc, inv) => {
@@ -186,6 +202,7 @@ export default function Reports() {
           'rgba(34, 197, 94, 0.8)',  // green
           'rgba(239, 68, 68, 0.8)',  // red
           'rgba(234, 179, 8, 0.8)',  // yellow
+          'rgba(107, 114, 128, 0.8)', // gray
         ],
       },
     ],
@@ -1,5 +1,5 @@
-import React, { useState, useRef } from 'react';
-import { useForm } from 'react-hook-form';
+import React, { useState, useRef, useEffect } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import {
@@ -14,8 +14,35 @@ import {
   Upload,
   X,
   Image,
+  Send,
+  BellRing,
+  Percent,
+  GraduationCap,
+  Plus,
+  Trash2,
 } from 'lucide-react';
 import { useSettingsStore, currencies } from '../store/settings';
+import { documentFonts } from '../lib/documents/render';
+import { invoiceTemplates } from '../lib/documents/invoice';
+import { emailDocumentLabels, mergeFields, recurringInvoiceMergeFields } from '../lib/email';
+import { capsAchievementScale } from '../lib/achievement';
+import InvoicePreview from '../components/settings/InvoicePreview';
+import ReminderSchedule from '../components/settings/ReminderSchedule';
+import type { EmailDocumentType } from '../types/supabase';
+
+const emailTemplateSchema = z.object({
+  subject: z.string().min(1, 'Subject is required'),
+  body: z.string().min(1, 'Message is required'),
+});
+
+const emailDocumentTypes = Object.keys(mergeFields) as EmailDocumentType[];
+
+const achievementLevelSchema = z.object({
+  level: z.number().int('Whole numbers only').min(1, 'Must be 1 or greater'),
+  minMark: z.number().min(0, 'Must be 0 or greater').max(100, 'Must be 100 or less'),
+  descriptorEn: z.string().min(1, 'Descriptor is required'),
+  descriptorAf: z.string().min(1, 'Descriptor is required'),
+});
 
 const settingsSchema = z.object({
   companyDetails: z.object({
@@ -46,6 +73,41 @@ const settingsSchema = z.object({
     defaultTaxRate: z.number().min(0, 'Must be 0 or greater'),
     defaultNotes: z.string(),
     defaultTerms: z.string(),
+    template: z.enum(['classic', 'modern', 'compact']),
+    brandColor: z.string().regex(/^#[0-9a-f]{6}$/i, 'Must be a colour like #3b82f6'),
+    font: z.enum(['helvetica', 'times', 'courier']),
+    showLogo: z.boolean(),
+    showBankDetails: z.boolean(),
+    showVatNumber: z.boolean(),
+    footerText: z.string(),
+  }),
+  emailSettings: z.object({
+    templates: z.object({
+      invoice: emailTemplateSchema,
+      statement: emailTemplateSchema,
+      report_card: emailTemplateSchema,
+    }),
+    recurringInvoice: emailTemplateSchema,
+  }),
+  lateChargeSettings: z.object({
+    enabled: z.boolean(),
+    method: z.enum(['interest', 'fee']),
+    interestRate: z.number().min(0, 'Must be 0 or greater').max(100, 'Must be 100 or less'),
+    feeAmount: z.number().min(0, 'Must be 0 or greater'),
+    graceDays: z.number().int('Whole days only').min(0, 'Must be 0 or greater'),
+    maxCharges: z.number().int('Whole months only').min(0, 'Must be 0 or greater'),
+  }),
+  reportSettings: z.object({
+    achievementScale: z.array(achievementLevelSchema)
+      .min(1, 'Add at least one level')
+      .refine(
+        (scale) => scale.some((level) => level.minMark === 0),
+        'The lowest level must start at 0% so that every mark has a level'
+      )
+      .refine(
+        (scale) => new Set(scale.map((level) => level.minMark)).size === scale.length,
+        'Each level needs a different minimum mark'
+      ),
   }),
 });
 
@@ -54,15 +116,15 @@ type SettingsFormData = z.infer<typeof settingsSchema>;
 export default function Settings() {
   const {
     currency,
-    setCurrency,
     companyDetails,
-    setCompanyDetails,
     contactDetails,
-    setContactDetails,
     bankDetails,
-    setBankDetails,
     invoiceSettings,
-    setInvoiceSettings,
+    emailSettings,
+    lateChargeSettings,
+    reportSettings,
+    loaded,
+    saveSettings,
     setLogo,
     removeLogo,
     setSchoolLogo,
@@ -70,16 +132,20 @@ export default function Settings() {
   } = useSettingsStore();
 
   const [activeTab, setActiveTab] = useState<
-    'company' | 'contact' | 'bank' | 'invoice'
+    'company' | 'contact' | 'bank' | 'invoice' | 'email' | 'reminders' | 'charges' | 'reports'
   >('company');
   const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const companyLogoInputRef = useRef<HTMLInputElement>(null);
   const schoolLogoInputRef = useRef<HTMLInputElement>(null);
 
   const {
     register,
+    control,
     handleSubmit,
-    formState: { errors },
+    watch,
+    reset,
+    formState: { errors, isSubmitting },
   } = useForm<SettingsFormData>({
     resolver: zodResolver(settingsSchema),
     defaultValues: {
@@ -87,9 +153,49 @@ export default function Settings() {
       contactDetails,
       bankDetails,
       invoiceSettings,
+      emailSettings,
+      lateChargeSettings,
+      reportSettings,
     },
   });
 
+  const {
+    fields: achievementLevels,
+    append: appendAchievementLevel,
+    remove: removeAchievementLevel,
+    replace: replaceAchievementScale,
+  } = useFieldArray({
+    control,
+    name: 'reportSettings.achievementScale',
+  });
+
+  // Settings may still be loading when the page opens
+  useEffect(() => {
+    if (loaded) {
+      reset({
+        companyDetails,
+        contactDetails,
+        bankDetails,
+        invoiceSettings,
+        emailSettings,
+        lateChargeSettings,
+        reportSettings,
+      });
+    }
+  }, [loaded, reset]);
+
+  const runSave = async (save: () => Promise<void>) => {
+    try {
+      setError(null);
+      await save();
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      console.error('Error saving settings:', err);
+      setError('Failed to save settings. Please try again.');
+    }
+  };
+
   const handleCompanyLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -109,9 +215,7 @@ export default function Settings() {
     const reader = new FileReader();
     reader.onloadend = () => {
       const base64String = reader.result as string;
-      setLogo(base64String);
-      setSuccess(true);
-      setTimeout(() => setSuccess(false), 3000);
+      void runSave(() => setLogo(base64String));
     };
     reader.readAsDataURL(file);
   };
@@ -135,27 +239,49 @@ export default function Settings() {
     const reader = new FileReader();
     reader.onloadend = () => {
       const base64String = reader.result as string;
-      setSchoolLogo(base64String);
-      setSuccess(true);
-      setTimeout(() => setSuccess(false), 3000);
+      void runSave(() => setSchoolLogo(base64String));
     };
     reader.readAsDataURL(file);
   };
 
-  const onSubmit = (data: SettingsFormData) => {
-    setCompanyDetails(data.companyDetails);
-    setContactDetails(data.contactDetails);
-    setBankDetails(data.bankDetails);
-    setInvoiceSettings(data.invoiceSettings);
-    setSuccess(true);
-    setTimeout(() => setSuccess(false), 3000);
+  // The preview follows the unsaved form values
+  const formValues = watch();
+  const previewSettings = {
+    ...formValues,
+    currency,
+    companyDetails: {
+      ...formValues.companyDetails,
+      logo: companyDetails.logo,
+      schoolLogo: companyDetails.schoolLogo,
+    },
   };
 
+  const onSubmit = (data: SettingsFormData) =>
+    runSave(() =>
+      saveSettings({
+        companyDetails: {
+          ...data.companyDetails,
+          logo: companyDetails.logo,
+          schoolLogo: companyDetails.schoolLogo,
+        },
+        contactDetails: data.contactDetails,
+        bankDetails: data.bankDetails,
+        invoiceSettings: data.invoiceSettings,
+        emailSettings: data.emailSettings,
+        lateChargeSettings: data.lateChargeSettings,
+        reportSettings: data.reportSettings,
+      })
+    );
+
   const tabs = [
     { id: 'company', name: 'Company', icon: Building },
     { id: 'contact', name: 'Contact', icon: Mail },
     { id: 'bank', name: 'Banking', icon: CreditCard },
     { id: 'invoice', name: 'Invoice', icon: FileText },
+    { id: 'email', name: 'Email', icon: Send },
+    { id: 'reminders', name: 'Reminders', icon: BellRing },
+    { id: 'charges', name: 'Late Charges', icon: Percent },
+    { id: 'reports', name: 'Report Cards', icon: GraduationCap },
   ];
 
   return (
@@ -164,13 +290,24 @@ export default function Settings() {
         <h1 className="text-2xl font-semibold text-gray-900">Settings</h1>
         <button
           onClick={handleSubmit(onSubmit)}
-          className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          disabled={isSubmitting}
+          className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
         >
           <Save className="h-4 w-4 mr-2" />
-          Save Changes
+          {isSubmitting ? 'Saving...' : 'Save Changes'}
         </button>
       </div>
 
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
       {success && (
         <div className="rounded-md bg-green-50 p-4">
           <div className="flex">
@@ -227,7 +364,7 @@ export default function Settings() {
                             />
                             <button
                               type="button"
-                              onClick={() => removeLogo()}
+                              onClick={() => void runSave(removeLogo)}
                               className="absolute -top-2 -right-2 p-1 bg-red-100 rounded-full text-red-600 hover:bg-red-200"
                             >
                               <X className="h-4 w-4" />
@@ -273,7 +410,7 @@ export default function Settings() {
                             />
                             <button
                               type="button"
-                              onClick={() => removeSchoolLogo()}
+                              onClick={() => void runSave(removeSchoolLogo)}
                               className="absolute -top-2 -right-2 p-1 bg-red-100 rounded-full text-red-600 hover:bg-red-200"
                             >
                               <X className="h-4 w-4" />
@@ -318,7 +455,7 @@ export default function Settings() {
                         (c) => c.code === e.target.value
                       );
                       if (newCurrency) {
-                        setCurrency(newCurrency);
+                        void runSave(() => saveSettings({ currency: newCurrency }));
                       }
                     }}
                     className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
@@ -563,7 +700,97 @@ export default function Settings() {
             )}
 
             {activeTab === 'invoice' && (
+              <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
               <div className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Layout
+                  </label>
+                  <select
+                    {...register('invoiceSettings.template')}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  >
+                    {invoiceTemplates.map((template) => (
+                      <option key={template.value} value={template.value}>
+                        {template.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Brand Colour
+                    </label>
+                    <input
+                      type="color"
+                      {...register('invoiceSettings.brandColor')}
+                      className="mt-1 block h-9 w-full border-gray-300 rounded-md shadow-sm"
+                    />
+                    {errors.invoiceSettings?.brandColor && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors.invoiceSettings.brandColor.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Font
+                    </label>
+                    <select
+                      {...register('invoiceSettings.font')}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    >
+                      {documentFonts.map((font) => (
+                        <option key={font.value} value={font.value}>
+                          {font.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      {...register('invoiceSettings.showLogo')}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="ml-2">Show logo</span>
+                  </label>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      {...register('invoiceSettings.showBankDetails')}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="ml-2">Show banking details</span>
+                  </label>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      {...register('invoiceSettings.showVatNumber')}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="ml-2">Show VAT number</span>
+                  </label>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Footer Text
+                  </label>
+                  <textarea
+                    {...register('invoiceSettings.footerText')}
+                    rows={2}
+                    placeholder="Shown at the bottom of every page"
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700">
                     Default Due Date (days)
@@ -613,8 +840,338 @@ export default function Settings() {
                   />
                 </div>
               </div>
+
+              <InvoicePreview
+                settings={previewSettings}
+                template={formValues.invoiceSettings.template}
+                taxRate={formValues.invoiceSettings.defaultTaxRate}
+              />
+              </div>
+            )}
+
+            {activeTab === 'email' && (
+              <div className="space-y-8">
+                {emailDocumentTypes.map((documentType) => (
+                  <div key={documentType} className="space-y-4">
+                    <h3 className="text-lg font-medium text-gray-900">
+                      {emailDocumentLabels[documentType]} Email
+                    </h3>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Subject
+                      </label>
+                      <input
+                        type="text"
+                        {...register(`emailSettings.templates.${documentType}.subject`)}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      {errors.emailSettings?.templates?.[documentType]?.subject && (
+                        <p className="mt-1 text-sm text-red-600">
+                          {errors.emailSettings.templates[documentType]?.subject?.message}
+                        </p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Message
+                      </label>
+                      <textarea
+                        {...register(`emailSettings.templates.${documentType}.body`)}
+                        rows={6}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                      {errors.emailSettings?.templates?.[documentType]?.body && (
+                        <p className="mt-1 text-sm text-red-600">
+                          {errors.emailSettings.templates[documentType]?.body?.message}
+                        </p>
+                      )}
+                    </div>
+
+                    <p className="text-xs text-gray-500">
+                      Merge fields:{' '}
+                      {mergeFields[documentType].map(({ field, label }, index) => (
+                        <span key={field} title={label}>
+                          {index > 0 && ', '}
+                          <code>{`{{${field}}}`}</code>
+                        </span>
+                      ))}
+                    </p>
+                  </div>
+                ))}
+
+                <div className="space-y-4">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">Recurring Invoice Email</h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Sent with invoices from recurring schedules that email the client. These
+                      are sent overnight without the PDF attached.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Subject
+                    </label>
+                    <input
+                      type="text"
+                      {...register('emailSettings.recurringInvoice.subject')}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                    {errors.emailSettings?.recurringInvoice?.subject && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors.emailSettings.recurringInvoice.subject.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Message
+                    </label>
+                    <textarea
+                      {...register('emailSettings.recurringInvoice.body')}
+                      rows={8}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                    {errors.emailSettings?.recurringInvoice?.body && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors.emailSettings.recurringInvoice.body.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <p className="text-xs text-gray-500">
+                    Merge fields:{' '}
+                    {recurringInvoiceMergeFields.map(({ field, label }, index) => (
+                      <span key={field} title={label}>
+                        {index > 0 && ', '}
+                        <code>{`{{${field}}}`}</code>
+                      </span>
+                    ))}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'charges' && (
+              <div className="space-y-6 max-w-xl">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">Late Payment Charges</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Every morning invoices still unpaid after the grace period are charged
+                    once for each month they stay overdue. Interest is charged on the unpaid
+                    invoice amount only, never on earlier charges. Charges show on the
+                    client's statement, where they can be waived.
+                  </p>
+                </div>
+
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    {...register('lateChargeSettings.enabled')}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="ml-2">Charge for late payment</span>
+                </label>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Charge
+                  </label>
+                  <select
+                    {...register('lateChargeSettings.method')}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  >
+                    <option value="interest">Interest on the unpaid amount</option>
+                    <option value="fee">Flat admin fee</option>
+                  </select>
+                </div>
+
+                {formValues.lateChargeSettings.method === 'interest' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Interest Rate (% per month)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      {...register('lateChargeSettings.interestRate', {
+                        valueAsNumber: true,
+                      })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                    {errors.lateChargeSettings?.interestRate && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors.lateChargeSettings.interestRate.message}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Admin Fee per Month ({currency.symbol})
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      {...register('lateChargeSettings.feeAmount', {
+                        valueAsNumber: true,
+                      })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                    {errors.lateChargeSettings?.feeAmount && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors.lateChargeSettings.feeAmount.message}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Grace Period (days)
+                    </label>
+                    <input
+                      type="number"
+                      {...register('lateChargeSettings.graceDays', {
+                        valueAsNumber: true,
+                      })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                    {errors.lateChargeSettings?.graceDays && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors.lateChargeSettings.graceDays.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Most Months Charged
+                    </label>
+                    <input
+                      type="number"
+                      {...register('lateChargeSettings.maxCharges', {
+                        valueAsNumber: true,
+                      })}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                    {errors.lateChargeSettings?.maxCharges && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors.lateChargeSettings.maxCharges.message}
+                      </p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500">0 for no limit</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'reports' && (
+              <div className="space-y-6">
+                <div className="flex justify-between items-start">
+                  <div className="max-w-xl">
+                    <h3 className="text-lg font-medium text-gray-900">Achievement Levels</h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Each subject's term mark is given the highest level whose minimum
+                      mark it reaches. The level and its descriptor are shown next to the
+                      mark on report cards, in the learner's language, with a key.
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => replaceAchievementScale(capsAchievementScale)}
+                    className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Use CAPS Scale
+                  </button>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <span className="col-span-1">Level</span>
+                    <span className="col-span-2">From (%)</span>
+                    <span className="col-span-4">English</span>
+                    <span className="col-span-4">Afrikaans</span>
+                  </div>
+                  {achievementLevels.map((field, index) => {
+                    const levelErrors = errors.reportSettings?.achievementScale?.[index];
+                    return (
+                      <div key={field.id}>
+                        <div className="grid grid-cols-12 gap-2 items-center">
+                          <input
+                            type="number"
+                            {...register(`reportSettings.achievementScale.${index}.level`, {
+                              valueAsNumber: true,
+                            })}
+                            className="col-span-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          />
+                          <input
+                            type="number"
+                            step="0.5"
+                            {...register(`reportSettings.achievementScale.${index}.minMark`, {
+                              valueAsNumber: true,
+                            })}
+                            className="col-span-2 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          />
+                          <input
+                            type="text"
+                            {...register(`reportSettings.achievementScale.${index}.descriptorEn`)}
+                            className="col-span-4 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          />
+                          <input
+                            type="text"
+                            {...register(`reportSettings.achievementScale.${index}.descriptorAf`)}
+                            className="col-span-4 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => removeAchievementLevel(index)}
+                            className="col-span-1 text-red-600 hover:text-red-800 justify-self-center"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                        {levelErrors && (
+                          <p className="mt-1 text-sm text-red-600">
+                            {levelErrors.level?.message ||
+                              levelErrors.minMark?.message ||
+                              levelErrors.descriptorEn?.message ||
+                              levelErrors.descriptorAf?.message}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {(errors.reportSettings?.achievementScale?.message ||
+                  errors.reportSettings?.achievementScale?.root?.message) && (
+                  <p className="text-sm text-red-600">
+                    {errors.reportSettings.achievementScale.message ||
+                      errors.reportSettings.achievementScale.root?.message}
+                  </p>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() =>
+                    appendAchievementLevel({ level: 1, minMark: 0, descriptorEn: '', descriptorAf: '' })
+                  }
+                  className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Level
+                </button>
+              </div>
             )}
           </form>
+
+          {/* Outside the settings form, which the reminder dialogs would otherwise sit in */}
+          {activeTab === 'reminders' && <ReminderSchedule />}
         </div>
       </div>
     </div>
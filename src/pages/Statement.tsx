@@ -6,36 +6,49 @@ import {
   Search,
   Building,
   Calendar,
+  Mail,
+  History,
 } from 'lucide-react';
 import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../store/auth';
 import { useSettingsStore } from '../store/settings';
+import { usePermission } from '../lib/permissions';
+import { brandingFromSettings } from '../lib/documents/render';
+import {
+  renderStatementPDF,
+  type StatementEntry,
+  type StatementSummary,
+} from '../lib/documents/statement';
+import FamilyBalances from '../components/clients/FamilyBalances';
+import SendEmailModal from '../components/email/SendEmailModal';
+import EmailHistoryModal from '../components/email/EmailHistoryModal';
+import WaiveLateChargeModal from '../components/invoices/WaiveLateChargeModal';
 
 type Client = {
   id: string;
   name: string;
+  email: string | null;
 };
 
-type StatementEntry = {
-  date: string;
-  description: string;
-  reference: string;
-  type: string;
-  debit: number;
-  credit: number;
-  running_balance: number;
-};
-
-type StatementSummary = {
-  client_id: string;
-  client_name: string;
-  total_invoices: number;
-  total_paid: number;
-  total_outstanding: number;
-  first_invoice_date: string;
-  last_invoice_date: string;
+const summarizeStatement = (entries: StatementEntry[]): StatementSummary => {
+  const sumOf = (type: string, field: 'debit' | 'credit') =>
+    entries
+      .filter((entry) => entry.type === type)
+      .reduce((sum, entry) => sum + Number(entry[field]), 0);
+
+  const opening = entries.find((entry) => entry.type === 'opening_balance');
+
+  return {
+    openingBalance: opening ? Number(opening.debit) - Number(opening.credit) : 0,
+    totalInvoiced: sumOf('invoice', 'debit'),
+    totalLateCharges: sumOf('late_charge', 'debit'),
+    totalCredited: sumOf('credit_note', 'credit'),
+    totalPaid: sumOf('payment', 'credit'),
+    closingBalance: entries.length
+      ? Number(entries[entries.length - 1].running_balance)
+      : 0,
+  };
 };
 
 export default function Statement() {
@@ -49,15 +62,21 @@ export default function Statement() {
   const [summary, setSummary] = useState<StatementSummary | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showEmailModal, setShowEmailModal] = useState(false);
+  const [showEmailHistory, setShowEmailHistory] = useState(false);
+  const [waivingCharge, setWaivingCharge] = useState<StatementEntry | null>(null);
   const { user } = useAuthStore();
-  const { currency, companyDetails, contactDetails } = useSettingsStore();
+  const canManage = usePermission('finance:manage');
+  const settings = useSettingsStore();
+  const { currency } = settings;
+  const branding = brandingFromSettings(settings);
 
   useEffect(() => {
     const fetchClients = async () => {
       try {
         const { data, error } = await supabase
           .from('clients')
-          .select('id, name')
+          .select('id, name, email')
           .order('name');
 
         if (error) throw error;
@@ -90,17 +109,8 @@ export default function Statement() {
 
       if (entriesError) throw entriesError;
 
-      // Fetch summary
-      const { data: summaryData, error: summaryError } = await supabase
-        .from('client_statement_summary')
-        .select('*')
-        .eq('client_id', selectedClient)
-        .single();
-
-      if (summaryError) throw summaryError;
-
       setStatement(entries || []);
-      setSummary(summaryData);
+      setSummary(summarizeStatement(entries || []));
     } catch (err) {
       console.error('Error fetching statement:', err);
       setError('Failed to load statement');
@@ -109,104 +119,28 @@ export default function Statement() {
     }
   };
 
-  const downloadPDF = () => {
-    if (!statement.length || !summary) return;
+  const client = clients.find(c => c.id === selectedClient);
+  const selectedClientName = client?.name || 'Unknown Client';
+  const fileName = `statement-${selectedClientName}-${format(new Date(), 'yyyy-MM-dd')}.pdf`;
 
+  const createStatementPDF = (statementSummary: StatementSummary) => {
     const doc = new jsPDF();
-    const selectedClientName = clients.find(c => c.id === selectedClient)?.name || 'Unknown Client';
-
-    // Add company logo
-    if (companyDetails.logo) {
-      doc.addImage(companyDetails.logo, 'PNG', 20, 20, 40, 40, undefined, 'FAST');
-    }
-
-    // Add company info
-    doc.setFontSize(10);
-    doc.text(companyDetails.name || 'Your Company Name', 70, 30);
-    doc.text(companyDetails.address || '', 70, 35);
-    doc.text(`${companyDetails.city || ''}, ${companyDetails.state || ''} ${companyDetails.postalCode || ''}`, 70, 40);
-    doc.text(companyDetails.country || '', 70, 45);
-    
-    // Add contact info
-    doc.text(contactDetails.email || '', 70, 50);
-    doc.text(contactDetails.phone || '', 70, 55);
-    doc.text(contactDetails.website || '', 70, 60);
-
-    // Add statement title
-    doc.setFontSize(24);
-    doc.setTextColor(59, 130, 246); // Blue color
-    doc.text('STATEMENT', 150, 40);
-
-    // Add statement details
-    doc.setFontSize(10);
-    doc.setTextColor(0);
-    doc.text(`Period: ${format(new Date(startDate), 'MMM d, yyyy')} - ${format(new Date(endDate), 'MMM d, yyyy')}`, 150, 50);
-    doc.text(`Date Issued: ${format(new Date(), 'MMM d, yyyy')}`, 150, 55);
-
-    // Add client info
-    doc.setFontSize(12);
-    doc.text('Statement For:', 20, 80);
-    doc.setFontSize(10);
-    doc.text(selectedClientName, 20, 90);
-
-    // Add summary section
-    doc.setFillColor(247, 250, 252);
-    doc.rect(20, 100, doc.internal.pageSize.width - 40, 30, 'F');
-    
-    doc.setFont('helvetica', 'bold');
-    doc.text('Summary', 25, 110);
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Total Invoices: ${summary.total_invoices}`, 25, 120);
-    doc.text(`Total Paid: ${currency.symbol}${summary.total_paid.toFixed(2)}`, 100, 120);
-    doc.text(`Outstanding: ${currency.symbol}${summary.total_outstanding.toFixed(2)}`, 175, 120);
-
-    // Add statement table
-    autoTable(doc, {
-      startY: 140,
-      head: [['Date', 'Description', 'Reference', 'Debit', 'Credit', 'Balance']],
-      body: statement.map(entry => [
-        format(new Date(entry.date), 'MMM d, yyyy'),
-        entry.description,
-        entry.reference,
-        entry.debit > 0 ? `${currency.symbol}${entry.debit.toFixed(2)}` : '',
-        entry.credit > 0 ? `${currency.symbol}${entry.credit.toFixed(2)}` : '',
-        `${currency.symbol}${entry.running_balance.toFixed(2)}`,
-      ]),
-      headStyles: {
-        fillColor: [59, 130, 246],
-        fontSize: 10,
-        fontStyle: 'bold',
-      },
-      bodyStyles: {
-        fontSize: 9,
-      },
-      alternateRowStyles: {
-        fillColor: [247, 250, 252],
-      },
-    });
-
-    // Add footer
-    const finalY = (doc as any).lastAutoTable.finalY || 280;
-    doc.setFontSize(8);
-    doc.setTextColor(128);
-    doc.text('This statement includes all transactions within the specified date range.', 20, finalY + 10);
-    doc.text('For any queries regarding this statement, please contact our accounts department.', 20, finalY + 15);
+    renderStatementPDF(doc, {
+      clientName: selectedClientName,
+      startDate,
+      endDate,
+      entries: statement,
+      summary: statementSummary,
+    }, branding);
+
+    return doc;
+  };
 
-    // Add page numbers
-    const pageCount = doc.internal.getNumberOfPages();
-    for (let i = 1; i <= pageCount; i++) {
-      doc.setPage(i);
-      doc.setFontSize(8);
-      doc.text(
-        `Page ${i} of ${pageCount}`,
-        doc.internal.pageSize.width / 2,
-        doc.internal.pageSize.height - 10,
-        { align: 'center' }
-      );
-    }
+  const downloadPDF = () => {
+    if (!statement.length || !summary) return;
 
     // Save the PDF
-    doc.save(`statement-${selectedClientName}-${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+    createStatementPDF(summary).save(fileName);
   };
 
   if (!user) {
@@ -221,17 +155,82 @@ export default function Statement() {
 
   return (
     <div className="space-y-6">
+      {showEmailModal && client && summary && (
+        <SendEmailModal
+          documentType="statement"
+          title={`Email Statement to ${client.name}`}
+          recipient={client.email}
+          mergeValues={{
+            client_name: client.name,
+            statement_period: `${format(new Date(startDate), 'MMM d, yyyy')} to ${format(new Date(endDate), 'MMM d, yyyy')}`,
+            balance_due: `${currency.symbol}${summary.closingBalance.toFixed(2)}`,
+            company_name: settings.companyDetails.name,
+          }}
+          attachment={{
+            filename: fileName,
+            create: () => createStatementPDF(summary),
+          }}
+          reference={{ clientId: client.id }}
+          onClose={() => setShowEmailModal(false)}
+          onSent={() => setShowEmailModal(false)}
+        />
+      )}
+
+      {waivingCharge?.source_id && (
+        <WaiveLateChargeModal
+          charge={{
+            id: waivingCharge.source_id,
+            description: waivingCharge.description,
+            amount: `${currency.symbol}${waivingCharge.debit.toFixed(2)}`,
+          }}
+          onClose={() => setWaivingCharge(null)}
+          onWaived={() => {
+            setWaivingCharge(null);
+            fetchStatement();
+          }}
+        />
+      )}
+
+      {showEmailHistory && client && (
+        <EmailHistoryModal
+          title={`Statements emailed to ${client.name}`}
+          documentType="statement"
+          documentId={client.id}
+          onClose={() => setShowEmailHistory(false)}
+        />
+      )}
+
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-semibold text-gray-900">Statement</h1>
-        {statement.length > 0 && (
-          <button
-            onClick={downloadPDF}
-            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-          >
-            <Download className="h-4 w-4 mr-2" />
-            Download PDF
-          </button>
-        )}
+        <div className="flex space-x-4">
+          {client && (
+            <button
+              onClick={() => setShowEmailHistory(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <History className="h-4 w-4 mr-2" />
+              Email History
+            </button>
+          )}
+          {statement.length > 0 && canManage && (
+            <button
+              onClick={() => setShowEmailModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Mail className="h-4 w-4 mr-2" />
+              Email Statement
+            </button>
+          )}
+          {statement.length > 0 && (
+            <button
+              onClick={downloadPDF}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download PDF
+            </button>
+          )}
+        </div>
       </div>
 
       {error && (
@@ -307,6 +306,30 @@ export default function Statement() {
           </div>
         </div>
 
+        {summary && statement.length > 0 && !loading && (
+          <div className="p-6 border-b border-gray-200 grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+            {[
+              { label: 'Opening Balance', value: summary.openingBalance },
+              { label: 'Invoiced', value: summary.totalInvoiced },
+              { label: 'Late Charges', value: summary.totalLateCharges },
+              { label: 'Credited', value: summary.totalCredited },
+              { label: 'Paid', value: summary.totalPaid },
+              { label: 'Balance Due', value: summary.closingBalance },
+            ].map((item) => (
+              <div key={item.label}>
+                <dt className="text-sm font-medium text-gray-500">{item.label}</dt>
+                <dd className="mt-1 text-lg font-semibold text-gray-900">
+                  {currency.symbol}{item.value.toFixed(2)}
+                </dd>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {summary && !loading && (
+          <FamilyBalances key={selectedClient} clientId={selectedClient} className="m-6" />
+        )}
+
         {loading ? (
           <div className="text-center py-12">
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-gray-200 border-t-blue-600"></div>
@@ -335,11 +358,21 @@ export default function Statement() {
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Balance
                   </th>
+                  {canManage && (
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <span className="sr-only">Actions</span>
+                    </th>
+                  )}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {statement.map((entry, index) => (
-                  <tr key={index} className="hover:bg-gray-50">
+                  <tr
+                    key={index}
+                    className={`hover:bg-gray-50 ${
+                      entry.type === 'opening_balance' ? 'bg-gray-50 font-medium' : ''
+                    }`}
+                  >
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {format(new Date(entry.date), 'MMM d, yyyy')}
                     </td>
@@ -358,6 +391,18 @@ export default function Statement() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right">
                       {currency.symbol}{entry.running_balance.toFixed(2)}
                     </td>
+                    {canManage && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                        {entry.type === 'late_charge' && entry.source_id && (
+                          <button
+                            onClick={() => setWaivingCharge(entry)}
+                            className="text-blue-600 hover:text-blue-700 font-medium"
+                          >
+                            Waive
+                          </button>
+                        )}
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
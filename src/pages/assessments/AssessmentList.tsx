@@ -12,12 +12,16 @@ import {
   Book,
   Calendar,
   Percent,
+  Table2,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../store/auth';
+import { usePermission } from '../../lib/permissions';
+import { scopeIncludesSubject, useTeachingScope } from '../../lib/classes';
 import AddAssessmentModal from '../../components/assessments/AddAssessmentModal';
 import EditAssessmentModal from '../../components/assessments/EditAssessmentModal';
+import { GRADES, gradeLabel } from '../../lib/grades';
 import type { Assessment, Student, Subject } from '../../types/supabase';
 
 type AssessmentWithDetails = Assessment & {
@@ -28,6 +32,7 @@ type AssessmentWithDetails = Assessment & {
 export default function AssessmentList() {
   const navigate = useNavigate();
   const [assessments, setAssessments] = useState<AssessmentWithDetails[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -38,11 +43,14 @@ export default function AssessmentList() {
   const [filters, setFilters] = useState({
     term: '',
     year: new Date().getFullYear(),
+    grade: '',
     subject: '',
     type: '',
     showFilters: false,
   });
   const { user } = useAuthStore();
+  const canManage = usePermission('academics:manage');
+  const { scope, loading: scopeLoading } = useTeachingScope();
 
   const fetchAssessments = async () => {
     try {
@@ -59,7 +67,17 @@ export default function AssessmentList() {
         .order('created_at', { ascending: false });
 
       if (fetchError) throw fetchError;
+
+      const { data: subjectsData, error: subjectsError } = await supabase
+        .from('subjects')
+        .select('*')
+        .order('grade', { ascending: true })
+        .order('name_en', { ascending: true });
+
+      if (subjectsError) throw subjectsError;
+
       setAssessments(data || []);
+      setSubjects(subjectsData || []);
     } catch (err) {
       console.error('Error fetching assessments:', err);
       setError('Failed to load assessments. Please try again.');
@@ -97,14 +115,18 @@ export default function AssessmentList() {
     const matchesSearch = 
       assessment.student.first_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       assessment.student.last_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      assessment.subject.name_en.toLowerCase().includes(searchTerm.toLowerCase());
+      assessment.subject.name_en.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (assessment.name || '').toLowerCase().includes(searchTerm.toLowerCase());
 
     const matchesTerm = !filters.term || assessment.term.toString() === filters.term;
     const matchesYear = !filters.year || assessment.year === filters.year;
+    const matchesGrade = !filters.grade || assessment.student.grade.toString() === filters.grade;
     const matchesSubject = !filters.subject || assessment.subject_id === filters.subject;
     const matchesType = !filters.type || assessment.assessment_type === filters.type;
 
-    return matchesSearch && matchesTerm && matchesYear && matchesSubject && matchesType;
+    // Teachers only see the subjects they teach to the learner's class
+    return scopeIncludesSubject(scope, assessment.subject_id, assessment.student.class_id ?? null) &&
+      matchesSearch && matchesTerm && matchesYear && matchesGrade && matchesSubject && matchesType;
   });
 
   const getScoreColor = (score: number) => {
@@ -172,13 +194,30 @@ export default function AssessmentList() {
 
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-semibold text-gray-900">Assessments</h1>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Assessment
-        </button>
+        {canManage && (
+          <div className="flex space-x-3">
+            <button
+              onClick={() => {
+                const params = new URLSearchParams({ year: filters.year.toString() });
+                if (filters.grade) params.set('grade', filters.grade);
+                if (filters.subject) params.set('subject', filters.subject);
+                if (filters.term) params.set('term', filters.term);
+                navigate(`/assessments/mark-entry?${params.toString()}`);
+              }}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Table2 className="h-4 w-4 mr-2" />
+              Mark Entry
+            </button>
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Assessment
+            </button>
+          </div>
+        )}
       </div>
 
       {error && (
@@ -218,7 +257,40 @@ export default function AssessmentList() {
           </div>
 
           {filters.showFilters && (
-            <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Grade</label>
+                <select
+                  value={filters.grade}
+                  onChange={(e) => setFilters(prev => ({ ...prev, grade: e.target.value, subject: '' }))}
+                  className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  <option value="">All Grades</option>
+                  {GRADES.map(grade => (
+                    <option key={grade} value={grade}>{gradeLabel(grade)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Subject</label>
+                <select
+                  value={filters.subject}
+                  onChange={(e) => setFilters(prev => ({ ...prev, subject: e.target.value }))}
+                  className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  <option value="">All Subjects</option>
+                  {subjects
+                    .filter(subject => !filters.grade || subject.grade.toString() === filters.grade)
+                    .filter(subject => scopeIncludesSubject(scope, subject.id))
+                    .map(subject => (
+                      <option key={subject.id} value={subject.id}>
+                        {subject.name_en}{!filters.grade && ` (${gradeLabel(subject.grade)})`}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700">Term</label>
                 <select
@@ -269,7 +341,7 @@ export default function AssessmentList() {
         </div>
 
         <div className="overflow-x-auto">
-          {loading ? (
+          {loading || scopeLoading ? (
             <div className="text-center py-12">
               <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-gray-200 border-t-blue-600"></div>
               <p className="mt-2 text-sm text-gray-500">Loading assessments...</p>
@@ -309,7 +381,7 @@ export default function AssessmentList() {
                             {assessment.student.first_name} {assessment.student.last_name}
                           </div>
                           <div className="text-sm text-gray-500">
-                            Grade {assessment.student.grade}
+                            {gradeLabel(assessment.student.grade)}
                           </div>
                         </div>
                       </div>
@@ -330,6 +402,9 @@ export default function AssessmentList() {
                       >
                         {assessment.assessment_type.charAt(0).toUpperCase() + assessment.assessment_type.slice(1)}
                       </span>
+                      {assessment.name && (
+                        <div className="mt-1 text-sm text-gray-500">{assessment.name}</div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
@@ -348,38 +423,40 @@ export default function AssessmentList() {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <div className="relative">
-                        <button
-                          onClick={() => setShowActions(showActions === assessment.id ? null : assessment.id)}
-                          className="text-gray-400 hover:text-gray-500"
-                        >
-                          <MoreHorizontal className="h-5 w-5" />
-                        </button>
-                        {showActions === assessment.id && (
-                          <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
-                            <div className="py-1" role="menu">
-                              <button
-                                onClick={() => {
-                                  setSelectedAssessment(assessment);
-                                  setShowEditModal(true);
-                                  setShowActions(null);
-                                }}
-                                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
-                              >
-                                <Edit className="h-4 w-4 mr-2" />
-                                Edit
-                              </button>
-                              <button
-                                onClick={() => handleDeleteAssessment(assessment.id)}
-                                className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete
-                              </button>
+                      {canManage && (
+                        <div className="relative">
+                          <button
+                            onClick={() => setShowActions(showActions === assessment.id ? null : assessment.id)}
+                            className="text-gray-400 hover:text-gray-500"
+                          >
+                            <MoreHorizontal className="h-5 w-5" />
+                          </button>
+                          {showActions === assessment.id && (
+                            <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+                              <div className="py-1" role="menu">
+                                <button
+                                  onClick={() => {
+                                    setSelectedAssessment(assessment);
+                                    setShowEditModal(true);
+                                    setShowActions(null);
+                                  }}
+                                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Edit className="h-4 w-4 mr-2" />
+                                  Edit
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteAssessment(assessment.id)}
+                                  className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </button>
+                              </div>
                             </div>
-                          </div>
-                        )}
-                      </div>
+                          )}
+                        </div>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -0,0 +1,533 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Save } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../store/auth';
+import { classLabel, scopeIncludesSubject, useTeachingScope } from '../../lib/classes';
+import { GRADES, gradeLabel } from '../../lib/grades';
+import type { Assessment, SchoolClass, Student, Subject } from '../../types/supabase';
+
+type MarkRow = {
+  assessmentId?: string;
+  score: string;
+  comment: string;
+};
+
+const currentTerm = () => {
+  const month = new Date().getMonth();
+  return month < 3 ? 1 : month < 6 ? 2 : month < 9 ? 3 : 4;
+};
+
+export default function MarkEntry() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { user } = useAuthStore();
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [rows, setRows] = useState<Record<string, MarkRow>>({});
+  const [loaded, setLoaded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [setup, setSetup] = useState({
+    grade: searchParams.get('grade') || '',
+    classId: searchParams.get('class') || '',
+    subjectId: searchParams.get('subject') || '',
+    term: parseInt(searchParams.get('term') || '') || currentTerm(),
+    year: parseInt(searchParams.get('year') || '') || new Date().getFullYear(),
+    assessmentType: 'test' as Assessment['assessment_type'],
+    name: '',
+    weight: 100,
+  });
+  const scoreInputs = useRef<(HTMLInputElement | null)[]>([]);
+  const { scope } = useTeachingScope();
+
+  useEffect(() => {
+    const fetchSubjects = async () => {
+      try {
+        const { data, error: subjectsError } = await supabase
+          .from('subjects')
+          .select('*')
+          .order('grade', { ascending: true })
+          .order('name_en', { ascending: true });
+
+        if (subjectsError) throw subjectsError;
+
+        const { data: classesData, error: classesError } = await supabase
+          .from('classes')
+          .select('*')
+          .order('grade', { ascending: true })
+          .order('section', { ascending: true });
+
+        if (classesError) throw classesError;
+
+        setSubjects(data || []);
+        setClasses(classesData || []);
+      } catch (err) {
+        console.error('Error fetching subjects:', err);
+        setError('Failed to load subjects. Please try again.');
+      }
+    };
+
+    if (user) {
+      fetchSubjects();
+    }
+  }, [user]);
+
+  const updateSetup = (changes: Partial<typeof setup>) => {
+    setSetup(prev => ({ ...prev, ...changes }));
+    setLoaded(false);
+    setSuccess(null);
+  };
+
+  // Teachers only capture marks for the subjects and classes they teach
+  const teachableClasses = classes.filter(
+    schoolClass => !scope || scope.assignments.some(a => a.class_id === schoolClass.id)
+  );
+  const grades = scope
+    ? Array.from(new Set(teachableClasses.map(c => c.grade))).sort((a, b) => a - b)
+    : GRADES;
+  const gradeClasses = teachableClasses.filter(
+    schoolClass =>
+      schoolClass.grade.toString() === setup.grade &&
+      (!setup.subjectId || scopeIncludesSubject(scope, setup.subjectId, schoolClass.id))
+  );
+  const gradeSubjects = subjects.filter(
+    subject =>
+      (!setup.grade || subject.grade.toString() === setup.grade) &&
+      scopeIncludesSubject(scope, subject.id, setup.classId || undefined)
+  );
+
+  const loadClass = async () => {
+    if (!setup.grade || !setup.subjectId) {
+      setError('Please select a grade and subject');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setSuccess(null);
+
+      let studentsQuery = supabase
+        .from('students')
+        .select('*')
+        .eq('grade', parseInt(setup.grade));
+
+      if (setup.classId) {
+        studentsQuery = studentsQuery.eq('class_id', setup.classId);
+      }
+
+      const { data: gradeStudents, error: studentsError } = await studentsQuery
+        .order('last_name', { ascending: true })
+        .order('first_name', { ascending: true });
+
+      if (studentsError) throw studentsError;
+
+      const studentsData = (gradeStudents || []).filter(
+        student => scopeIncludesSubject(scope, setup.subjectId, student.class_id ?? null)
+      );
+
+      let assessmentQuery = supabase
+        .from('assessments')
+        .select('*')
+        .eq('subject_id', setup.subjectId)
+        .eq('term', setup.term)
+        .eq('year', setup.year)
+        .eq('assessment_type', setup.assessmentType);
+
+      assessmentQuery = setup.name.trim()
+        ? assessmentQuery.eq('name', setup.name.trim())
+        : assessmentQuery.is('name', null);
+
+      const { data: assessmentsData, error: assessmentsError } = await assessmentQuery;
+
+      if (assessmentsError) throw assessmentsError;
+
+      const existing = new Map((assessmentsData || []).map(a => [a.student_id, a]));
+      const classRows: Record<string, MarkRow> = {};
+      studentsData.forEach(student => {
+        const assessment = existing.get(student.id);
+        classRows[student.id] = {
+          assessmentId: assessment?.id,
+          score: assessment ? assessment.score.toString() : '',
+          comment: assessment?.comment || '',
+        };
+      });
+
+      // Carry the existing task weight into the form
+      const firstExisting = assessmentsData?.[0];
+      if (firstExisting) {
+        setSetup(prev => ({ ...prev, weight: Number(firstExisting.weight) }));
+      }
+
+      setStudents(studentsData);
+      setRows(classRows);
+      setLoaded(true);
+    } catch (err) {
+      console.error('Error loading class marks:', err);
+      setError('Failed to load class marks. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRow = (studentId: string, changes: Partial<MarkRow>) => {
+    setRows(prev => ({ ...prev, [studentId]: { ...prev[studentId], ...changes } }));
+    setSuccess(null);
+  };
+
+  const invalidScore = (value: string) => {
+    if (value.trim() === '') return false;
+    const score = Number(value);
+    return isNaN(score) || score < 0 || score > 100;
+  };
+
+  const handleSave = async () => {
+    if (students.some(student => invalidScore(rows[student.id].score))) {
+      setError('Scores must be between 0 and 100');
+      return;
+    }
+    if (setup.weight < 0 || setup.weight > 100) {
+      setError('Weight must be between 0 and 100');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const details = {
+        subject_id: setup.subjectId,
+        term: setup.term,
+        year: setup.year,
+        assessment_type: setup.assessmentType,
+        name: setup.name.trim() || null,
+        weight: setup.weight,
+      };
+
+      const toInsert = students
+        .filter(student => !rows[student.id].assessmentId && rows[student.id].score.trim() !== '')
+        .map(student => ({
+          ...details,
+          student_id: student.id,
+          score: Number(rows[student.id].score),
+          comment: rows[student.id].comment || null,
+        }));
+
+      const toUpdate = students.filter(
+        student => rows[student.id].assessmentId && rows[student.id].score.trim() !== ''
+      );
+
+      // Clearing a score removes that learner's mark for the task
+      const toDelete = students
+        .filter(student => rows[student.id].assessmentId && rows[student.id].score.trim() === '')
+        .map(student => rows[student.id].assessmentId as string);
+
+      if (toInsert.length > 0) {
+        const { error: insertError } = await supabase.from('assessments').insert(toInsert);
+        if (insertError) throw insertError;
+      }
+
+      for (const student of toUpdate) {
+        const { error: updateError } = await supabase
+          .from('assessments')
+          .update({
+            ...details,
+            score: Number(rows[student.id].score),
+            comment: rows[student.id].comment || null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', rows[student.id].assessmentId);
+
+        if (updateError) throw updateError;
+      }
+
+      if (toDelete.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('assessments')
+          .delete()
+          .in('id', toDelete);
+
+        if (deleteError) throw deleteError;
+      }
+
+      await loadClass();
+      setSuccess(`Saved marks for ${toInsert.length + toUpdate.length} learners`);
+    } catch (err) {
+      console.error('Error saving marks:', err);
+      setError('Failed to save marks. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const enteredScores = students
+    .map(student => rows[student.id]?.score)
+    .filter(score => score && !invalidScore(score))
+    .map(Number);
+  const classAverage = enteredScores.length > 0
+    ? enteredScores.reduce((sum, score) => sum + score, 0) / enteredScores.length
+    : null;
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-semibold text-gray-900">
+          Please sign in to capture marks
+        </h2>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center">
+          <button
+            onClick={() => navigate('/assessments')}
+            className="mr-4 text-gray-400 hover:text-gray-500"
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </button>
+          <h1 className="text-2xl font-semibold text-gray-900">Mark Entry</h1>
+        </div>
+        {loaded && (
+          <button
+            onClick={handleSave}
+            disabled={saving || students.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Marks'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {success && (
+        <div className="rounded-md bg-green-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-green-800">{success}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Grade</label>
+            <select
+              value={setup.grade}
+              onChange={(e) => updateSetup({ grade: e.target.value, classId: '', subjectId: '' })}
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="">Select a grade</option>
+              {grades.map(grade => (
+                <option key={grade} value={grade}>{gradeLabel(grade)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Class</label>
+            <select
+              value={setup.classId}
+              onChange={(e) => updateSetup({ classId: e.target.value })}
+              disabled={!setup.grade}
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md disabled:bg-gray-100"
+            >
+              <option value="">{scope ? 'All my classes' : 'Whole grade'}</option>
+              {gradeClasses.map(schoolClass => (
+                <option key={schoolClass.id} value={schoolClass.id}>{classLabel(schoolClass)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Subject</label>
+            <select
+              value={setup.subjectId}
+              onChange={(e) => updateSetup({ subjectId: e.target.value })}
+              disabled={!setup.grade}
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md disabled:bg-gray-100"
+            >
+              <option value="">Select a subject</option>
+              {gradeSubjects.map(subject => (
+                <option key={subject.id} value={subject.id}>{subject.name_en}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Term</label>
+            <select
+              value={setup.term}
+              onChange={(e) => updateSetup({ term: parseInt(e.target.value) })}
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              {[1, 2, 3, 4].map(term => (
+                <option key={term} value={term}>Term {term}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Year</label>
+            <select
+              value={setup.year}
+              onChange={(e) => updateSetup({ year: parseInt(e.target.value) })}
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              {[...Array(5)].map((_, i) => {
+                const year = new Date().getFullYear() - i;
+                return (
+                  <option key={year} value={year}>{year}</option>
+                );
+              })}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Assessment Type</label>
+            <select
+              value={setup.assessmentType}
+              onChange={(e) => updateSetup({ assessmentType: e.target.value as Assessment['assessment_type'] })}
+              className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="exam">Exam</option>
+              <option value="assignment">Assignment</option>
+              <option value="practical">Practical</option>
+              <option value="project">Project</option>
+              <option value="test">Test</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name (Optional)</label>
+            <input
+              type="text"
+              value={setup.name}
+              onChange={(e) => updateSetup({ name: e.target.value })}
+              placeholder="e.g. Test 1"
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Weight (%)</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={setup.weight}
+              onChange={(e) => setSetup(prev => ({ ...prev, weight: Number(e.target.value) }))}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+
+          <div className="flex items-end">
+            <button
+              onClick={loadClass}
+              disabled={loading || !setup.grade || !setup.subjectId}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Load Class'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {loaded && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between text-sm text-gray-500">
+            <span>
+              {enteredScores.length} of {students.length} learners marked
+            </span>
+            {classAverage !== null && (
+              <span>Class average: {classAverage.toFixed(1)}%</span>
+            )}
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Learner
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-32">
+                  Score (%)
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Comment
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {students.map((student, index) => (
+                <tr key={student.id}>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {student.last_name}, {student.first_name}
+                    </div>
+                    <div className="text-sm text-gray-500">{student.student_number}</div>
+                  </td>
+                  <td className="px-6 py-3">
+                    <input
+                      ref={(el) => (scoreInputs.current[index] = el)}
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={rows[student.id].score}
+                      onChange={(e) => updateRow(student.id, { score: e.target.value })}
+                      onKeyDown={(e) => {
+                        // Enter moves down the column like a mark sheet
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          scoreInputs.current[index + 1]?.focus();
+                        }
+                      }}
+                      className={`block w-full rounded-md shadow-sm sm:text-sm ${
+                        invalidScore(rows[student.id].score)
+                          ? 'border-red-300 focus:ring-red-500 focus:border-red-500'
+                          : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+                      }`}
+                    />
+                  </td>
+                  <td className="px-6 py-3">
+                    <input
+                      type="text"
+                      value={rows[student.id].comment}
+                      onChange={(e) => updateRow(student.id, { comment: e.target.value })}
+                      className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                  </td>
+                </tr>
+              ))}
+              {students.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No learners found in this grade
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
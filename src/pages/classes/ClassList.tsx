@@ -0,0 +1,266 @@
+import { useState, useEffect } from 'react';
+import { Plus, MoreHorizontal, Edit, Trash2, Users, School } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../store/auth';
+import { hasPermission } from '../../lib/permissions';
+import { classLabel } from '../../lib/classes';
+import ClassModal from '../../components/classes/ClassModal';
+import TeacherAssignmentsModal from '../../components/classes/TeacherAssignmentsModal';
+import type { Database, SchoolClass, TeacherAssignment } from '../../types/supabase';
+
+type Member = Database['public']['Functions']['get_organisation_members']['Returns'][number];
+
+export default function ClassList() {
+  const { user } = useAuthStore();
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [assignments, setAssignments] = useState<TeacherAssignment[]>([]);
+  const [learnerCounts, setLearnerCounts] = useState<Record<string, number>>({});
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showClassModal, setShowClassModal] = useState(false);
+  const [selectedClass, setSelectedClass] = useState<SchoolClass | null>(null);
+  const [assigningClass, setAssigningClass] = useState<SchoolClass | null>(null);
+  const [showActions, setShowActions] = useState<string | null>(null);
+
+  const fetchClasses = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        { data: classesData, error: classesError },
+        { data: assignmentsData, error: assignmentsError },
+        { data: studentsData, error: studentsError },
+        { data: membersData, error: membersError },
+      ] = await Promise.all([
+        supabase
+          .from('classes')
+          .select('*')
+          .order('grade', { ascending: true })
+          .order('section', { ascending: true }),
+        supabase.from('teacher_assignments').select('*'),
+        supabase.from('students').select('id, class_id'),
+        supabase.rpc('get_organisation_members'),
+      ]);
+
+      if (classesError) throw classesError;
+      if (assignmentsError) throw assignmentsError;
+      if (studentsError) throw studentsError;
+      if (membersError) throw membersError;
+
+      const counts: Record<string, number> = {};
+      (studentsData || []).forEach(student => {
+        if (student.class_id) {
+          counts[student.class_id] = (counts[student.class_id] || 0) + 1;
+        }
+      });
+
+      setClasses(classesData || []);
+      setAssignments(assignmentsData || []);
+      setLearnerCounts(counts);
+      setMembers(membersData || []);
+    } catch (err) {
+      console.error('Error fetching classes:', err);
+      setError('Failed to load classes. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchClasses();
+    }
+  }, [user]);
+
+  const handleDeleteClass = async (schoolClass: SchoolClass) => {
+    if (!confirm(`Delete ${classLabel(schoolClass)}? Its learners stay on record without a class.`)) return;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('classes')
+        .delete()
+        .eq('id', schoolClass.id);
+
+      if (deleteError) throw deleteError;
+
+      setClasses(classes.filter(c => c.id !== schoolClass.id));
+      setAssignments(assignments.filter(a => a.class_id !== schoolClass.id));
+      setShowActions(null);
+    } catch (err) {
+      console.error('Error deleting class:', err);
+      alert('Failed to delete class. Please try again.');
+    }
+  };
+
+  // Anyone who captures marks can be given a class
+  const teachers = members.filter(member => hasPermission(member.role, 'academics:manage'));
+  const memberEmail = (userId: string | null) =>
+    members.find(m => m.user_id === userId)?.email;
+
+  return (
+    <div className="space-y-6">
+      {showClassModal && (
+        <ClassModal
+          schoolClass={selectedClass}
+          teachers={teachers}
+          onClose={() => {
+            setShowClassModal(false);
+            setSelectedClass(null);
+          }}
+          onSaved={(saved) => {
+            setClasses(prev =>
+              prev.some(c => c.id === saved.id)
+                ? prev.map(c => c.id === saved.id ? saved : c)
+                : [...prev, saved].sort((a, b) => a.grade - b.grade || a.section.localeCompare(b.section))
+            );
+            setShowClassModal(false);
+            setSelectedClass(null);
+          }}
+        />
+      )}
+
+      {assigningClass && (
+        <TeacherAssignmentsModal
+          schoolClass={assigningClass}
+          teachers={teachers}
+          onClose={() => setAssigningClass(null)}
+          onChanged={(classAssignments) => {
+            setAssignments(prev => [
+              ...prev.filter(a => a.class_id !== assigningClass.id),
+              ...classAssignments,
+            ]);
+          }}
+        />
+      )}
+
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-gray-900">Classes</h1>
+        <button
+          onClick={() => {
+            setSelectedClass(null);
+            setShowClassModal(true);
+          }}
+          className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Class
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-gray-200 border-t-blue-600"></div>
+            <p className="mt-2 text-sm text-gray-500">Loading classes...</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Class
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Class Teacher
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Learners
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Subject Teachers
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {classes.map((schoolClass) => (
+                <tr key={schoolClass.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center text-sm font-medium text-gray-900">
+                      <School className="h-5 w-5 text-gray-400 mr-2" />
+                      {classLabel(schoolClass)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {memberEmail(schoolClass.class_teacher_id) || 'Not set'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {learnerCounts[schoolClass.id] || 0}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {assignments.filter(a => a.class_id === schoolClass.id).length}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="relative">
+                      <button
+                        onClick={() => setShowActions(showActions === schoolClass.id ? null : schoolClass.id)}
+                        className="text-gray-400 hover:text-gray-500"
+                      >
+                        <MoreHorizontal className="h-5 w-5" />
+                      </button>
+                      {showActions === schoolClass.id && (
+                        <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+                          <div className="py-1" role="menu">
+                            <button
+                              onClick={() => {
+                                setSelectedClass(schoolClass);
+                                setShowClassModal(true);
+                                setShowActions(null);
+                              }}
+                              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                            >
+                              <Edit className="h-4 w-4 mr-2" />
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => {
+                                setAssigningClass(schoolClass);
+                                setShowActions(null);
+                              }}
+                              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                            >
+                              <Users className="h-4 w-4 mr-2" />
+                              Subject Teachers
+                            </button>
+                            <button
+                              onClick={() => handleDeleteClass(schoolClass)}
+                              className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {classes.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No classes yet. Add a class, then put learners in it from the Students page.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import {
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../store/auth';
+import { usePermission } from '../../lib/permissions';
 import AddClientModal from '../../components/clients/AddClientModal';
 import EditClientModal from '../../components/clients/EditClientModal';
 import ImportClientModal from '../../components/clients/ImportClientModal';
@@ -40,6 +41,7 @@ export default function ClientList() {
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [showActions, setShowActions] = useState<string | null>(null);
   const { user } = useAuthStore();
+  const canManage = usePermission('finance:manage');
 
   const fetchClients = async () => {
     try {
@@ -143,22 +145,24 @@ export default function ClientList() {
 
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-semibold text-gray-900">Clients</h1>
-        <div className="flex space-x-4">
-          <button
-            onClick={() => setShowImportModal(true)}
-            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
-          >
-            <Upload className="h-4 w-4 mr-2" />
-            Import
-          </button>
-          <button
-            onClick={() => setShowAddModal(true)}
-            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            New Client
-          </button>
-        </div>
+        {canManage && (
+          <div className="flex space-x-4">
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </button>
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Client
+            </button>
+          </div>
+        )}
       </div>
 
       {error && (
@@ -258,38 +262,40 @@ export default function ClientList() {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <div className="relative">
-                        <button
-                          onClick={() => setShowActions(showActions === client.id ? null : client.id)}
-                          className="text-gray-400 hover:text-gray-500"
-                        >
-                          <MoreHorizontal className="h-5 w-5" />
-                        </button>
-                        {showActions === client.id && (
-                          <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
-                            <div className="py-1" role="menu">
-                              <button
-                                onClick={() => {
-                                  setSelectedClient(client);
-                                  setShowEditModal(true);
-                                  setShowActions(null);
-                                }}
-                                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
-                              >
-                                <Edit className="h-4 w-4 mr-2" />
-                                Edit
-                              </button>
-                              <button
-                                onClick={() => handleDeleteClient(client.id)}
-                                className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete
-                              </button>
+                      {canManage && (
+                        <div className="relative">
+                          <button
+                            onClick={() => setShowActions(showActions === client.id ? null : client.id)}
+                            className="text-gray-400 hover:text-gray-500"
+                          >
+                            <MoreHorizontal className="h-5 w-5" />
+                          </button>
+                          {showActions === client.id && (
+                            <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+                              <div className="py-1" role="menu">
+                                <button
+                                  onClick={() => {
+                                    setSelectedClient(client);
+                                    setShowEditModal(true);
+                                    setShowActions(null);
+                                  }}
+                                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Edit className="h-4 w-4 mr-2" />
+                                  Edit
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteClient(client.id)}
+                                  className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </button>
+                              </div>
                             </div>
-                          </div>
-                        )}
-                      </div>
+                          )}
+                        </div>
+                      )}
                     </td>
                   </tr>
                 ))}
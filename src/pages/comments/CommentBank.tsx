@@ -0,0 +1,283 @@
+import { useState, useEffect } from 'react';
+import { Plus, Search, Edit, Trash2, MessageSquare } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../store/auth';
+import { usePermission } from '../../lib/permissions';
+import { commentCategories, performanceLevels } from '../../lib/comments';
+import CommentModal from '../../components/comments/CommentModal';
+import { gradeLabel } from '../../lib/grades';
+import type { CommentLibrary, Subject } from '../../types/supabase';
+
+export default function CommentBank() {
+  const [comments, setComments] = useState<CommentLibrary[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [selectedComment, setSelectedComment] = useState<CommentLibrary | undefined>();
+  const [filters, setFilters] = useState({
+    language: '',
+    category: '',
+    level: '',
+    subject: '',
+  });
+  const { user } = useAuthStore();
+  const canManage = usePermission('academics:manage');
+
+  const fetchComments = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        { data: commentsData, error: commentsError },
+        { data: subjectsData, error: subjectsError },
+      ] = await Promise.all([
+        supabase
+          .from('comments_library')
+          .select('*')
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('subjects')
+          .select('*')
+          .order('grade', { ascending: true })
+          .order('name_en', { ascending: true }),
+      ]);
+
+      if (commentsError) throw commentsError;
+      if (subjectsError) throw subjectsError;
+
+      setComments(commentsData || []);
+      setSubjects(subjectsData || []);
+    } catch (err) {
+      console.error('Error fetching comments:', err);
+      setError('Failed to load comment bank. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchComments();
+    }
+  }, [user]);
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Are you sure you want to delete this comment?')) return;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('comments_library')
+        .delete()
+        .eq('id', commentId);
+
+      if (deleteError) throw deleteError;
+      setComments(comments.filter(comment => comment.id !== commentId));
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+      alert('Failed to delete comment. Please try again.');
+    }
+  };
+
+  const filteredComments = comments.filter(comment => {
+    const matchesSearch = comment.comment_text.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesLanguage = !filters.language || comment.language === filters.language;
+    const matchesCategory = !filters.category || comment.category === filters.category;
+    const matchesLevel = !filters.level || comment.performance_level === filters.level;
+    const matchesSubject = !filters.subject ||
+      (filters.subject === 'general' ? !comment.subject_id : comment.subject_id === filters.subject);
+
+    return matchesSearch && matchesLanguage && matchesCategory && matchesLevel && matchesSubject;
+  });
+
+  const getSubjectName = (subjectId?: string | null) => {
+    const subject = subjects.find(s => s.id === subjectId);
+    return subject ? `${subject.name_en} (${gradeLabel(subject.grade)})` : 'All Subjects';
+  };
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-semibold text-gray-900">
+          Please sign in to view the comment bank
+        </h2>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {showModal && (
+        <CommentModal
+          comment={selectedComment}
+          subjects={subjects}
+          onClose={() => {
+            setShowModal(false);
+            setSelectedComment(undefined);
+          }}
+          onSaved={(saved) => {
+            setComments(prev =>
+              prev.some(c => c.id === saved.id)
+                ? prev.map(c => c.id === saved.id ? saved : c)
+                : [saved, ...prev]
+            );
+            setShowModal(false);
+            setSelectedComment(undefined);
+          }}
+        />
+      )}
+
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-gray-900">Comment Bank</h1>
+        {canManage && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Comment
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="p-6 border-b border-gray-200 space-y-4">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="Search comments..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <select
+              value={filters.language}
+              onChange={(e) => setFilters(prev => ({ ...prev, language: e.target.value }))}
+              className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="">All Languages</option>
+              <option value="english">English</option>
+              <option value="afrikaans">Afrikaans</option>
+            </select>
+
+            <select
+              value={filters.category}
+              onChange={(e) => setFilters(prev => ({ ...prev, category: e.target.value }))}
+              className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="">All Categories</option>
+              {commentCategories.map(category => (
+                <option key={category.value} value={category.value}>{category.label}</option>
+              ))}
+            </select>
+
+            <select
+              value={filters.level}
+              onChange={(e) => setFilters(prev => ({ ...prev, level: e.target.value }))}
+              className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="">All Levels</option>
+              {performanceLevels.map(level => (
+                <option key={level.value} value={level.value}>{level.label}</option>
+              ))}
+            </select>
+
+            <select
+              value={filters.subject}
+              onChange={(e) => setFilters(prev => ({ ...prev, subject: e.target.value }))}
+              className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+            >
+              <option value="">All Subjects</option>
+              <option value="general">General (no subject)</option>
+              {subjects.map(subject => (
+                <option key={subject.id} value={subject.id}>
+                  {subject.name_en} ({gradeLabel(subject.grade)})
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {filteredComments.map(comment => (
+              <li key={comment.id} className="px-6 py-4 flex items-start">
+                <MessageSquare className="h-5 w-5 text-gray-400 mr-3 mt-0.5 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900">{comment.comment_text}</p>
+                  <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                    <span className="inline-flex px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">
+                      {comment.language === 'afrikaans' ? 'Afrikaans' : 'English'}
+                    </span>
+                    <span className="inline-flex px-2 py-0.5 rounded-full bg-gray-100 text-gray-800">
+                      {commentCategories.find(c => c.value === comment.category)?.label}
+                    </span>
+                    {comment.performance_level && (
+                      <span className="inline-flex px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+                        {performanceLevels.find(l => l.value === comment.performance_level)?.label}
+                      </span>
+                    )}
+                    <span className="inline-flex px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                      {getSubjectName(comment.subject_id)}
+                    </span>
+                    {!comment.user_id && (
+                      <span className="inline-flex px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">
+                        Shared
+                      </span>
+                    )}
+                  </div>
+                </div>
+                {canManage && comment.user_id && (
+                  <div className="ml-4 flex space-x-2">
+                    <button
+                      onClick={() => {
+                        setSelectedComment(comment);
+                        setShowModal(true);
+                      }}
+                      className="text-gray-400 hover:text-gray-500"
+                    >
+                      <Edit className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(comment.id)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+            {filteredComments.length === 0 && (
+              <li className="px-6 py-4 text-center text-sm text-gray-500">
+                No comments found
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
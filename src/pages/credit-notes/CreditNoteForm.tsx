@@ -13,6 +13,7 @@ import {
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useSettingsStore } from '../../store/settings';
+import { getBalanceDue } from '../../lib/payments';
 
 const creditNoteSchema = z.object({
   invoiceId: z.string().uuid('Please select an invoice'),
@@ -28,6 +29,7 @@ const creditNoteSchema = z.object({
     })
   ),
   tax: z.number().min(0, 'Tax must be at least 0'),
+  keepSurplusAsCredit: z.boolean(),
 });
 
 type CreditNoteFormData = z.infer<typeof creditNoteSchema>;
@@ -44,6 +46,8 @@ type Invoice = {
   number: string;
   total: number;
   client_id: string;
+  payments: { amount: number }[];
+  credit_allocations: { amount: number }[];
 };
 
 export default function CreditNoteForm() {
@@ -55,6 +59,7 @@ export default function CreditNoteForm() {
   const [clients, setClients] = useState<Client[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [loading, setLoading] = useState(true);
+  const [locked, setLocked] = useState(false);
 
   const {
     register,
@@ -69,6 +74,7 @@ export default function CreditNoteForm() {
       date: format(new Date(), 'yyyy-MM-dd'),
       items: [{ description: '', quantity: 1, rate: 0, amount: 0 }],
       tax: 0,
+      keepSurplusAsCredit: false,
     },
   });
 
@@ -82,6 +88,10 @@ export default function CreditNoteForm() {
   const tax = watch('tax');
   const total = subtotal + (subtotal * tax) / 100;
   const selectedInvoiceId = watch('invoiceId');
+  const keepSurplusAsCredit = watch('keepSurplusAsCredit');
+  const selectedInvoice = invoices.find(i => i.id === selectedInvoiceId);
+  const invoiceBalance = selectedInvoice ? Math.max(getBalanceDue(selectedInvoice), 0) : 0;
+  const surplus = selectedInvoice ? total - invoiceBalance : 0;
 
   useEffect(() => {
     const fetchData = async () => {
@@ -100,8 +110,8 @@ export default function CreditNoteForm() {
         // Fetch invoices
         const { data: invoicesData, error: invoicesError } = await supabase
           .from('invoices')
-          .select('id, number, total, client_id')
-          .in('status', ['sent', 'paid'])
+          .select('id, number, total, client_id, payments(amount), credit_allocations(amount), late_charges(amount, status)')
+          .in('status', ['sent', 'partially_paid', 'paid'])
           .order('created_at', { ascending: false });
 
         if (invoicesError) throw invoicesError;
@@ -128,6 +138,8 @@ export default function CreditNoteForm() {
             setValue('reason', creditNote.reason);
             setValue('tax', creditNote.tax_rate);
             setValue('items', creditNote.items);
+            setValue('keepSurplusAsCredit', creditNote.keep_surplus_as_credit);
+            setLocked(creditNote.status !== 'draft');
           }
         }
       } catch (err) {
@@ -153,35 +165,81 @@ export default function CreditNoteForm() {
         return;
       }
 
-      // Start by inserting the credit note
-      const { data: creditNote, error: creditNoteError } = await supabase
-        .from('credit_notes')
-        .insert({
-          invoice_id: data.invoiceId,
-          client_id: data.clientId,
-          date: data.date,
-          reason: data.reason,
-          tax_rate: data.tax,
-          currency_code: currency.code,
-          status: 'draft',
-          number: await generateCreditNoteNumber(),
-          user_id: user.id
-        })
-        .select()
-        .single();
-
-      if (creditNoteError) {
-        console.error('Error saving credit note:', creditNoteError);
-        setError('Failed to create credit note. Please try again.');
+      // Refuse over-credits unless the surplus is kept on the client's account
+      const invoice = invoices.find(i => i.id === data.invoiceId);
+      const creditTotal = data.items.reduce((sum, item) => sum + item.quantity * item.rate, 0) * (1 + data.tax / 100);
+      if (invoice && creditTotal > Math.max(getBalanceDue(invoice), 0) && !data.keepSurplusAsCredit) {
+        setError('This credit note is more than the invoice balance. Reduce the amount or keep the surplus as client credit.');
         return;
       }
 
+      let creditNoteId = id;
+
+      if (isEditing && id) {
+        // Update the draft, then replace its items below
+        const { error: updateError } = await supabase
+          .from('credit_notes')
+          .update({
+            invoice_id: data.invoiceId,
+            client_id: data.clientId,
+            date: data.date,
+            reason: data.reason,
+            tax_rate: data.tax,
+            keep_surplus_as_credit: data.keepSurplusAsCredit,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', id);
+
+        if (updateError) {
+          console.error('Error saving credit note:', updateError);
+          setError('Failed to update credit note. Please try again.');
+          return;
+        }
+
+        const { error: deleteItemsError } = await supabase
+          .from('credit_note_items')
+          .delete()
+          .eq('credit_note_id', id);
+
+        if (deleteItemsError) {
+          console.error('Error saving credit note items:', deleteItemsError);
+          setError('Failed to save credit note items. Please try again.');
+          return;
+        }
+      } else {
+        // Start by inserting the credit note
+        const { data: creditNote, error: creditNoteError } = await supabase
+          .from('credit_notes')
+          .insert({
+            invoice_id: data.invoiceId,
+            client_id: data.clientId,
+            date: data.date,
+            reason: data.reason,
+            tax_rate: data.tax,
+            keep_surplus_as_credit: data.keepSurplusAsCredit,
+            currency_code: currency.code,
+            status: 'draft',
+            number: await generateCreditNoteNumber(),
+            user_id: user.id
+          })
+          .select()
+          .single();
+
+        if (creditNoteError) {
+          console.error('Error saving credit note:', creditNoteError);
+          setError('Failed to create credit note. Please try again.');
+          return;
+        }
+
+        creditNoteId = creditNote.id;
+      }
+
       // Then insert all credit note items
       const { error: itemsError } = await supabase
         .from('credit_note_items')
         .insert(
           data.items.map(item => ({
-            credit_note_id: creditNote.id,
+            credit_note_id: creditNoteId!,
             description: item.description,
             quantity: item.quantity,
             rate: item.rate,
@@ -240,16 +298,30 @@ export default function CreditNoteForm() {
             {isEditing ? 'Edit Credit Note' : 'New Credit Note'}
           </h1>
         </div>
-        <button
-          type="button"
-          onClick={handleSubmit(onSubmit)}
-          className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-        >
-          <Save className="h-4 w-4 mr-2" />
-          Save Credit Note
-        </button>
+        {!locked && (
+          <button
+            type="button"
+            onClick={handleSubmit(onSubmit)}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save Credit Note
+          </button>
+        )}
       </div>
 
+      {locked && (
+        <div className="rounded-md bg-yellow-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-yellow-800">
+                This credit note has been issued and can no longer be edited. Void it from the credit notes list if it was issued in error.
+              </h3>
+            </div>
+          </div>
+        </div>
+      )}
+
       {error && (
         <div className="rounded-md bg-red-50 p-4">
           <div className="flex">
@@ -260,7 +332,7 @@ export default function CreditNoteForm() {
         </div>
       )}
 
-      <form className="space-y-8 divide-y divide-gray-200">
+      <fieldset disabled={locked} className="space-y-8 divide-y divide-gray-200">
         <div className="space-y-6 sm:space-y-5">
           <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
             <div className="sm:col-span-3">
@@ -292,6 +364,11 @@ export default function CreditNoteForm() {
                   {errors.invoiceId.message}
                 </p>
               )}
+              {selectedInvoice && (
+                <p className="mt-2 text-sm text-gray-500">
+                  Outstanding balance: {currency.symbol}{invoiceBalance.toFixed(2)}
+                </p>
+              )}
             </div>
 
             <div className="sm:col-span-3">
@@ -475,10 +552,27 @@ export default function CreditNoteForm() {
                   {currency.symbol}{total.toFixed(2)}
                 </span>
               </div>
+              {surplus > 0 && (
+                <div className={`rounded-md p-3 text-sm ${
+                  keepSurplusAsCredit ? 'bg-blue-50 text-blue-700' : 'bg-yellow-50 text-yellow-800'
+                }`}>
+                  <p>
+                    This credit note exceeds the invoice balance by {currency.symbol}{surplus.toFixed(2)}.
+                  </p>
+                  <label className="mt-2 flex items-center">
+                    <input
+                      type="checkbox"
+                      {...register('keepSurplusAsCredit')}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    <span className="ml-2">Keep the surplus as client credit for future invoices</span>
+                  </label>
+                </div>
+              )}
             </div>
           </div>
         </div>
-      </form>
+      </fieldset>
     </div>
   );
 }
\ No newline at end of file
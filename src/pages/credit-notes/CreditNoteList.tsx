@@ -12,20 +12,36 @@ import {
   Edit,
   Trash2,
   FileText,
+  Send,
+  Ban,
+  History,
 } from 'lucide-react';
+import { jsPDF } from 'jspdf';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../store/auth';
 import { useSettingsStore } from '../../store/settings';
+import { usePermission } from '../../lib/permissions';
+import { brandingFromSettings } from '../../lib/documents/render';
+import { renderCreditNotePDF } from '../../lib/documents/creditNote';
+import VoidCreditNoteModal from '../../components/credit-notes/VoidCreditNoteModal';
+import CreditNoteHistoryModal from '../../components/credit-notes/CreditNoteHistoryModal';
 import type { Database } from '../../types/supabase';
 
 type CreditNote = Database['public']['Tables']['credit_notes']['Row'] & {
-  client: Database['public']['Tables']['clients']['Row'];
+  client: {
+    id: string;
+    name: string;
+    email: string;
+    address: string;
+  } | null;
+  invoice: { number: string } | null;
   items: Database['public']['Tables']['credit_note_items']['Row'][];
 };
 
 const statusStyles = {
   draft: 'bg-gray-100 text-gray-800',
   issued: 'bg-green-100 text-green-800',
+  void: 'bg-red-100 text-red-800',
 };
 
 export default function CreditNoteList() {
@@ -35,8 +51,11 @@ export default function CreditNoteList() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuthStore();
-  const { currency } = useSettingsStore();
+  const canManage = usePermission('finance:manage');
+  const branding = brandingFromSettings(useSettingsStore());
   const [showActions, setShowActions] = useState<string | null>(null);
+  const [voidingNote, setVoidingNote] = useState<CreditNote | null>(null);
+  const [historyNote, setHistoryNote] = useState<CreditNote | null>(null);
 
   const fetchCreditNotes = async () => {
     try {
@@ -48,7 +67,8 @@ export default function CreditNoteList() {
         .select(`
           *,
           items:credit_note_items(*),
-          client:clients(*)
+          client:clients(*),
+          invoice:invoices(number)
         `)
         .order('created_at', { ascending: false });
 
@@ -87,6 +107,54 @@ export default function CreditNoteList() {
     }
   };
 
+  const handleIssueCreditNote = async (note: CreditNote) => {
+    if (!confirm(
+      `Issue credit note ${note.number}? It will be applied to invoice ${note.invoice?.number || ''} and can no longer be edited.`
+    )) return;
+
+    try {
+      const { error: issueError } = await supabase
+        .from('credit_notes')
+        .update({ status: 'issued' })
+        .eq('id', note.id);
+
+      if (issueError) throw issueError;
+
+      setShowActions(null);
+      await fetchCreditNotes();
+    } catch (err) {
+      console.error('Error issuing credit note:', err);
+      // The database refuses credits larger than what is still owed
+      const message = (err as { message?: string })?.message || '';
+      if (message.includes('exceeds the invoice balance')) {
+        alert(`${message}. Edit the credit note to reduce it or keep the surplus as client credit.`);
+      } else {
+        alert('Failed to issue credit note. Please try again.');
+      }
+    }
+  };
+
+  const generatePDF = async (note: CreditNote) => {
+    try {
+      const doc = new jsPDF();
+      renderCreditNotePDF(doc, {
+        ...note,
+        invoiceNumber: note.invoice?.number,
+      }, branding);
+
+      // Save the PDF
+      doc.save(`credit-note-${note.number}.pdf`);
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      alert('Failed to generate PDF. Please try again.');
+    }
+  };
+
+  const handleDownloadPDF = (note: CreditNote) => {
+    setShowActions(null);
+    void generatePDF(note);
+  };
+
   const filteredCreditNotes = creditNotes.filter((note) =>
     note.number.toLowerCase().includes(searchTerm.toLowerCase()) ||
     note.client?.name.toLowerCase().includes(searchTerm.toLowerCase())
@@ -106,13 +174,15 @@ export default function CreditNoteList() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-semibold text-gray-900">Credit Notes</h1>
-        <button
-          onClick={() => navigate('/credit-notes/new')}
-          className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Credit Note
-        </button>
+        {canManage && (
+          <button
+            onClick={() => navigate('/credit-notes/new')}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Credit Note
+          </button>
+        )}
       </div>
 
       {error && (
@@ -201,7 +271,7 @@ export default function CreditNoteList() {
                       <div className="flex items-center">
                         <FileText className="h-5 w-5 text-gray-400 mr-2" />
                         <div className="text-sm text-gray-500">
-                          {note.invoice_id}
+                          {note.invoice?.number || '–'}
                         </div>
                       </div>
                     </td>
@@ -222,6 +292,11 @@ export default function CreditNoteList() {
                       >
                         {note.status.charAt(0).toUpperCase() + note.status.slice(1)}
                       </span>
+                      {note.status === 'void' && note.void_reason && (
+                        <div className="mt-1 text-xs text-gray-500 truncate max-w-xs" title={note.void_reason}>
+                          {note.void_reason}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="relative">
@@ -234,20 +309,62 @@ export default function CreditNoteList() {
                         {showActions === note.id && (
                           <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
                             <div className="py-1" role="menu">
+                              {canManage && note.status === 'draft' && (
+                                <>
+                                  <button
+                                    onClick={() => navigate(`/credit-notes/${note.id}/edit`)}
+                                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                  >
+                                    <Edit className="h-4 w-4 mr-2" />
+                                    Edit
+                                  </button>
+                                  <button
+                                    onClick={() => handleIssueCreditNote(note)}
+                                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                  >
+                                    <Send className="h-4 w-4 mr-2" />
+                                    Issue
+                                  </button>
+                                </>
+                              )}
                               <button
-                                onClick={() => navigate(`/credit-notes/${note.id}/edit`)}
+                                onClick={() => handleDownloadPDF(note)}
                                 className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
                               >
-                                <Edit className="h-4 w-4 mr-2" />
-                                Edit
+                                <Download className="h-4 w-4 mr-2" />
+                                Download PDF
                               </button>
                               <button
-                                onClick={() => handleDeleteCreditNote(note.id)}
-                                className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                                onClick={() => {
+                                  setHistoryNote(note);
+                                  setShowActions(null);
+                                }}
+                                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
                               >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete
+                                <History className="h-4 w-4 mr-2" />
+                                History
                               </button>
+                              {canManage && note.status === 'issued' && (
+                                <button
+                                  onClick={() => {
+                                    setVoidingNote(note);
+                                    setShowActions(null);
+                                  }}
+                                  className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Ban className="h-4 w-4 mr-2" />
+                                  Void
+                                </button>
+                              )}
+                              {canManage && note.status === 'draft' && (
+                                <button
+                                  onClick={() => handleDeleteCreditNote(note.id)}
+                                  className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </button>
+                              )}
                             </div>
                           </div>
                         )}
@@ -267,6 +384,24 @@ export default function CreditNoteList() {
           )}
         </div>
       </div>
+
+      {voidingNote && (
+        <VoidCreditNoteModal
+          creditNote={voidingNote}
+          onClose={() => setVoidingNote(null)}
+          onVoided={() => {
+            setVoidingNote(null);
+            fetchCreditNotes();
+          }}
+        />
+      )}
+
+      {historyNote && (
+        <CreditNoteHistoryModal
+          creditNote={historyNote}
+          onClose={() => setHistoryNote(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
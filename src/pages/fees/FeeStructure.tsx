@@ -0,0 +1,449 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Plus,
+  MoreHorizontal,
+  Edit,
+  Trash2,
+  Users,
+  Receipt,
+  Percent,
+} from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../store/auth';
+import { useSettingsStore } from '../../store/settings';
+import { usePermission } from '../../lib/permissions';
+import { gradeLabel } from '../../lib/grades';
+import type { FeeDiscount, FeeItem } from '../../types/supabase';
+import FeeItemModal from '../../components/fees/FeeItemModal';
+import FeeExtraStudentsModal from '../../components/fees/FeeExtraStudentsModal';
+import GenerateTermInvoicesModal from '../../components/fees/GenerateTermInvoicesModal';
+
+const categoryStyles = {
+  tuition: 'bg-blue-100 text-blue-800',
+  extra: 'bg-purple-100 text-purple-800',
+};
+
+const discountTypeLabels = {
+  sibling: 'Sibling',
+  early_payment: 'Early Payment',
+};
+
+export default function FeeStructure() {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const canManage = usePermission('finance:manage');
+  const { currency } = useSettingsStore();
+  const [feeItems, setFeeItems] = useState<FeeItem[]>([]);
+  const [discounts, setDiscounts] = useState<FeeDiscount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showActions, setShowActions] = useState<string | null>(null);
+  const [selectedItem, setSelectedItem] = useState<FeeItem | null>(null);
+  const [showItemModal, setShowItemModal] = useState(false);
+  const [showExtrasModal, setShowExtrasModal] = useState(false);
+  const [showGenerateModal, setShowGenerateModal] = useState(false);
+  const [newDiscount, setNewDiscount] = useState({
+    name: '',
+    discount_type: 'sibling' as FeeDiscount['discount_type'],
+    percentage: 10,
+    min_child_position: 2,
+  });
+
+  const fetchFeeStructure = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        { data: itemData, error: itemError },
+        { data: discountData, error: discountError },
+      ] = await Promise.all([
+        supabase
+          .from('fee_items')
+          .select('*')
+          .order('category')
+          .order('grade', { ascending: true, nullsFirst: true })
+          .order('name'),
+        supabase
+          .from('fee_discounts')
+          .select('*')
+          .order('discount_type')
+          .order('min_child_position'),
+      ]);
+
+      if (itemError) throw itemError;
+      if (discountError) throw discountError;
+
+      setFeeItems(itemData || []);
+      setDiscounts(discountData || []);
+    } catch (err) {
+      console.error('Error fetching fee structure:', err);
+      setError('Failed to load fee structure. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchFeeStructure();
+    }
+  }, [user]);
+
+  const handleDeleteItem = async (itemId: string) => {
+    if (!confirm('Are you sure you want to delete this fee item?')) return;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('fee_items')
+        .delete()
+        .eq('id', itemId);
+
+      if (deleteError) throw deleteError;
+
+      setFeeItems(feeItems.filter(item => item.id !== itemId));
+      setShowActions(null);
+    } catch (err) {
+      console.error('Error deleting fee item:', err);
+      alert('Failed to delete fee item. Please try again.');
+    }
+  };
+
+  const handleAddDiscount = async () => {
+    if (!newDiscount.name || !(newDiscount.percentage > 0)) return;
+
+    try {
+      // Get the current user
+      const { data: { user: currentUser }, error: userError } = await supabase.auth.getUser();
+      if (userError) throw userError;
+      if (!currentUser) return;
+
+      const { data, error: insertError } = await supabase
+        .from('fee_discounts')
+        .insert({ ...newDiscount, user_id: currentUser.id })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      setDiscounts(prev => [...prev, data]);
+      setNewDiscount(prev => ({ ...prev, name: '' }));
+    } catch (err) {
+      console.error('Error adding discount:', err);
+      alert('Failed to add discount. Please try again.');
+    }
+  };
+
+  const handleDeleteDiscount = async (discountId: string) => {
+    if (!confirm('Are you sure you want to delete this discount?')) return;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('fee_discounts')
+        .delete()
+        .eq('id', discountId);
+
+      if (deleteError) throw deleteError;
+      setDiscounts(discounts.filter(discount => discount.id !== discountId));
+    } catch (err) {
+      console.error('Error deleting discount:', err);
+      alert('Failed to delete discount. Please try again.');
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-semibold text-gray-900">
+          Please sign in to view the fee structure
+        </h2>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {showItemModal && (
+        <FeeItemModal
+          feeItem={selectedItem || undefined}
+          onClose={() => {
+            setShowItemModal(false);
+            setSelectedItem(null);
+          }}
+          onSaved={() => {
+            fetchFeeStructure();
+            setShowItemModal(false);
+            setSelectedItem(null);
+          }}
+        />
+      )}
+
+      {showExtrasModal && selectedItem && (
+        <FeeExtraStudentsModal
+          feeItem={selectedItem}
+          onClose={() => {
+            setShowExtrasModal(false);
+            setSelectedItem(null);
+          }}
+          onSaved={fetchFeeStructure}
+        />
+      )}
+
+      {showGenerateModal && (
+        <GenerateTermInvoicesModal
+          feeItems={feeItems}
+          discounts={discounts}
+          onClose={() => setShowGenerateModal(false)}
+          onGenerated={(count) => {
+            if (count > 0) {
+              navigate('/invoices');
+            }
+          }}
+        />
+      )}
+
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-gray-900">Fee Structure</h1>
+        {canManage && (
+          <div className="flex space-x-4">
+            <button
+              onClick={() => setShowGenerateModal(true)}
+              disabled={feeItems.length === 0}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Receipt className="h-4 w-4 mr-2" />
+              Generate Term Invoices
+            </button>
+            <button
+              onClick={() => {
+                setSelectedItem(null);
+                setShowItemModal(true);
+              }}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Fee Item
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="overflow-x-auto">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-gray-200 border-t-blue-600"></div>
+              <p className="mt-2 text-sm text-gray-500">Loading fee structure...</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Fee Item
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Grade
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Category
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Per Term
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {feeItems.map((item) => (
+                  <tr key={item.id} className={`hover:bg-gray-50 ${item.is_active ? '' : 'opacity-50'}`}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {item.name}
+                      {!item.is_active && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {item.grade === null ? 'All Grades' : gradeLabel(item.grade)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${categoryStyles[item.category]}`}>
+                        {item.category === 'tuition' ? 'Tuition' : 'Extra'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {currency.symbol}{Number(item.amount).toFixed(2)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {canManage && (
+                        <div className="relative">
+                          <button
+                            onClick={() => setShowActions(showActions === item.id ? null : item.id)}
+                            className="text-gray-400 hover:text-gray-500"
+                          >
+                            <MoreHorizontal className="h-5 w-5" />
+                          </button>
+                          {showActions === item.id && (
+                            <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+                              <div className="py-1" role="menu">
+                                <button
+                                  onClick={() => {
+                                    setSelectedItem(item);
+                                    setShowItemModal(true);
+                                    setShowActions(null);
+                                  }}
+                                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Edit className="h-4 w-4 mr-2" />
+                                  Edit
+                                </button>
+                                {item.category === 'extra' && (
+                                  <button
+                                    onClick={() => {
+                                      setSelectedItem(item);
+                                      setShowExtrasModal(true);
+                                      setShowActions(null);
+                                    }}
+                                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                  >
+                                    <Users className="h-4 w-4 mr-2" />
+                                    Learners
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => handleDeleteItem(item.id)}
+                                  className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {feeItems.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No fee items yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div className="flex items-center">
+          <Percent className="h-5 w-5 text-gray-400 mr-2" />
+          <h2 className="text-lg font-medium text-gray-900">Discounts</h2>
+        </div>
+
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {discounts.map((discount) => (
+            <li key={discount.id} className="px-4 py-3 flex justify-between items-center text-sm">
+              <div>
+                <span className="font-medium text-gray-900">{discount.name}</span>
+                <span className="ml-2 text-gray-500">
+                  {discountTypeLabels[discount.discount_type]} – {discount.percentage}%
+                  {discount.discount_type === 'sibling' &&
+                    ` from child ${discount.min_child_position} onwards`}
+                </span>
+              </div>
+              {canManage && (
+                <button
+                  onClick={() => handleDeleteDiscount(discount.id)}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+          {discounts.length === 0 && (
+            <li className="px-4 py-3 text-sm text-gray-500">No discounts configured</li>
+          )}
+        </ul>
+
+        {canManage && (
+          <div className="grid grid-cols-1 sm:grid-cols-5 gap-4 items-end">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                value={newDiscount.name}
+                onChange={(e) => setNewDiscount(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Second child discount"
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Type</label>
+              <select
+                value={newDiscount.discount_type}
+                onChange={(e) =>
+                  setNewDiscount(prev => ({
+                    ...prev,
+                    discount_type: e.target.value as FeeDiscount['discount_type'],
+                  }))
+                }
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="sibling">Sibling</option>
+                <option value="early_payment">Early Payment</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                {newDiscount.discount_type === 'sibling' ? '% / From Child' : 'Percentage'}
+              </label>
+              <div className="mt-1 flex space-x-2">
+                <input
+                  type="number"
+                  step="0.1"
+                  value={newDiscount.percentage}
+                  onChange={(e) => setNewDiscount(prev => ({ ...prev, percentage: parseFloat(e.target.value) }))}
+                  className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+                {newDiscount.discount_type === 'sibling' && (
+                  <input
+                    type="number"
+                    min="2"
+                    value={newDiscount.min_child_position}
+                    onChange={(e) =>
+                      setNewDiscount(prev => ({ ...prev, min_child_position: parseInt(e.target.value) || 2 }))
+                    }
+                    className="block w-16 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  />
+                )}
+              </div>
+            </div>
+            <button
+              onClick={handleAddDiscount}
+              className="inline-flex items-center justify-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Discount
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,14 +15,17 @@ import {
   UserPlus,
 } from 'lucide-react';
 import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
 import { Invoice, InvoiceItem } from '../../types';
 import { useSettingsStore, currencies } from '../../store/settings';
 import { supabase } from '../../lib/supabase';
+import { brandingFromSettings } from '../../lib/documents/render';
+import { renderInvoicePDF } from '../../lib/documents/invoice';
 import AddClientModal from '../../components/clients/AddClientModal';
+import FamilyBalances from '../../components/clients/FamilyBalances';
 
 const invoiceSchema = z.object({
   clientId: z.string().uuid('Please select a client'),
+  studentId: z.string().optional(),
   date: z.string().min(1, 'Date is required'),
   dueDate: z.string().min(1, 'Due date is required'),
   items: z.array(
@@ -45,15 +48,29 @@ type Client = {
   address: string;
 };
 
+type LinkedStudent = {
+  id: string;
+  first_name: string;
+  last_name: string;
+};
+
+// student_guardians rows with the linked learner embedded. The learner is one
+// row, though the untyped join infers a list
+type GuardianStudentRow = {
+  student: LinkedStudent | null;
+};
+
 export default function InvoiceForm() {
   const navigate = useNavigate();
   const { id } = useParams();
   const isEditing = Boolean(id);
-  const { currency } = useSettingsStore();
+  const settings = useSettingsStore();
+  const { currency } = settings;
   const [error, setError] = useState<string | null>(null);
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddClient, setShowAddClient] = useState(false);
+  const [linkedStudents, setLinkedStudents] = useState<LinkedStudent[]>([]);
 
   const fetchClients = async () => {
     try {
@@ -104,6 +121,30 @@ export default function InvoiceForm() {
   const selectedClientId = watch('clientId');
   const selectedClient = clients.find(c => c.id === selectedClientId);
 
+  useEffect(() => {
+    const fetchLinkedStudents = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('student_guardians')
+          .select('student:students(id, first_name, last_name)')
+          .eq('client_id', selectedClientId);
+
+        if (error) throw error;
+        setLinkedStudents(
+          ((data || []) as unknown as GuardianStudentRow[]).flatMap((link) => (link.student ? [link.student] : []))
+        );
+      } catch (err) {
+        console.error('Error fetching linked students:', err);
+      }
+    };
+
+    setLinkedStudents([]);
+    setValue('studentId', '');
+    if (selectedClientId) {
+      fetchLinkedStudents();
+    }
+  }, [selectedClientId]);
+
   const generateInvoiceNumber = async () => {
     const { data, error } = await supabase
       .rpc('generate_invoice_number');
@@ -115,50 +156,19 @@ export default function InvoiceForm() {
   const generatePDF = async (data: InvoiceFormData) => {
     const doc = new jsPDF();
     const client = clients.find(c => c.id === data.clientId);
-    
-    // Add company info
-    doc.setFontSize(20);
-    doc.text('INVOICE', 20, 20);
-    
-    doc.setFontSize(10);
-    doc.text('Your Company Name', 20, 30);
-    doc.text('123 Business Street', 20, 35);
-    doc.text('Business City, 12345', 20, 40);
-    
-    // Add client info
-    if (client) {
-      doc.text('Bill To:', 20, 55);
-      doc.text(client.name, 20, 60);
-      doc.text(client.address, 20, 65);
-      if (client.email) doc.text(client.email, 20, 70);
-    }
-    
-    // Add invoice details
-    doc.text(`Invoice Date: ${format(new Date(data.date), 'MMM dd, yyyy')}`, 120, 55);
-    doc.text(`Due Date: ${format(new Date(data.dueDate), 'MMM dd, yyyy')}`, 120, 60);
-    
-    // Add items table
-    const tableData = data.items.map(item => [
-      item.description,
-      item.quantity.toString(),
-      `${currency.symbol}${item.rate.toFixed(2)}`,
-      `${currency.symbol}${item.amount.toFixed(2)}`,
-    ]);
-    
-    autoTable(doc, {
-      startY: 80,
-      head: [['Description', 'Quantity', 'Rate', 'Amount']],
-      body: tableData,
-      theme: 'striped',
-      headStyles: { fillColor: [59, 130, 246] },
-    });
-    
-    // Add totals
-    const finalY = (doc as any).lastAutoTable.finalY || 120;
-    doc.text(`Subtotal: ${currency.symbol}${subtotal.toFixed(2)}`, 140, finalY + 10);
-    doc.text(`Tax (${tax}%): ${currency.symbol}${(subtotal * tax / 100).toFixed(2)}`, 140, finalY + 15);
-    doc.text(`Total: ${currency.symbol}${total.toFixed(2)}`, 140, finalY + 20);
-    
+
+    renderInvoicePDF(doc, {
+      number: 'DRAFT',
+      date: data.date,
+      due_date: data.dueDate,
+      client: client || null,
+      items: data.items,
+      subtotal,
+      tax_rate: tax,
+      tax_amount: subtotal * tax / 100,
+      total,
+    }, brandingFromSettings(settings), settings.invoiceSettings.template);
+
     // Save the PDF
     doc.save('invoice.pdf');
   };
@@ -180,6 +190,7 @@ export default function InvoiceForm() {
         .from('invoices')
         .insert({
           client_id: data.clientId,
+          student_id: data.studentId || null,
           date: data.date,
           due_date: data.dueDate,
           tax_rate: data.tax,
@@ -333,6 +344,35 @@ export default function InvoiceForm() {
               )}
             </div>
 
+            <div className="sm:col-span-3">
+              <label
+                htmlFor="studentId"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Learner (Optional)
+              </label>
+              <select
+                {...register('studentId')}
+                disabled={linkedStudents.length === 0}
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md disabled:bg-gray-100"
+              >
+                <option value="">
+                  {linkedStudents.length === 0 ? 'No linked learners' : 'Whole family'}
+                </option>
+                {linkedStudents.map((student) => (
+                  <option key={student.id} value={student.id}>
+                    {student.first_name} {student.last_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selectedClientId && (
+              <div className="sm:col-span-6">
+                <FamilyBalances key={selectedClientId} clientId={selectedClientId} />
+              </div>
+            )}
+
             <div className="sm:col-span-3">
               <label
                 htmlFor="date"
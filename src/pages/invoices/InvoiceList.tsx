@@ -14,22 +14,36 @@ import {
   CreditCard,
   Upload,
   Repeat,
+  Clock,
+  FileX,
+  Mail,
+  History,
 } from 'lucide-react';
 import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../store/auth';
 import { useSettingsStore } from '../../store/settings';
+import { usePermission } from '../../lib/permissions';
+import { getAmountCredited, getAmountPaid, getBalanceDue, getLateChargeTotal } from '../../lib/payments';
+import { brandingFromSettings } from '../../lib/documents/render';
+import { renderInvoicePDF } from '../../lib/documents/invoice';
+import RecordPaymentModal from '../../components/invoices/RecordPaymentModal';
+import SendEmailModal from '../../components/email/SendEmailModal';
+import EmailHistoryModal from '../../components/email/EmailHistoryModal';
 import type { Database } from '../../types/supabase';
 
 type Invoice = Database['public']['Tables']['invoices']['Row'] & {
   items: Database['public']['Tables']['invoice_items']['Row'][];
   client: Database['public']['Tables']['clients']['Row'];
+  payments: Database['public']['Tables']['payments']['Row'][];
+  credit_allocations: Database['public']['Tables']['credit_allocations']['Row'][];
+  late_charges: Database['public']['Tables']['late_charges']['Row'][];
 };
 
 const statusStyles = {
   draft: 'bg-gray-100 text-gray-800',
   sent: 'bg-blue-100 text-blue-800',
+  partially_paid: 'bg-yellow-100 text-yellow-800',
   paid: 'bg-green-100 text-green-800',
   overdue: 'bg-red-100 text-red-800',
 };
@@ -37,10 +51,19 @@ const statusStyles = {
 const statusIcons = {
   draft: FileText,
   sent: Upload,
+  partially_paid: Clock,
   paid: CreditCard,
   overdue: MoreHorizontal,
 };
 
+const statusLabels: Record<string, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  overdue: 'Overdue',
+};
+
 type FilterState = {
   startDate: string;
   endDate: string;
@@ -58,12 +81,16 @@ export default function InvoiceList() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuthStore();
-  const { currency, companyDetails } = useSettingsStore();
+  const canManage = usePermission('finance:manage');
+  const settings = useSettingsStore();
+  const { currency } = settings;
+  const branding = brandingFromSettings(settings);
   const [showActions, setShowActions] = useState<string | null>(null);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [showBulkModal, setShowBulkModal] = useState(false);
-  const [showRecurringModal, setShowRecurringModal] = useState(false);
+  const [emailingInvoice, setEmailingInvoice] = useState<Invoice | null>(null);
+  const [emailHistoryInvoice, setEmailHistoryInvoice] = useState<Invoice | null>(null);
   const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
   const [filters, setFilters] = useState<FilterState>({
     startDate: '',
@@ -98,7 +125,10 @@ export default function InvoiceList() {
         .select(`
           *,
           items:invoice_items(*),
-          client:clients(*)
+          client:clients(*),
+          payments(*),
+          credit_allocations(*),
+          late_charges(*)
         `)
         .order('created_at', { ascending: false });
 
@@ -139,10 +169,58 @@ export default function InvoiceList() {
     }
   };
 
+  const handleApplyClientCredit = async (invoice: Invoice) => {
+    try {
+      const { data: applied, error: applyError } = await supabase
+        .rpc('apply_client_credit', { p_invoice_id: invoice.id });
+
+      if (applyError) throw applyError;
+
+      setShowActions(null);
+      if (!applied) {
+        alert(`${invoice.client?.name || 'This client'} has no unapplied credit.`);
+        return;
+      }
+
+      await fetchInvoices();
+    } catch (err) {
+      console.error('Error applying client credit:', err);
+      alert('Failed to apply client credit. Please try again.');
+    }
+  };
+
+  const createInvoicePDF = (invoice: Invoice) => {
+    const doc = new jsPDF();
+    renderInvoicePDF(doc, {
+      ...invoice,
+      amountPaid: getAmountPaid(invoice.payments),
+      amountCredited: getAmountCredited(invoice.credit_allocations),
+      lateCharges: getLateChargeTotal(invoice.late_charges),
+    }, branding, settings.invoiceSettings.template);
+
+    return doc;
+  };
+
+  const formatAmount = (invoice: Invoice, amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: invoice.currency_code,
+    }).format(amount);
+
+  const getEmailMergeValues = (invoice: Invoice) => ({
+    client_name: invoice.client?.name || '',
+    invoice_number: invoice.number,
+    invoice_date: format(new Date(invoice.date), 'MMM d, yyyy'),
+    due_date: format(new Date(invoice.due_date), 'MMM d, yyyy'),
+    total: formatAmount(invoice, invoice.total),
+    amount_due: formatAmount(invoice, getBalanceDue(invoice)),
+    company_name: settings.companyDetails.name,
+  });
+
   const generatePDF = async (invoice: Invoice) => {
     try {
       // Only update status if it's currently a draft
-      if (invoice.status === 'draft') {
+      if (invoice.status === 'draft' && canManage) {
         const { error: updateError } = await supabase
           .from('invoices')
           .update({
@@ -163,116 +241,8 @@ export default function InvoiceList() {
         );
       }
 
-      const doc = new jsPDF();
-      
-      // Add company logo if exists
-      if (companyDetails.logo) {
-        try {
-          // Create a new Image object
-          const companyImg = new Image();
-          companyImg.src = companyDetails.logo;
-          
-          // Wait for image to load
-          await new Promise((resolve, reject) => {
-            companyImg.onload = resolve;
-            companyImg.onerror = reject;
-          });
-
-          // Position logo in top left
-          doc.addImage(companyDetails.logo, 'PNG', 20, 20, 40, 40, undefined, 'FAST');
-        } catch (logoError) {
-          console.error('Error adding company logo:', logoError);
-          // Continue without logo
-        }
-      }
-
-      // Add school logo if exists
-      if (companyDetails.schoolLogo) {
-        try {
-          // Create a new Image object
-          const schoolImg = new Image();
-          schoolImg.src = companyDetails.schoolLogo;
-          
-          // Wait for image to load
-          await new Promise((resolve, reject) => {
-            schoolImg.onload = resolve;
-            schoolImg.onerror = reject;
-          });
-
-          // Position school logo in top right
-          doc.addImage(companyDetails.schoolLogo, 'PNG', 150, 20, 40, 40, undefined, 'FAST');
-        } catch (logoError) {
-          console.error('Error adding school logo:', logoError);
-          // Continue without logo
-        }
-      }
-
-      // Add company info
-      doc.setFontSize(10);
-      doc.text(companyDetails.name || 'Your Company Name', 70, 30);
-      doc.text(companyDetails.address || '', 70, 35);
-      doc.text(`${companyDetails.city || ''}, ${companyDetails.state || ''} ${companyDetails.postalCode || ''}`, 70, 40);
-      doc.text(companyDetails.country || '', 70, 45);
-
-      // Add invoice title
-      doc.setFontSize(24);
-      doc.setTextColor(59, 130, 246); // Blue color
-      doc.text('INVOICE', 150, 40);
-      
-      // Add invoice number and dates
-      doc.setTextColor(0, 0, 0);
-      doc.setFontSize(10);
-      doc.text('Invoice Number:', 140, 60);
-      doc.setFont('helvetica', 'bold');
-      doc.text(invoice.number, 180, 60);
-      
-      doc.setFont('helvetica', 'normal');
-      doc.text('Invoice Date:', 140, 70);
-      doc.setFont('helvetica', 'bold');
-      doc.text(format(new Date(invoice.date), 'MMM dd, yyyy'), 180, 70);
-      
-      doc.setFont('helvetica', 'normal');
-      doc.text('Due Date:', 140, 80);
-      doc.setFont('helvetica', 'bold');
-      doc.text(format(new Date(invoice.due_date), 'MMM dd, yyyy'), 180, 80);
-      
-      // Add client info
-      doc.setFontSize(12);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Bill To:', 20, 110);
-      doc.setFontSize(10);
-      doc.setFont('helvetica', 'normal');
-      if (invoice.client) {
-        doc.text(invoice.client.name, 20, 120);
-        if (invoice.client.address) doc.text(invoice.client.address, 20, 125);
-        if (invoice.client.email) doc.text(invoice.client.email, 20, 130);
-      }
-      
-      // Add items table
-      const tableData = invoice.items.map(item => [
-        item.description,
-        item.quantity.toString(),
-        `${currency.symbol}${item.rate.toFixed(2)}`,
-        `${currency.symbol}${item.amount.toFixed(2)}`,
-      ]);
-      
-      autoTable(doc, {
-        startY: 150,
-        head: [['Description', 'Quantity', 'Rate', 'Amount']],
-        body: tableData,
-        theme: 'striped',
-        headStyles: { fillColor: [59, 130, 246] },
-      });
-      
-      const finalY = (doc as any).lastAutoTable.finalY || 180;
-      
-      // Add totals
-      doc.text(`Subtotal: ${currency.symbol}${invoice.subtotal.toFixed(2)}`, 140, finalY + 10);
-      doc.text(`Tax (${invoice.tax_rate}%): ${currency.symbol}${invoice.tax_amount.toFixed(2)}`, 140, finalY + 15);
-      doc.text(`Total: ${currency.symbol}${invoice.total.toFixed(2)}`, 140, finalY + 20);
-      
       // Save the PDF
-      doc.save(`invoice-${invoice.number}.pdf`);
+      createInvoicePDF(invoice).save(`invoice-${invoice.number}.pdf`);
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Failed to generate PDF. Please try again.');
@@ -340,30 +310,73 @@ export default function InvoiceList() {
 
   return (
     <div className="space-y-6">
+      {showPaymentModal && selectedInvoice && (
+        <RecordPaymentModal
+          invoice={selectedInvoice}
+          onClose={() => {
+            setShowPaymentModal(false);
+            setSelectedInvoice(null);
+          }}
+          onPaymentRecorded={fetchInvoices}
+        />
+      )}
+
+      {emailingInvoice && (
+        <SendEmailModal
+          documentType="invoice"
+          title={`Email Invoice ${emailingInvoice.number}`}
+          recipient={emailingInvoice.client?.email}
+          mergeValues={getEmailMergeValues(emailingInvoice)}
+          attachment={{
+            filename: `invoice-${emailingInvoice.number}.pdf`,
+            create: () => createInvoicePDF(emailingInvoice),
+          }}
+          reference={{ invoiceId: emailingInvoice.id }}
+          onClose={() => setEmailingInvoice(null)}
+          onSent={() => {
+            setEmailingInvoice(null);
+            fetchInvoices();
+          }}
+        />
+      )}
+
+      {emailHistoryInvoice && (
+        <EmailHistoryModal
+          title={`Emails for ${emailHistoryInvoice.number}`}
+          documentType="invoice"
+          documentId={emailHistoryInvoice.id}
+          onClose={() => setEmailHistoryInvoice(null)}
+        />
+      )}
+
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-semibold text-gray-900">Invoices</h1>
         <div className="flex space-x-4">
           <button
-            onClick={() => setShowBulkModal(true)}
-            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
-          >
-            <Upload className="h-4 w-4 mr-2" />
-            Bulk Create
-          </button>
-          <button
-            onClick={() => setShowRecurringModal(true)}
+            onClick={() => navigate('/invoices/recurring')}
             className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
           >
             <Repeat className="h-4 w-4 mr-2" />
             Recurring
           </button>
-          <button
-            onClick={() => navigate('/invoices/new')}
-            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            New Invoice
-          </button>
+          {canManage && (
+            <>
+              <button
+                onClick={() => setShowBulkModal(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Bulk Create
+              </button>
+              <button
+                onClick={() => navigate('/invoices/new')}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                New Invoice
+              </button>
+            </>
+          )}
         </div>
       </div>
 
@@ -404,6 +417,7 @@ export default function InvoiceList() {
                   <option value="all">All Status</option>
                   <option value="draft">Draft</option>
                   <option value="sent">Sent</option>
+                  <option value="partially_paid">Partially Paid</option>
                   <option value="paid">Paid</option>
                   <option value="overdue">Overdue</option>
                 </select>
@@ -527,6 +541,12 @@ export default function InvoiceList() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Amount
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Credited
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Balance Due
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Status
                   </th>
@@ -538,6 +558,9 @@ export default function InvoiceList() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredInvoices.map((invoice) => {
                   const StatusIcon = statusIcons[invoice.status];
+                  const balanceDue = getBalanceDue(invoice);
+                  const amountCredited = getAmountCredited(invoice.credit_allocations);
+                  const lateCharges = getLateChargeTotal(invoice.late_charges);
                   return (
                     <tr key={invoice.id} className="hover:bg-gray-50">
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -546,6 +569,15 @@ export default function InvoiceList() {
                           <div className="text-sm font-medium text-gray-900">
                             {invoice.number}
                           </div>
+                          {invoice.recurring_invoice_id && (
+                            <button
+                              onClick={() => navigate('/invoices/recurring')}
+                              className="ml-2 text-gray-400 hover:text-blue-600"
+                              title="Created by a recurring schedule"
+                            >
+                              <Repeat className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -568,6 +600,30 @@ export default function InvoiceList() {
                           currency: invoice.currency_code,
                         }).format(invoice.total)}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {amountCredited > 0
+                          ? new Intl.NumberFormat('en-US', {
+                              style: 'currency',
+                              currency: invoice.currency_code,
+                            }).format(amountCredited)
+                          : '–'}
+                      </td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm ${
+                        balanceDue > 0 ? 'text-gray-900' : 'text-gray-500'
+                      }`}>
+                        {new Intl.NumberFormat('en-US', {
+                          style: 'currency',
+                          currency: invoice.currency_code,
+                        }).format(balanceDue)}
+                        {lateCharges > 0 && (
+                          <div className="text-xs text-red-600">
+                            Incl. {new Intl.NumberFormat('en-US', {
+                              style: 'currency',
+                              currency: invoice.currency_code,
+                            }).format(lateCharges)} late charges
+                          </div>
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span
                           className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
@@ -575,8 +631,7 @@ export default function InvoiceList() {
                           }`}
                         >
                           <StatusIcon className="h-4 w-4 mr-1" />
-                          {invoice.status.charAt(0).toUpperCase() +
-                            invoice.status.slice(1)}
+                          {statusLabels[invoice.status]}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
@@ -590,14 +645,16 @@ export default function InvoiceList() {
                           {showActions === invoice.id && (
                             <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
                               <div className="py-1" role="menu">
-                                <button
-                                  onClick={() => navigate(`/invoices/${invoice.id}/edit`)}
-                                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
-                                >
-                                  <Edit className="h-4 w-4 mr-2" />
-                                  Edit
-                                </button>
-                                {invoice.status !== 'paid' && (
+                                {canManage && (
+                                  <button
+                                    onClick={() => navigate(`/invoices/${invoice.id}/edit`)}
+                                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                  >
+                                    <Edit className="h-4 w-4 mr-2" />
+                                    Edit
+                                  </button>
+                                )}
+                                {canManage && balanceDue > 0 && (
                                   <button
                                     onClick={() => {
                                       setSelectedInvoice(invoice);
@@ -610,6 +667,15 @@ export default function InvoiceList() {
                                     Record Payment
                                   </button>
                                 )}
+                                {canManage && balanceDue > 0 && invoice.status !== 'draft' && (
+                                  <button
+                                    onClick={() => handleApplyClientCredit(invoice)}
+                                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                  >
+                                    <FileX className="h-4 w-4 mr-2" />
+                                    Apply Client Credit
+                                  </button>
+                                )}
                                 <button
                                   onClick={() => handleDownloadPDF(invoice)}
                                   className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
@@ -617,13 +683,37 @@ export default function InvoiceList() {
                                   <Download className="h-4 w-4 mr-2" />
                                   Download PDF
                                 </button>
+                                {canManage && (
+                                  <button
+                                    onClick={() => {
+                                      setEmailingInvoice(invoice);
+                                      setShowActions(null);
+                                    }}
+                                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                  >
+                                    <Mail className="h-4 w-4 mr-2" />
+                                    Send Email
+                                  </button>
+                                )}
                                 <button
-                                  onClick={() => handleDeleteInvoice(invoice.id)}
-                                  className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                                  onClick={() => {
+                                    setEmailHistoryInvoice(invoice);
+                                    setShowActions(null);
+                                  }}
+                                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
                                 >
-                                  <Trash2 className="h-4 w-4 mr-2" />
-                                  Delete
+                                  <History className="h-4 w-4 mr-2" />
+                                  Email History
                                 </button>
+                                {canManage && (
+                                  <button
+                                    onClick={() => handleDeleteInvoice(invoice.id)}
+                                    className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete
+                                  </button>
+                                )}
                               </div>
                             </div>
                           )}
@@ -634,7 +724,7 @@ export default function InvoiceList() {
                 })}
                 {filteredInvoices.length === 0 && (
                   <tr>
-                    <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                    <td colSpan={9} className="px-6 py-4 text-center text-sm text-gray-500">
                       No invoices found
                     </td>
                   </tr>
@@ -0,0 +1,415 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  Repeat,
+  Plus,
+  Search,
+  MoreHorizontal,
+  Building,
+  Edit,
+  Pause,
+  Play,
+  Square,
+  History,
+  Eye,
+  ArrowLeft,
+  Mail,
+} from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../store/auth';
+import { usePermission } from '../../lib/permissions';
+import RecurringInvoiceModal from '../../components/invoices/RecurringInvoiceModal';
+import RecurringInvoiceHistoryModal from '../../components/invoices/RecurringInvoiceHistoryModal';
+import RecurringInvoicePreviewModal from '../../components/invoices/RecurringInvoicePreviewModal';
+import type { RecurringInvoice } from '../../types/supabase';
+
+type Schedule = RecurringInvoice & {
+  client: { name: string } | null;
+  invoices: { count: number }[];
+};
+
+const statusStyles: Record<RecurringInvoice['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-gray-100 text-gray-800',
+};
+
+const statusLabels: Record<RecurringInvoice['status'], string> = {
+  active: 'Active',
+  paused: 'Paused',
+  completed: 'Ended',
+};
+
+const frequencyLabels: Record<RecurringInvoice['frequency'], string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+export default function RecurringInvoiceList() {
+  const navigate = useNavigate();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuthStore();
+  const canManage = usePermission('finance:manage');
+  const [showActions, setShowActions] = useState<string | null>(null);
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<Schedule | null>(null);
+  const [historySchedule, setHistorySchedule] = useState<Schedule | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const fetchSchedules = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('recurring_invoices')
+        .select(`
+          *,
+          client:clients(name),
+          invoices(count)
+        `)
+        .order('next_run_date', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setSchedules((data || []) as Schedule[]);
+    } catch (err) {
+      console.error('Error fetching recurring invoices:', err);
+      setError('Failed to load recurring invoices. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setClients(data || []);
+    } catch (err) {
+      console.error('Error fetching clients:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchSchedules();
+      fetchClients();
+    }
+  }, [user]);
+
+  const updateStatus = async (schedule: Schedule, status: RecurringInvoice['status']) => {
+    try {
+      const { error: updateError } = await supabase
+        .from('recurring_invoices')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', schedule.id);
+
+      if (updateError) throw updateError;
+
+      setSchedules(schedules.map(s => s.id === schedule.id ? { ...s, status } : s));
+      setShowActions(null);
+    } catch (err) {
+      console.error('Error updating recurring invoice:', err);
+      alert('Failed to update recurring invoice. Please try again.');
+    }
+  };
+
+  const handleEnd = (schedule: Schedule) => {
+    if (!confirm(
+      `End the ${frequencyLabels[schedule.frequency].toLowerCase()} invoice for ${schedule.client?.name || 'this client'}? No more invoices will be created. Invoices already created are kept.`
+    )) return;
+
+    void updateStatus(schedule, 'completed');
+  };
+
+  const formatAmount = (schedule: Schedule) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: schedule.currency_code,
+    }).format(Number(schedule.amount) * (1 + Number(schedule.tax_rate) / 100));
+
+  const filteredSchedules = schedules.filter((schedule) =>
+    schedule.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    schedule.client?.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-semibold text-gray-900">
+          Please sign in to view recurring invoices
+        </h2>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {showScheduleModal && (
+        <RecurringInvoiceModal
+          clients={clients}
+          schedule={editingSchedule}
+          onClose={() => {
+            setShowScheduleModal(false);
+            setEditingSchedule(null);
+          }}
+          onSuccess={fetchSchedules}
+        />
+      )}
+
+      {historySchedule && (
+        <RecurringInvoiceHistoryModal
+          scheduleId={historySchedule.id}
+          title={`Invoices for ${historySchedule.client?.name || 'Unknown Client'}`}
+          onClose={() => setHistorySchedule(null)}
+        />
+      )}
+
+      {showPreview && (
+        <RecurringInvoicePreviewModal onClose={() => setShowPreview(false)} />
+      )}
+
+      <div className="flex justify-between items-center">
+        <div className="flex items-center">
+          <button
+            onClick={() => navigate('/invoices')}
+            className="mr-4 text-gray-400 hover:text-gray-500"
+            title="Back to invoices"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <h1 className="text-2xl font-semibold text-gray-900">Recurring Invoices</h1>
+        </div>
+        <div className="flex space-x-4">
+          <button
+            onClick={() => setShowPreview(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            Preview Next Run
+          </button>
+          {canManage && (
+            <button
+              onClick={() => {
+                setEditingSchedule(null);
+                setShowScheduleModal(true);
+              }}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Schedule
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="p-6 border-b border-gray-200">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="Search recurring invoices..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <p className="mt-3 text-sm text-gray-500">
+            Every night each active schedule that is due creates a draft invoice dated on
+            its next invoice date.
+          </p>
+        </div>
+
+        <div className="overflow-x-auto">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-gray-200 border-t-blue-600"></div>
+              <p className="mt-2 text-sm text-gray-500">Loading recurring invoices...</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Client
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Frequency
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Next Invoice
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Ends
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Invoices
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredSchedules.map((schedule) => (
+                  <tr key={schedule.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center">
+                        <Building className="h-5 w-5 text-gray-400 mr-2 flex-shrink-0" />
+                        <div>
+                          <div className="text-sm text-gray-900">
+                            {schedule.client?.name || 'Unknown Client'}
+                          </div>
+                          <div className="text-xs text-gray-500 truncate max-w-xs">
+                            {schedule.description}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div className="flex items-center">
+                        <Repeat className="h-4 w-4 text-gray-400 mr-2" />
+                        {frequencyLabels[schedule.frequency]}
+                        {schedule.auto_send && (
+                          <span title="Emailed to the client when created">
+                            <Mail className="h-4 w-4 text-gray-400 ml-2" />
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatAmount(schedule)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {schedule.status === 'completed'
+                        ? '–'
+                        : format(new Date(schedule.next_run_date), 'MMM d, yyyy')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {schedule.end_date ? format(new Date(schedule.end_date), 'MMM d, yyyy') : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {schedule.invoices?.[0]?.count ?? 0}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          statusStyles[schedule.status]
+                        }`}
+                      >
+                        {statusLabels[schedule.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="relative">
+                        <button
+                          onClick={() => setShowActions(showActions === schedule.id ? null : schedule.id)}
+                          className="text-gray-400 hover:text-gray-500"
+                        >
+                          <MoreHorizontal className="h-5 w-5" />
+                        </button>
+                        {showActions === schedule.id && (
+                          <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+                            <div className="py-1" role="menu">
+                              {canManage && schedule.status !== 'completed' && (
+                                <button
+                                  onClick={() => {
+                                    setEditingSchedule(schedule);
+                                    setShowScheduleModal(true);
+                                    setShowActions(null);
+                                  }}
+                                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Edit className="h-4 w-4 mr-2" />
+                                  Edit
+                                </button>
+                              )}
+                              {canManage && schedule.status === 'active' && (
+                                <button
+                                  onClick={() => updateStatus(schedule, 'paused')}
+                                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Pause className="h-4 w-4 mr-2" />
+                                  Pause
+                                </button>
+                              )}
+                              {canManage && schedule.status === 'paused' && (
+                                <button
+                                  onClick={() => updateStatus(schedule, 'active')}
+                                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Play className="h-4 w-4 mr-2" />
+                                  Resume
+                                </button>
+                              )}
+                              <button
+                                onClick={() => {
+                                  setHistorySchedule(schedule);
+                                  setShowActions(null);
+                                }}
+                                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                              >
+                                <History className="h-4 w-4 mr-2" />
+                                Invoice History
+                              </button>
+                              {canManage && schedule.status !== 'completed' && (
+                                <button
+                                  onClick={() => handleEnd(schedule)}
+                                  className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Square className="h-4 w-4 mr-2" />
+                                  End Schedule
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {filteredSchedules.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
+                      No recurring invoices found
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,503 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, AlertTriangle, Edit, Send, Layers } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../store/auth';
+import { pullSubjectMarks } from '../../lib/assessments';
+import { scopeIncludesSubject, useTeachingScope } from '../../lib/classes';
+import { getReportCardCompleteness, type ReportCardCompleteness } from '../../lib/reportCards';
+import { GRADES, gradeLabel } from '../../lib/grades';
+import type { ReportCard, ReportCardSubject, Student, Subject } from '../../types/supabase';
+
+type BatchReportCard = ReportCard & {
+  student: Student;
+  subjects: ReportCardSubject[];
+  completeness: ReportCardCompleteness;
+};
+
+const steps = ['Select Class', 'Create Drafts', 'Review & Publish'];
+
+export default function ReportCardBatch() {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const { scope } = useTeachingScope();
+  const [step, setStep] = useState(0);
+  const [setup, setSetup] = useState({
+    grade: '',
+    term: Math.floor(new Date().getMonth() / 3) + 1,
+    year: new Date().getFullYear(),
+  });
+  const [students, setStudents] = useState<Student[]>([]);
+  const [gradeSubjects, setGradeSubjects] = useState<Subject[]>([]);
+  const [reportCards, setReportCards] = useState<BatchReportCard[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReportCards = async (studentIds: string[], subjectIds: string[]) => {
+    const { data, error: fetchError } = await supabase
+      .from('report_cards')
+      .select(`
+        *,
+        student:students(*),
+        subjects:report_card_subjects(*)
+      `)
+      .eq('term', setup.term)
+      .eq('year', setup.year)
+      .in('student_id', studentIds);
+
+    if (fetchError) throw fetchError;
+
+    const cards = (data || []).map(card => ({
+      ...card,
+      completeness: getReportCardCompleteness(card, subjectIds),
+    })) as BatchReportCard[];
+
+    setReportCards(
+      cards.sort((a, b) => a.student.last_name.localeCompare(b.student.last_name))
+    );
+    return cards;
+  };
+
+  const handleLoadClass = async () => {
+    if (!setup.grade) {
+      setError('Please select a grade');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setFailures([]);
+
+      const [
+        { data: studentsData, error: studentsError },
+        { data: subjectsData, error: subjectsError },
+      ] = await Promise.all([
+        supabase
+          .from('students')
+          .select('*')
+          .eq('grade', parseInt(setup.grade))
+          .order('last_name', { ascending: true }),
+        supabase
+          .from('subjects')
+          .select('*')
+          .eq('grade', parseInt(setup.grade))
+          .order('name_en', { ascending: true }),
+      ]);
+
+      if (studentsError) throw studentsError;
+      if (subjectsError) throw subjectsError;
+
+      setStudents(studentsData || []);
+      setGradeSubjects(subjectsData || []);
+      await loadReportCards(
+        (studentsData || []).map(s => s.id),
+        (subjectsData || []).map(s => s.id)
+      );
+      setStep(1);
+    } catch (err) {
+      console.error('Error loading class:', err);
+      setError('Failed to load the class. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const studentsWithoutCards = students.filter(
+    student => !reportCards.some(card => card.student_id === student.id)
+  );
+
+  const handleCreateDrafts = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Get the current user
+      const { data: { user: currentUser }, error: userError } = await supabase.auth.getUser();
+      if (userError) throw userError;
+      if (!currentUser) {
+        setError('You must be logged in to create report cards');
+        return;
+      }
+
+      const subjectIds = gradeSubjects.map(subject => subject.id);
+      const failed: string[] = [];
+      setProgress({ done: 0, total: studentsWithoutCards.length });
+
+      // One learner at a time so a failure doesn't stop the rest of the class
+      for (const [index, student] of studentsWithoutCards.entries()) {
+        try {
+          // Teachers pre-fill only the subjects they teach
+          const marks = await pullSubjectMarks({
+            studentId: student.id,
+            subjectIds: subjectIds.filter(subjectId => scopeIncludesSubject(scope, subjectId, student.class_id)),
+            term: setup.term,
+            year: setup.year,
+          });
+
+          const { data: reportCard, error: insertError } = await supabase
+            .from('report_cards')
+            .insert({
+              student_id: student.id,
+              term: setup.term,
+              year: setup.year,
+              attendance_days: 0,
+              absent_days: 0,
+              status: 'draft',
+              user_id: currentUser.id,
+            })
+            .select()
+            .single();
+
+          if (insertError) throw insertError;
+
+          if (marks.length > 0) {
+            const { error: subjectsError } = await supabase
+              .from('report_card_subjects')
+              .insert(
+                marks.map(mark => ({
+                  report_card_id: reportCard.id,
+                  subject_id: mark.subject_id,
+                  term_mark: mark.term_mark,
+                  year_to_date: mark.year_to_date,
+                }))
+              );
+
+            if (subjectsError) {
+              // Remove the empty card so the learner is picked up again on retry
+              const { error: deleteError } = await supabase
+                .from('report_cards')
+                .delete()
+                .eq('id', reportCard.id);
+
+              if (deleteError) console.error('Error removing incomplete report card:', deleteError);
+              throw subjectsError;
+            }
+          }
+        } catch (err) {
+          console.error('Error creating report card:', err);
+          failed.push(`${student.first_name} ${student.last_name}`);
+        }
+
+        setProgress({ done: index + 1, total: studentsWithoutCards.length });
+      }
+
+      setFailures(failed);
+      await loadReportCards(students.map(s => s.id), subjectIds);
+      if (failed.length === 0) {
+        setStep(2);
+      }
+    } catch (err) {
+      console.error('Error creating draft report cards:', err);
+      setError('Failed to create draft report cards. Please try again.');
+    } finally {
+      setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const completeDrafts = reportCards.filter(
+    card => card.status === 'draft' && card.completeness.isComplete
+  );
+
+  const handlePublishComplete = async () => {
+    if (!confirm(`Publish ${completeDrafts.length} complete report cards?`)) return;
+
+    try {
+      setPublishing(true);
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .from('report_cards')
+        .update({ status: 'published', updated_at: new Date().toISOString() })
+        .in('id', completeDrafts.map(card => card.id));
+
+      if (updateError) throw updateError;
+
+      await loadReportCards(students.map(s => s.id), gradeSubjects.map(s => s.id));
+    } catch (err) {
+      console.error('Error publishing report cards:', err);
+      setError('Failed to publish report cards. Please try again.');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-semibold text-gray-900">
+          Please sign in to generate report cards
+        </h2>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-4">
+        <button
+          onClick={() => navigate('/report-cards')}
+          className="text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="h-6 w-6" />
+        </button>
+        <h1 className="text-2xl font-semibold text-gray-900">Batch Report Cards</h1>
+      </div>
+
+      <nav className="flex space-x-4">
+        {steps.map((label, index) => (
+          <div
+            key={label}
+            className={`flex items-center text-sm font-medium ${
+              index === step ? 'text-blue-600' : index < step ? 'text-gray-900' : 'text-gray-400'
+            }`}
+          >
+            <span
+              className={`mr-2 flex h-6 w-6 items-center justify-center rounded-full border ${
+                index === step ? 'border-blue-600' : 'border-gray-300'
+              }`}
+            >
+              {index + 1}
+            </span>
+            {label}
+          </div>
+        ))}
+      </nav>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === 0 && (
+        <div className="bg-white shadow rounded-lg p-6 space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Grade</label>
+              <select
+                value={setup.grade}
+                onChange={(e) => setSetup(prev => ({ ...prev, grade: e.target.value }))}
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              >
+                <option value="">Select a grade</option>
+                {GRADES.map(grade => (
+                  <option key={grade} value={grade}>{gradeLabel(grade)}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Term</label>
+              <select
+                value={setup.term}
+                onChange={(e) => setSetup(prev => ({ ...prev, term: parseInt(e.target.value) }))}
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              >
+                {[1, 2, 3, 4].map(term => (
+                  <option key={term} value={term}>Term {term}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Year</label>
+              <select
+                value={setup.year}
+                onChange={(e) => setSetup(prev => ({ ...prev, year: parseInt(e.target.value) }))}
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              >
+                {[...Array(5)].map((_, i) => {
+                  const year = new Date().getFullYear() - i;
+                  return (
+                    <option key={year} value={year}>{year}</option>
+                  );
+                })}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleLoadClass}
+              disabled={loading || !setup.grade}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Next'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 1 && (
+        <div className="bg-white shadow rounded-lg p-6 space-y-4">
+          <p className="text-sm text-gray-700">
+            {gradeLabel(parseInt(setup.grade))} has {students.length} learners and {gradeSubjects.length} subjects.{' '}
+            {reportCards.length} already have a Term {setup.term} {setup.year} report card.
+          </p>
+
+          {studentsWithoutCards.length > 0 ? (
+            <p className="text-sm text-gray-700">
+              Draft report cards will be created for {studentsWithoutCards.length} learners, with every
+              {gradeLabel(parseInt(setup.grade))} subject listed and marks pulled from their captured assessments.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500">Every learner in this grade already has a report card.</p>
+          )}
+
+          {progress && (
+            <div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full"
+                  style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {progress.done} of {progress.total} created
+              </p>
+            </div>
+          )}
+
+          {failures.length > 0 && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">
+              Could not create report cards for: {failures.join(', ')}
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            <button
+              onClick={() => setStep(0)}
+              disabled={loading}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Back
+            </button>
+            <div className="flex space-x-3">
+              {(studentsWithoutCards.length === 0 || failures.length > 0) && (
+                <button
+                  onClick={() => setStep(2)}
+                  disabled={loading}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Review
+                </button>
+              )}
+              {studentsWithoutCards.length > 0 && (
+                <button
+                  onClick={handleCreateDrafts}
+                  disabled={loading}
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Layers className="h-4 w-4 mr-2" />
+                  {loading ? 'Creating...' : `Create ${studentsWithoutCards.length} Drafts`}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === 2 && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+            <p className="text-sm text-gray-700">
+              {completeDrafts.length} complete drafts ready to publish,{' '}
+              {reportCards.filter(card => card.status === 'draft' && !card.completeness.isComplete).length} incomplete,{' '}
+              {reportCards.filter(card => card.status === 'published').length} already published.
+            </p>
+            <button
+              onClick={handlePublishComplete}
+              disabled={publishing || completeDrafts.length === 0}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {publishing ? 'Publishing...' : `Publish ${completeDrafts.length} Complete`}
+            </button>
+          </div>
+
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Learner
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Missing Marks
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Missing Comments
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {reportCards.map(card => (
+                <tr key={card.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {card.student.first_name} {card.student.last_name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {card.status === 'published' ? (
+                      <span className="text-green-600">Published</span>
+                    ) : card.completeness.isComplete ? (
+                      <span className="flex items-center text-green-600">
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Complete
+                      </span>
+                    ) : (
+                      <span className="flex items-center text-yellow-700">
+                        <AlertTriangle className="h-4 w-4 mr-1" />
+                        Incomplete
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {card.completeness.missingMarks || '–'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {card.completeness.missingComments > 0 && `${card.completeness.missingComments} subject`}
+                    {card.completeness.missingComments > 0 && card.completeness.missingTeacherComment && ', '}
+                    {card.completeness.missingTeacherComment && 'teacher'}
+                    {card.completeness.missingComments === 0 && !card.completeness.missingTeacherComment && '–'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {card.status === 'draft' && (
+                      <button
+                        onClick={() => navigate(`/report-cards/${card.id}/edit`)}
+                        className="inline-flex items-center text-blue-600 hover:text-blue-800"
+                      >
+                        <Edit className="h-4 w-4 mr-1" />
+                        Edit
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {reportCards.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No report cards found
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,10 +10,22 @@ import {
   Trash2,
   GraduationCap,
   Book,
+  Download,
+  AlertTriangle,
+  Sparkles,
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { pullSubjectMarks, type SubjectMarkSource } from '../../lib/assessments';
+import { fillCommentPlaceholders } from '../../lib/comments';
+import { usePermission } from '../../lib/permissions';
+import { isClassTeacher, scopeIncludesStudent, scopeIncludesSubject, useTeachingScope } from '../../lib/classes';
+import { gradeLabel } from '../../lib/grades';
 import type { Student, Subject, ReportCard } from '../../types/supabase';
 
+// Empty mark inputs are saved as missing marks rather than zero
+const markValue = (value: unknown) =>
+  value === '' || value === null || value === undefined ? null : Number(value);
+
 const reportCardSchema = z.object({
   student_id: z.string().uuid('Please select a student'),
   term: z.number().min(1, 'Term must be between 1 and 4').max(4),
@@ -24,8 +36,8 @@ const reportCardSchema = z.object({
   absent_days: z.number().min(0, 'Must be 0 or greater'),
   subjects: z.array(z.object({
     subject_id: z.string().uuid('Subject is required'),
-    term_mark: z.number().min(0, 'Mark must be between 0 and 100').max(100),
-    year_to_date: z.number().min(0, 'Mark must be between 0 and 100').max(100),
+    term_mark: z.number().min(0, 'Mark must be between 0 and 100').max(100).nullable(),
+    year_to_date: z.number().min(0, 'Mark must be between 0 and 100').max(100).nullable(),
     subject_comment: z.string().optional(),
   })),
 });
@@ -40,6 +52,12 @@ export default function ReportCardForm() {
   const [students, setStudents] = useState<Student[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [loading, setLoading] = useState(true);
+  const [pulling, setPulling] = useState(false);
+  const [suggestingIndex, setSuggestingIndex] = useState<number | null>(null);
+  const [markSources, setMarkSources] = useState<Record<string, SubjectMarkSource>>({});
+  const { scope, loading: scopeLoading } = useTeachingScope();
+  // Only admins and principals write the principal's comment
+  const canWritePrincipalComment = usePermission('reports:principal');
 
   const {
     register,
@@ -47,6 +65,7 @@ export default function ReportCardForm() {
     handleSubmit,
     watch,
     setValue,
+    getValues,
     formState: { errors },
   } = useForm<ReportCardFormData>({
     resolver: zodResolver(reportCardSchema),
@@ -59,13 +78,26 @@ export default function ReportCardForm() {
     },
   });
 
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, replace } = useFieldArray({
     control,
     name: 'subjects',
   });
 
   const selectedStudentId = watch('student_id');
   const selectedStudent = students.find(s => s.id === selectedStudentId);
+  const selectedTerm = watch('term');
+  const selectedYear = watch('year');
+
+  // Teachers change the marks of the subjects they teach, and only the class
+  // teacher writes the teacher's comment
+  const canEditSubject = (subjectId: string) =>
+    !subjectId || !selectedStudent || scopeIncludesSubject(scope, subjectId, selectedStudent.class_id);
+  const canWriteTeacherComment = !selectedStudent || isClassTeacher(scope, selectedStudent);
+
+  // Pulled assessment details only apply to the learner and period they came from
+  useEffect(() => {
+    setMarkSources({});
+  }, [selectedStudentId, selectedTerm, selectedYear]);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -139,6 +171,9 @@ export default function ReportCardForm() {
         return;
       }
 
+      // Other teachers' subject marks are left as they are
+      const editableSubjects = data.subjects.filter(subject => canEditSubject(subject.subject_id));
+
       if (isEditing) {
         // Update existing report card
         const { error: updateError } = await supabase
@@ -147,8 +182,8 @@ export default function ReportCardForm() {
             student_id: data.student_id,
             term: data.term,
             year: data.year,
-            teacher_comment: data.teacher_comment,
-            principal_comment: data.principal_comment,
+            ...(canWriteTeacherComment && { teacher_comment: data.teacher_comment }),
+            ...(canWritePrincipalComment && { principal_comment: data.principal_comment }),
             attendance_days: data.attendance_days,
             absent_days: data.absent_days,
             updated_at: new Date().toISOString(),
@@ -157,17 +192,35 @@ export default function ReportCardForm() {
 
         if (updateError) throw updateError;
 
-        // Update subject marks
-        const { error: subjectsError } = await supabase
+        // Replace the subject marks this user may change
+        let deleteQuery = supabase
           .from('report_card_subjects')
-          .upsert(
-            data.subjects.map(subject => ({
-              report_card_id: id,
-              ...subject,
-            }))
+          .delete()
+          .eq('report_card_id', id);
+
+        if (scope) {
+          deleteQuery = deleteQuery.in(
+            'subject_id',
+            subjects.filter(subject => canEditSubject(subject.id)).map(subject => subject.id)
           );
+        }
 
-        if (subjectsError) throw subjectsError;
+        const { error: deleteError } = await deleteQuery;
+
+        if (deleteError) throw deleteError;
+
+        if (editableSubjects.length > 0) {
+          const { error: subjectsError } = await supabase
+            .from('report_card_subjects')
+            .insert(
+              editableSubjects.map(subject => ({
+                report_card_id: id,
+                ...subject,
+              }))
+            );
+
+          if (subjectsError) throw subjectsError;
+        }
       } else {
         // Create new report card
         const { data: reportCard, error: insertError } = await supabase
@@ -176,8 +229,8 @@ export default function ReportCardForm() {
             student_id: data.student_id,
             term: data.term,
             year: data.year,
-            teacher_comment: data.teacher_comment,
-            principal_comment: data.principal_comment,
+            ...(canWriteTeacherComment && { teacher_comment: data.teacher_comment }),
+            ...(canWritePrincipalComment && { principal_comment: data.principal_comment }),
             attendance_days: data.attendance_days,
             absent_days: data.absent_days,
             status: 'draft',
@@ -189,16 +242,18 @@ export default function ReportCardForm() {
         if (insertError) throw insertError;
 
         // Create subject marks
-        const { error: subjectsError } = await supabase
-          .from('report_card_subjects')
-          .insert(
-            data.subjects.map(subject => ({
-              report_card_id: reportCard.id,
-              ...subject,
-            }))
-          );
-
-        if (subjectsError) throw subjectsError;
+        if (editableSubjects.length > 0) {
+          const { error: subjectsError } = await supabase
+            .from('report_card_subjects')
+            .insert(
+              editableSubjects.map(subject => ({
+                report_card_id: reportCard.id,
+                ...subject,
+              }))
+            );
+
+          if (subjectsError) throw subjectsError;
+        }
       }
 
       navigate('/report-cards');
@@ -211,13 +266,98 @@ export default function ReportCardForm() {
   const handleAddSubject = () => {
     append({
       subject_id: '',
-      term_mark: 0,
-      year_to_date: 0,
+      term_mark: null,
+      year_to_date: null,
       subject_comment: '',
     });
   };
 
-  if (loading) {
+  const handlePullMarks = async () => {
+    if (!selectedStudent) {
+      setError('Please select a student before pulling marks');
+      return;
+    }
+
+    try {
+      setPulling(true);
+      setError(null);
+
+      const gradeSubjects = subjects.filter(
+        subject => subject.grade === selectedStudent.grade && canEditSubject(subject.id)
+      );
+      const sources = await pullSubjectMarks({
+        studentId: selectedStudent.id,
+        subjectIds: gradeSubjects.map(subject => subject.id),
+        term: getValues('term'),
+        year: getValues('year'),
+      });
+
+      // Keep comments already typed for a subject, and other teachers' subjects
+      const currentSubjects = getValues('subjects');
+      replace([
+        ...currentSubjects.filter(s => !canEditSubject(s.subject_id)),
+        ...sources.map(source => ({
+          subject_id: source.subject_id,
+          term_mark: source.term_mark,
+          year_to_date: source.year_to_date,
+          subject_comment:
+            currentSubjects.find(s => s.subject_id === source.subject_id)?.subject_comment || '',
+        })),
+      ]);
+      setMarkSources(Object.fromEntries(sources.map(source => [source.subject_id, source])));
+    } catch (err) {
+      console.error('Error pulling marks from assessments:', err);
+      setError('Failed to pull marks from assessments. Please try again.');
+    } finally {
+      setPulling(false);
+    }
+  };
+
+  const handleSuggestComment = async (index: number) => {
+    const subjectRow = getValues(`subjects.${index}`);
+    const subject = subjects.find(s => s.id === subjectRow.subject_id);
+    if (!selectedStudent || !subject) {
+      setError('Please select a student and subject before suggesting a comment');
+      return;
+    }
+
+    try {
+      setSuggestingIndex(index);
+      setError(null);
+
+      // Match the comment to the mark and the learner's home language
+      const { data: suggestion, error: suggestionError } = await supabase.rpc('generate_subject_comment', {
+        p_subject_id: subject.id,
+        p_score: subjectRow.term_mark ?? 0,
+        p_language: selectedStudent.language,
+      });
+
+      if (suggestionError) throw suggestionError;
+      if (!suggestion) {
+        setError(`No ${selectedStudent.language} comment in the comment bank matches this mark for ${subject.name_en}.`);
+        return;
+      }
+
+      setValue(
+        `subjects.${index}.subject_comment`,
+        fillCommentPlaceholders(suggestion, {
+          firstName: selectedStudent.first_name,
+          lastName: selectedStudent.last_name,
+          subject: selectedStudent.language === 'afrikaans' ? subject.name_af : subject.name_en,
+        })
+      );
+    } catch (err) {
+      console.error('Error suggesting comment:', err);
+      setError('Failed to suggest a comment. Please try again.');
+    } finally {
+      setSuggestingIndex(null);
+    }
+  };
+
+  const watchedSubjects = watch('subjects');
+  const flaggedCount = Object.values(markSources).filter(source => source.status !== 'ok').length;
+
+  if (loading || scopeLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -272,11 +412,13 @@ export default function ReportCardForm() {
                 disabled={isEditing}
               >
                 <option value="">Select a student</option>
-                {students.map((student) => (
-                  <option key={student.id} value={student.id}>
-                    {student.first_name} {student.last_name} (Grade {student.grade})
-                  </option>
-                ))}
+                {students
+                  .filter(student => isEditing || scopeIncludesStudent(scope, student))
+                  .map((student) => (
+                    <option key={student.id} value={student.id}>
+                      {student.first_name} {student.last_name} ({gradeLabel(student.grade)})
+                    </option>
+                  ))}
               </select>
               {errors.student_id && (
                 <p className="mt-2 text-sm text-red-600">
@@ -358,8 +500,12 @@ export default function ReportCardForm() {
             <textarea
               {...register('teacher_comment')}
               rows={3}
-              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              readOnly={!canWriteTeacherComment}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm read-only:bg-gray-50"
             />
+            {!canWriteTeacherComment && (
+              <p className="mt-1 text-xs text-gray-500">Only the class teacher can write this comment.</p>
+            )}
           </div>
 
           <div>
@@ -369,93 +515,171 @@ export default function ReportCardForm() {
             <textarea
               {...register('principal_comment')}
               rows={3}
-              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              readOnly={!canWritePrincipalComment}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm read-only:bg-gray-50"
             />
+            {!canWritePrincipalComment && (
+              <p className="mt-1 text-xs text-gray-500">Only the principal can write this comment.</p>
+            )}
           </div>
         </div>
 
         <div className="bg-white shadow rounded-lg p-6">
           <div className="flex justify-between items-center mb-6">
             <h3 className="text-lg font-medium text-gray-900">Subject Marks</h3>
-            <button
-              type="button"
-              onClick={handleAddSubject}
-              className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200"
-            >
-              <Plus className="h-4 w-4 mr-1" />
-              Add Subject
-            </button>
-          </div>
-
-          <div className="space-y-4">
-            {fields.map((field, index) => (
-              <div
-                key={field.id}
-                className="flex items-start space-x-4 p-4 bg-gray-50 rounded-lg"
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={handlePullMarks}
+                disabled={!selectedStudent || pulling}
+                className="inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
               >
-                <div className="flex-grow grid grid-cols-1 gap-4 sm:grid-cols-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Subject
-                    </label>
-                    <select
-                      {...register(`subjects.${index}.subject_id`)}
-                      className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
-                    >
-                      <option value="">Select a subject</option>
-                      {subjects
-                        .filter(subject => !selectedStudent || subject.grade === selectedStudent.grade)
-                        .map((subject) => (
-                          <option key={subject.id} value={subject.id}>
-                            {subject.name_en}
-                          </option>
-                        ))}
-                    </select>
-                  </div>
+                <Download className="h-4 w-4 mr-1" />
+                {pulling ? 'Pulling...' : 'Pull Marks from Assessments'}
+              </button>
+              <button
+                type="button"
+                onClick={handleAddSubject}
+                className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Subject
+              </button>
+            </div>
+          </div>
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Term Mark (%)
-                    </label>
-                    <input
-                      type="number"
-                      {...register(`subjects.${index}.term_mark`, { valueAsNumber: true })}
-                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                    />
-                  </div>
+          {flaggedCount > 0 && (
+            <div className="mb-4 p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm flex items-center">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              {flaggedCount} subject{flaggedCount === 1 ? '' : 's'} need attention before this report card is complete.
+            </div>
+          )}
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Year to Date (%)
-                    </label>
-                    <input
-                      type="number"
-                      {...register(`subjects.${index}.year_to_date`, { valueAsNumber: true })}
-                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                    />
+          <div className="space-y-4">
+            {fields.map((field, index) => {
+              const subjectId = watchedSubjects?.[index]?.subject_id;
+              const source = markSources[subjectId];
+              const editable = canEditSubject(subjectId);
+              return (
+                <div
+                  key={field.id}
+                  className="flex items-start space-x-4 p-4 bg-gray-50 rounded-lg"
+                >
+                  <div className="flex-grow">
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Subject
+                        </label>
+                        <select
+                          {...register(`subjects.${index}.subject_id`)}
+                          disabled={!editable}
+                          className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md disabled:bg-gray-100"
+                        >
+                          <option value="">Select a subject</option>
+                          {subjects
+                            .filter(subject => !selectedStudent || subject.grade === selectedStudent.grade)
+                            .filter(subject => subject.id === subjectId || canEditSubject(subject.id))
+                            .map((subject) => (
+                              <option key={subject.id} value={subject.id}>
+                                {subject.name_en}
+                              </option>
+                            ))}
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Term Mark (%)
+                        </label>
+                        <input
+                          type="number"
+                          {...register(`subjects.${index}.term_mark`, { setValueAs: markValue })}
+                          readOnly={!editable}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm read-only:bg-gray-100"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Year to Date (%)
+                        </label>
+                        <input
+                          type="number"
+                          {...register(`subjects.${index}.year_to_date`, { setValueAs: markValue })}
+                          readOnly={!editable}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm read-only:bg-gray-100"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Comment
+                        </label>
+                        <div className="mt-1 flex">
+                          <input
+                            type="text"
+                            {...register(`subjects.${index}.subject_comment`)}
+                            readOnly={!editable}
+                            className="block w-full border-gray-300 rounded-l-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm read-only:bg-gray-100"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handleSuggestComment(index)}
+                            disabled={!editable || suggestingIndex === index}
+                            title="Suggest a comment from the comment bank"
+                            className="px-2 border border-l-0 border-gray-300 rounded-r-md bg-white text-gray-500 hover:text-blue-600 disabled:opacity-50"
+                          >
+                            <Sparkles className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+
+                    {!editable && (
+                      <p className="mt-2 text-xs text-gray-500">Only the teacher of this subject can change its marks.</p>
+                    )}
+
+                    {source && (
+                      <div className="mt-3 text-sm">
+                        {source.status === 'missing' && (
+                          <p className="flex items-center text-red-600">
+                            <AlertTriangle className="h-4 w-4 mr-1" />
+                            No assessments captured for this term
+                          </p>
+                        )}
+                        {source.status === 'overweighted' && (
+                          <p className="flex items-center text-yellow-700">
+                            <AlertTriangle className="h-4 w-4 mr-1" />
+                            Assessment weights total {source.totalWeight}% (more than 100%)
+                          </p>
+                        )}
+                        {source.assessments.length > 0 && (
+                          <ul className="mt-1 text-gray-500 space-y-0.5">
+                            {source.assessments.map(assessment => (
+                              <li key={assessment.id}>
+                                {assessment.name ||
+                                  assessment.assessment_type.charAt(0).toUpperCase() + assessment.assessment_type.slice(1)}
+                                : {assessment.score}% × {assessment.weight}% weight
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                   </div>
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Comment
-                    </label>
-                    <input
-                      type="text"
-                      {...register(`subjects.${index}.subject_comment`)}
-                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                    />
-                  </div>
+                  <button
+                    type="button"
+                    onClick={() => remove(index)}
+                    disabled={!editable}
+                    className="text-red-600 hover:text-red-800 disabled:opacity-30"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
                 </div>
-
-                <button
-                  type="button"
-                  onClick={() => remove(index)}
-                  className="text-red-600 hover:text-red-800"
-                >
-                  <Trash2 className="h-5 w-5" />
-                </button>
-              </div>
-            ))}
+              );
+            })}
 
             {fields.length === 0 && (
               <div className="text-center py-12 text-gray-500">
@@ -13,10 +13,14 @@ import {
   Send,
   GraduationCap,
   Calendar,
+  Layers,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../store/auth';
+import { usePermission } from '../../lib/permissions';
+import ReportCardExportModal from '../../components/reports/ReportCardExportModal';
+import { GRADES, gradeLabel } from '../../lib/grades';
 import type { ReportCard, Student } from '../../types/supabase';
 
 type ReportCardWithStudent = ReportCard & {
@@ -36,6 +40,8 @@ export default function ReportCardList() {
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [showActions, setShowActions] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [exportIds, setExportIds] = useState<string[] | null>(null);
   const [filters, setFilters] = useState({
     term: '',
     year: new Date().getFullYear(),
@@ -44,6 +50,7 @@ export default function ReportCardList() {
     showFilters: false,
   });
   const { user } = useAuthStore();
+  const canManage = usePermission('academics:manage');
 
   const fetchReportCards = async () => {
     try {
@@ -86,6 +93,11 @@ export default function ReportCardList() {
       if (deleteError) throw deleteError;
       
       setReportCards(reportCards.filter(rc => rc.id !== reportCardId));
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        next.delete(reportCardId);
+        return next;
+      });
       setShowActions(null);
     } catch (err) {
       console.error('Error deleting report card:', err);
@@ -126,6 +138,35 @@ export default function ReportCardList() {
     return matchesSearch && matchesTerm && matchesYear && matchesGrade && matchesStatus;
   });
 
+  const allFilteredSelected =
+    filteredReportCards.length > 0 && filteredReportCards.every(rc => selectedIds.has(rc.id));
+
+  const toggleSelected = (reportCardId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(reportCardId)) {
+        next.delete(reportCardId);
+      } else {
+        next.add(reportCardId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllFiltered = () => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      filteredReportCards.forEach(rc => {
+        if (allFilteredSelected) {
+          next.delete(rc.id);
+        } else {
+          next.add(rc.id);
+        }
+      });
+      return next;
+    });
+  };
+
   if (!user) {
     return (
       <div className="text-center py-12">
@@ -138,15 +179,44 @@ export default function ReportCardList() {
 
   return (
     <div className="space-y-6">
+      {exportIds && (
+        <ReportCardExportModal
+          reportCardIds={exportIds}
+          onClose={() => setExportIds(null)}
+        />
+      )}
+
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-semibold text-gray-900">Report Cards</h1>
-        <button
-          onClick={() => navigate('/report-cards/new')}
-          className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Report Card
-        </button>
+        <div className="flex space-x-3">
+          {selectedIds.size > 0 && (
+            <button
+              onClick={() => setExportIds(Array.from(selectedIds))}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export PDFs ({selectedIds.size})
+            </button>
+          )}
+          {canManage && (
+            <>
+              <button
+                onClick={() => navigate('/report-cards/batch')}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Layers className="h-4 w-4 mr-2" />
+                Batch Generate
+              </button>
+              <button
+                onClick={() => navigate('/report-cards/new')}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                New Report Card
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {error && (
@@ -225,8 +295,8 @@ export default function ReportCardList() {
                   className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
                 >
                   <option value="">All Grades</option>
-                  {[...Array(12)].map((_, i) => (
-                    <option key={i + 1} value={i + 1}>Grade {i + 1}</option>
+                  {GRADES.map(grade => (
+                    <option key={grade} value={grade}>{gradeLabel(grade)}</option>
                   ))}
                 </select>
               </div>
@@ -258,6 +328,14 @@ export default function ReportCardList() {
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
+                  <th className="pl-6 py-3 w-4">
+                    <input
+                      type="checkbox"
+                      checked={allFilteredSelected}
+                      onChange={toggleAllFiltered}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Student
                   </th>
@@ -278,6 +356,14 @@ export default function ReportCardList() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredReportCards.map((reportCard) => (
                   <tr key={reportCard.id} className="hover:bg-gray-50">
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(reportCard.id)}
+                        onChange={() => toggleSelected(reportCard.id)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
                         <GraduationCap className="h-5 w-5 text-gray-400 mr-2" />
@@ -286,7 +372,7 @@ export default function ReportCardList() {
                             {reportCard.student.first_name} {reportCard.student.last_name}
                           </div>
                           <div className="text-sm text-gray-500">
-                            Grade {reportCard.student.grade}
+                            {gradeLabel(reportCard.student.grade)}
                           </div>
                         </div>
                       </div>
@@ -329,7 +415,7 @@ export default function ReportCardList() {
                                 <Eye className="h-4 w-4 mr-2" />
                                 View
                               </button>
-                              {reportCard.status === 'draft' && (
+                              {canManage && reportCard.status === 'draft' && (
                                 <>
                                   <button
                                     onClick={() => navigate(`/report-cards/${reportCard.id}/edit`)}
@@ -348,13 +434,16 @@ export default function ReportCardList() {
                                 </>
                               )}
                               <button
-                                onClick={() => {/* TODO: Implement PDF download */}}
+                                onClick={() => {
+                                  setExportIds([reportCard.id]);
+                                  setShowActions(null);
+                                }}
                                 className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
                               >
                                 <Download className="h-4 w-4 mr-2" />
                                 Download PDF
                               </button>
-                              {reportCard.status === 'draft' && (
+                              {canManage && reportCard.status === 'draft' && (
                                 <button
                                   onClick={() => handleDeleteReportCard(reportCard.id)}
                                   className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
@@ -372,7 +461,7 @@ export default function ReportCardList() {
                 ))}
                 {filteredReportCards.length === 0 && (
                   <tr>
-                    <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
                       No report cards found
                     </td>
                   </tr>
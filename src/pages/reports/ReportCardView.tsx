@@ -9,23 +9,31 @@ import {
   Calendar,
   Clock,
   User,
+  Mail,
+  History,
 } from 'lucide-react';
-import { format } from 'date-fns';
 import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
 import { supabase } from '../../lib/supabase';
 import { useSettingsStore } from '../../store/settings';
-import type { ReportCard, Student, Subject } from '../../types/supabase';
-
-type ReportCardWithDetails = ReportCard & {
-  student: Student;
-  subjects: Array<{
-    subject: Subject;
-    term_mark: number;
-    year_to_date: number;
-    subject_comment?: string;
-  }>;
-};
+import { usePermission } from '../../lib/permissions';
+import { formatMark } from '../../lib/reportCards';
+import { brandingFromSettings } from '../../lib/documents/render';
+import {
+  renderReportCardPDF,
+  getReportCardFileName,
+  type ReportCardWithDetails,
+} from '../../lib/documents/reportCard';
+import SendEmailModal from '../../components/email/SendEmailModal';
+import EmailHistoryModal from '../../components/email/EmailHistoryModal';
+import { achievementDescriptor, achievementKey, getAchievementLevel } from '../../lib/achievement';
+import {
+  formatReportDate,
+  reportGradeLabel,
+  reportLabels,
+  reportLanguages,
+  reportSubjectName,
+  type ReportLanguage,
+} from '../../lib/reportLanguage';
 
 export default function ReportCardView() {
   const navigate = useNavigate();
@@ -34,7 +42,14 @@ export default function ReportCardView() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [downloading, setDownloading] = useState(false);
-  const { companyDetails } = useSettingsStore();
+  const [showEmailModal, setShowEmailModal] = useState(false);
+  const [showEmailHistory, setShowEmailHistory] = useState(false);
+  // Follows the learner's language until someone picks another
+  const [languageOverride, setLanguageOverride] = useState<ReportLanguage | null>(null);
+  const canManage = usePermission('academics:manage');
+  const settings = useSettingsStore();
+  const branding = brandingFromSettings(settings);
+  const { achievementScale } = settings.reportSettings;
 
   useEffect(() => {
     const fetchReportCard = async () => {
@@ -95,131 +110,18 @@ export default function ReportCardView() {
     }
   };
 
+  const createReportCardPDF = (card: ReportCardWithDetails) => {
+    const doc = new jsPDF();
+    renderReportCardPDF(doc, card, branding, achievementScale, language);
+    return doc;
+  };
+
   const generatePDF = async () => {
     if (!reportCard) return;
 
     try {
       setDownloading(true);
-      const doc = new jsPDF();
-
-      // Add school logo if available
-      if (companyDetails.schoolLogo) {
-        try {
-          // Add logo at the top center
-          const logoWidth = 40;
-          const logoHeight = 40;
-          const pageWidth = doc.internal.pageSize.width;
-          const xPosition = (pageWidth - logoWidth) / 2;
-          
-          doc.addImage(
-            companyDetails.schoolLogo,
-            'PNG',
-            xPosition,
-            15,
-            logoWidth,
-            logoHeight,
-            undefined,
-            'FAST'
-          );
-
-          // Adjust starting Y position for text to accommodate logo
-          doc.setFontSize(24);
-          doc.setTextColor(59, 130, 246);
-          doc.text('EDUVANCE ACADEMY', pageWidth / 2, 70, { align: 'center' });
-
-          doc.setFontSize(18);
-          doc.text('STUDENT PROGRESS REPORT', pageWidth / 2, 80, { align: 'center' });
-
-          doc.setFontSize(14);
-          doc.setTextColor(0);
-          doc.text(`Term ${reportCard.term} - ${reportCard.year}`, pageWidth / 2, 90, { align: 'center' });
-
-          // Adjust student information position
-          doc.setFontSize(12);
-          doc.text('Student Information', 20, 110);
-          doc.setFontSize(10);
-          doc.text(`Name: ${reportCard.student.first_name} ${reportCard.student.last_name}`, 20, 120);
-          doc.text(`Grade: ${reportCard.student.grade}`, 20, 125);
-          doc.text(`Language: ${reportCard.student.language.charAt(0).toUpperCase() + reportCard.student.language.slice(1)}`, 20, 130);
-
-          // Adjust attendance information position
-          doc.setFontSize(12);
-          doc.text('Attendance', 20, 145);
-          doc.setFontSize(10);
-          doc.text(`Days Present: ${reportCard.attendance_days - reportCard.absent_days}`, 20, 155);
-          doc.text(`Days Absent: ${reportCard.absent_days}`, 20, 160);
-          doc.text(`Total Days: ${reportCard.attendance_days}`, 20, 165);
-
-          // Adjust subject results table position
-          autoTable(doc, {
-            startY: 180,
-            head: [['Subject', 'Term Mark', 'Year to Date', 'Comment']],
-            body: reportCard.subjects.map(subject => [
-              subject.subject.name_en,
-              `${subject.term_mark}%`,
-              `${subject.year_to_date}%`,
-              subject.subject_comment || ''
-            ]),
-            headStyles: { 
-              fillColor: [59, 130, 246],
-              textColor: [255, 255, 255]
-            },
-            styles: {
-              fontSize: 10,
-              cellPadding: 5
-            },
-            columnStyles: {
-              0: { cellWidth: 60 },
-              1: { cellWidth: 30, halign: 'center' },
-              2: { cellWidth: 30, halign: 'center' },
-              3: { cellWidth: 'auto' }
-            }
-          });
-        } catch (logoError) {
-          console.error('Error adding logo:', logoError);
-          // Continue without logo if there's an error
-          generatePDFWithoutLogo(doc, reportCard);
-        }
-      } else {
-        // Generate PDF without logo
-        generatePDFWithoutLogo(doc, reportCard);
-      }
-
-      // Add comments section
-      const finalY = (doc as any).lastAutoTable.finalY + 20;
-      
-      if (reportCard.teacher_comment) {
-        doc.setFontSize(12);
-        doc.text("Teacher's Comment:", 20, finalY);
-        doc.setFontSize(10);
-        doc.text(reportCard.teacher_comment, 20, finalY + 10, {
-          maxWidth: doc.internal.pageSize.width - 40
-        });
-      }
-
-      if (reportCard.principal_comment) {
-        const principalY = finalY + (reportCard.teacher_comment ? 30 : 0);
-        doc.setFontSize(12);
-        doc.text("Principal's Comment:", 20, principalY);
-        doc.setFontSize(10);
-        doc.text(reportCard.principal_comment, 20, principalY + 10, {
-          maxWidth: doc.internal.pageSize.width - 40
-        });
-      }
-
-      // Add signature lines
-      const signatureY = doc.internal.pageSize.height - 40;
-      doc.setFontSize(10);
-      doc.text('_____________________', 30, signatureY);
-      doc.text('_____________________', doc.internal.pageSize.width - 80, signatureY);
-      doc.text('Class Teacher', 40, signatureY + 10);
-      doc.text('Principal', doc.internal.pageSize.width - 65, signatureY + 10);
-
-      // Add date
-      doc.text(`Generated on: ${format(new Date(), 'MMMM d, yyyy')}`, 20, doc.internal.pageSize.height - 10);
-
-      // Save the PDF
-      doc.save(`report-card-${reportCard.student.first_name}-${reportCard.student.last_name}-term${reportCard.term}-${reportCard.year}.pdf`);
+      createReportCardPDF(reportCard).save(getReportCardFileName(reportCard));
     } catch (err) {
       console.error('Error generating PDF:', err);
       alert('Failed to generate PDF. Please try again.');
@@ -228,60 +130,6 @@ export default function ReportCardView() {
     }
   };
 
-  const generatePDFWithoutLogo = (doc: jsPDF, reportCard: ReportCardWithDetails) => {
-    const pageWidth = doc.internal.pageSize.width;
-
-    doc.setFontSize(24);
-    doc.setTextColor(59, 130, 246);
-    doc.text('EDUVANCE ACADEMY', pageWidth / 2, 20, { align: 'center' });
-
-    doc.setFontSize(18);
-    doc.text('STUDENT PROGRESS REPORT', pageWidth / 2, 30, { align: 'center' });
-
-    doc.setFontSize(14);
-    doc.setTextColor(0);
-    doc.text(`Term ${reportCard.term} - ${reportCard.year}`, pageWidth / 2, 40, { align: 'center' });
-
-    doc.setFontSize(12);
-    doc.text('Student Information', 20, 60);
-    doc.setFontSize(10);
-    doc.text(`Name: ${reportCard.student.first_name} ${reportCard.student.last_name}`, 20, 70);
-    doc.text(`Grade: ${reportCard.student.grade}`, 20, 75);
-    doc.text(`Language: ${reportCard.student.language.charAt(0).toUpperCase() + reportCard.student.language.slice(1)}`, 20, 80);
-
-    doc.setFontSize(12);
-    doc.text('Attendance', 20, 95);
-    doc.setFontSize(10);
-    doc.text(`Days Present: ${reportCard.attendance_days - reportCard.absent_days}`, 20, 105);
-    doc.text(`Days Absent: ${reportCard.absent_days}`, 20, 110);
-    doc.text(`Total Days: ${reportCard.attendance_days}`, 20, 115);
-
-    autoTable(doc, {
-      startY: 130,
-      head: [['Subject', 'Term Mark', 'Year to Date', 'Comment']],
-      body: reportCard.subjects.map(subject => [
-        subject.subject.name_en,
-        `${subject.term_mark}%`,
-        `${subject.year_to_date}%`,
-        subject.subject_comment || ''
-      ]),
-      headStyles: { 
-        fillColor: [59, 130, 246],
-        textColor: [255, 255, 255]
-      },
-      styles: {
-        fontSize: 10,
-        cellPadding: 5
-      },
-      columnStyles: {
-        0: { cellWidth: 60 },
-        1: { cellWidth: 30, halign: 'center' },
-        2: { cellWidth: 30, halign: 'center' },
-        3: { cellWidth: 'auto' }
-      }
-    });
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -307,8 +155,43 @@ export default function ReportCardView() {
     );
   }
 
+  const studentName = `${reportCard.student.first_name} ${reportCard.student.last_name}`;
+  const language = languageOverride ?? reportCard.student.language;
+  const labels = reportLabels[language];
+
   return (
     <div className="space-y-6">
+      {showEmailModal && (
+        <SendEmailModal
+          documentType="report_card"
+          title={`Email Report Card to ${reportCard.student.parent_name}`}
+          recipient={reportCard.student.parent_email}
+          mergeValues={{
+            parent_name: reportCard.student.parent_name,
+            student_name: studentName,
+            term: String(reportCard.term),
+            year: String(reportCard.year),
+            company_name: settings.companyDetails.name,
+          }}
+          attachment={{
+            filename: getReportCardFileName(reportCard),
+            create: () => createReportCardPDF(reportCard),
+          }}
+          reference={{ reportCardId: reportCard.id }}
+          onClose={() => setShowEmailModal(false)}
+          onSent={() => setShowEmailModal(false)}
+        />
+      )}
+
+      {showEmailHistory && (
+        <EmailHistoryModal
+          title={`Emails for ${studentName}'s report card`}
+          documentType="report_card"
+          documentId={reportCard.id}
+          onClose={() => setShowEmailHistory(false)}
+        />
+      )}
+
       <div className="flex justify-between items-center">
         <div className="flex items-center space-x-4">
           <button
@@ -322,6 +205,19 @@ export default function ReportCardView() {
           </h1>
         </div>
         <div className="flex space-x-4">
+          <select
+            value={language}
+            onChange={(e) => setLanguageOverride(e.target.value as ReportLanguage)}
+            title="Language the report card is shown, printed and emailed in"
+            className="block pl-3 pr-10 py-2 text-sm border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+          >
+            {reportLanguages.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+                {option.value === reportCard.student.language ? " (learner's language)" : ''}
+              </option>
+            ))}
+          </select>
           <button
             onClick={generatePDF}
             disabled={downloading}
@@ -330,7 +226,25 @@ export default function ReportCardView() {
             <Download className="h-4 w-4 mr-2" />
             {downloading ? 'Generating PDF...' : 'Download PDF'}
           </button>
-          {reportCard.status === 'draft' && (
+          {canManage && reportCard.status === 'published' && (
+            <>
+              <button
+                onClick={() => setShowEmailHistory(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <History className="h-4 w-4 mr-2" />
+                Email History
+              </button>
+              <button
+                onClick={() => setShowEmailModal(true)}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                <Mail className="h-4 w-4 mr-2" />
+                Email to Parent
+              </button>
+            </>
+          )}
+          {canManage && reportCard.status === 'draft' && (
             <>
               <button
                 onClick={() => navigate(`/report-cards/${reportCard.id}/edit`)}
@@ -357,17 +271,17 @@ export default function ReportCardView() {
             <div>
               <div className="flex items-center space-x-2 text-gray-500 text-sm">
                 <GraduationCap className="h-4 w-4" />
-                <span>Student Information</span>
+                <span>{labels.studentInformation}</span>
               </div>
               <div className="mt-2 space-y-2">
                 <p className="text-lg font-medium">
                   {reportCard.student.first_name} {reportCard.student.last_name}
                 </p>
                 <p className="text-gray-600">
-                  Grade {reportCard.student.grade}
+                  {reportGradeLabel(reportCard.student.grade, language)}
                 </p>
                 <p className="text-gray-600">
-                  {reportCard.student.language.charAt(0).toUpperCase() + reportCard.student.language.slice(1)}
+                  {labels.languageNames[reportCard.student.language]}
                 </p>
               </div>
             </div>
@@ -375,17 +289,17 @@ export default function ReportCardView() {
             <div>
               <div className="flex items-center space-x-2 text-gray-500 text-sm">
                 <Calendar className="h-4 w-4" />
-                <span>Report Period</span>
+                <span>{labels.reportPeriod}</span>
               </div>
               <div className="mt-2 space-y-2">
                 <p className="text-lg font-medium">
-                  Term {reportCard.term}, {reportCard.year}
+                  {labels.term} {reportCard.term}, {reportCard.year}
                 </p>
                 <p className="text-gray-600">
-                  Last Updated: {format(new Date(reportCard.updated_at || reportCard.created_at), 'MMM d, yyyy')}
+                  {labels.lastUpdated}: {formatReportDate(new Date(reportCard.updated_at || reportCard.created_at!), language, 'short')}
                 </p>
                 <p className="text-gray-600">
-                  Status: <span className="capitalize">{reportCard.status}</span>
+                  {labels.status}: {labels.statuses[reportCard.status]}
                 </p>
               </div>
             </div>
@@ -393,14 +307,14 @@ export default function ReportCardView() {
             <div>
               <div className="flex items-center space-x-2 text-gray-500 text-sm">
                 <Clock className="h-4 w-4" />
-                <span>Attendance</span>
+                <span>{labels.attendance}</span>
               </div>
               <div className="mt-2 space-y-2">
                 <p className="text-lg font-medium">
-                  {reportCard.attendance_days - reportCard.absent_days} / {reportCard.attendance_days} Days
+                  {reportCard.attendance_days - reportCard.absent_days} / {reportCard.attendance_days} {labels.days}
                 </p>
                 <p className="text-gray-600">
-                  {reportCard.absent_days} Days Absent
+                  {labels.daysAbsent}: {reportCard.absent_days}
                 </p>
               </div>
             </div>
@@ -408,76 +322,110 @@ export default function ReportCardView() {
 
           <div className="mt-8">
             <h3 className="text-lg font-medium text-gray-900 mb-4">
-              Subject Results
+              {labels.subjectResults}
             </h3>
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Subject
+                      {labels.subject}
                     </th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Term Mark
+                      {labels.termMark}
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {labels.level}
                     </th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Year to Date
+                      {labels.yearToDate}
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Comment
+                      {labels.comment}
                     </th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {reportCard.subjects.map((subject) => (
-                    <tr key={subject.subject.id}>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center">
-                          <span className="text-sm font-medium text-gray-900">
-                            {subject.subject.name_en}
+                  {reportCard.subjects.map((subject) => {
+                    const level = getAchievementLevel(subject.term_mark, achievementScale);
+                    return (
+                      <tr key={subject.subject.id}>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex items-center">
+                            <span className="text-sm font-medium text-gray-900">
+                              {reportSubjectName(subject.subject, language)}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          <span className="text-sm text-gray-900">
+                            {formatMark(subject.term_mark)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {level ? (
+                            <span className="text-sm text-gray-900">
+                              {level.level}
+                              <span className="ml-2 text-gray-500">
+                                {achievementDescriptor(level, language)}
+                              </span>
+                            </span>
+                          ) : (
+                            <span className="text-sm text-gray-500">–</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          <span className="text-sm text-gray-900">
+                            {formatMark(subject.year_to_date)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className="text-sm text-gray-500">
+                            {subject.subject_comment || labels.noComment}
                           </span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right">
-                        <span className="text-sm text-gray-900">
-                          {subject.term_mark}%
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right">
-                        <span className="text-sm text-gray-900">
-                          {subject.year_to_date}%
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <span className="text-sm text-gray-500">
-                          {subject.subject_comment || 'No comment'}
-                        </span>
-                      </td>
-                    </tr>
-                  ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
+
+            <div className="mt-4 bg-gray-50 rounded-lg p-4">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+                {labels.achievementLevels}
+              </p>
+              <dl className="grid grid-cols-1 gap-x-6 gap-y-1 sm:grid-cols-2 text-sm">
+                {achievementKey(achievementScale, language).map((entry) => (
+                  <div key={entry.range} className="flex">
+                    <dt className="w-6 font-medium text-gray-900">{entry.level}</dt>
+                    <dd className="text-gray-600">
+                      {entry.descriptor} <span className="text-gray-400">({entry.range})</span>
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
           </div>
 
           <div className="mt-8 space-y-6">
             <div>
               <div className="flex items-center space-x-2 text-gray-500 text-sm mb-2">
                 <User className="h-4 w-4" />
-                <span>Teacher's Comment</span>
+                <span>{labels.teacherComment}</span>
               </div>
               <p className="text-gray-900 bg-gray-50 rounded-lg p-4">
-                {reportCard.teacher_comment || 'No comment'}
+                {reportCard.teacher_comment || labels.noComment}
               </p>
             </div>
 
             <div>
               <div className="flex items-center space-x-2 text-gray-500 text-sm mb-2">
                 <User className="h-4 w-4" />
-                <span>Principal's Comment</span>
+                <span>{labels.principalComment}</span>
               </div>
               <p className="text-gray-900 bg-gray-50 rounded-lg p-4">
-                {reportCard.principal_comment || 'No comment'}
+                {reportCard.principal_comment || labels.noComment}
               </p>
             </div>
           </div>
@@ -14,31 +14,48 @@ import {
   Mail,
   Phone,
   MapPin,
+  Users,
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../store/auth';
-import type { Student } from '../../types/supabase';
+import { usePermission } from '../../lib/permissions';
+import { classLabel, scopeIncludesStudent, useTeachingScope } from '../../lib/classes';
+import { GRADES, gradeLabel } from '../../lib/grades';
+import type { SchoolClass, Student } from '../../types/supabase';
 import AddStudentModal from '../../components/students/AddStudentModal';
 import EditStudentModal from '../../components/students/EditStudentModal';
 import ImportStudentModal from '../../components/students/ImportStudentModal';
+import StudentGuardiansModal from '../../components/students/StudentGuardiansModal';
+
+type StudentWithGuardians = Student & {
+  guardians?: {
+    fee_share: number;
+    client: { id: string; name: string } | null;
+  }[];
+};
 
 export default function StudentList() {
   const navigate = useNavigate();
-  const [students, setStudents] = useState<Student[]>([]);
+  const [students, setStudents] = useState<StudentWithGuardians[]>([]);
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showGuardiansModal, setShowGuardiansModal] = useState(false);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [showActions, setShowActions] = useState<string | null>(null);
   const [filters, setFilters] = useState({
     grade: '',
+    classId: '',
     language: '',
     showFilters: false,
   });
   const { user } = useAuthStore();
+  const canManage = usePermission('students:manage');
+  const { scope, loading: scopeLoading } = useTeachingScope();
 
   const fetchStudents = async () => {
     try {
@@ -47,12 +64,25 @@ export default function StudentList() {
 
       const { data, error: fetchError } = await supabase
         .from('students')
-        .select('*')
+        .select(`
+          *,
+          guardians:student_guardians(fee_share, client:clients(id, name))
+        `)
         .order('grade', { ascending: true })
         .order('last_name', { ascending: true });
 
       if (fetchError) throw fetchError;
+
+      const { data: classesData, error: classesError } = await supabase
+        .from('classes')
+        .select('*')
+        .order('grade', { ascending: true })
+        .order('section', { ascending: true });
+
+      if (classesError) throw classesError;
+
       setStudents(data || []);
+      setClasses(classesData || []);
     } catch (err) {
       console.error('Error fetching students:', err);
       setError('Failed to load students. Please try again.');
@@ -93,11 +123,22 @@ export default function StudentList() {
       student.parent_email.toLowerCase().includes(searchTerm.toLowerCase());
 
     const matchesGrade = !filters.grade || student.grade.toString() === filters.grade;
+    const matchesClass = !filters.classId || student.class_id === filters.classId;
     const matchesLanguage = !filters.language || student.language === filters.language;
 
-    return matchesSearch && matchesGrade && matchesLanguage;
+    // Teachers only see the learners in their classes
+    return scopeIncludesStudent(scope, student) && matchesSearch && matchesGrade && matchesClass && matchesLanguage;
   });
 
+  const visibleClasses = classes.filter(schoolClass =>
+    (!scope || scope.classIds.includes(schoolClass.id)) &&
+    (!filters.grade || schoolClass.grade.toString() === filters.grade)
+  );
+  const getClassLabel = (classId?: string | null) => {
+    const schoolClass = classes.find(c => c.id === classId);
+    return schoolClass ? classLabel(schoolClass) : null;
+  };
+
   if (!user) {
     return (
       <div className="text-center py-12">
@@ -137,6 +178,17 @@ export default function StudentList() {
         />
       )}
 
+      {showGuardiansModal && selectedStudent && (
+        <StudentGuardiansModal
+          student={selectedStudent}
+          onClose={() => {
+            setShowGuardiansModal(false);
+            setSelectedStudent(null);
+          }}
+          onGuardiansUpdated={fetchStudents}
+        />
+      )}
+
       {showImportModal && (
         <ImportStudentModal
           onClose={() => setShowImportModal(false)}
@@ -149,22 +201,24 @@ export default function StudentList() {
 
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-semibold text-gray-900">Students</h1>
-        <div className="flex space-x-4">
-          <button
-            onClick={() => setShowImportModal(true)}
-            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
-          >
-            <Upload className="h-4 w-4 mr-2" />
-            Import
-          </button>
-          <button
-            onClick={() => setShowAddModal(true)}
-            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            New Student
-          </button>
-        </div>
+        {canManage && (
+          <div className="flex space-x-4">
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </button>
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Student
+            </button>
+          </div>
+        )}
       </div>
 
       {error && (
@@ -204,17 +258,30 @@ export default function StudentList() {
           </div>
 
           {filters.showFilters && (
-            <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700">Grade</label>
                 <select
                   value={filters.grade}
-                  onChange={(e) => setFilters(prev => ({ ...prev, grade: e.target.value }))}
+                  onChange={(e) => setFilters(prev => ({ ...prev, grade: e.target.value, classId: '' }))}
                   className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
                 >
                   <option value="">All Grades</option>
-                  {Array.from({ length: 12 }, (_, i) => i + 1).map(grade => (
-                    <option key={grade} value={grade}>Grade {grade}</option>
+                  {GRADES.map(grade => (
+                    <option key={grade} value={grade}>{gradeLabel(grade)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Class</label>
+                <select
+                  value={filters.classId}
+                  onChange={(e) => setFilters(prev => ({ ...prev, classId: e.target.value }))}
+                  className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                >
+                  <option value="">All Classes</option>
+                  {visibleClasses.map(schoolClass => (
+                    <option key={schoolClass.id} value={schoolClass.id}>{classLabel(schoolClass)}</option>
                   ))}
                 </select>
               </div>
@@ -235,7 +302,7 @@ export default function StudentList() {
         </div>
 
         <div className="overflow-x-auto">
-          {loading ? (
+          {loading || scopeLoading ? (
             <div className="text-center py-12">
               <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-gray-200 border-t-blue-600"></div>
               <p className="mt-2 text-sm text-gray-500">Loading students...</p>
@@ -250,6 +317,9 @@ export default function StudentList() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Contact
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Billed To
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Grade
                   </th>
@@ -291,8 +361,26 @@ export default function StudentList() {
                         )}
                       </div>
                     </td>
+                    <td className="px-6 py-4">
+                      {student.guardians && student.guardians.length > 0 ? (
+                        <div className="space-y-1">
+                          {student.guardians.map((guardian) => (
+                            <div key={guardian.client?.id} className="text-sm text-gray-900">
+                              {guardian.client?.name}
+                              {student.guardians!.length > 1 && (
+                                <span className="text-gray-500"> ({guardian.fee_share}%)</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-400">Not linked</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">Grade {student.grade}</div>
+                      <div className="text-sm text-gray-900">
+                        {getClassLabel(student.class_id) || gradeLabel(student.grade)}
+                      </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
@@ -300,44 +388,57 @@ export default function StudentList() {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <div className="relative">
-                        <button
-                          onClick={() => setShowActions(showActions === student.id ? null : student.id)}
-                          className="text-gray-400 hover:text-gray-500"
-                        >
-                          <MoreHorizontal className="h-5 w-5" />
-                        </button>
-                        {showActions === student.id && (
-                          <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
-                            <div className="py-1" role="menu">
-                              <button
-                                onClick={() => {
-                                  setSelectedStudent(student);
-                                  setShowEditModal(true);
-                                  setShowActions(null);
-                                }}
-                                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
-                              >
-                                <Edit className="h-4 w-4 mr-2" />
-                                Edit
-                              </button>
-                              <button
-                                onClick={() => handleDeleteStudent(student.id)}
-                                className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete
-                              </button>
+                      {canManage && (
+                        <div className="relative">
+                          <button
+                            onClick={() => setShowActions(showActions === student.id ? null : student.id)}
+                            className="text-gray-400 hover:text-gray-500"
+                          >
+                            <MoreHorizontal className="h-5 w-5" />
+                          </button>
+                          {showActions === student.id && (
+                            <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+                              <div className="py-1" role="menu">
+                                <button
+                                  onClick={() => {
+                                    setSelectedStudent(student);
+                                    setShowEditModal(true);
+                                    setShowActions(null);
+                                  }}
+                                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Edit className="h-4 w-4 mr-2" />
+                                  Edit
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setSelectedStudent(student);
+                                    setShowGuardiansModal(true);
+                                    setShowActions(null);
+                                  }}
+                                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Users className="h-4 w-4 mr-2" />
+                                  Billing Guardians
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteStudent(student.id)}
+                                  className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 flex items-center"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </button>
+                              </div>
                             </div>
-                          </div>
-                        )}
-                      </div>
+                          )}
+                        </div>
+                      )}
                     </td>
                   </tr>
                 ))}
                 {filteredStudents.length === 0 && (
                   <tr>
-                    <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
                       No students found
                     </td>
                   </tr>
@@ -0,0 +1,282 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { UserPlus, Trash2, Save } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../store/auth';
+import { roleLabels, roles } from '../../lib/permissions';
+import InviteMemberModal from '../../components/team/InviteMemberModal';
+import type { Database, OrganisationInvite, OrganisationRole } from '../../types/supabase';
+
+type Member = Database['public']['Functions']['get_organisation_members']['Returns'][number];
+
+// The database refuses to leave a school without an admin
+function adminRequiredMessage(err: unknown): string | null {
+  const message = (err as { message?: string })?.message || '';
+  return message.includes('at least one admin') ? 'The school needs at least one admin.' : null;
+}
+
+export default function Team() {
+  const { user, membership, setMembership } = useAuthStore();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invites, setInvites] = useState<OrganisationInvite[]>([]);
+  const [organisationName, setOrganisationName] = useState(membership?.organisationName || '');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+
+  const fetchTeam = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        { data: membersData, error: membersError },
+        { data: invitesData, error: invitesError },
+      ] = await Promise.all([
+        supabase.rpc('get_organisation_members'),
+        supabase
+          .from('organisation_invites')
+          .select('*')
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (membersError) throw membersError;
+      if (invitesError) throw invitesError;
+
+      setMembers(membersData || []);
+      setInvites(invitesData || []);
+    } catch (err) {
+      console.error('Error fetching team:', err);
+      setError('Failed to load team members. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (membership) {
+      fetchTeam();
+    }
+  }, [membership?.organisationId]);
+
+  const handleRenameOrganisation = async () => {
+    if (!membership || !organisationName.trim()) return;
+
+    try {
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .from('organisations')
+        .update({ name: organisationName.trim() })
+        .eq('id', membership.organisationId);
+
+      if (updateError) throw updateError;
+      setMembership({ ...membership, organisationName: organisationName.trim() });
+    } catch (err) {
+      console.error('Error renaming organisation:', err);
+      setError('Failed to rename the school. Please try again.');
+    }
+  };
+
+  const handleRoleChange = async (member: Member, role: OrganisationRole) => {
+    try {
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .from('organisation_members')
+        .update({ role })
+        .eq('id', member.id);
+
+      if (updateError) throw updateError;
+      setMembers(prev => prev.map(m => m.id === member.id ? { ...m, role } : m));
+    } catch (err) {
+      console.error('Error changing role:', err);
+      setError(adminRequiredMessage(err) || 'Failed to change role. Please try again.');
+    }
+  };
+
+  const handleRemoveMember = async (member: Member) => {
+    if (!confirm(`Remove ${member.email} from the school?`)) return;
+
+    try {
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('organisation_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (deleteError) throw deleteError;
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+    } catch (err) {
+      console.error('Error removing member:', err);
+      setError(adminRequiredMessage(err) || 'Failed to remove member. Please try again.');
+    }
+  };
+
+  const handleRevokeInvite = async (invite: OrganisationInvite) => {
+    try {
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('organisation_invites')
+        .delete()
+        .eq('id', invite.id);
+
+      if (deleteError) throw deleteError;
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+    } catch (err) {
+      console.error('Error revoking invite:', err);
+      setError('Failed to revoke invite. Please try again.');
+    }
+  };
+
+  if (!membership) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      {showInviteModal && (
+        <InviteMemberModal
+          organisationId={membership.organisationId}
+          onClose={() => setShowInviteModal(false)}
+          onInvited={(invite) => {
+            setInvites(prev => [...prev, invite]);
+            setShowInviteModal(false);
+          }}
+        />
+      )}
+
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-gray-900">Team</h1>
+        <button
+          onClick={() => setShowInviteModal(true)}
+          className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <UserPlus className="h-4 w-4 mr-2" />
+          Invite Staff
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <label className="block text-sm font-medium text-gray-700">School Name</label>
+        <div className="mt-1 flex space-x-3">
+          <input
+            type="text"
+            value={organisationName}
+            onChange={(e) => setOrganisationName(e.target.value)}
+            className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+          <button
+            onClick={handleRenameOrganisation}
+            disabled={!organisationName.trim() || organisationName.trim() === membership.organisationName}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Email
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Joined
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {members.map((member) => (
+                <tr key={member.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {member.email}
+                    {member.user_id === user?.id && (
+                      <span className="ml-2 text-xs text-gray-500">(you)</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value as OrganisationRole)}
+                      className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                    >
+                      {roles.map((role) => (
+                        <option key={role} value={role}>{roleLabels[role]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {format(new Date(member.created_at), 'MMM d, yyyy')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {member.user_id !== user?.id && (
+                      <button
+                        onClick={() => handleRemoveMember(member)}
+                        className="text-red-600 hover:text-red-800"
+                        title="Remove from school"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {invites.map((invite) => (
+                <tr key={invite.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {invite.email}
+                    <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">
+                      Invited
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {roleLabels[invite.role]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {invite.created_at && `Invited ${format(new Date(invite.created_at), 'MMM d, yyyy')}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => handleRevokeInvite(invite)}
+                      className="text-red-600 hover:text-red-800"
+                      title="Revoke invite"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
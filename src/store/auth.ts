@@ -1,14 +1,24 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
+import type { Role } from '../types';
 
 type User = {
   id: string;
   email: string;
 };
 
+// The signed-in user's school and their role in it
+export type Membership = {
+  organisationId: string;
+  organisationName: string;
+  role: Role;
+};
+
 type AuthState = {
   user: User | null;
   setUser: (user: User | null) => void;
+  membership: Membership | null;
+  setMembership: (membership: Membership | null) => void;
   showAuthModal: boolean;
   setShowAuthModal: (show: boolean) => void;
 };
@@ -16,6 +26,8 @@ type AuthState = {
 export const useAuthStore = create<AuthState>((set) => ({
   user: null,
   setUser: (user) => set({ user }),
+  membership: null,
+  setMembership: (membership) => set({ membership }),
   showAuthModal: false,
   setShowAuthModal: (show) => set({ showAuthModal: show }),
 }));
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from './auth';
+import { capsAchievementScale, type AchievementLevel } from '../lib/achievement';
+import type { Database, EmailDocumentType, OrganisationSettings } from '../types/supabase';
 
 type Currency = {
   code: string;
@@ -17,7 +20,7 @@ type CompanyDetails = {
   postalCode: string;
   country: string;
   logo?: string;
-  schoolLogo?: string; // Add school logo field
+  schoolLogo?: string;
 };
 
 type ContactDetails = {
@@ -35,28 +38,75 @@ type BankDetails = {
   iban: string;
 };
 
+export type InvoiceTemplate = 'classic' | 'modern' | 'compact';
+
+export type DocumentFont = 'helvetica' | 'times' | 'courier';
+
 type InvoiceSettings = {
   defaultDueDate: number;
   defaultTaxRate: number;
   defaultNotes: string;
   defaultTerms: string;
+  template: InvoiceTemplate;
+  brandColor: string;
+  font: DocumentFont;
+  showLogo: boolean;
+  showBankDetails: boolean;
+  showVatNumber: boolean;
+  footerText: string;
+};
+
+export type EmailTemplate = {
+  subject: string;
+  body: string;
+};
+
+type EmailSettings = {
+  templates: Record<EmailDocumentType, EmailTemplate>;
+  // Filled in by generate_recurring_invoices() for schedules that email
+  // their invoices
+  recurringInvoice: EmailTemplate;
+};
+
+export type LateChargeMethod = 'interest' | 'fee';
+
+// Applied by apply_late_charges() in the database
+type LateChargeSettings = {
+  enabled: boolean;
+  method: LateChargeMethod;
+  interestRate: number;
+  feeAmount: number;
+  graceDays: number;
+  maxCharges: number;
+};
+
+type ReportSettings = {
+  achievementScale: AchievementLevel[];
 };
 
-type SettingsState = {
+// The settings saved for the organisation
+type SavedSettings = {
   currency: Currency;
-  setCurrency: (currency: Currency) => void;
   companyDetails: CompanyDetails;
-  setCompanyDetails: (details: CompanyDetails) => void;
   contactDetails: ContactDetails;
-  setContactDetails: (details: ContactDetails) => void;
   bankDetails: BankDetails;
-  setBankDetails: (details: BankDetails) => void;
   invoiceSettings: InvoiceSettings;
-  setInvoiceSettings: (settings: InvoiceSettings) => void;
-  setLogo: (logo: string) => void;
-  removeLogo: () => void;
-  setSchoolLogo: (logo: string) => void; // Add school logo setter
-  removeSchoolLogo: () => void; // Add school logo remover
+  emailSettings: EmailSettings;
+  lateChargeSettings: LateChargeSettings;
+  reportSettings: ReportSettings;
+};
+
+type LogoKind = 'logo' | 'schoolLogo';
+
+type SettingsState = SavedSettings & {
+  loaded: boolean;
+  loadSettings: () => Promise<void>;
+  saveSettings: (settings: Partial<SavedSettings>) => Promise<void>;
+  resetSettings: () => void;
+  setLogo: (logo: string) => Promise<void>;
+  removeLogo: () => Promise<void>;
+  setSchoolLogo: (logo: string) => Promise<void>;
+  removeSchoolLogo: () => Promise<void>;
 };
 
 const currencies: Currency[] = [
@@ -66,71 +116,324 @@ const currencies: Currency[] = [
   { code: 'GBP', symbol: '£', name: 'British Pound' },
 ];
 
-export const useSettingsStore = create<SettingsState>()(
-  persist(
-    (set) => ({
-      currency: currencies[0], // ZAR as default
-      setCurrency: (currency) => set({ currency }),
-      companyDetails: {
-        name: '',
-        registrationNumber: '',
-        vatNumber: '',
-        address: '',
-        city: '',
-        state: '',
-        postalCode: '',
-        country: '',
-        logo: undefined,
-        schoolLogo: undefined,
+const defaultSettings: SavedSettings = {
+  currency: currencies[0], // ZAR as default
+  companyDetails: {
+    name: '',
+    registrationNumber: '',
+    vatNumber: '',
+    address: '',
+    city: '',
+    state: '',
+    postalCode: '',
+    country: '',
+    logo: undefined,
+    schoolLogo: undefined,
+  },
+  contactDetails: {
+    email: '',
+    phone: '',
+    website: '',
+  },
+  bankDetails: {
+    bankName: '',
+    accountName: '',
+    accountNumber: '',
+    sortCode: '',
+    swiftCode: '',
+    iban: '',
+  },
+  invoiceSettings: {
+    defaultDueDate: 14,
+    defaultTaxRate: 15,
+    defaultNotes: 'Thank you for your business!',
+    defaultTerms: '1. Payment is due within the specified payment terms.\n2. Late payments may be subject to additional charges.\n3. Please include invoice number in payment reference.',
+    template: 'classic',
+    brandColor: '#3b82f6',
+    font: 'helvetica',
+    showLogo: true,
+    showBankDetails: true,
+    showVatNumber: true,
+    footerText: '',
+  },
+  emailSettings: {
+    templates: {
+      invoice: {
+        subject: 'Invoice {{invoice_number}} from {{company_name}}',
+        body: 'Dear {{client_name}}\n\nPlease find attached invoice {{invoice_number}} for {{total}}, due on {{due_date}}. The amount outstanding is {{amount_due}}.\n\nKind regards\n{{company_name}}',
       },
-      setCompanyDetails: (details) => set({ companyDetails: details }),
-      contactDetails: {
-        email: '',
-        phone: '',
-        website: '',
+      statement: {
+        subject: 'Statement from {{company_name}}',
+        body: 'Dear {{client_name}}\n\nPlease find attached your statement for {{statement_period}}. The balance due is {{balance_due}}.\n\nKind regards\n{{company_name}}',
       },
-      setContactDetails: (details) => set({ contactDetails: details }),
-      bankDetails: {
-        bankName: '',
-        accountName: '',
-        accountNumber: '',
-        sortCode: '',
-        swiftCode: '',
-        iban: '',
+      report_card: {
+        subject: "{{student_name}}'s report card for term {{term}} {{year}}",
+        body: "Dear {{parent_name}}\n\nPlease find attached {{student_name}}'s report card for term {{term}} {{year}}.\n\nKind regards\n{{company_name}}",
+      },
+    },
+    recurringInvoice: {
+      subject: 'Invoice {{invoice_number}} from {{company_name}}',
+      body: 'Dear {{client_name}}\n\nInvoice {{invoice_number}} dated {{invoice_date}} has been issued for:\n\n{{invoice_lines}}\n\nThe total of {{total}} is due on {{due_date}}. Please contact us if you would like a copy of the invoice.\n\nKind regards\n{{company_name}}',
+    },
+  },
+  lateChargeSettings: {
+    enabled: false,
+    method: 'interest',
+    interestRate: 2,
+    feeAmount: 100,
+    graceDays: 7,
+    maxCharges: 0,
+  },
+  reportSettings: {
+    achievementScale: capsAchievementScale,
+  },
+};
+
+// Settings used to be kept in the browser under this key
+const LOCAL_STORAGE_KEY = 'settings-storage';
+
+const LOGO_BUCKET = 'branding';
+
+const logoColumns = {
+  logo: 'logo_path',
+  schoolLogo: 'school_logo_path',
+} as const;
+
+const logoFileNames = {
+  logo: 'logo',
+  schoolLogo: 'school-logo',
+} as const;
+
+async function getUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error) throw error;
+  if (!user) throw new Error('You must be logged in to change settings');
+
+  return user.id;
+}
+
+// Settings are shared by everyone in the signed-in user's school
+function getMembership() {
+  const { membership } = useAuthStore.getState();
+  if (!membership) throw new Error('You must belong to an organisation to use settings');
+
+  return membership;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function downloadLogo(path: string | null): Promise<string | undefined> {
+  if (!path) return undefined;
+
+  const { data, error } = await supabase.storage.from(LOGO_BUCKET).download(path);
+  if (error) {
+    // A missing logo should not stop the rest of the settings loading
+    console.error('Error downloading logo:', error);
+    return undefined;
+  }
+
+  return blobToDataUrl(data);
+}
+
+// Uploads a base64 logo and returns its path in the bucket
+async function uploadLogo(organisationId: string, kind: LogoKind, dataUrl: string): Promise<string> {
+  const blob = await (await fetch(dataUrl)).blob();
+  const path = `${organisationId}/${logoFileNames[kind]}`;
+
+  const { error } = await supabase.storage
+    .from(LOGO_BUCKET)
+    .upload(path, blob, { contentType: blob.type, upsert: true });
+  if (error) throw error;
+
+  return path;
+}
+
+function toRow(settings: SavedSettings) {
+  const { logo, schoolLogo, ...companyDetails } = settings.companyDetails;
+
+  return {
+    currency_code: settings.currency.code,
+    company_details: companyDetails,
+    contact_details: settings.contactDetails,
+    bank_details: settings.bankDetails,
+    invoice_settings: settings.invoiceSettings,
+    email_settings: settings.emailSettings,
+    late_charge_settings: settings.lateChargeSettings,
+    report_settings: settings.reportSettings,
+  };
+}
+
+// Fields missing from a saved row keep their defaults
+function fromRow(row: OrganisationSettings): SavedSettings {
+  return {
+    currency: currencies.find((c) => c.code === row.currency_code) || defaultSettings.currency,
+    companyDetails: { ...defaultSettings.companyDetails, ...row.company_details },
+    contactDetails: { ...defaultSettings.contactDetails, ...row.contact_details },
+    bankDetails: { ...defaultSettings.bankDetails, ...row.bank_details },
+    invoiceSettings: { ...defaultSettings.invoiceSettings, ...row.invoice_settings },
+    emailSettings: {
+      templates: {
+        ...defaultSettings.emailSettings.templates,
+        ...(row.email_settings?.templates as Partial<EmailSettings['templates']>),
       },
-      setBankDetails: (details) => set({ bankDetails: details }),
-      invoiceSettings: {
-        defaultDueDate: 14,
-        defaultTaxRate: 15,
-        defaultNotes: 'Thank you for your business!',
-        defaultTerms: '1. Payment is due within the specified payment terms.\n2. Late payments may be subject to additional charges.\n3. Please include invoice number in payment reference.',
+      recurringInvoice: {
+        ...defaultSettings.emailSettings.recurringInvoice,
+        ...(row.email_settings?.recurringInvoice as Partial<EmailTemplate>),
       },
-      setInvoiceSettings: (settings) => set({ invoiceSettings: settings }),
-      setLogo: (logo) => set((state) => ({
-        companyDetails: { ...state.companyDetails, logo }
-      })),
-      removeLogo: () => set((state) => ({
-        companyDetails: { ...state.companyDetails, logo: undefined }
-      })),
-      setSchoolLogo: (logo) => set((state) => ({
-        companyDetails: { ...state.companyDetails, schoolLogo: logo }
-      })),
-      removeSchoolLogo: () => set((state) => ({
-        companyDetails: { ...state.companyDetails, schoolLogo: undefined }
-      })),
-    }),
-    {
-      name: 'settings-storage',
-      partialize: (state) => ({
-        ...state,
-        companyDetails: {
-          ...state.companyDetails,
-          logo: state.companyDetails.logo,
-          schoolLogo: state.companyDetails.schoolLogo,
-        }
-      }),
+    },
+    lateChargeSettings: { ...defaultSettings.lateChargeSettings, ...row.late_charge_settings },
+    reportSettings: { ...defaultSettings.reportSettings, ...row.report_settings },
+  };
+}
+
+// Settings left in this browser from before they were saved in the database
+function readLocalSettings(): SavedSettings | null {
+  const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    const saved = (JSON.parse(stored).state || {}) as Partial<SavedSettings>;
+    return {
+      currency: currencies.find((c) => c.code === saved.currency?.code) || defaultSettings.currency,
+      companyDetails: { ...defaultSettings.companyDetails, ...saved.companyDetails },
+      contactDetails: { ...defaultSettings.contactDetails, ...saved.contactDetails },
+      bankDetails: { ...defaultSettings.bankDetails, ...saved.bankDetails },
+      invoiceSettings: { ...defaultSettings.invoiceSettings, ...saved.invoiceSettings },
+      emailSettings: defaultSettings.emailSettings,
+      lateChargeSettings: defaultSettings.lateChargeSettings,
+      reportSettings: defaultSettings.reportSettings,
+    };
+  } catch (err) {
+    console.error('Error reading local settings:', err);
+    return null;
+  }
+}
+
+// Moves settings kept in this browser into the database
+async function migrateLocalSettings(
+  userId: string,
+  organisationId: string,
+  local: SavedSettings
+): Promise<void> {
+  const row: Database['public']['Tables']['organisation_settings']['Insert'] = {
+    ...toRow(local),
+    logo_path: null,
+    school_logo_path: null,
+    user_id: userId,
+    organisation_id: organisationId,
+  };
+
+  if (local.companyDetails.logo) {
+    row.logo_path = await uploadLogo(organisationId, 'logo', local.companyDetails.logo);
+  }
+  if (local.companyDetails.schoolLogo) {
+    row.school_logo_path = await uploadLogo(organisationId, 'schoolLogo', local.companyDetails.schoolLogo);
+  }
+
+  const { error } = await supabase.from('organisation_settings').insert(row);
+  if (error) throw error;
+
+  localStorage.removeItem(LOCAL_STORAGE_KEY);
+}
+
+export const useSettingsStore = create<SettingsState>()((set, get) => {
+  const saveLogo = async (kind: LogoKind, logo: string | undefined) => {
+    const userId = await getUserId();
+    const { organisationId } = getMembership();
+    const path = logo ? await uploadLogo(organisationId, kind, logo) : null;
+
+    if (!logo) {
+      const { error } = await supabase.storage
+        .from(LOGO_BUCKET)
+        .remove([`${organisationId}/${logoFileNames[kind]}`]);
+      if (error) throw error;
     }
-  )
-);
 
-export { currencies };
\ No newline at end of file
+    const { error } = await supabase
+      .from('organisation_settings')
+      .upsert(
+        {
+          ...toRow(get()),
+          user_id: userId,
+          organisation_id: organisationId,
+          [logoColumns[kind]]: path,
+        },
+        { onConflict: 'organisation_id' }
+      );
+    if (error) throw error;
+
+    set((state) => ({
+      companyDetails: { ...state.companyDetails, [kind]: logo },
+    }));
+  };
+
+  return {
+    ...defaultSettings,
+    loaded: false,
+    loadSettings: async () => {
+      const userId = await getUserId();
+      const { organisationId, role } = getMembership();
+
+      const { data, error } = await supabase
+        .from('organisation_settings')
+        .select('*')
+        .eq('organisation_id', organisationId)
+        .maybeSingle();
+      if (error) throw error;
+
+      if (!data) {
+        // First admin login since settings moved to the database
+        const local = role === 'admin' ? readLocalSettings() : null;
+        if (local) {
+          await migrateLocalSettings(userId, organisationId, local);
+          set({ ...local, loaded: true });
+          return;
+        }
+
+        set({ ...defaultSettings, loaded: true });
+        return;
+      }
+
+      const settings = fromRow(data);
+      const [logo, schoolLogo] = await Promise.all([
+        downloadLogo(data.logo_path),
+        downloadLogo(data.school_logo_path),
+      ]);
+
+      set({
+        ...settings,
+        companyDetails: { ...settings.companyDetails, logo, schoolLogo },
+        loaded: true,
+      });
+    },
+    saveSettings: async (settings) => {
+      const userId = await getUserId();
+      const { organisationId } = getMembership();
+      const next = { ...get(), ...settings };
+
+      const { error } = await supabase
+        .from('organisation_settings')
+        .upsert(
+          { ...toRow(next), user_id: userId, organisation_id: organisationId },
+          { onConflict: 'organisation_id' }
+        );
+      if (error) throw error;
+
+      set(settings);
+    },
+    resetSettings: () => set({ ...defaultSettings, loaded: false }),
+    setLogo: (logo) => saveLogo('logo', logo),
+    removeLogo: () => saveLogo('logo', undefined),
+    setSchoolLogo: (logo) => saveLogo('schoolLogo', logo),
+    removeSchoolLogo: () => saveLogo('schoolLogo', undefined),
+  };
+});
+
+export { currencies };
@@ -1,8 +1,10 @@
+export type Role = 'admin' | 'principal' | 'accountant' | 'teacher' | 'read_only';
+
 export interface User {
   id: string;
   name: string;
   email: string;
-  role: 'admin' | 'accountant' | 'employee';
+  role: Role;
 }
 
 export interface Invoice {
@@ -15,7 +17,7 @@ export interface Invoice {
   subtotal: number;
   tax: number;
   total: number;
-  status: 'draft' | 'sent' | 'paid' | 'overdue';
+  status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue';
   currency: string;
 }
 
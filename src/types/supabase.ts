@@ -31,6 +31,111 @@ export interface Database {
         Insert: Omit<CommentLibrary, 'id' | 'created_at'>;
         Update: Partial<Omit<CommentLibrary, 'id' | 'created_at'>>;
       };
+      payments: {
+        Row: Payment;
+        Insert: Omit<Payment, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<Payment, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      credit_notes: {
+        Row: CreditNote;
+        Insert: Omit<CreditNote, 'id' | 'created_at' | 'updated_at' | 'subtotal' | 'tax_amount' | 'total'>;
+        Update: Partial<Omit<CreditNote, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      credit_note_items: {
+        Row: CreditNoteItem;
+        Insert: Omit<CreditNoteItem, 'id' | 'created_at'>;
+        Update: Partial<Omit<CreditNoteItem, 'id' | 'created_at'>>;
+      };
+      credit_note_events: {
+        Row: CreditNoteEvent;
+        Insert: Omit<CreditNoteEvent, 'id' | 'created_at'>;
+        Update: Partial<Omit<CreditNoteEvent, 'id' | 'created_at'>>;
+      };
+      credit_allocations: {
+        Row: CreditAllocation;
+        Insert: Omit<CreditAllocation, 'id' | 'created_at'>;
+        Update: Partial<Omit<CreditAllocation, 'id' | 'created_at'>>;
+      };
+      student_guardians: {
+        Row: StudentGuardian;
+        Insert: Omit<StudentGuardian, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<StudentGuardian, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      fee_items: {
+        Row: FeeItem;
+        Insert: Omit<FeeItem, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<FeeItem, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      student_fee_extras: {
+        Row: StudentFeeExtra;
+        Insert: Omit<StudentFeeExtra, 'id' | 'created_at'>;
+        Update: Partial<Omit<StudentFeeExtra, 'id' | 'created_at'>>;
+      };
+      fee_discounts: {
+        Row: FeeDiscount;
+        Insert: Omit<FeeDiscount, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<FeeDiscount, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      organisation_settings: {
+        Row: OrganisationSettings;
+        Insert: Omit<OrganisationSettings, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<OrganisationSettings, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      organisations: {
+        Row: Organisation;
+        Insert: Omit<Organisation, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<Organisation, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      organisation_members: {
+        Row: OrganisationMember;
+        Insert: Omit<OrganisationMember, 'id' | 'created_at'>;
+        Update: Partial<Omit<OrganisationMember, 'id' | 'created_at'>>;
+      };
+      organisation_invites: {
+        Row: OrganisationInvite;
+        Insert: Omit<OrganisationInvite, 'id' | 'created_at'>;
+        Update: Partial<Omit<OrganisationInvite, 'id' | 'created_at'>>;
+      };
+      classes: {
+        Row: SchoolClass;
+        Insert: Omit<SchoolClass, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<SchoolClass, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      teacher_assignments: {
+        Row: TeacherAssignment;
+        Insert: Omit<TeacherAssignment, 'id' | 'created_at'>;
+        Update: Partial<Omit<TeacherAssignment, 'id' | 'created_at'>>;
+      };
+      email_logs: {
+        Row: EmailLog;
+        Insert: Omit<EmailLog, 'id' | 'created_at' | 'updated_at' | 'organisation_id' | 'user_id' | 'sent_at' | 'error' | 'metadata' | 'reminder_step_id'>;
+        Update: Partial<Omit<EmailLog, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      email_events: {
+        Row: EmailEvent;
+        Insert: Omit<EmailEvent, 'id' | 'created_at'>;
+        Update: Partial<Omit<EmailEvent, 'id' | 'created_at'>>;
+      };
+      payment_reminder_steps: {
+        Row: PaymentReminderStep;
+        Insert: Omit<PaymentReminderStep, 'id' | 'created_at' | 'updated_at' | 'organisation_id'>;
+        Update: Partial<Omit<PaymentReminderStep, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      recurring_invoices: {
+        Row: RecurringInvoice;
+        Insert: Omit<RecurringInvoice, 'id' | 'created_at' | 'updated_at' | 'organisation_id' | 'last_generated'>;
+        Update: Partial<Omit<RecurringInvoice, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      recurring_invoice_items: {
+        Row: RecurringInvoiceItem;
+        Insert: Omit<RecurringInvoiceItem, 'id' | 'created_at'>;
+        Update: Partial<Omit<RecurringInvoiceItem, 'id' | 'created_at'>>;
+      };
+      late_charges: {
+        Row: LateCharge;
+        Insert: Omit<LateCharge, 'id' | 'created_at' | 'updated_at' | 'organisation_id'>;
+        Update: Partial<Omit<LateCharge, 'id' | 'created_at' | 'updated_at'>>;
+      };
     };
     Functions: {
       calculate_subject_average: {
@@ -48,12 +153,78 @@ export interface Database {
           p_score: number;
           p_language: string;
         };
-        Returns: string;
+        Returns: string | null;
       };
       generate_student_number: {
         Args: Record<string, never>;
         Returns: string;
       };
+      set_student_guardians: {
+        Args: {
+          p_student_id: string;
+          p_guardians: {
+            client_id: string;
+            relationship: string;
+            fee_share: number;
+          }[];
+        };
+        Returns: void;
+      };
+      get_family_balances: {
+        Args: {
+          p_client_id: string;
+        };
+        Returns: FamilyBalance[];
+      };
+      get_client_credit: {
+        Args: {
+          p_client_id: string;
+        };
+        Returns: number;
+      };
+      apply_client_credit: {
+        Args: {
+          p_invoice_id: string;
+        };
+        Returns: number;
+      };
+      ensure_organisation: {
+        Args: Record<string, never>;
+        Returns: {
+          organisation_id: string;
+          organisation_name: string;
+          role: OrganisationRole;
+        }[];
+      };
+      get_organisation_members: {
+        Args: Record<string, never>;
+        Returns: {
+          id: string;
+          user_id: string;
+          email: string;
+          role: OrganisationRole;
+          created_at: string;
+        }[];
+      };
+      get_email_tracking_stats: {
+        Args: {
+          p_invoice_id: string;
+        };
+        Returns: EmailTrackingStats[];
+      };
+      preview_recurring_invoices: {
+        Args: {
+          p_run_date: string;
+        };
+        Returns: RecurringInvoicePreview[];
+      };
+      waive_late_charge: {
+        Args: {
+          p_charge_id: string;
+          p_reason: string;
+        };
+        Returns: void;
+      };
     };
   };
 }
@@ -64,6 +235,7 @@ export interface Student {
   first_name: string;
   last_name: string;
   date_of_birth: string;
+  // 0 is Grade R; see lib/grades
   grade: number;
   language: 'english' | 'afrikaans';
   parent_name: string;
@@ -73,6 +245,8 @@ export interface Student {
   created_at?: string;
   updated_at?: string;
   user_id: string;
+  organisation_id?: string;
+  class_id?: string | null;
 }
 
 export interface Subject {
@@ -92,6 +266,7 @@ export interface Assessment {
   term: number;
   year: number;
   assessment_type: 'exam' | 'assignment' | 'practical' | 'project' | 'test';
+  name?: string;
   weight: number;
   score: number;
   comment?: string;
@@ -113,14 +288,15 @@ export interface ReportCard {
   created_at?: string;
   updated_at?: string;
   user_id: string;
+  organisation_id?: string;
 }
 
 export interface ReportCardSubject {
   id: string;
   report_card_id: string;
   subject_id: string;
-  term_mark: number;
-  year_to_date: number;
+  term_mark: number | null;
+  year_to_date: number | null;
   subject_comment?: string;
   created_at?: string;
 }
@@ -130,7 +306,318 @@ export interface CommentLibrary {
   category: 'positive' | 'constructive' | 'general' | 'subject_specific';
   language: 'english' | 'afrikaans';
   comment_text: string;
-  subject_id?: string;
-  performance_level?: 'excellent' | 'good' | 'average' | 'needs_improvement';
+  subject_id?: string | null;
+  performance_level?: 'excellent' | 'good' | 'average' | 'needs_improvement' | null;
+  user_id?: string | null;
+  organisation_id?: string;
+  created_at?: string;
+}
+
+export interface Payment {
+  id: string;
+  invoice_id: string;
+  client_id: string;
+  amount: number;
+  date: string;
+  method: 'eft' | 'cash' | 'card' | 'cheque' | 'debit_order' | 'other';
+  reference?: string;
+  notes?: string;
+  created_at?: string;
+  updated_at?: string;
+  user_id: string;
+  organisation_id?: string;
+}
+
+export interface CreditNote {
+  id: string;
+  number: string;
+  invoice_id: string | null;
+  client_id: string;
+  date: string;
+  reason: string;
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  status: 'draft' | 'issued' | 'void';
+  currency_code: string;
+  keep_surplus_as_credit: boolean;
+  issued_at?: string | null;
+  voided_at?: string | null;
+  void_reason?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  user_id: string;
+  organisation_id?: string;
+}
+
+export interface CreditNoteItem {
+  id: string;
+  credit_note_id: string;
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+  created_at?: string;
+}
+
+export interface CreditNoteEvent {
+  id: string;
+  credit_note_id: string;
+  event_type: 'created' | 'issued' | 'voided';
+  notes?: string | null;
+  user_id: string | null;
   created_at?: string;
-}
\ No newline at end of file
+}
+
+export interface CreditAllocation {
+  id: string;
+  credit_note_id: string;
+  invoice_id: string;
+  amount: number;
+  date: string;
+  created_at?: string;
+  user_id: string;
+  organisation_id?: string;
+}
+
+export interface StudentGuardian {
+  id: string;
+  student_id: string;
+  client_id: string;
+  relationship?: string;
+  fee_share: number;
+  created_at?: string;
+  updated_at?: string;
+  user_id: string;
+  organisation_id?: string;
+}
+
+export interface FamilyBalance {
+  student_id: string | null;
+  student_name: string;
+  grade: number | null;
+  client_id: string;
+  client_name: string;
+  fee_share: number | null;
+  balance_due: number;
+}
+
+export interface FeeItem {
+  id: string;
+  name: string;
+  grade: number | null;
+  amount: number;
+  category: 'tuition' | 'extra';
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+  user_id: string;
+  organisation_id?: string;
+}
+
+export interface StudentFeeExtra {
+  id: string;
+  student_id: string;
+  fee_item_id: string;
+  created_at?: string;
+  user_id: string;
+  organisation_id?: string;
+}
+
+export interface FeeDiscount {
+  id: string;
+  name: string;
+  discount_type: 'sibling' | 'early_payment';
+  percentage: number;
+  min_child_position: number;
+  created_at?: string;
+  updated_at?: string;
+  user_id: string;
+  organisation_id?: string;
+}
+
+export interface OrganisationSettings {
+  id: string;
+  organisation_id: string;
+  currency_code: string;
+  company_details: Record<string, unknown>;
+  contact_details: Record<string, unknown>;
+  bank_details: Record<string, unknown>;
+  invoice_settings: Record<string, unknown>;
+  email_settings: Record<string, unknown>;
+  late_charge_settings: Record<string, unknown>;
+  report_settings: Record<string, unknown>;
+  logo_path: string | null;
+  school_logo_path: string | null;
+  user_id: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type OrganisationRole = 'admin' | 'principal' | 'accountant' | 'teacher' | 'read_only';
+
+export interface Organisation {
+  id: string;
+  name: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface OrganisationMember {
+  id: string;
+  organisation_id: string;
+  user_id: string;
+  role: OrganisationRole;
+  created_at?: string;
+}
+
+export interface OrganisationInvite {
+  id: string;
+  organisation_id: string;
+  email: string;
+  role: OrganisationRole;
+  invited_by: string | null;
+  created_at?: string;
+}
+
+export interface SchoolClass {
+  id: string;
+  organisation_id?: string;
+  grade: number;
+  section: string;
+  class_teacher_id: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface TeacherAssignment {
+  id: string;
+  class_id: string;
+  subject_id: string;
+  teacher_id: string;
+  created_at?: string;
+}
+
+export type EmailDocumentType = 'invoice' | 'statement' | 'report_card';
+
+export interface EmailLog {
+  id: string;
+  organisation_id?: string;
+  document_type: EmailDocumentType;
+  invoice_id: string | null;
+  client_id: string | null;
+  report_card_id: string | null;
+  // Set on payment reminders
+  reminder_step_id?: string | null;
+  to_email: string;
+  cc_email: string | null;
+  bcc_email: string | null;
+  subject: string;
+  body: string | null;
+  status: 'queued' | 'sending' | 'sent' | 'delivered' | 'failed';
+  error: string | null;
+  metadata: Record<string, unknown> | null;
+  sent_at: string | null;
+  user_id: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface EmailEvent {
+  id: string;
+  email_log_id: string;
+  event_type: 'queued' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'complained' | 'unsubscribed';
+  event_data: Record<string, unknown> | null;
+  occurred_at: string;
+  created_at?: string;
+}
+
+export interface EmailTrackingStats {
+  total_sent: number;
+  total_delivered: number;
+  total_opened: number;
+  total_clicked: number;
+  last_opened: string | null;
+  last_clicked: string | null;
+}
+
+export interface PaymentReminderStep {
+  id: string;
+  organisation_id?: string;
+  days_offset: number;
+  subject: string;
+  body: string;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface LateCharge {
+  id: string;
+  organisation_id?: string;
+  invoice_id: string;
+  client_id: string;
+  charge_type: 'interest' | 'admin_fee';
+  // Month overdue the charge is for, starting at 1
+  period: number;
+  date: string;
+  description: string;
+  amount: number;
+  status: 'active' | 'waived';
+  waived_at: string | null;
+  waived_by: string | null;
+  waive_reason: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface RecurringInvoice {
+  id: string;
+  organisation_id?: string;
+  client_id: string;
+  user_id: string;
+  frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+  start_date: string;
+  end_date: string | null;
+  // Date of the next invoice the schedule creates
+  next_run_date: string;
+  description: string;
+  // Subtotal of the schedule's items
+  amount: number;
+  tax_rate: number;
+  currency_code: string;
+  status: 'active' | 'paused' | 'completed';
+  // Email each invoice to the client when it is created
+  auto_send: boolean;
+  // Missed runs: 'latest' creates only the most recent, 'all' up to 12 a run
+  catch_up: 'latest' | 'all';
+  last_generated: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface RecurringInvoiceItem {
+  id: string;
+  recurring_invoice_id: string;
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+  created_at?: string;
+}
+
+export interface RecurringInvoicePreview {
+  recurring_invoice_id: string;
+  client_id: string;
+  client_name: string;
+  client_email: string | null;
+  invoice_date: string;
+  due_date: string;
+  description: string;
+  subtotal: number;
+  tax_amount: number;
+  total: number;
+  currency_code: string;
+  auto_send: boolean;
+}
@@ -0,0 +1,109 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import {
+  getMailFrom,
+  getMailTransport,
+  textToHtml,
+  type MailAttachment,
+} from './transports.ts';
+
+export type QueuedEmail = {
+  id: string;
+  organisation_id: string;
+  to_email: string;
+  cc_email: string | null;
+  bcc_email: string | null;
+  subject: string;
+  body: string | null;
+  metadata: Record<string, unknown> | null;
+};
+
+const splitAddresses = (value: string | null): string[] =>
+  (value || '').split(',').map((address) => address.trim()).filter(Boolean);
+
+// Sends a queued email and records the outcome on its log. Needs a client
+// with the service role, since only the service role changes email status.
+// Returns the error message when the email could not be sent.
+export async function deliverEmail(
+  supabase: SupabaseClient,
+  log: QueuedEmail,
+  attachments: MailAttachment[] = []
+): Promise<string | null> {
+  try {
+    // Replies go to the school rather than the sending address
+    const { data: settings } = await supabase
+      .from('organisation_settings')
+      .select('contact_details')
+      .eq('organisation_id', log.organisation_id)
+      .maybeSingle();
+
+    const trackingUrl = Deno.env.get('EMAIL_TRACKING_URL');
+    const trackingPixelUrl = trackingUrl ? `${trackingUrl}?open=${log.id}` : undefined;
+
+    const transport = getMailTransport();
+    const { messageId } = await transport.send({
+      from: getMailFrom(),
+      replyTo: settings?.contact_details?.email || undefined,
+      to: splitAddresses(log.to_email),
+      cc: splitAddresses(log.cc_email),
+      bcc: splitAddresses(log.bcc_email),
+      subject: log.subject,
+      text: log.body || '',
+      html: textToHtml(log.body || '', trackingPixelUrl),
+      attachments,
+    });
+
+    const { error: updateError } = await supabase
+      .from('email_logs')
+      .update({
+        metadata: {
+          ...log.metadata,
+          transport: transport.name,
+          message_id: messageId,
+          attachments: attachments.map((attachment) => attachment.filename),
+        },
+      })
+      .eq('id', log.id);
+    if (updateError) throw updateError;
+
+    // The status trigger moves the log to sent
+    const { error: eventError } = await supabase
+      .from('email_events')
+      .insert({
+        email_log_id: log.id,
+        event_type: 'sent',
+        event_data: { transport: transport.name, message_id: messageId },
+      });
+    if (eventError) throw eventError;
+
+    return null;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error('Error sending email:', err);
+
+    await markFailed(supabase, log.id, message);
+    return message;
+  }
+}
+
+// Moves a queued email to sending. Only one caller can claim an email, so
+// two requests to send it (a double click, or the app and a cron job) don't
+// both deliver it. Returns false when it was already claimed or sent.
+export async function claimEmail(supabase: SupabaseClient, emailLogId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('email_logs')
+    .update({ status: 'sending', updated_at: new Date().toISOString() })
+    .eq('id', emailLogId)
+    .eq('status', 'queued')
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  return Boolean(data);
+}
+
+export async function markFailed(supabase: SupabaseClient, emailLogId: string, error: string) {
+  await supabase
+    .from('email_logs')
+    .update({ status: 'failed', error, updated_at: new Date().toISOString() })
+    .eq('id', emailLogId);
+}
@@ -0,0 +1,168 @@
+import nodemailer from 'npm:nodemailer@6.9.16';
+
+/*
+  Mail transports. MAIL_TRANSPORT picks one:
+
+  - `smtp` (default) - Any SMTP server. For local testing run MailHog
+    (`docker run -p 1025:1025 -p 8025:8025 mailhog/mailhog`) and set
+    SMTP_HOST=host.docker.internal and SMTP_PORT=1025; sent mail shows up
+    at http://localhost:8025.
+      SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE
+  - `resend` - The Resend API. Point its webhooks at the email-events
+    function to record deliveries, bounces and complaints.
+      RESEND_API_KEY
+  - `log` - Prints the message instead of sending it.
+
+  Every transport sends from MAIL_FROM, e.g. "Greenfield School <accounts@greenfield.school>".
+*/
+
+export type MailAttachment = {
+  filename: string;
+  // Base64 encoded
+  content: string;
+  contentType: string;
+};
+
+export type MailMessage = {
+  from: string;
+  replyTo?: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments: MailAttachment[];
+};
+
+export type SendResult = {
+  // The provider's id for the message, used to match webhooks to the email
+  messageId: string | null;
+};
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<SendResult>;
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+}
+
+function smtpTransport(): MailTransport {
+  const user = Deno.env.get('SMTP_USER');
+  const transporter = nodemailer.createTransport({
+    host: requireEnv('SMTP_HOST'),
+    port: Number(Deno.env.get('SMTP_PORT') || 587),
+    secure: Deno.env.get('SMTP_SECURE') === 'true',
+    // MailHog takes mail without logging in
+    auth: user ? { user, pass: Deno.env.get('SMTP_PASS') || '' } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail({
+        ...message,
+        attachments: message.attachments.map((attachment) => ({
+          ...attachment,
+          encoding: 'base64',
+        })),
+      });
+
+      return { messageId: info.messageId || null };
+    },
+  };
+}
+
+function resendTransport(): MailTransport {
+  const apiKey = requireEnv('RESEND_API_KEY');
+
+  return {
+    name: 'resend',
+    async send(message) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: message.from,
+          reply_to: message.replyTo,
+          to: message.to,
+          cc: message.cc,
+          bcc: message.bcc,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          attachments: message.attachments.map(({ filename, content }) => ({ filename, content })),
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || `Resend responded with ${response.status}`);
+      }
+
+      return { messageId: result.id || null };
+    },
+  };
+}
+
+function logTransport(): MailTransport {
+  return {
+    name: 'log',
+    send(message) {
+      console.log('Email not sent (MAIL_TRANSPORT=log):', {
+        ...message,
+        attachments: message.attachments.map((attachment) => attachment.filename),
+      });
+
+      return Promise.resolve({ messageId: null });
+    },
+  };
+}
+
+export function getMailTransport(): MailTransport {
+  const name = Deno.env.get('MAIL_TRANSPORT') || 'smtp';
+
+  switch (name) {
+    case 'smtp':
+      return smtpTransport();
+    case 'resend':
+      return resendTransport();
+    case 'log':
+      return logTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+}
+
+export function getMailFrom(): string {
+  return requireEnv('MAIL_FROM');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Emails are written as plain text; the HTML part keeps the line breaks and
+// carries the open-tracking pixel when there is one
+export function textToHtml(text: string, trackingPixelUrl?: string): string {
+  const paragraphs = text
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+  const pixel = trackingPixelUrl
+    ? `\n<img src="${escapeHtml(trackingPixelUrl)}" width="1" height="1" alt="" style="display:none">`
+    : '';
+
+  return `<!DOCTYPE html>\n<html><body style="font-family: Arial, sans-serif; font-size: 14px;">\n${paragraphs}${pixel}\n</body></html>`;
+}
@@ -0,0 +1,129 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+
+/*
+  Records what happens to an email after it is sent.
+
+  - GET ?open=<email log id> - The open-tracking pixel in the email body
+  - POST ?secret=<EMAIL_WEBHOOK_SECRET> - Resend webhooks for deliveries,
+    opens, clicks, bounces and complaints
+
+  Mail clients and Resend call this without a Supabase token, so deploy it
+  with `supabase functions deploy email-events --no-verify-jwt`.
+*/
+
+// A transparent 1x1 GIF
+const PIXEL = Uint8Array.from(
+  atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'),
+  (c) => c.charCodeAt(0)
+);
+
+const resendEvents: Record<string, string> = {
+  'email.delivered': 'delivered',
+  'email.opened': 'opened',
+  'email.clicked': 'clicked',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+};
+
+type ResendWebhook = {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    click?: { link: string };
+    bounce?: { message: string };
+  };
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+async function recordEvent(
+  emailLogId: string,
+  eventType: string,
+  eventData: Record<string, unknown>,
+  occurredAt?: string
+) {
+  const { error } = await supabase
+    .from('email_events')
+    .insert({
+      email_log_id: emailLogId,
+      event_type: eventType,
+      event_data: eventData,
+      ...(occurredAt && { occurred_at: occurredAt }),
+    });
+  if (error) throw error;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+
+  if (req.method === 'GET') {
+    const emailLogId = url.searchParams.get('open');
+
+    // Always answer with the image so the email looks right
+    if (emailLogId) {
+      try {
+        const { data: log } = await supabase
+          .from('email_logs')
+          .select('id')
+          .eq('id', emailLogId)
+          .maybeSingle();
+
+        if (log) {
+          await recordEvent(log.id, 'opened', {
+            user_agent: req.headers.get('user-agent'),
+          });
+        }
+      } catch (err) {
+        console.error('Error recording email open:', err);
+      }
+    }
+
+    return new Response(PIXEL, {
+      headers: {
+        'Content-Type': 'image/gif',
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  const secret = Deno.env.get('EMAIL_WEBHOOK_SECRET');
+  if (!secret || url.searchParams.get('secret') !== secret) {
+    return jsonResponse({ error: 'Invalid webhook secret' }, 401);
+  }
+
+  const webhook: ResendWebhook = await req.json();
+  const eventType = resendEvents[webhook.type];
+  if (!eventType) {
+    return jsonResponse({ ignored: webhook.type });
+  }
+
+  const { data: log, error: logError } = await supabase
+    .from('email_logs')
+    .select('id')
+    .eq('metadata->>message_id', webhook.data.email_id)
+    .maybeSingle();
+
+  if (logError) {
+    return jsonResponse({ error: logError.message }, 500);
+  }
+  if (!log) {
+    return jsonResponse({ ignored: webhook.data.email_id });
+  }
+
+  try {
+    await recordEvent(log.id, eventType, webhook.data, webhook.created_at);
+    return jsonResponse({ recorded: eventType });
+  } catch (err) {
+    console.error('Error recording email event:', err);
+    return jsonResponse({ error: 'Failed to record event' }, 500);
+  }
+});
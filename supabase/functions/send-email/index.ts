@@ -0,0 +1,79 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { claimEmail, deliverEmail } from '../_shared/deliver.ts';
+
+/*
+  Sends an email the app has queued in email_logs.
+
+  The caller's own token is used to read the log, so row level security
+  decides whether they may send it. Status changes and events are written
+  with the service role. The log is claimed before sending, so repeated
+  requests for the same email send it once.
+
+  Body: { emailLogId: string, attachment?: { filename: string, content: base64 } }
+
+  Set EMAIL_TRACKING_URL to the public URL of the email-events function to
+  record opens.
+*/
+
+type SendEmailRequest = {
+  emailLogId?: string;
+  attachment?: {
+    filename: string;
+    content: string;
+  };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return jsonResponse({ error: 'Not signed in' }, 401);
+  }
+
+  const { emailLogId, attachment }: SendEmailRequest = await req.json();
+  if (!emailLogId) {
+    return jsonResponse({ error: 'emailLogId is required' }, 400);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: log, error: logError } = await userClient
+    .from('email_logs')
+    .select('*')
+    .eq('id', emailLogId)
+    .maybeSingle();
+
+  if (logError) {
+    return jsonResponse({ error: logError.message }, 500);
+  }
+  if (!log) {
+    return jsonResponse({ error: 'Email not found' }, 404);
+  }
+  let claimed: boolean;
+  try {
+    claimed = await claimEmail(serviceClient, log.id);
+  } catch (err) {
+    return jsonResponse({ error: err instanceof Error ? err.message : String(err) }, 500);
+  }
+  if (!claimed) {
+    return jsonResponse({ error: 'This email has already been sent' }, 409);
+  }
+
+  const error = await deliverEmail(
+    serviceClient,
+    log,
+    attachment ? [{ ...attachment, contentType: 'application/pdf' }] : []
+  );
+
+  return error
+    ? jsonResponse({ error }, 502)
+    : jsonResponse({ status: 'sent' });
+});
@@ -0,0 +1,70 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { claimEmail, deliverEmail, markFailed } from '../_shared/deliver.ts';
+
+/*
+  Sends the emails the database queues by itself: payment reminders from
+  queue_payment_reminders() and invoices from generate_recurring_invoices().
+  Called by the payment-reminders and generate-recurring-invoices cron jobs
+  with the service role key. Each email is claimed before sending, so runs
+  that overlap don't send it twice.
+*/
+
+// Leave the rest for the next run rather than run past the function timeout
+const BATCH_SIZE = 200;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Only the scheduled jobs can send these emails' }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  const { data: emails, error: emailsError } = await supabase
+    .from('email_logs')
+    .select('*, invoice:invoices(status)')
+    .eq('status', 'queued')
+    // Emails queued from the app are sent by send-email
+    .is('user_id', null)
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (emailsError) {
+    return jsonResponse({ error: emailsError.message }, 500);
+  }
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const email of emails || []) {
+    // Another run got to it first
+    try {
+      if (!(await claimEmail(supabase, email.id))) continue;
+    } catch (err) {
+      console.error('Error claiming email:', err);
+      failed += 1;
+      continue;
+    }
+
+    // Paid between being queued and now
+    if (email.invoice?.status === 'paid') {
+      await markFailed(supabase, email.id, 'Not sent: the invoice was settled');
+      failed += 1;
+      continue;
+    }
+
+    const error = await deliverEmail(supabase, email);
+    if (error) {
+      failed += 1;
+    } else {
+      sent += 1;
+    }
+  }
+
+  return jsonResponse({ sent, failed });
+});
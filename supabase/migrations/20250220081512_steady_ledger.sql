@@ -0,0 +1,153 @@
+/*
+  # Add Payments Ledger
+
+  1. New Tables
+    - `payments`
+      - `id` (uuid, primary key)
+      - `invoice_id` (uuid, references invoices)
+      - `client_id` (uuid, references clients)
+      - `amount` (numeric, must be positive)
+      - `date` (date)
+      - `method` (text: eft/cash/card/cheque/debit_order/other)
+      - `reference` (text)
+      - `notes` (text)
+      - `user_id` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Backfill a payment for every invoice already marked as paid
+    - get_monthly_revenue and get_top_clients now sum recorded payments
+      by payment date instead of trusting the invoice status
+
+  3. Security
+    - Enable RLS on payments table
+    - Add policies for authenticated users to manage their own payments
+*/
+
+-- Create payments table
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid REFERENCES invoices(id) ON DELETE CASCADE NOT NULL,
+  client_id uuid REFERENCES clients(id) NOT NULL,
+  amount numeric NOT NULL,
+  date date NOT NULL DEFAULT current_date,
+  method text NOT NULL DEFAULT 'eft',
+  reference text,
+  notes text,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT amount_check CHECK (amount > 0),
+  CONSTRAINT method_check CHECK (method IN ('eft', 'cash', 'card', 'cheque', 'debit_order', 'other'))
+);
+
+-- Create indexes for balance lookups
+CREATE INDEX IF NOT EXISTS payments_invoice_id_idx ON payments(invoice_id);
+CREATE INDEX IF NOT EXISTS payments_client_id_idx ON payments(client_id);
+
+-- Enable RLS
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for payments
+CREATE POLICY "Users can create their own payments"
+  ON payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own payments"
+  ON payments
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own payments"
+  ON payments
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Backfill payments for invoices that were marked as paid before the ledger existed
+INSERT INTO payments (invoice_id, client_id, amount, date, method, notes, user_id)
+SELECT
+  i.id,
+  i.client_id,
+  i.total,
+  i.updated_at::date,
+  'other',
+  'Recorded before the payments ledger was introduced',
+  i.user_id
+FROM invoices i
+WHERE
+  i.status = 'paid'
+  AND i.total > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM payments p WHERE p.invoice_id = i.id
+  );
+
+-- Monthly revenue is the money actually received in each month
+CREATE OR REPLACE FUNCTION get_monthly_revenue(
+  start_date timestamptz,
+  end_date timestamptz
+)
+RETURNS TABLE (
+  month text,
+  amount numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    to_char(date_trunc('month', p.date), 'Mon YYYY') as month,
+    COALESCE(SUM(p.amount), 0) as amount
+  FROM payments p
+  WHERE
+    p.date >= start_date::date
+    AND p.date <= end_date::date
+    AND p.user_id = auth.uid()
+  GROUP BY date_trunc('month', p.date)
+  ORDER BY date_trunc('month', p.date);
+END;
+$$;
+
+-- Top clients are ranked by the payments received from them
+CREATE OR REPLACE FUNCTION get_top_clients(
+  start_date timestamptz,
+  end_date timestamptz,
+  limit_count integer DEFAULT 5
+)
+RETURNS TABLE (
+  name text,
+  total numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.name,
+    COALESCE(SUM(p.amount), 0) as total
+  FROM clients c
+  JOIN payments p ON c.id = p.client_id
+  WHERE
+    p.date >= start_date::date
+    AND p.date <= end_date::date
+    AND p.user_id = auth.uid()
+  GROUP BY c.id, c.name
+  ORDER BY total DESC
+  LIMIT limit_count;
+END;
+$$;
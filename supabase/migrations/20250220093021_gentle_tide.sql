@@ -0,0 +1,125 @@
+/*
+  # Add Partially Paid Invoice Status
+
+  1. Changes
+    - Allow `partially_paid` in the invoices status_check constraint
+    - Invoice status follows the payments ledger automatically:
+      - fully covered invoices become `paid`
+      - invoices with some payments become `partially_paid`
+      - invoices whose payments are all removed fall back to `sent`
+        (or `overdue` once the due date has passed)
+    - Existing invoices are re-evaluated against their recorded payments
+
+  2. Functions
+    - update_invoice_payment_status(p_invoice_id uuid) - Only called by the
+      triggers; it changes any invoice, so users cannot call it
+    - Triggers on payments and on invoice total changes
+*/
+
+-- Allow the partially paid status
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS status_check;
+ALTER TABLE invoices ADD CONSTRAINT status_check
+  CHECK (status IN ('draft', 'sent', 'partially_paid', 'paid', 'overdue'));
+
+-- Function to derive an invoice's status from its payments
+CREATE OR REPLACE FUNCTION update_invoice_payment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_amount_paid numeric;
+  v_status text;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0)
+  INTO v_amount_paid
+  FROM payments
+  WHERE invoice_id = p_invoice_id;
+
+  IF v_amount_paid > 0 AND v_amount_paid >= v_invoice.total THEN
+    v_status := 'paid';
+  ELSIF v_amount_paid > 0 THEN
+    v_status := 'partially_paid';
+  ELSIF v_invoice.status IN ('paid', 'partially_paid') THEN
+    -- All payments were removed, so the invoice is owing again
+    v_status := CASE
+      WHEN v_invoice.due_date < current_date THEN 'overdue'
+      ELSE 'sent'
+    END;
+  ELSE
+    -- No payments yet; leave draft/sent/overdue as they are
+    v_status := v_invoice.status;
+  END IF;
+
+  IF v_status <> v_invoice.status THEN
+    UPDATE invoices
+    SET
+      status = v_status,
+      updated_at = now()
+    WHERE id = p_invoice_id;
+  END IF;
+END;
+$$;
+
+-- Trigger function for payment changes
+CREATE OR REPLACE FUNCTION handle_payment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM update_invoice_payment_status(OLD.invoice_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM update_invoice_payment_status(NEW.invoice_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Re-evaluate the invoice status whenever payments change
+DROP TRIGGER IF EXISTS payment_status_trigger ON payments;
+CREATE TRIGGER payment_status_trigger
+AFTER INSERT OR UPDATE OR DELETE ON payments
+FOR EACH ROW
+EXECUTE FUNCTION handle_payment_change();
+
+-- Trigger function for invoice total changes
+CREATE OR REPLACE FUNCTION handle_invoice_total_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM update_invoice_payment_status(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+-- Re-evaluate the invoice status when its items change the total
+DROP TRIGGER IF EXISTS invoice_total_status_trigger ON invoices;
+CREATE TRIGGER invoice_total_status_trigger
+AFTER UPDATE OF total ON invoices
+FOR EACH ROW
+WHEN (OLD.total IS DISTINCT FROM NEW.total)
+EXECUTE FUNCTION handle_invoice_total_change();
+
+-- Bring existing invoices in line with their payments
+SELECT update_invoice_payment_status(id)
+FROM invoices
+WHERE status <> 'draft';
+
+-- Status follows the ledger; only the triggers above recompute it
+REVOKE EXECUTE ON FUNCTION update_invoice_payment_status(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,160 @@
+/*
+  # Rebuild Client Statement On Real Transactions
+
+  1. Changes
+    - get_client_statement is rebuilt from actual transactions:
+      - an opening balance brought forward from before p_start_date
+      - invoices (drafts are not billed, so they are left out)
+      - issued credit notes
+      - payments from the payments ledger on their real payment dates
+    - Same-day rows are ordered invoice, credit note, payment so the
+      running balance reads naturally
+
+  2. Security
+    - Function remains SECURITY DEFINER and filtered by auth.uid()
+*/
+
+-- Drop existing function first
+DROP FUNCTION IF EXISTS get_client_statement(uuid, date, date);
+
+-- Create client statement function
+CREATE OR REPLACE FUNCTION get_client_statement(
+  p_client_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS TABLE (
+  date DATE,
+  description TEXT,
+  reference TEXT,
+  type TEXT,
+  debit NUMERIC,
+  credit NUMERIC,
+  running_balance NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_opening_balance numeric;
+BEGIN
+  -- Work out the balance brought forward from before the period
+  SELECT
+    COALESCE((
+      SELECT SUM(i.total)
+      FROM invoices i
+      WHERE
+        i.client_id = p_client_id
+        AND i.date < p_start_date
+        AND i.status <> 'draft'
+        AND i.user_id = auth.uid()
+    ), 0)
+    - COALESCE((
+      SELECT SUM(cn.total)
+      FROM credit_notes cn
+      WHERE
+        cn.client_id = p_client_id
+        AND cn.date < p_start_date
+        AND cn.status = 'issued'
+        AND cn.user_id = auth.uid()
+    ), 0)
+    - COALESCE((
+      SELECT SUM(p.amount)
+      FROM payments p
+      WHERE
+        p.client_id = p_client_id
+        AND p.date < p_start_date
+        AND p.user_id = auth.uid()
+    ), 0)
+  INTO v_opening_balance;
+
+  RETURN QUERY
+  WITH transactions AS (
+    -- Balance brought forward
+    SELECT
+      p_start_date AS date,
+      'Balance brought forward'::text AS description,
+      ''::text AS reference,
+      'opening_balance'::text AS type,
+      GREATEST(v_opening_balance, 0) AS debit,
+      GREATEST(-v_opening_balance, 0) AS credit,
+      0 AS sort_order,
+      NULL::timestamptz AS created_at
+
+    UNION ALL
+
+    -- Get invoices
+    SELECT
+      i.date AS date,
+      'Invoice #' || i.number AS description,
+      i.number AS reference,
+      'invoice' AS type,
+      i.total AS debit,
+      0 AS credit,
+      1 AS sort_order,
+      i.created_at
+    FROM invoices i
+    WHERE
+      i.client_id = p_client_id
+      AND i.date BETWEEN p_start_date AND p_end_date
+      AND i.status <> 'draft'
+      AND i.user_id = auth.uid()
+
+    UNION ALL
+
+    -- Get issued credit notes
+    SELECT
+      cn.date AS date,
+      'Credit Note #' || cn.number || COALESCE(' for Invoice #' || i.number, '') AS description,
+      cn.number AS reference,
+      'credit_note' AS type,
+      0 AS debit,
+      cn.total AS credit,
+      2 AS sort_order,
+      cn.created_at
+    FROM credit_notes cn
+    LEFT JOIN invoices i ON i.id = cn.invoice_id
+    WHERE
+      cn.client_id = p_client_id
+      AND cn.date BETWEEN p_start_date AND p_end_date
+      AND cn.status = 'issued'
+      AND cn.user_id = auth.uid()
+
+    UNION ALL
+
+    -- Get payments on the date they were received
+    SELECT
+      p.date AS date,
+      'Payment for Invoice #' || i.number AS description,
+      COALESCE(NULLIF(p.reference, ''), i.number) AS reference,
+      'payment' AS type,
+      0 AS debit,
+      p.amount AS credit,
+      3 AS sort_order,
+      p.created_at
+    FROM payments p
+    JOIN invoices i ON i.id = p.invoice_id
+    WHERE
+      p.client_id = p_client_id
+      AND p.date BETWEEN p_start_date AND p_end_date
+      AND p.user_id = auth.uid()
+  )
+  SELECT
+    t.date,
+    t.description,
+    t.reference,
+    t.type,
+    t.debit,
+    t.credit,
+    SUM(t.debit - t.credit) OVER (
+      ORDER BY t.date, t.sort_order, t.created_at NULLS FIRST
+      ROWS UNBOUNDED PRECEDING
+    ) AS running_balance
+  FROM transactions t
+  ORDER BY t.date, t.sort_order, t.created_at NULLS FIRST;
+END;
+$$;
+
+-- Grant access to authenticated users
+GRANT EXECUTE ON FUNCTION get_client_statement TO authenticated;
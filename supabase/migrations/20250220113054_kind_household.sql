@@ -0,0 +1,207 @@
+/*
+  # Link Students To Billing Clients
+
+  1. New Tables
+    - `student_guardians`
+      - `id` (uuid, primary key)
+      - `student_id` (uuid, references students)
+      - `client_id` (uuid, references clients)
+      - `relationship` (text, e.g. mother/father/guardian)
+      - `fee_share` (numeric, percentage of the learner's fees billed to this client)
+      - `user_id` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Add optional `student_id` to invoices so charges can be attributed to a learner
+
+  3. Functions
+    - get_family_balances(p_client_id uuid): balances for every learner in the
+      client's household, per billing client, plus charges not tied to a learner
+    - set_student_guardians(p_student_id uuid, p_guardians jsonb): replaces a
+      learner's links in one transaction, so a failed save keeps the old ones
+
+  4. Security
+    - Enable RLS on student_guardians table
+    - Add policies for authenticated users to manage their own links
+*/
+
+-- Create student guardians table
+CREATE TABLE IF NOT EXISTS student_guardians (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid REFERENCES students(id) ON DELETE CASCADE NOT NULL,
+  client_id uuid REFERENCES clients(id) ON DELETE CASCADE NOT NULL,
+  relationship text,
+  fee_share numeric NOT NULL DEFAULT 100,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT fee_share_check CHECK (fee_share > 0 AND fee_share <= 100),
+  UNIQUE(student_id, client_id)
+);
+
+-- Create indexes for household lookups
+CREATE INDEX IF NOT EXISTS student_guardians_client_id_idx ON student_guardians(client_id);
+
+-- Attribute invoices to a learner
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS student_id uuid REFERENCES students(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE student_guardians ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for student guardians
+CREATE POLICY "Users can create their own student guardians"
+  ON student_guardians
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own student guardians"
+  ON student_guardians
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own student guardians"
+  ON student_guardians
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own student guardians"
+  ON student_guardians
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Function to replace a learner's guardian links with the given set. Runs as
+-- the caller, so the table's policies still apply
+CREATE OR REPLACE FUNCTION set_student_guardians(p_student_id uuid, p_guardians jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  -- Remove the links that are no longer in the set
+  DELETE FROM student_guardians sg
+  WHERE
+    sg.student_id = p_student_id
+    AND sg.client_id NOT IN (
+      SELECT (g->>'client_id')::uuid FROM jsonb_array_elements(p_guardians) g
+    );
+
+  -- Add new links and update the kept ones
+  INSERT INTO student_guardians (student_id, client_id, relationship, fee_share, user_id)
+  SELECT
+    p_student_id,
+    (g->>'client_id')::uuid,
+    NULLIF(trim(g->>'relationship'), ''),
+    (g->>'fee_share')::numeric,
+    auth.uid()
+  FROM jsonb_array_elements(p_guardians) g
+  ON CONFLICT (student_id, client_id) DO UPDATE SET
+    relationship = EXCLUDED.relationship,
+    fee_share = EXCLUDED.fee_share,
+    updated_at = now();
+END;
+$$;
+
+-- Function to get balances across a client's household
+CREATE OR REPLACE FUNCTION get_family_balances(p_client_id uuid)
+RETURNS TABLE (
+  student_id uuid,
+  student_name text,
+  grade int,
+  client_id uuid,
+  client_name text,
+  fee_share numeric,
+  balance_due numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH family_students AS (
+    -- Learners billed to this client
+    SELECT DISTINCT sg.student_id
+    FROM student_guardians sg
+    WHERE
+      sg.client_id = p_client_id
+      AND sg.user_id = auth.uid()
+  ),
+  family_clients AS (
+    -- This client and every other guardian of the same learners
+    SELECT p_client_id AS client_id
+    UNION
+    SELECT sg.client_id
+    FROM student_guardians sg
+    JOIN family_students fs ON fs.student_id = sg.student_id
+    WHERE sg.user_id = auth.uid()
+  ),
+  invoice_balances AS (
+    SELECT
+      i.client_id,
+      i.student_id,
+      i.total
+        - COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.invoice_id = i.id), 0)
+        - COALESCE((
+          SELECT SUM(cn.total)
+          FROM credit_notes cn
+          WHERE cn.invoice_id = i.id AND cn.status = 'issued'
+        ), 0) AS balance
+    FROM invoices i
+    JOIN family_clients fc ON fc.client_id = i.client_id
+    WHERE
+      i.status <> 'draft'
+      AND i.user_id = auth.uid()
+  )
+  -- Every learner/guardian link in the household
+  SELECT
+    s.id,
+    s.first_name || ' ' || s.last_name,
+    s.grade,
+    c.id,
+    c.name,
+    sg.fee_share,
+    COALESCE(SUM(ib.balance), 0)
+  FROM student_guardians sg
+  JOIN family_students fs ON fs.student_id = sg.student_id
+  JOIN students s ON s.id = sg.student_id
+  JOIN clients c ON c.id = sg.client_id
+  LEFT JOIN invoice_balances ib
+    ON ib.student_id = sg.student_id
+    AND ib.client_id = sg.client_id
+  WHERE sg.user_id = auth.uid()
+  GROUP BY s.id, s.first_name, s.last_name, s.grade, c.id, c.name, sg.fee_share
+
+  UNION ALL
+
+  -- Charges not tied to a linked learner
+  SELECT
+    s.id,
+    COALESCE(s.first_name || ' ' || s.last_name, 'General charges'),
+    s.grade,
+    c.id,
+    c.name,
+    NULL::numeric,
+    SUM(ib.balance)
+  FROM invoice_balances ib
+  JOIN clients c ON c.id = ib.client_id
+  LEFT JOIN students s ON s.id = ib.student_id
+  WHERE NOT EXISTS (
+    SELECT 1 FROM student_guardians sg
+    WHERE sg.student_id = ib.student_id
+    AND sg.client_id = ib.client_id
+  )
+  GROUP BY s.id, s.first_name, s.last_name, s.grade, c.id, c.name
+  HAVING SUM(ib.balance) <> 0;
+END;
+$$;
+
+-- Grant access to authenticated users
+GRANT EXECUTE ON FUNCTION set_student_guardians(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_family_balances TO authenticated;
@@ -0,0 +1,143 @@
+/*
+  # Add Fee Structure Schema
+
+  1. New Tables
+    - `fee_items`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `grade` (int, null when the item applies to every grade)
+      - `amount` (numeric, charged per term)
+      - `category` (text: tuition/extra)
+      - `is_active` (boolean)
+      - `user_id` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+    - `student_fee_extras`
+      - `id` (uuid, primary key)
+      - `student_id` (uuid, references students)
+      - `fee_item_id` (uuid, references fee_items)
+      - `user_id` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+
+    - `fee_discounts`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `discount_type` (text: sibling/early_payment)
+      - `percentage` (numeric)
+      - `min_child_position` (int, sibling discounts start at this child in a family)
+      - `user_id` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `fee_term` and `fee_year` to invoices, set on invoices generated
+      from the fee structure
+    - A learner's guardian can only be invoiced once for a term
+
+  3. Security
+    - Enable RLS on all tables
+    - Add policies for authenticated users to manage their own fee setup
+*/
+
+-- Create fee items table
+CREATE TABLE IF NOT EXISTS fee_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  grade int,
+  amount numeric NOT NULL,
+  category text NOT NULL DEFAULT 'tuition',
+  is_active boolean NOT NULL DEFAULT true,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT amount_check CHECK (amount >= 0),
+  CONSTRAINT category_check CHECK (category IN ('tuition', 'extra'))
+);
+
+-- Create student fee extras table
+CREATE TABLE IF NOT EXISTS student_fee_extras (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid REFERENCES students(id) ON DELETE CASCADE NOT NULL,
+  fee_item_id uuid REFERENCES fee_items(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(student_id, fee_item_id)
+);
+
+-- Create fee discounts table
+CREATE TABLE IF NOT EXISTS fee_discounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  discount_type text NOT NULL,
+  percentage numeric NOT NULL,
+  min_child_position int NOT NULL DEFAULT 2,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT discount_type_check CHECK (discount_type IN ('sibling', 'early_payment')),
+  CONSTRAINT percentage_check CHECK (percentage > 0 AND percentage <= 100),
+  CONSTRAINT min_child_position_check CHECK (min_child_position >= 2)
+);
+
+-- Record the term an invoice was generated for
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS fee_term int,
+  ADD COLUMN IF NOT EXISTS fee_year int;
+
+ALTER TABLE invoices ADD CONSTRAINT fee_term_check
+  CHECK (
+    (fee_term BETWEEN 1 AND 4 AND fee_year IS NOT NULL)
+    OR (fee_term IS NULL AND fee_year IS NULL)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS invoices_fee_term_idx
+  ON invoices(student_id, client_id, fee_year, fee_term)
+  WHERE fee_term IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE fee_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_fee_extras ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fee_discounts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for fee items
+CREATE POLICY "Users can create their own fee items"
+  ON fee_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own fee items"
+  ON fee_items
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own fee items"
+  ON fee_items
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own fee items"
+  ON fee_items
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create policies for student fee extras
+CREATE POLICY "Users can manage their own student fee extras"
+  ON student_fee_extras
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policies for fee discounts
+CREATE POLICY "Users can manage their own fee discounts"
+  ON fee_discounts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+/*
+  # Add Assessment Names For Class Mark Entry
+
+  1. Changes
+    - Add optional `name` to assessments (e.g. "Test 1", "June Exam") so a
+      single class task can be told apart from others of the same type
+    - Add an index for loading one task's marks for a whole class
+*/
+
+-- Name the assessment task
+ALTER TABLE assessments ADD COLUMN IF NOT EXISTS name text;
+
+-- Index for class mark entry lookups
+CREATE INDEX IF NOT EXISTS assessments_subject_term_year_idx
+  ON assessments(subject_id, term, year, assessment_type);
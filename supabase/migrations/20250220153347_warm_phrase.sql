@@ -0,0 +1,92 @@
+/*
+  # Teacher Comment Bank
+
+  1. Changes
+    - Add `user_id` to comments_library so teachers can keep their own
+      comments alongside the shared (user_id IS NULL) library
+    - Add indexes for looking up comments by subject, language and level
+
+  2. Functions
+    - `generate_subject_comment` now falls back to general comments for
+      the performance level when no subject-specific comment exists, only
+      considers shared comments and the caller's own, and returns NULL
+      when nothing matches
+
+  3. Security
+    - Users can view shared comments and their own
+    - Users can create, update and delete only their own comments
+*/
+
+-- Add owner to comments
+ALTER TABLE comments_library
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS comments_library_user_id_idx ON comments_library(user_id);
+CREATE INDEX IF NOT EXISTS comments_library_lookup_idx
+  ON comments_library(language, performance_level, subject_id);
+
+-- Replace the read-only policy
+DROP POLICY IF EXISTS "Users can view comments library" ON comments_library;
+
+CREATE POLICY "Users can view shared and their own comments"
+  ON comments_library FOR SELECT
+  TO authenticated
+  USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own comments"
+  ON comments_library FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own comments"
+  ON comments_library FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own comments"
+  ON comments_library FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Suggest a comment for a mark, preferring subject-specific comments
+CREATE OR REPLACE FUNCTION generate_subject_comment(
+  p_subject_id UUID,
+  p_score numeric,
+  p_language text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_performance_level text;
+  v_comment text;
+BEGIN
+  -- Determine performance level
+  v_performance_level := CASE
+    WHEN p_score >= 80 THEN 'excellent'
+    WHEN p_score >= 70 THEN 'good'
+    WHEN p_score >= 50 THEN 'average'
+    ELSE 'needs_improvement'
+  END;
+
+  -- Select appropriate comment
+  SELECT comment_text
+  INTO v_comment
+  FROM comments_library
+  WHERE
+    (subject_id = p_subject_id OR subject_id IS NULL)
+    AND language = p_language
+    AND performance_level = v_performance_level
+    AND (user_id IS NULL OR user_id = auth.uid())
+  ORDER BY (subject_id IS NULL), random()
+  LIMIT 1;
+
+  RETURN v_comment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION generate_subject_comment(UUID, numeric, text) TO authenticated;
@@ -0,0 +1,42 @@
+/*
+  # Draft Report Cards With Missing Marks
+
+  1. Changes
+    - Allow `term_mark` and `year_to_date` on report_card_subjects to be NULL
+      so batch-generated drafts can list every subject before marks exist
+    - Report cards cannot be published while any subject mark is missing
+
+  2. Functions
+    - check_report_card_marks() trigger on report_cards status changes
+*/
+
+-- Allow drafts without marks
+ALTER TABLE report_card_subjects ALTER COLUMN term_mark DROP NOT NULL;
+ALTER TABLE report_card_subjects ALTER COLUMN year_to_date DROP NOT NULL;
+
+-- Function to stop publishing report cards with missing marks
+CREATE OR REPLACE FUNCTION check_report_card_marks()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'published' AND OLD.status IS DISTINCT FROM 'published' THEN
+    IF EXISTS (
+      SELECT 1
+      FROM report_card_subjects
+      WHERE
+        report_card_id = NEW.id
+        AND (term_mark IS NULL OR year_to_date IS NULL)
+    ) THEN
+      RAISE EXCEPTION 'Report card % has subjects without marks', NEW.id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for publishing
+DROP TRIGGER IF EXISTS report_card_marks_trigger ON report_cards;
+CREATE TRIGGER report_card_marks_trigger
+  BEFORE UPDATE OF status ON report_cards
+  FOR EACH ROW
+  EXECUTE FUNCTION check_report_card_marks();
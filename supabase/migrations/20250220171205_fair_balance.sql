@@ -0,0 +1,484 @@
+/*
+  # Apply Credit Notes Against Invoice Balances
+
+  1. New Tables
+    - `credit_allocations`
+      - `id` (uuid, primary key)
+      - `credit_note_id` (uuid, references credit_notes)
+      - `invoice_id` (uuid, references invoices)
+      - `amount` (numeric, portion of the credit note applied to the invoice)
+      - `date` (date)
+      - `user_id` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `keep_surplus_as_credit` to credit_notes. Issuing a credit note for
+      more than its invoice's outstanding balance is refused unless this is set,
+      in which case the surplus stays on the client's account as credit
+    - Issuing a credit note allocates it to its invoice automatically
+    - Invoice status treats allocated credit like payments, so a fully
+      credited invoice becomes `paid`
+    - Existing issued credit notes are allocated to their invoices
+    - `client_statement_summary` now accounts for payments and credit notes
+
+  3. Functions
+    - get_invoice_balance(p_invoice_id uuid): what is still owed on an
+      invoice. Used by the functions and triggers below; not callable by users
+    - get_client_credit(p_client_id uuid): unallocated credit on a client account
+    - apply_client_credit(p_invoice_id uuid): puts available client credit
+      toward an invoice, oldest credit note first
+    - update_invoice_payment_status and get_family_balances use allocations
+
+  4. Security
+    - Enable RLS on credit_allocations table
+    - Add policies for authenticated users to manage their own allocations
+*/
+
+-- Record whether a credit note may exceed its invoice's balance
+ALTER TABLE credit_notes
+  ADD COLUMN IF NOT EXISTS keep_surplus_as_credit boolean NOT NULL DEFAULT false;
+
+-- Create credit allocations table
+CREATE TABLE IF NOT EXISTS credit_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id uuid REFERENCES credit_notes(id) ON DELETE CASCADE NOT NULL,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE CASCADE NOT NULL,
+  amount numeric NOT NULL,
+  date date NOT NULL DEFAULT current_date,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT amount_check CHECK (amount > 0)
+);
+
+-- Create indexes for balance lookups
+CREATE INDEX IF NOT EXISTS credit_allocations_invoice_id_idx ON credit_allocations(invoice_id);
+CREATE INDEX IF NOT EXISTS credit_allocations_credit_note_id_idx ON credit_allocations(credit_note_id);
+
+-- Enable RLS
+ALTER TABLE credit_allocations ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for credit allocations
+CREATE POLICY "Users can create their own credit allocations"
+  ON credit_allocations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own credit allocations"
+  ON credit_allocations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own credit allocations"
+  ON credit_allocations
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Function to get what is still owed on an invoice
+CREATE OR REPLACE FUNCTION get_invoice_balance(p_invoice_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance numeric;
+BEGIN
+  SELECT
+    i.total
+      - COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.invoice_id = i.id), 0)
+      - COALESCE((SELECT SUM(ca.amount) FROM credit_allocations ca WHERE ca.invoice_id = i.id), 0)
+  INTO v_balance
+  FROM invoices i
+  WHERE i.id = p_invoice_id;
+
+  RETURN COALESCE(v_balance, 0);
+END;
+$$;
+
+-- Function to derive an invoice's status from its payments and credits
+CREATE OR REPLACE FUNCTION update_invoice_payment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_amount_settled numeric;
+  v_status text;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_amount_settled := v_invoice.total - get_invoice_balance(p_invoice_id);
+
+  IF v_amount_settled > 0 AND v_amount_settled >= v_invoice.total THEN
+    v_status := 'paid';
+  ELSIF v_amount_settled > 0 THEN
+    v_status := 'partially_paid';
+  ELSIF v_invoice.status IN ('paid', 'partially_paid') THEN
+    -- All payments and credits were removed, so the invoice is owing again
+    v_status := CASE
+      WHEN v_invoice.due_date < current_date THEN 'overdue'
+      ELSE 'sent'
+    END;
+  ELSE
+    -- Nothing settled yet; leave draft/sent/overdue as they are
+    v_status := v_invoice.status;
+  END IF;
+
+  IF v_status <> v_invoice.status THEN
+    UPDATE invoices
+    SET
+      status = v_status,
+      updated_at = now()
+    WHERE id = p_invoice_id;
+  END IF;
+END;
+$$;
+
+-- Trigger function for credit allocation changes
+CREATE OR REPLACE FUNCTION handle_credit_allocation_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM update_invoice_payment_status(OLD.invoice_id);
+  ELSE
+    PERFORM update_invoice_payment_status(NEW.invoice_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Re-evaluate the invoice status whenever credit is applied or removed
+DROP TRIGGER IF EXISTS credit_allocation_status_trigger ON credit_allocations;
+CREATE TRIGGER credit_allocation_status_trigger
+AFTER INSERT OR DELETE ON credit_allocations
+FOR EACH ROW
+EXECUTE FUNCTION handle_credit_allocation_change();
+
+-- Function to refuse over-credits before a credit note is issued
+CREATE OR REPLACE FUNCTION check_credit_note_issue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance numeric;
+BEGIN
+  IF NEW.status = 'issued'
+    AND (TG_OP = 'INSERT' OR OLD.status <> 'issued')
+    AND NEW.invoice_id IS NOT NULL
+  THEN
+    v_balance := GREATEST(get_invoice_balance(NEW.invoice_id), 0);
+
+    IF NEW.total > v_balance AND NOT NEW.keep_surplus_as_credit THEN
+      RAISE EXCEPTION 'Credit note total % exceeds the invoice balance of %', NEW.total, v_balance;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS credit_note_issue_check_trigger ON credit_notes;
+CREATE TRIGGER credit_note_issue_check_trigger
+BEFORE INSERT OR UPDATE OF status ON credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION check_credit_note_issue();
+
+-- Function to apply a newly issued credit note to its invoice
+CREATE OR REPLACE FUNCTION allocate_issued_credit_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amount numeric;
+BEGIN
+  IF NEW.status = 'issued'
+    AND (TG_OP = 'INSERT' OR OLD.status <> 'issued')
+    AND NEW.invoice_id IS NOT NULL
+  THEN
+    -- Anything beyond the invoice balance stays on the client's account
+    v_amount := LEAST(NEW.total, GREATEST(get_invoice_balance(NEW.invoice_id), 0));
+
+    IF v_amount > 0 THEN
+      INSERT INTO credit_allocations (credit_note_id, invoice_id, amount, date, user_id)
+      VALUES (NEW.id, NEW.invoice_id, v_amount, NEW.date, NEW.user_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS credit_note_allocation_trigger ON credit_notes;
+CREATE TRIGGER credit_note_allocation_trigger
+AFTER INSERT OR UPDATE OF status ON credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION allocate_issued_credit_note();
+
+-- Function to get unallocated credit on a client's account
+CREATE OR REPLACE FUNCTION get_client_credit(p_client_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit numeric;
+BEGIN
+  SELECT COALESCE(SUM(
+    cn.total - COALESCE((
+      SELECT SUM(ca.amount)
+      FROM credit_allocations ca
+      WHERE ca.credit_note_id = cn.id
+    ), 0)
+  ), 0)
+  INTO v_credit
+  FROM credit_notes cn
+  WHERE
+    cn.client_id = p_client_id
+    AND cn.status = 'issued'
+    AND cn.user_id = auth.uid();
+
+  RETURN v_credit;
+END;
+$$;
+
+-- Function to put available client credit toward an invoice
+CREATE OR REPLACE FUNCTION apply_client_credit(p_invoice_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_balance numeric;
+  v_applied numeric := 0;
+  v_amount numeric;
+  v_credit record;
+BEGIN
+  SELECT * INTO v_invoice
+  FROM invoices
+  WHERE id = p_invoice_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  v_balance := get_invoice_balance(p_invoice_id);
+
+  -- Use the oldest credit first
+  FOR v_credit IN
+    SELECT
+      cn.id,
+      cn.total - COALESCE((
+        SELECT SUM(ca.amount)
+        FROM credit_allocations ca
+        WHERE ca.credit_note_id = cn.id
+      ), 0) AS remaining
+    FROM credit_notes cn
+    WHERE
+      cn.client_id = v_invoice.client_id
+      AND cn.status = 'issued'
+      AND cn.user_id = auth.uid()
+    ORDER BY cn.date, cn.created_at
+  LOOP
+    EXIT WHEN v_balance <= 0;
+    CONTINUE WHEN v_credit.remaining <= 0;
+
+    v_amount := LEAST(v_credit.remaining, v_balance);
+
+    INSERT INTO credit_allocations (credit_note_id, invoice_id, amount, user_id)
+    VALUES (v_credit.id, p_invoice_id, v_amount, auth.uid());
+
+    v_balance := v_balance - v_amount;
+    v_applied := v_applied + v_amount;
+  END LOOP;
+
+  RETURN v_applied;
+END;
+$$;
+
+-- Allocate credit notes that were issued before allocations existed
+DO $$
+DECLARE
+  v_credit_note record;
+  v_amount numeric;
+BEGIN
+  FOR v_credit_note IN
+    SELECT * FROM credit_notes
+    WHERE status = 'issued' AND invoice_id IS NOT NULL
+    ORDER BY date, created_at
+  LOOP
+    v_amount := LEAST(v_credit_note.total, GREATEST(get_invoice_balance(v_credit_note.invoice_id), 0));
+
+    IF v_amount > 0 THEN
+      INSERT INTO credit_allocations (credit_note_id, invoice_id, amount, date, user_id)
+      VALUES (v_credit_note.id, v_credit_note.invoice_id, v_amount, v_credit_note.date, v_credit_note.user_id);
+    END IF;
+  END LOOP;
+END $$;
+
+-- Rebuild the statement summary from payments and credit notes
+DROP VIEW IF EXISTS client_statement_summary;
+CREATE VIEW client_statement_summary AS
+SELECT
+  c.id AS client_id,
+  c.name AS client_name,
+  COUNT(DISTINCT i.id) AS total_invoices,
+  COALESCE(SUM(i.total), 0) AS total_invoiced,
+  COALESCE((
+    SELECT SUM(p.amount) FROM payments p WHERE p.client_id = c.id
+  ), 0) AS total_paid,
+  COALESCE((
+    SELECT SUM(cn.total) FROM credit_notes cn
+    WHERE cn.client_id = c.id AND cn.status = 'issued'
+  ), 0) AS total_credited,
+  COALESCE(SUM(i.total), 0)
+    - COALESCE((
+      SELECT SUM(p.amount) FROM payments p WHERE p.client_id = c.id
+    ), 0)
+    - COALESCE((
+      SELECT SUM(cn.total) FROM credit_notes cn
+      WHERE cn.client_id = c.id AND cn.status = 'issued'
+    ), 0) AS total_outstanding,
+  MIN(i.date) AS first_invoice_date,
+  MAX(i.date) AS last_invoice_date
+FROM clients c
+LEFT JOIN invoices i ON c.id = i.client_id AND i.status <> 'draft'
+WHERE c.user_id = auth.uid()
+GROUP BY c.id, c.name;
+
+-- Grant access to the view
+GRANT SELECT ON client_statement_summary TO authenticated;
+
+-- Household balances now follow allocated credit
+CREATE OR REPLACE FUNCTION get_family_balances(p_client_id uuid)
+RETURNS TABLE (
+  student_id uuid,
+  student_name text,
+  grade int,
+  client_id uuid,
+  client_name text,
+  fee_share numeric,
+  balance_due numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH family_students AS (
+    -- Learners billed to this client
+    SELECT DISTINCT sg.student_id
+    FROM student_guardians sg
+    WHERE
+      sg.client_id = p_client_id
+      AND sg.user_id = auth.uid()
+  ),
+  family_clients AS (
+    -- This client and every other guardian of the same learners
+    SELECT p_client_id AS client_id
+    UNION
+    SELECT sg.client_id
+    FROM student_guardians sg
+    JOIN family_students fs ON fs.student_id = sg.student_id
+    WHERE sg.user_id = auth.uid()
+  ),
+  invoice_balances AS (
+    SELECT
+      i.client_id,
+      i.student_id,
+      get_invoice_balance(i.id) AS balance
+    FROM invoices i
+    JOIN family_clients fc ON fc.client_id = i.client_id
+    WHERE
+      i.status <> 'draft'
+      AND i.user_id = auth.uid()
+  )
+  -- Every learner/guardian link in the household
+  SELECT
+    s.id,
+    s.first_name || ' ' || s.last_name,
+    s.grade,
+    c.id,
+    c.name,
+    sg.fee_share,
+    COALESCE(SUM(ib.balance), 0)
+  FROM student_guardians sg
+  JOIN family_students fs ON fs.student_id = sg.student_id
+  JOIN students s ON s.id = sg.student_id
+  JOIN clients c ON c.id = sg.client_id
+  LEFT JOIN invoice_balances ib
+    ON ib.student_id = sg.student_id
+    AND ib.client_id = sg.client_id
+  WHERE sg.user_id = auth.uid()
+  GROUP BY s.id, s.first_name, s.last_name, s.grade, c.id, c.name, sg.fee_share
+
+  UNION ALL
+
+  -- Charges not tied to a linked learner
+  SELECT
+    s.id,
+    COALESCE(s.first_name || ' ' || s.last_name, 'General charges'),
+    s.grade,
+    c.id,
+    c.name,
+    NULL::numeric,
+    SUM(ib.balance)
+  FROM invoice_balances ib
+  JOIN clients c ON c.id = ib.client_id
+  LEFT JOIN students s ON s.id = ib.student_id
+  WHERE NOT EXISTS (
+    SELECT 1 FROM student_guardians sg
+    WHERE sg.student_id = ib.student_id
+    AND sg.client_id = ib.client_id
+  )
+  GROUP BY s.id, s.first_name, s.last_name, s.grade, c.id, c.name
+  HAVING SUM(ib.balance) <> 0
+
+  UNION ALL
+
+  -- Credit on account not yet applied to an invoice
+  SELECT
+    NULL::uuid,
+    'Unapplied credit',
+    NULL::int,
+    c.id,
+    c.name,
+    NULL::numeric,
+    -get_client_credit(c.id)
+  FROM family_clients fc
+  JOIN clients c ON c.id = fc.client_id
+  WHERE get_client_credit(c.id) > 0;
+END;
+$$;
+
+-- Bring existing invoices in line with their payments and credits
+SELECT update_invoice_payment_status(id)
+FROM invoices
+WHERE status <> 'draft';
+
+-- The balance helper reads any invoice, so only the functions above use it
+REVOKE EXECUTE ON FUNCTION get_invoice_balance(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Grant access to authenticated users
+GRANT EXECUTE ON FUNCTION get_client_credit TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_client_credit TO authenticated;
@@ -0,0 +1,235 @@
+/*
+  # Credit Note Issue Workflow and Voiding
+
+  1. New Tables
+    - `credit_note_events` - Audit trail of credit note changes
+      - `id` (uuid, primary key)
+      - `credit_note_id` (uuid, references credit_notes)
+      - `event_type` (text: created/issued/voided)
+      - `notes` (text)
+      - `user_id` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Credit notes can be `void` as well as draft/issued
+    - Add `issued_at`, `voided_at` and `void_reason` to credit_notes
+    - Issued and void credit notes are locked: their details and items can
+      no longer change, and they cannot be deleted. An issued note can only
+      be voided, which removes its credit from any invoices
+    - Status changes are recorded in credit_note_events
+
+  3. Security
+    - Enable RLS on credit_note_events table
+    - Add policy for authenticated users to view their own events; events are
+      only written by triggers
+*/
+
+-- Allow the void status
+ALTER TABLE credit_notes DROP CONSTRAINT IF EXISTS status_check;
+ALTER TABLE credit_notes ADD CONSTRAINT status_check
+  CHECK (status IN ('draft', 'issued', 'void'));
+
+-- Track when and why a credit note changed status
+ALTER TABLE credit_notes
+  ADD COLUMN IF NOT EXISTS issued_at timestamptz,
+  ADD COLUMN IF NOT EXISTS voided_at timestamptz,
+  ADD COLUMN IF NOT EXISTS void_reason text;
+
+-- Record when existing notes were issued
+UPDATE credit_notes
+SET issued_at = updated_at
+WHERE status = 'issued' AND issued_at IS NULL;
+
+-- Create credit note events table
+CREATE TABLE IF NOT EXISTS credit_note_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id uuid REFERENCES credit_notes(id) ON DELETE CASCADE NOT NULL,
+  event_type text NOT NULL,
+  notes text,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT event_type_check CHECK (event_type IN ('created', 'issued', 'voided'))
+);
+
+-- Create index for history lookups
+CREATE INDEX IF NOT EXISTS credit_note_events_credit_note_id_idx ON credit_note_events(credit_note_id);
+
+-- Enable RLS
+ALTER TABLE credit_note_events ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for credit note events
+CREATE POLICY "Users can view their own credit note events"
+  ON credit_note_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM credit_notes
+      WHERE credit_notes.id = credit_note_events.credit_note_id
+      AND credit_notes.user_id = auth.uid()
+    )
+  );
+
+-- Function to keep issued and void credit notes unchanged
+CREATE OR REPLACE FUNCTION check_credit_note_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status <> 'draft' THEN
+      RAISE EXCEPTION 'Credit note % has been issued and cannot be deleted; void it instead', OLD.number;
+    END IF;
+
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status = 'void' THEN
+    RAISE EXCEPTION 'Credit note % is void and cannot be changed', OLD.number;
+  END IF;
+
+  IF OLD.status = 'issued' THEN
+    IF NEW.status <> 'void' THEN
+      RAISE EXCEPTION 'Credit note % has been issued and cannot be changed', OLD.number;
+    END IF;
+
+    IF COALESCE(trim(NEW.void_reason), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to void credit note %', OLD.number;
+    END IF;
+
+    -- Voiding may only record the reason; the credited amounts stay as issued
+    IF (NEW.number, NEW.invoice_id, NEW.client_id, NEW.date, NEW.reason, NEW.subtotal, NEW.tax_rate, NEW.tax_amount, NEW.total)
+      IS DISTINCT FROM
+      (OLD.number, OLD.invoice_id, OLD.client_id, OLD.date, OLD.reason, OLD.subtotal, OLD.tax_rate, OLD.tax_amount, OLD.total)
+    THEN
+      RAISE EXCEPTION 'Credit note % has been issued and cannot be changed', OLD.number;
+    END IF;
+
+    NEW.voided_at := now();
+  END IF;
+
+  IF OLD.status = 'draft' AND NEW.status = 'void' THEN
+    RAISE EXCEPTION 'Draft credit notes can be deleted instead of voided';
+  END IF;
+
+  IF OLD.status = 'draft' AND NEW.status = 'issued' THEN
+    IF NEW.total <= 0 THEN
+      RAISE EXCEPTION 'Credit note % has no amount to issue', NEW.number;
+    END IF;
+
+    NEW.issued_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS credit_note_lock_trigger ON credit_notes;
+CREATE TRIGGER credit_note_lock_trigger
+BEFORE UPDATE OR DELETE ON credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION check_credit_note_lock();
+
+-- Function to keep the items of issued and void credit notes unchanged
+CREATE OR REPLACE FUNCTION check_credit_note_items_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_credit_note_id uuid;
+  v_status text;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_credit_note_id := OLD.credit_note_id;
+  ELSE
+    v_credit_note_id := NEW.credit_note_id;
+  END IF;
+
+  SELECT status INTO v_status FROM credit_notes WHERE id = v_credit_note_id;
+
+  IF v_status IS NOT NULL AND v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Items of an issued credit note cannot be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS credit_note_items_lock_trigger ON credit_note_items;
+CREATE TRIGGER credit_note_items_lock_trigger
+BEFORE INSERT OR UPDATE OR DELETE ON credit_note_items
+FOR EACH ROW
+EXECUTE FUNCTION check_credit_note_items_lock();
+
+-- Totals trigger: use OLD on delete so removing a draft item recalculates too
+CREATE OR REPLACE FUNCTION update_credit_note_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_credit_note_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_credit_note_id := OLD.credit_note_id;
+  ELSE
+    v_credit_note_id := NEW.credit_note_id;
+  END IF;
+
+  -- Update the credit note totals
+  UPDATE credit_notes
+  SET
+    subtotal = (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM credit_note_items
+      WHERE credit_note_id = v_credit_note_id
+    ),
+    updated_at = now()
+  WHERE id = v_credit_note_id AND status = 'draft';
+
+  -- Recalculate tax and total
+  UPDATE credit_notes
+  SET
+    tax_amount = subtotal * (tax_rate / 100),
+    total = subtotal + (subtotal * (tax_rate / 100))
+  WHERE id = v_credit_note_id AND status = 'draft';
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to record status changes and reverse the credit of voided notes
+CREATE OR REPLACE FUNCTION log_credit_note_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO credit_note_events (credit_note_id, event_type, user_id)
+    VALUES (NEW.id, 'created', auth.uid());
+
+    IF NEW.status = 'issued' THEN
+      INSERT INTO credit_note_events (credit_note_id, event_type, user_id)
+      VALUES (NEW.id, 'issued', auth.uid());
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'issued' THEN
+      INSERT INTO credit_note_events (credit_note_id, event_type, user_id)
+      VALUES (NEW.id, 'issued', auth.uid());
+    ELSIF NEW.status = 'void' THEN
+      -- Take the credit back off any invoices it was applied to
+      DELETE FROM credit_allocations WHERE credit_note_id = NEW.id;
+
+      INSERT INTO credit_note_events (credit_note_id, event_type, notes, user_id)
+      VALUES (NEW.id, 'voided', NEW.void_reason, auth.uid());
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS credit_note_event_trigger ON credit_notes;
+CREATE TRIGGER credit_note_event_trigger
+AFTER INSERT OR UPDATE OF status ON credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION log_credit_note_event();
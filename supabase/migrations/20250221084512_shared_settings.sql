@@ -0,0 +1,122 @@
+/*
+  # Organisation Settings
+
+  1. New Tables
+    - `organisation_settings` - Company, contact, bank and invoice settings
+      used on every document, so they follow the user across browsers
+      - `id` (uuid, primary key)
+      - `currency_code` (text)
+      - `company_details` (jsonb)
+      - `contact_details` (jsonb)
+      - `bank_details` (jsonb)
+      - `invoice_settings` (jsonb)
+      - `logo_path` (text, object in the branding bucket)
+      - `school_logo_path` (text, object in the branding bucket)
+      - `user_id` (uuid, references auth.users, one row per user)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Storage
+    - `branding` bucket for company and school logos, stored under the
+      owner's user id
+
+  3. Security
+    - Enable RLS on organisation_settings table
+    - Add policies for authenticated users to manage their own settings
+    - Add storage policies for authenticated users to manage their own logos
+*/
+
+-- Create organisation settings table
+CREATE TABLE IF NOT EXISTS organisation_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency_code text NOT NULL DEFAULT 'ZAR',
+  company_details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  contact_details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  bank_details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  invoice_settings jsonb NOT NULL DEFAULT '{}'::jsonb,
+  logo_path text,
+  school_logo_path text,
+  user_id uuid REFERENCES auth.users(id) NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE organisation_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for organisation settings
+CREATE POLICY "Users can create their own settings"
+  ON organisation_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own settings"
+  ON organisation_settings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+  ON organisation_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_organisation_settings_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS organisation_settings_timestamp_trigger ON organisation_settings;
+CREATE TRIGGER organisation_settings_timestamp_trigger
+  BEFORE UPDATE ON organisation_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_organisation_settings_timestamp();
+
+-- Create private bucket for logos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('branding', 'branding', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create storage policies for logos; the first folder is the owner's user id
+CREATE POLICY "Users can upload their own logos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can view their own logos"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update their own logos"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete their own logos"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
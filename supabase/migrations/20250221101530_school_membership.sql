@@ -0,0 +1,1284 @@
+/*
+  # School Organisations With Membership and Roles
+
+  1. New Tables
+    - `organisations` - A school sharing one set of records
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+    - `organisation_members` - Who belongs to a school and with which role
+      - `id` (uuid, primary key)
+      - `organisation_id` (uuid, references organisations)
+      - `user_id` (uuid, references auth.users, one school per user)
+      - `role` (text: admin/accountant/teacher/read_only)
+      - `created_at` (timestamptz)
+
+    - `organisation_invites` - Staff invited by email who have not signed in yet
+      - `id` (uuid, primary key)
+      - `organisation_id` (uuid, references organisations)
+      - `email` (text)
+      - `role` (text)
+      - `invited_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `organisation_id` to every table that was scoped by `user_id`.
+      New rows take the organisation of the user creating them; `user_id`
+      is kept as the record of who created the row
+    - Every existing user becomes the admin of their own organisation and
+      their records move into it
+    - Organisation settings and logos belong to the organisation instead of
+      the user. New logos are stored under the organisation's folder; logos
+      already uploaded keep their path in the uploader's folder
+    - Statement, balance, revenue, email and comment functions read the
+      records of the caller's organisation. get_invoice_balance reads any
+      school's invoices, so it stays callable only from these functions
+
+  3. Functions
+    - current_organisation_id() - The caller's organisation
+    - has_organisation_role(organisation_id, roles) - Whether the caller has
+      one of the roles in the organisation
+    - ensure_organisation() - Joins a pending invite or creates a new
+      organisation the first time someone signs in, and returns the
+      caller's membership
+    - get_organisation_members() - Members with their email addresses
+
+  4. Security
+    - All policies are rewritten around membership:
+      - admin: everything, including settings and members
+      - accountant (bursar): invoices, clients, payments, credit notes,
+        fees and learners
+      - teacher: assessments, report cards and comments; learners read-only
+      - read_only: can view everything but change nothing
+    - An organisation always keeps at least one admin
+*/
+
+-- Create organisations table
+CREATE TABLE IF NOT EXISTS organisations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create organisation members table
+CREATE TABLE IF NOT EXISTS organisation_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid REFERENCES organisations(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  role text NOT NULL DEFAULT 'read_only',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT role_check CHECK (role IN ('admin', 'accountant', 'teacher', 'read_only'))
+);
+
+-- Create organisation invites table
+CREATE TABLE IF NOT EXISTS organisation_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid REFERENCES organisations(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'read_only',
+  invited_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT role_check CHECK (role IN ('admin', 'accountant', 'teacher', 'read_only')),
+  UNIQUE(organisation_id, email)
+);
+
+-- Create indexes for membership lookups
+CREATE INDEX IF NOT EXISTS organisation_members_organisation_id_idx ON organisation_members(organisation_id);
+CREATE INDEX IF NOT EXISTS organisation_invites_email_idx ON organisation_invites(lower(email));
+
+-- Function to get the caller's organisation
+CREATE OR REPLACE FUNCTION current_organisation_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organisation_id
+  FROM organisation_members
+  WHERE user_id = auth.uid();
+$$;
+
+-- Function to check the caller's role in an organisation
+CREATE OR REPLACE FUNCTION has_organisation_role(p_organisation_id uuid, p_roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM organisation_members
+    WHERE
+      organisation_id = p_organisation_id
+      AND user_id = auth.uid()
+      AND role = ANY(p_roles)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION current_organisation_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_organisation_role(uuid, text[]) TO authenticated;
+
+-- Give every existing user their own organisation
+DO $$
+DECLARE
+  v_user record;
+  v_organisation_id uuid;
+BEGIN
+  FOR v_user IN
+    SELECT u.id, u.email
+    FROM auth.users u
+    WHERE NOT EXISTS (
+      SELECT 1 FROM organisation_members m WHERE m.user_id = u.id
+    )
+  LOOP
+    INSERT INTO organisations (name)
+    VALUES (COALESCE(
+      (SELECT NULLIF(s.company_details->>'name', '') FROM organisation_settings s WHERE s.user_id = v_user.id),
+      'My School'
+    ))
+    RETURNING id INTO v_organisation_id;
+
+    INSERT INTO organisation_members (organisation_id, user_id, role)
+    VALUES (v_organisation_id, v_user.id, 'admin');
+  END LOOP;
+END $$;
+
+-- Function to put new rows in the organisation of whoever created them.
+-- Rows created by scheduled jobs take the organisation of their user_id.
+CREATE OR REPLACE FUNCTION set_organisation_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organisation_id IS NULL THEN
+    NEW.organisation_id := COALESCE(
+      (SELECT organisation_id FROM organisation_members WHERE user_id = NEW.user_id),
+      current_organisation_id()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Add organisation to every user-scoped table and move existing rows into it.
+-- Issued and void credit notes are locked against updates, so the lock is
+-- lifted while they are moved.
+ALTER TABLE credit_notes DISABLE TRIGGER credit_note_lock_trigger;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'invoices', 'clients', 'recurring_invoices', 'credit_notes', 'payments',
+    'credit_allocations', 'fee_items', 'student_fee_extras', 'fee_discounts',
+    'student_guardians', 'students', 'report_cards', 'comments_library',
+    'organisation_settings'
+  ]
+  LOOP
+    EXECUTE format(
+      'ALTER TABLE %I ADD COLUMN IF NOT EXISTS organisation_id uuid REFERENCES organisations(id) ON DELETE CASCADE',
+      v_table
+    );
+
+    EXECUTE format(
+      'UPDATE %I t SET organisation_id = m.organisation_id
+       FROM organisation_members m
+       WHERE m.user_id = t.user_id AND t.organisation_id IS NULL',
+      v_table
+    );
+
+    EXECUTE format(
+      'CREATE INDEX IF NOT EXISTS %I ON %I(organisation_id)',
+      v_table || '_organisation_id_idx', v_table
+    );
+
+    EXECUTE format('DROP TRIGGER IF EXISTS set_organisation_id_trigger ON %I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER set_organisation_id_trigger
+       BEFORE INSERT ON %I
+       FOR EACH ROW
+       EXECUTE FUNCTION set_organisation_id()',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+ALTER TABLE credit_notes ENABLE TRIGGER credit_note_lock_trigger;
+
+-- Settings now belong to the organisation; user_id records who last saved them
+ALTER TABLE organisation_settings DROP CONSTRAINT IF EXISTS organisation_settings_user_id_key;
+ALTER TABLE organisation_settings ALTER COLUMN organisation_id SET NOT NULL;
+ALTER TABLE organisation_settings
+  ADD CONSTRAINT organisation_settings_organisation_id_key UNIQUE (organisation_id);
+
+-- Function to keep at least one admin in every organisation
+CREATE OR REPLACE FUNCTION check_organisation_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'admin'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'admin')
+    AND NOT EXISTS (
+      SELECT 1 FROM organisation_members
+      WHERE
+        organisation_id = OLD.organisation_id
+        AND role = 'admin'
+        AND id <> OLD.id
+    )
+  THEN
+    RAISE EXCEPTION 'An organisation needs at least one admin';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS organisation_admin_trigger ON organisation_members;
+CREATE TRIGGER organisation_admin_trigger
+  BEFORE UPDATE OR DELETE ON organisation_members
+  FOR EACH ROW
+  EXECUTE FUNCTION check_organisation_admin();
+
+-- Function to set up the caller's membership the first time they sign in
+CREATE OR REPLACE FUNCTION ensure_organisation()
+RETURNS TABLE (
+  organisation_id uuid,
+  organisation_name text,
+  role text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text;
+  v_invite organisation_invites%ROWTYPE;
+  v_organisation_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM organisation_members m WHERE m.user_id = auth.uid()) THEN
+    SELECT u.email INTO v_email FROM auth.users u WHERE u.id = auth.uid();
+
+    -- Join the school that invited this email, oldest invite first
+    SELECT * INTO v_invite
+    FROM organisation_invites i
+    WHERE lower(i.email) = lower(v_email)
+    ORDER BY i.created_at
+    LIMIT 1;
+
+    IF FOUND THEN
+      INSERT INTO organisation_members (organisation_id, user_id, role)
+      VALUES (v_invite.organisation_id, auth.uid(), v_invite.role);
+
+      DELETE FROM organisation_invites i WHERE lower(i.email) = lower(v_email);
+    ELSE
+      -- Nobody invited them, so they are setting up a new school
+      INSERT INTO organisations (name)
+      VALUES ('My School')
+      RETURNING id INTO v_organisation_id;
+
+      INSERT INTO organisation_members (organisation_id, user_id, role)
+      VALUES (v_organisation_id, auth.uid(), 'admin');
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT o.id, o.name, m.role
+  FROM organisation_members m
+  JOIN organisations o ON o.id = m.organisation_id
+  WHERE m.user_id = auth.uid();
+END;
+$$;
+
+-- Function to list the members of the caller's organisation
+CREATE OR REPLACE FUNCTION get_organisation_members()
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  email text,
+  role text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT m.id, m.user_id, u.email::text, m.role, m.created_at
+  FROM organisation_members m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.organisation_id = current_organisation_id()
+  ORDER BY m.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION ensure_organisation() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organisation_members() TO authenticated;
+
+-- Enable RLS
+ALTER TABLE organisations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organisation_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organisation_invites ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for organisations
+CREATE POLICY "Members can view their organisation"
+  ON organisations
+  FOR SELECT
+  TO authenticated
+  USING (id = current_organisation_id());
+
+CREATE POLICY "Admins can update their organisation"
+  ON organisations
+  FOR UPDATE
+  TO authenticated
+  USING (has_organisation_role(id, ARRAY['admin']))
+  WITH CHECK (has_organisation_role(id, ARRAY['admin']));
+
+-- Create policies for organisation members; members join through ensure_organisation()
+CREATE POLICY "Members can view their organisation members"
+  ON organisation_members
+  FOR SELECT
+  TO authenticated
+  USING (organisation_id = current_organisation_id());
+
+CREATE POLICY "Admins can update organisation members"
+  ON organisation_members
+  FOR UPDATE
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin']))
+  WITH CHECK (has_organisation_role(organisation_id, ARRAY['admin']));
+
+CREATE POLICY "Admins can remove organisation members"
+  ON organisation_members
+  FOR DELETE
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin']));
+
+-- Create policies for organisation invites
+CREATE POLICY "Admins can manage organisation invites"
+  ON organisation_invites
+  FOR ALL
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin']))
+  WITH CHECK (has_organisation_role(organisation_id, ARRAY['admin']));
+
+-- Drop the per-user policies
+DO $$
+DECLARE
+  v_policy record;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE
+      schemaname = 'public'
+      AND tablename IN (
+        'invoices', 'invoice_items', 'clients', 'recurring_invoices',
+        'credit_notes', 'credit_note_items', 'credit_note_events',
+        'credit_allocations', 'payments', 'fee_items', 'student_fee_extras',
+        'fee_discounts', 'student_guardians', 'students', 'assessments',
+        'report_cards', 'report_card_subjects', 'comments_library',
+        'email_logs', 'email_events', 'organisation_settings'
+      )
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END $$;
+
+-- Finance records: admins, bursars and read-only members can view them,
+-- admins and bursars can change them
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'invoices', 'clients', 'recurring_invoices', 'credit_notes', 'payments',
+    'credit_allocations', 'fee_items', 'student_fee_extras', 'fee_discounts',
+    'student_guardians'
+  ]
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY "Finance members can view %s"
+       ON %I
+       FOR SELECT
+       TO authenticated
+       USING (has_organisation_role(organisation_id, ARRAY[''admin'', ''accountant'', ''read_only'']))',
+      replace(v_table, '_', ' '), v_table
+    );
+
+    EXECUTE format(
+      'CREATE POLICY "Bursars can manage %s"
+       ON %I
+       FOR ALL
+       TO authenticated
+       USING (has_organisation_role(organisation_id, ARRAY[''admin'', ''accountant'']))
+       WITH CHECK (has_organisation_role(organisation_id, ARRAY[''admin'', ''accountant'']))',
+      replace(v_table, '_', ' '), v_table
+    );
+  END LOOP;
+END $$;
+
+-- Create policies for invoice items
+CREATE POLICY "Finance members can view invoice items"
+  ON invoice_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND has_organisation_role(invoices.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+    )
+  );
+
+CREATE POLICY "Bursars can manage invoice items"
+  ON invoice_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND has_organisation_role(invoices.organisation_id, ARRAY['admin', 'accountant'])
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = invoice_items.invoice_id
+      AND has_organisation_role(invoices.organisation_id, ARRAY['admin', 'accountant'])
+    )
+  );
+
+-- Create policies for credit note items
+CREATE POLICY "Finance members can view credit note items"
+  ON credit_note_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM credit_notes
+      WHERE credit_notes.id = credit_note_items.credit_note_id
+      AND has_organisation_role(credit_notes.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+    )
+  );
+
+CREATE POLICY "Bursars can manage credit note items"
+  ON credit_note_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM credit_notes
+      WHERE credit_notes.id = credit_note_items.credit_note_id
+      AND has_organisation_role(credit_notes.organisation_id, ARRAY['admin', 'accountant'])
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM credit_notes
+      WHERE credit_notes.id = credit_note_items.credit_note_id
+      AND has_organisation_role(credit_notes.organisation_id, ARRAY['admin', 'accountant'])
+    )
+  );
+
+-- Create policy for credit note events
+CREATE POLICY "Finance members can view credit note events"
+  ON credit_note_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM credit_notes
+      WHERE credit_notes.id = credit_note_events.credit_note_id
+      AND has_organisation_role(credit_notes.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+    )
+  );
+
+-- Create policies for email logs and events
+CREATE POLICY "Finance members can view email logs"
+  ON email_logs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = email_logs.invoice_id
+      AND has_organisation_role(invoices.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+    )
+  );
+
+CREATE POLICY "Bursars can create email logs"
+  ON email_logs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = email_logs.invoice_id
+      AND has_organisation_role(invoices.organisation_id, ARRAY['admin', 'accountant'])
+    )
+  );
+
+CREATE POLICY "Finance members can view email events"
+  ON email_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM email_logs
+      JOIN invoices ON invoices.id = email_logs.invoice_id
+      WHERE email_logs.id = email_events.email_log_id
+      AND has_organisation_role(invoices.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+    )
+  );
+
+CREATE POLICY "Bursars can create email events"
+  ON email_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM email_logs
+      JOIN invoices ON invoices.id = email_logs.invoice_id
+      WHERE email_logs.id = email_events.email_log_id
+      AND has_organisation_role(invoices.organisation_id, ARRAY['admin', 'accountant'])
+    )
+  );
+
+-- Create policies for students; every member can see the learners
+CREATE POLICY "Members can view students"
+  ON students
+  FOR SELECT
+  TO authenticated
+  USING (organisation_id = current_organisation_id());
+
+CREATE POLICY "Bursars can manage students"
+  ON students
+  FOR ALL
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin', 'accountant']))
+  WITH CHECK (has_organisation_role(organisation_id, ARRAY['admin', 'accountant']));
+
+-- Create policies for assessments
+CREATE POLICY "Members can view assessments"
+  ON assessments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = assessments.student_id
+      AND students.organisation_id = current_organisation_id()
+    )
+  );
+
+CREATE POLICY "Teachers can manage assessments"
+  ON assessments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = assessments.student_id
+      AND has_organisation_role(students.organisation_id, ARRAY['admin', 'teacher'])
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = assessments.student_id
+      AND has_organisation_role(students.organisation_id, ARRAY['admin', 'teacher'])
+    )
+  );
+
+-- Create policies for report cards
+CREATE POLICY "Members can view report cards"
+  ON report_cards
+  FOR SELECT
+  TO authenticated
+  USING (organisation_id = current_organisation_id());
+
+CREATE POLICY "Teachers can manage report cards"
+  ON report_cards
+  FOR ALL
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin', 'teacher']))
+  WITH CHECK (has_organisation_role(organisation_id, ARRAY['admin', 'teacher']));
+
+-- Create policies for report card subjects
+CREATE POLICY "Members can view report card subjects"
+  ON report_card_subjects
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM report_cards
+      WHERE report_cards.id = report_card_subjects.report_card_id
+      AND report_cards.organisation_id = current_organisation_id()
+    )
+  );
+
+CREATE POLICY "Teachers can manage report card subjects"
+  ON report_card_subjects
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM report_cards
+      WHERE report_cards.id = report_card_subjects.report_card_id
+      AND has_organisation_role(report_cards.organisation_id, ARRAY['admin', 'teacher'])
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM report_cards
+      WHERE report_cards.id = report_card_subjects.report_card_id
+      AND has_organisation_role(report_cards.organisation_id, ARRAY['admin', 'teacher'])
+    )
+  );
+
+-- Create policies for the comment bank; shared comments have no organisation
+CREATE POLICY "Members can view shared and their organisation comments"
+  ON comments_library
+  FOR SELECT
+  TO authenticated
+  USING (user_id IS NULL OR organisation_id = current_organisation_id());
+
+CREATE POLICY "Teachers can manage their organisation comments"
+  ON comments_library
+  FOR ALL
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin', 'teacher']))
+  WITH CHECK (has_organisation_role(organisation_id, ARRAY['admin', 'teacher']));
+
+-- Create policies for organisation settings
+CREATE POLICY "Members can view their organisation settings"
+  ON organisation_settings
+  FOR SELECT
+  TO authenticated
+  USING (organisation_id = current_organisation_id());
+
+CREATE POLICY "Admins can manage their organisation settings"
+  ON organisation_settings
+  FOR ALL
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin']))
+  WITH CHECK (has_organisation_role(organisation_id, ARRAY['admin']));
+
+-- Logos live under the organisation's folder
+DROP POLICY IF EXISTS "Users can upload their own logos" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view their own logos" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their own logos" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own logos" ON storage.objects;
+
+CREATE POLICY "Members can view their organisation logos"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = current_organisation_id()::text
+  );
+
+-- Logos uploaded before organisations stay in the uploader's folder
+CREATE POLICY "Members can view logos their organisation settings use"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'branding'
+    AND EXISTS (
+      SELECT 1 FROM organisation_settings s
+      WHERE
+        s.organisation_id = current_organisation_id()
+        AND objects.name IN (s.logo_path, s.school_logo_path)
+    )
+  );
+
+CREATE POLICY "Admins can upload their organisation logos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = current_organisation_id()::text
+    AND has_organisation_role(current_organisation_id(), ARRAY['admin'])
+  );
+
+CREATE POLICY "Admins can update their organisation logos"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = current_organisation_id()::text
+    AND has_organisation_role(current_organisation_id(), ARRAY['admin'])
+  );
+
+CREATE POLICY "Admins can delete their organisation logos"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = current_organisation_id()::text
+    AND has_organisation_role(current_organisation_id(), ARRAY['admin'])
+  );
+
+-- The functions below scope by organisation before reading balances; the
+-- balance helper itself must not be called directly
+REVOKE EXECUTE ON FUNCTION get_invoice_balance(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Unapplied credit of a client in the caller's organisation
+CREATE OR REPLACE FUNCTION get_client_credit(p_client_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_credit numeric;
+BEGIN
+  SELECT COALESCE(SUM(
+    cn.total - COALESCE((
+      SELECT SUM(ca.amount)
+      FROM credit_allocations ca
+      WHERE ca.credit_note_id = cn.id
+    ), 0)
+  ), 0)
+  INTO v_credit
+  FROM credit_notes cn
+  WHERE
+    cn.client_id = p_client_id
+    AND cn.status = 'issued'
+    AND has_organisation_role(cn.organisation_id, ARRAY['admin', 'accountant', 'read_only']);
+
+  RETURN v_credit;
+END;
+$$;
+
+-- Applying credit changes balances, so only admins and bursars may do it
+CREATE OR REPLACE FUNCTION apply_client_credit(p_invoice_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_balance numeric;
+  v_applied numeric := 0;
+  v_amount numeric;
+  v_credit record;
+BEGIN
+  SELECT * INTO v_invoice
+  FROM invoices
+  WHERE
+    id = p_invoice_id
+    AND has_organisation_role(organisation_id, ARRAY['admin', 'accountant']);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  v_balance := get_invoice_balance(p_invoice_id);
+
+  -- Use the oldest credit first
+  FOR v_credit IN
+    SELECT
+      cn.id,
+      cn.total - COALESCE((
+        SELECT SUM(ca.amount)
+        FROM credit_allocations ca
+        WHERE ca.credit_note_id = cn.id
+      ), 0) AS remaining
+    FROM credit_notes cn
+    WHERE
+      cn.client_id = v_invoice.client_id
+      AND cn.status = 'issued'
+      AND cn.organisation_id = v_invoice.organisation_id
+    ORDER BY cn.date, cn.created_at
+  LOOP
+    EXIT WHEN v_balance <= 0;
+    CONTINUE WHEN v_credit.remaining <= 0;
+
+    v_amount := LEAST(v_credit.remaining, v_balance);
+
+    INSERT INTO credit_allocations (credit_note_id, invoice_id, amount, user_id, organisation_id)
+    VALUES (v_credit.id, p_invoice_id, v_amount, auth.uid(), v_invoice.organisation_id);
+
+    v_balance := v_balance - v_amount;
+    v_applied := v_applied + v_amount;
+  END LOOP;
+
+  RETURN v_applied;
+END;
+$$;
+
+-- Statement summary for the caller's organisation
+CREATE OR REPLACE VIEW client_statement_summary AS
+SELECT
+  c.id AS client_id,
+  c.name AS client_name,
+  COUNT(DISTINCT i.id) AS total_invoices,
+  COALESCE(SUM(i.total), 0) AS total_invoiced,
+  COALESCE((
+    SELECT SUM(p.amount) FROM payments p WHERE p.client_id = c.id
+  ), 0) AS total_paid,
+  COALESCE((
+    SELECT SUM(cn.total) FROM credit_notes cn
+    WHERE cn.client_id = c.id AND cn.status = 'issued'
+  ), 0) AS total_credited,
+  COALESCE(SUM(i.total), 0)
+    - COALESCE((
+      SELECT SUM(p.amount) FROM payments p WHERE p.client_id = c.id
+    ), 0)
+    - COALESCE((
+      SELECT SUM(cn.total) FROM credit_notes cn
+      WHERE cn.client_id = c.id AND cn.status = 'issued'
+    ), 0) AS total_outstanding,
+  MIN(i.date) AS first_invoice_date,
+  MAX(i.date) AS last_invoice_date
+FROM clients c
+LEFT JOIN invoices i ON c.id = i.client_id AND i.status <> 'draft'
+WHERE has_organisation_role(c.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+GROUP BY c.id, c.name;
+
+-- Household balances for the caller's organisation
+CREATE OR REPLACE FUNCTION get_family_balances(p_client_id uuid)
+RETURNS TABLE (
+  student_id uuid,
+  student_name text,
+  grade int,
+  client_id uuid,
+  client_name text,
+  fee_share numeric,
+  balance_due numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organisation_id uuid;
+BEGIN
+  SELECT c.organisation_id INTO v_organisation_id
+  FROM clients c
+  WHERE
+    c.id = p_client_id
+    AND has_organisation_role(c.organisation_id, ARRAY['admin', 'accountant', 'read_only']);
+
+  IF v_organisation_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH family_students AS (
+    -- Learners billed to this client
+    SELECT DISTINCT sg.student_id
+    FROM student_guardians sg
+    WHERE
+      sg.client_id = p_client_id
+      AND sg.organisation_id = v_organisation_id
+  ),
+  family_clients AS (
+    -- This client and every other guardian of the same learners
+    SELECT p_client_id AS client_id
+    UNION
+    SELECT sg.client_id
+    FROM student_guardians sg
+    JOIN family_students fs ON fs.student_id = sg.student_id
+    WHERE sg.organisation_id = v_organisation_id
+  ),
+  invoice_balances AS (
+    SELECT
+      i.client_id,
+      i.student_id,
+      get_invoice_balance(i.id) AS balance
+    FROM invoices i
+    JOIN family_clients fc ON fc.client_id = i.client_id
+    WHERE
+      i.status <> 'draft'
+      AND i.organisation_id = v_organisation_id
+  )
+  -- Every learner/guardian link in the household
+  SELECT
+    s.id,
+    s.first_name || ' ' || s.last_name,
+    s.grade,
+    c.id,
+    c.name,
+    sg.fee_share,
+    COALESCE(SUM(ib.balance), 0)
+  FROM student_guardians sg
+  JOIN family_students fs ON fs.student_id = sg.student_id
+  JOIN students s ON s.id = sg.student_id
+  JOIN clients c ON c.id = sg.client_id
+  LEFT JOIN invoice_balances ib
+    ON ib.student_id = sg.student_id
+    AND ib.client_id = sg.client_id
+  WHERE sg.organisation_id = v_organisation_id
+  GROUP BY s.id, s.first_name, s.last_name, s.grade, c.id, c.name, sg.fee_share
+
+  UNION ALL
+
+  -- Charges not tied to a linked learner
+  SELECT
+    s.id,
+    COALESCE(s.first_name || ' ' || s.last_name, 'General charges'),
+    s.grade,
+    c.id,
+    c.name,
+    NULL::numeric,
+    SUM(ib.balance)
+  FROM invoice_balances ib
+  JOIN clients c ON c.id = ib.client_id
+  LEFT JOIN students s ON s.id = ib.student_id
+  WHERE NOT EXISTS (
+    SELECT 1 FROM student_guardians sg
+    WHERE sg.student_id = ib.student_id
+    AND sg.client_id = ib.client_id
+  )
+  GROUP BY s.id, s.first_name, s.last_name, s.grade, c.id, c.name
+  HAVING SUM(ib.balance) <> 0
+
+  UNION ALL
+
+  -- Credit on account not yet applied to an invoice
+  SELECT
+    NULL::uuid,
+    'Unapplied credit',
+    NULL::int,
+    c.id,
+    c.name,
+    NULL::numeric,
+    -get_client_credit(c.id)
+  FROM family_clients fc
+  JOIN clients c ON c.id = fc.client_id
+  WHERE get_client_credit(c.id) > 0;
+END;
+$$;
+
+-- Client statement for the caller's organisation
+CREATE OR REPLACE FUNCTION get_client_statement(
+  p_client_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS TABLE (
+  date DATE,
+  description TEXT,
+  reference TEXT,
+  type TEXT,
+  debit NUMERIC,
+  credit NUMERIC,
+  running_balance NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_opening_balance numeric;
+  v_organisation_id uuid;
+BEGIN
+  SELECT c.organisation_id INTO v_organisation_id
+  FROM clients c
+  WHERE
+    c.id = p_client_id
+    AND has_organisation_role(c.organisation_id, ARRAY['admin', 'accountant', 'read_only']);
+
+  IF v_organisation_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Work out the balance brought forward from before the period
+  SELECT
+    COALESCE((
+      SELECT SUM(i.total)
+      FROM invoices i
+      WHERE
+        i.client_id = p_client_id
+        AND i.date < p_start_date
+        AND i.status <> 'draft'
+        AND i.organisation_id = v_organisation_id
+    ), 0)
+    - COALESCE((
+      SELECT SUM(cn.total)
+      FROM credit_notes cn
+      WHERE
+        cn.client_id = p_client_id
+        AND cn.date < p_start_date
+        AND cn.status = 'issued'
+        AND cn.organisation_id = v_organisation_id
+    ), 0)
+    - COALESCE((
+      SELECT SUM(p.amount)
+      FROM payments p
+      WHERE
+        p.client_id = p_client_id
+        AND p.date < p_start_date
+        AND p.organisation_id = v_organisation_id
+    ), 0)
+  INTO v_opening_balance;
+
+  RETURN QUERY
+  WITH transactions AS (
+    -- Balance brought forward
+    SELECT
+      p_start_date AS date,
+      'Balance brought forward'::text AS description,
+      ''::text AS reference,
+      'opening_balance'::text AS type,
+      GREATEST(v_opening_balance, 0) AS debit,
+      GREATEST(-v_opening_balance, 0) AS credit,
+      0 AS sort_order,
+      NULL::timestamptz AS created_at
+
+    UNION ALL
+
+    -- Get invoices
+    SELECT
+      i.date AS date,
+      'Invoice #' || i.number AS description,
+      i.number AS reference,
+      'invoice' AS type,
+      i.total AS debit,
+      0 AS credit,
+      1 AS sort_order,
+      i.created_at
+    FROM invoices i
+    WHERE
+      i.client_id = p_client_id
+      AND i.date BETWEEN p_start_date AND p_end_date
+      AND i.status <> 'draft'
+      AND i.organisation_id = v_organisation_id
+
+    UNION ALL
+
+    -- Get issued credit notes
+    SELECT
+      cn.date AS date,
+      'Credit Note #' || cn.number || COALESCE(' for Invoice #' || i.number, '') AS description,
+      cn.number AS reference,
+      'credit_note' AS type,
+      0 AS debit,
+      cn.total AS credit,
+      2 AS sort_order,
+      cn.created_at
+    FROM credit_notes cn
+    LEFT JOIN invoices i ON i.id = cn.invoice_id
+    WHERE
+      cn.client_id = p_client_id
+      AND cn.date BETWEEN p_start_date AND p_end_date
+      AND cn.status = 'issued'
+      AND cn.organisation_id = v_organisation_id
+
+    UNION ALL
+
+    -- Get payments on the date they were received
+    SELECT
+      p.date AS date,
+      'Payment for Invoice #' || i.number AS description,
+      COALESCE(NULLIF(p.reference, ''), i.number) AS reference,
+      'payment' AS type,
+      0 AS debit,
+      p.amount AS credit,
+      3 AS sort_order,
+      p.created_at
+    FROM payments p
+    JOIN invoices i ON i.id = p.invoice_id
+    WHERE
+      p.client_id = p_client_id
+      AND p.date BETWEEN p_start_date AND p_end_date
+      AND p.organisation_id = v_organisation_id
+  )
+  SELECT
+    t.date,
+    t.description,
+    t.reference,
+    t.type,
+    t.debit,
+    t.credit,
+    SUM(t.debit - t.credit) OVER (
+      ORDER BY t.date, t.sort_order, t.created_at NULLS FIRST
+      ROWS UNBOUNDED PRECEDING
+    ) AS running_balance
+  FROM transactions t
+  ORDER BY t.date, t.sort_order, t.created_at NULLS FIRST;
+END;
+$$;
+
+-- Monthly revenue for the caller's organisation
+CREATE OR REPLACE FUNCTION get_monthly_revenue(
+  start_date timestamptz,
+  end_date timestamptz
+)
+RETURNS TABLE (
+  month text,
+  amount numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    to_char(date_trunc('month', p.date), 'Mon YYYY') as month,
+    COALESCE(SUM(p.amount), 0) as amount
+  FROM payments p
+  WHERE
+    p.date >= start_date::date
+    AND p.date <= end_date::date
+    AND has_organisation_role(p.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+  GROUP BY date_trunc('month', p.date)
+  ORDER BY date_trunc('month', p.date);
+END;
+$$;
+
+-- Top clients for the caller's organisation
+CREATE OR REPLACE FUNCTION get_top_clients(
+  start_date timestamptz,
+  end_date timestamptz,
+  limit_count integer DEFAULT 5
+)
+RETURNS TABLE (
+  name text,
+  total numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.name,
+    COALESCE(SUM(p.amount), 0) as total
+  FROM clients c
+  JOIN payments p ON c.id = p.client_id
+  WHERE
+    p.date >= start_date::date
+    AND p.date <= end_date::date
+    AND has_organisation_role(p.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+  GROUP BY c.id, c.name
+  ORDER BY total DESC
+  LIMIT limit_count;
+END;
+$$;
+
+-- Email tracking stats for invoices of the caller's organisation
+CREATE OR REPLACE FUNCTION get_email_tracking_stats(p_invoice_id uuid)
+RETURNS TABLE (
+  total_sent int,
+  total_delivered int,
+  total_opened int,
+  total_clicked int,
+  last_opened timestamptz,
+  last_clicked timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(DISTINCT el.id)::int as total_sent,
+    COUNT(DISTINCT CASE WHEN ee.event_type = 'delivered' THEN ee.id END)::int as total_delivered,
+    COUNT(DISTINCT CASE WHEN ee.event_type = 'opened' THEN ee.id END)::int as total_opened,
+    COUNT(DISTINCT CASE WHEN ee.event_type = 'clicked' THEN ee.id END)::int as total_clicked,
+    MAX(CASE WHEN ee.event_type = 'opened' THEN ee.occurred_at END) as last_opened,
+    MAX(CASE WHEN ee.event_type = 'clicked' THEN ee.occurred_at END) as last_clicked
+  FROM email_logs el
+  LEFT JOIN email_events ee ON el.id = ee.email_log_id
+  WHERE el.invoice_id = p_invoice_id
+  AND EXISTS (
+    SELECT 1 FROM invoices i
+    WHERE i.id = el.invoice_id
+    AND has_organisation_role(i.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+  );
+END;
+$$;
+
+-- Suggested comments from the shared bank and the caller's organisation
+CREATE OR REPLACE FUNCTION generate_subject_comment(
+  p_subject_id UUID,
+  p_score numeric,
+  p_language text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_performance_level text;
+  v_comment text;
+BEGIN
+  -- Determine performance level
+  v_performance_level := CASE
+    WHEN p_score >= 80 THEN 'excellent'
+    WHEN p_score >= 70 THEN 'good'
+    WHEN p_score >= 50 THEN 'average'
+    ELSE 'needs_improvement'
+  END;
+
+  -- Select appropriate comment
+  SELECT comment_text
+  INTO v_comment
+  FROM comments_library
+  WHERE
+    (subject_id = p_subject_id OR subject_id IS NULL)
+    AND language = p_language
+    AND performance_level = v_performance_level
+    AND (user_id IS NULL OR organisation_id = current_organisation_id())
+  ORDER BY (subject_id IS NULL), random()
+  LIMIT 1;
+
+  RETURN v_comment;
+END;
+$$;
+
+-- Report card PDF placeholder for the caller's organisation
+CREATE OR REPLACE FUNCTION generate_report_card_pdf_url(report_card_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_url text;
+BEGIN
+  -- This is a placeholder function that would typically generate a PDF
+  -- and return its URL. For now, it just returns a dummy URL
+  v_url := 'https://storage.example.com/report-cards/' || report_card_id || '.pdf';
+
+  -- Update the report card with the generated URL
+  UPDATE report_cards
+  SET generated_pdf = v_url,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE id = report_card_id
+  AND has_organisation_role(organisation_id, ARRAY['admin', 'teacher']);
+
+  RETURN v_url;
+END;
+$$;
@@ -0,0 +1,432 @@
+/*
+  # Classes and Teacher Assignments
+
+  1. New Tables
+    - `classes` - A grade and section taught together, e.g. Grade 7 B
+      - `id` (uuid, primary key)
+      - `organisation_id` (uuid, references organisations)
+      - `grade` (integer, 1-12)
+      - `section` (text)
+      - `class_teacher_id` (uuid, references auth.users) - Writes the
+        teacher's comment on the class's report cards
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+    - `teacher_assignments` - Which teacher teaches which subject to a class
+      - `id` (uuid, primary key)
+      - `class_id` (uuid, references classes)
+      - `subject_id` (uuid, references subjects)
+      - `teacher_id` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `class_id` to students
+    - Add the `principal` role: full access to assessments and report cards,
+      and sets up classes
+    - Only admins and principals may write `principal_comment`
+    - Only the class teacher, admins and principals may write
+      `teacher_comment`
+
+  3. Functions
+    - teaches_student(student_id) - Whether the caller is the class teacher
+      of the learner's class or teaches it a subject
+    - teaches_subject(student_id, subject_id) - Whether the caller teaches
+      the subject to the learner's class
+    - is_class_teacher(student_id) - Whether the caller is the class teacher
+      of the learner's class
+
+  4. Security
+    - Teachers only see and change learners, assessments and report cards
+      in their own classes; assessments and report card subject marks are
+      further limited to the subjects they teach
+    - Admins and principals manage classes and assignments; every member
+      can view them
+*/
+
+-- Add the principal role
+ALTER TABLE organisation_members DROP CONSTRAINT IF EXISTS role_check;
+ALTER TABLE organisation_members ADD CONSTRAINT role_check
+  CHECK (role IN ('admin', 'principal', 'accountant', 'teacher', 'read_only'));
+
+ALTER TABLE organisation_invites DROP CONSTRAINT IF EXISTS role_check;
+ALTER TABLE organisation_invites ADD CONSTRAINT role_check
+  CHECK (role IN ('admin', 'principal', 'accountant', 'teacher', 'read_only'));
+
+-- Create classes table
+CREATE TABLE IF NOT EXISTS classes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid REFERENCES organisations(id) ON DELETE CASCADE NOT NULL DEFAULT current_organisation_id(),
+  grade int NOT NULL CHECK (grade BETWEEN 1 AND 12),
+  section text NOT NULL,
+  class_teacher_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(organisation_id, grade, section)
+);
+
+-- Create teacher assignments table
+CREATE TABLE IF NOT EXISTS teacher_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid REFERENCES classes(id) ON DELETE CASCADE NOT NULL,
+  subject_id uuid REFERENCES subjects(id) ON DELETE CASCADE NOT NULL,
+  teacher_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(class_id, subject_id, teacher_id)
+);
+
+-- Put learners in a class
+ALTER TABLE students ADD COLUMN IF NOT EXISTS class_id uuid REFERENCES classes(id) ON DELETE SET NULL;
+
+-- Create indexes for class lookups
+CREATE INDEX IF NOT EXISTS classes_organisation_id_idx ON classes(organisation_id);
+CREATE INDEX IF NOT EXISTS teacher_assignments_teacher_id_idx ON teacher_assignments(teacher_id);
+CREATE INDEX IF NOT EXISTS students_class_id_idx ON students(class_id);
+
+-- Function to update class timestamp
+CREATE OR REPLACE FUNCTION update_class_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_class_timestamp_trigger ON classes;
+CREATE TRIGGER update_class_timestamp_trigger
+  BEFORE UPDATE ON classes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_class_timestamp();
+
+-- Function to check whether the caller teaches a learner
+CREATE OR REPLACE FUNCTION teaches_student(p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM students s
+    JOIN classes c ON c.id = s.class_id
+    WHERE
+      s.id = p_student_id
+      AND (
+        c.class_teacher_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM teacher_assignments ta
+          WHERE ta.class_id = c.id AND ta.teacher_id = auth.uid()
+        )
+      )
+  );
+$$;
+
+-- Function to check whether the caller teaches a subject to a learner
+CREATE OR REPLACE FUNCTION teaches_subject(p_student_id uuid, p_subject_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM students s
+    JOIN teacher_assignments ta ON ta.class_id = s.class_id
+    WHERE
+      s.id = p_student_id
+      AND ta.subject_id = p_subject_id
+      AND ta.teacher_id = auth.uid()
+  );
+$$;
+
+-- Function to check whether the caller is a learner's class teacher
+CREATE OR REPLACE FUNCTION is_class_teacher(p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM students s
+    JOIN classes c ON c.id = s.class_id
+    WHERE
+      s.id = p_student_id
+      AND c.class_teacher_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION teaches_student(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION teaches_subject(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_class_teacher(uuid) TO authenticated;
+
+-- Function to keep the principal's comment for admins and principals
+CREATE OR REPLACE FUNCTION check_principal_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND (
+      (TG_OP = 'INSERT' AND NULLIF(NEW.principal_comment, '') IS NOT NULL)
+      OR (TG_OP = 'UPDATE' AND NEW.principal_comment IS DISTINCT FROM OLD.principal_comment)
+    )
+    AND NOT has_organisation_role(
+      COALESCE(NEW.organisation_id, current_organisation_id()),
+      ARRAY['admin', 'principal']
+    )
+  THEN
+    RAISE EXCEPTION 'Only the principal can write the principal comment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_principal_comment_trigger ON report_cards;
+CREATE TRIGGER check_principal_comment_trigger
+  BEFORE INSERT OR UPDATE ON report_cards
+  FOR EACH ROW
+  EXECUTE FUNCTION check_principal_comment();
+
+-- Function to keep the teacher's comment for the class teacher
+CREATE OR REPLACE FUNCTION check_teacher_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND (
+      (TG_OP = 'INSERT' AND NULLIF(NEW.teacher_comment, '') IS NOT NULL)
+      OR (TG_OP = 'UPDATE' AND NEW.teacher_comment IS DISTINCT FROM OLD.teacher_comment)
+    )
+    AND NOT has_organisation_role(
+      COALESCE(NEW.organisation_id, current_organisation_id()),
+      ARRAY['admin', 'principal']
+    )
+    AND NOT is_class_teacher(NEW.student_id)
+  THEN
+    RAISE EXCEPTION 'Only the class teacher can write the teacher comment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_teacher_comment_trigger ON report_cards;
+CREATE TRIGGER check_teacher_comment_trigger
+  BEFORE INSERT OR UPDATE ON report_cards
+  FOR EACH ROW
+  EXECUTE FUNCTION check_teacher_comment();
+
+-- Enable RLS
+ALTER TABLE classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE teacher_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for classes
+CREATE POLICY "Members can view classes"
+  ON classes
+  FOR SELECT
+  TO authenticated
+  USING (organisation_id = current_organisation_id());
+
+CREATE POLICY "Principals can manage classes"
+  ON classes
+  FOR ALL
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin', 'principal']))
+  WITH CHECK (has_organisation_role(organisation_id, ARRAY['admin', 'principal']));
+
+-- Create policies for teacher assignments
+CREATE POLICY "Members can view teacher assignments"
+  ON teacher_assignments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM classes
+      WHERE classes.id = teacher_assignments.class_id
+      AND classes.organisation_id = current_organisation_id()
+    )
+  );
+
+CREATE POLICY "Principals can manage teacher assignments"
+  ON teacher_assignments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM classes
+      WHERE classes.id = teacher_assignments.class_id
+      AND has_organisation_role(classes.organisation_id, ARRAY['admin', 'principal'])
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM classes
+      WHERE classes.id = teacher_assignments.class_id
+      AND has_organisation_role(classes.organisation_id, ARRAY['admin', 'principal'])
+    )
+  );
+
+-- Teachers only see the learners in their classes
+DROP POLICY IF EXISTS "Members can view students" ON students;
+CREATE POLICY "Members can view students"
+  ON students
+  FOR SELECT
+  TO authenticated
+  USING (
+    organisation_id = current_organisation_id()
+    AND (
+      NOT has_organisation_role(organisation_id, ARRAY['teacher'])
+      OR teaches_student(id)
+    )
+  );
+
+-- Recreate assessment policies around classes and subjects
+DROP POLICY IF EXISTS "Members can view assessments" ON assessments;
+DROP POLICY IF EXISTS "Teachers can manage assessments" ON assessments;
+
+CREATE POLICY "Members can view assessments"
+  ON assessments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = assessments.student_id
+      AND students.organisation_id = current_organisation_id()
+      AND (
+        NOT has_organisation_role(students.organisation_id, ARRAY['teacher'])
+        OR teaches_student(students.id)
+      )
+    )
+  );
+
+CREATE POLICY "Teachers can manage assessments for their subjects"
+  ON assessments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = assessments.student_id
+      AND (
+        has_organisation_role(students.organisation_id, ARRAY['admin', 'principal'])
+        OR (
+          has_organisation_role(students.organisation_id, ARRAY['teacher'])
+          AND teaches_subject(students.id, assessments.subject_id)
+        )
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = assessments.student_id
+      AND (
+        has_organisation_role(students.organisation_id, ARRAY['admin', 'principal'])
+        OR (
+          has_organisation_role(students.organisation_id, ARRAY['teacher'])
+          AND teaches_subject(students.id, assessments.subject_id)
+        )
+      )
+    )
+  );
+
+-- Recreate report card policies around classes
+DROP POLICY IF EXISTS "Members can view report cards" ON report_cards;
+DROP POLICY IF EXISTS "Teachers can manage report cards" ON report_cards;
+
+CREATE POLICY "Members can view report cards"
+  ON report_cards
+  FOR SELECT
+  TO authenticated
+  USING (
+    organisation_id = current_organisation_id()
+    AND (
+      NOT has_organisation_role(organisation_id, ARRAY['teacher'])
+      OR teaches_student(student_id)
+    )
+  );
+
+CREATE POLICY "Teachers can manage report cards for their classes"
+  ON report_cards
+  FOR ALL
+  TO authenticated
+  USING (
+    has_organisation_role(organisation_id, ARRAY['admin', 'principal'])
+    OR (
+      has_organisation_role(organisation_id, ARRAY['teacher'])
+      AND teaches_student(student_id)
+    )
+  )
+  WITH CHECK (
+    has_organisation_role(organisation_id, ARRAY['admin', 'principal'])
+    OR (
+      has_organisation_role(organisation_id, ARRAY['teacher'])
+      AND teaches_student(student_id)
+    )
+  );
+
+-- Report card subjects follow their report card; teachers only change the
+-- subjects they teach
+DROP POLICY IF EXISTS "Members can view report card subjects" ON report_card_subjects;
+DROP POLICY IF EXISTS "Teachers can manage report card subjects" ON report_card_subjects;
+
+CREATE POLICY "Members can view report card subjects"
+  ON report_card_subjects
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM report_cards
+      WHERE report_cards.id = report_card_subjects.report_card_id
+    )
+  );
+
+CREATE POLICY "Teachers can manage report card subjects for their subjects"
+  ON report_card_subjects
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM report_cards
+      WHERE report_cards.id = report_card_subjects.report_card_id
+      AND (
+        has_organisation_role(report_cards.organisation_id, ARRAY['admin', 'principal'])
+        OR (
+          has_organisation_role(report_cards.organisation_id, ARRAY['teacher'])
+          AND teaches_subject(report_cards.student_id, report_card_subjects.subject_id)
+        )
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM report_cards
+      WHERE report_cards.id = report_card_subjects.report_card_id
+      AND (
+        has_organisation_role(report_cards.organisation_id, ARRAY['admin', 'principal'])
+        OR (
+          has_organisation_role(report_cards.organisation_id, ARRAY['teacher'])
+          AND teaches_subject(report_cards.student_id, report_card_subjects.subject_id)
+        )
+      )
+    )
+  );
+
+-- Principals share the comment bank with teachers
+DROP POLICY IF EXISTS "Teachers can manage their organisation comments" ON comments_library;
+CREATE POLICY "Teachers can manage their organisation comments"
+  ON comments_library
+  FOR ALL
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin', 'principal', 'teacher']))
+  WITH CHECK (has_organisation_role(organisation_id, ARRAY['admin', 'principal', 'teacher']));
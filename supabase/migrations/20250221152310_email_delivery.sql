@@ -0,0 +1,244 @@
+/*
+  # Email Delivery
+
+  1. Changes
+    - `email_logs` now covers invoices, statements and report cards
+      - `organisation_id` (uuid, references organisations)
+      - `document_type` (text) - invoice, statement or report_card
+      - `client_id` (uuid, references clients) - The client a statement was sent to
+      - `report_card_id` (uuid, references report_cards)
+      - `body` (text) - The message as it was sent
+      - `user_id` (uuid, references auth.users) - Who sent it
+      - `sent_at` is empty until the mail transport accepts the message
+      - `status` gains `sending`: an email is claimed before it is handed to
+        the mail transport, so a second send request cannot send it again
+    - Add `email_settings` to organisation_settings for the email templates
+    - Replace the two triggers that updated email status from events with
+      one; `update_email_status` set the status to the event type, which
+      the status check rejects for opens and clicks
+
+  2. Functions
+    - update_email_status() - Moves the log forward as delivery events come
+      in and marks draft invoices as sent
+    - get_email_tracking_stats(invoice_id) - Only counts emails the mail
+      transport accepted
+
+  3. Security
+    - Finance members see invoice and statement emails; admins and bursars
+      send them
+    - Report card emails follow report card access: admins, principals and
+      the learner's teachers
+    - Emails are queued by the sender; only the send-email and email-events
+      functions, running as the service role, record events and change status
+*/
+
+-- Add document details to email logs
+ALTER TABLE email_logs
+  ADD COLUMN IF NOT EXISTS organisation_id uuid REFERENCES organisations(id) ON DELETE CASCADE DEFAULT current_organisation_id(),
+  ADD COLUMN IF NOT EXISTS document_type text NOT NULL DEFAULT 'invoice',
+  ADD COLUMN IF NOT EXISTS client_id uuid REFERENCES clients(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS report_card_id uuid REFERENCES report_cards(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS body text,
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_document_type_check;
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_document_type_check
+  CHECK (document_type IN ('invoice', 'statement', 'report_card'));
+
+-- Every email points at the document it was sent for
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_document_check;
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_document_check
+  CHECK (
+    (document_type = 'invoice' AND invoice_id IS NOT NULL)
+    OR (document_type = 'statement' AND client_id IS NOT NULL)
+    OR (document_type = 'report_card' AND report_card_id IS NOT NULL)
+  ) NOT VALID;
+
+-- Queued emails have not been sent yet
+ALTER TABLE email_logs ALTER COLUMN sent_at DROP NOT NULL;
+ALTER TABLE email_logs ALTER COLUMN sent_at DROP DEFAULT;
+ALTER TABLE email_logs ALTER COLUMN status SET DEFAULT 'queued';
+
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_status_check;
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_status_check
+  CHECK (status IN ('queued', 'sending', 'sent', 'delivered', 'failed'));
+
+-- Move existing logs into their invoice's organisation
+UPDATE email_logs el
+SET organisation_id = i.organisation_id
+FROM invoices i
+WHERE i.id = el.invoice_id AND el.organisation_id IS NULL;
+
+-- Create indexes for looking up a document's emails
+CREATE INDEX IF NOT EXISTS email_logs_organisation_id_idx ON email_logs(organisation_id);
+CREATE INDEX IF NOT EXISTS email_logs_invoice_id_idx ON email_logs(invoice_id);
+CREATE INDEX IF NOT EXISTS email_logs_client_id_idx ON email_logs(client_id);
+CREATE INDEX IF NOT EXISTS email_logs_report_card_id_idx ON email_logs(report_card_id);
+CREATE INDEX IF NOT EXISTS email_events_email_log_id_idx ON email_events(email_log_id);
+
+-- Add email templates to settings
+ALTER TABLE organisation_settings
+  ADD COLUMN IF NOT EXISTS email_settings jsonb NOT NULL DEFAULT '{}';
+
+-- Replace the email event triggers with one
+DROP TRIGGER IF EXISTS email_event_trigger ON email_events;
+DROP TRIGGER IF EXISTS update_email_status_trigger ON email_events;
+DROP FUNCTION IF EXISTS handle_email_event();
+
+-- Function to update an email's status from its events. Events can arrive
+-- out of order, so a delivered or failed email never goes back to sent.
+CREATE OR REPLACE FUNCTION update_email_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+BEGIN
+  v_status := CASE
+    WHEN NEW.event_type = 'sent' THEN 'sent'
+    WHEN NEW.event_type IN ('delivered', 'opened', 'clicked') THEN 'delivered'
+    WHEN NEW.event_type IN ('bounced', 'complained') THEN 'failed'
+  END;
+
+  IF v_status IS NOT NULL THEN
+    UPDATE email_logs
+    SET
+      status = v_status,
+      sent_at = COALESCE(sent_at, NEW.occurred_at),
+      updated_at = now()
+    WHERE
+      id = NEW.email_log_id
+      AND (v_status <> 'sent' OR status IN ('queued', 'sending'));
+  END IF;
+
+  -- Emailing a draft invoice issues it
+  IF NEW.event_type IN ('sent', 'delivered', 'opened', 'clicked') THEN
+    UPDATE invoices i
+    SET
+      status = 'sent',
+      updated_at = now()
+    FROM email_logs el
+    WHERE
+      el.id = NEW.email_log_id
+      AND el.invoice_id = i.id
+      AND i.status = 'draft';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_email_status_trigger
+  AFTER INSERT ON email_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_email_status();
+
+-- Email tracking stats for invoices of the caller's organisation
+CREATE OR REPLACE FUNCTION get_email_tracking_stats(p_invoice_id uuid)
+RETURNS TABLE (
+  total_sent int,
+  total_delivered int,
+  total_opened int,
+  total_clicked int,
+  last_opened timestamptz,
+  last_clicked timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(DISTINCT CASE WHEN el.sent_at IS NOT NULL THEN el.id END)::int as total_sent,
+    COUNT(DISTINCT CASE WHEN ee.event_type = 'delivered' THEN ee.id END)::int as total_delivered,
+    COUNT(DISTINCT CASE WHEN ee.event_type = 'opened' THEN ee.id END)::int as total_opened,
+    COUNT(DISTINCT CASE WHEN ee.event_type = 'clicked' THEN ee.id END)::int as total_clicked,
+    MAX(CASE WHEN ee.event_type = 'opened' THEN ee.occurred_at END) as last_opened,
+    MAX(CASE WHEN ee.event_type = 'clicked' THEN ee.occurred_at END) as last_clicked
+  FROM email_logs el
+  LEFT JOIN email_events ee ON el.id = ee.email_log_id
+  WHERE el.invoice_id = p_invoice_id
+  AND EXISTS (
+    SELECT 1 FROM invoices i
+    WHERE i.id = el.invoice_id
+    AND has_organisation_role(i.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_email_tracking_stats(uuid) TO authenticated;
+
+-- Replace the invoice-only email policies
+DROP POLICY IF EXISTS "Finance members can view email logs" ON email_logs;
+DROP POLICY IF EXISTS "Bursars can create email logs" ON email_logs;
+DROP POLICY IF EXISTS "Finance members can view email events" ON email_events;
+DROP POLICY IF EXISTS "Bursars can create email events" ON email_events;
+
+-- Create policies for email logs; report card emails are visible to
+-- whoever can see the report card
+CREATE POLICY "Members can view email logs"
+  ON email_logs
+  FOR SELECT
+  TO authenticated
+  USING (
+    organisation_id = current_organisation_id()
+    AND CASE document_type
+      WHEN 'report_card' THEN
+        has_organisation_role(organisation_id, ARRAY['admin', 'principal', 'teacher'])
+        AND EXISTS (
+          SELECT 1 FROM report_cards
+          WHERE report_cards.id = email_logs.report_card_id
+        )
+      ELSE
+        has_organisation_role(organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+    END
+  );
+
+CREATE POLICY "Members can queue emails"
+  ON email_logs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organisation_id = current_organisation_id()
+    AND user_id = auth.uid()
+    AND status = 'queued'
+    AND CASE document_type
+      WHEN 'invoice' THEN
+        has_organisation_role(organisation_id, ARRAY['admin', 'accountant'])
+        AND EXISTS (
+          SELECT 1 FROM invoices
+          WHERE invoices.id = email_logs.invoice_id
+          AND invoices.organisation_id = email_logs.organisation_id
+        )
+      WHEN 'statement' THEN
+        has_organisation_role(organisation_id, ARRAY['admin', 'accountant'])
+        AND EXISTS (
+          SELECT 1 FROM clients
+          WHERE clients.id = email_logs.client_id
+          AND clients.organisation_id = email_logs.organisation_id
+        )
+      WHEN 'report_card' THEN
+        has_organisation_role(organisation_id, ARRAY['admin', 'principal', 'teacher'])
+        AND EXISTS (
+          SELECT 1 FROM report_cards
+          WHERE report_cards.id = email_logs.report_card_id
+          AND report_cards.organisation_id = email_logs.organisation_id
+        )
+      ELSE false
+    END
+  );
+
+-- Create policies for email events
+CREATE POLICY "Members can view email events"
+  ON email_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM email_logs
+      WHERE email_logs.id = email_events.email_log_id
+    )
+  );
@@ -0,0 +1,246 @@
+/*
+  # Payment Reminders
+
+  1. New Tables
+    - `payment_reminder_steps` - When to remind clients about an unpaid
+      invoice, and what to say
+      - `id` (uuid, primary key)
+      - `organisation_id` (uuid, references organisations)
+      - `days_offset` (integer) - Days after the due date; negative for
+        reminders before it is due
+      - `subject` (text)
+      - `body` (text)
+      - `is_active` (boolean)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `reminder_step_id` to email_logs; each reminder is logged as an
+      email against its invoice, at most once per step
+    - A daily cron job marks overdue invoices, queues the reminders that are
+      due and asks the send-reminders function to send them. It reads the
+      function URL and service role key from the vault:
+        select vault.create_secret('https://<project>.supabase.co', 'project_url');
+        select vault.create_secret('<service role key>', 'service_role_key');
+
+  3. Functions
+    - render_email_template(template, values) - Fills in {{field}} merge fields
+    - mark_overdue_invoices() - Moves unpaid invoices past their due date to
+      overdue
+    - queue_payment_reminders() - Queues the latest reminder step each unpaid
+      invoice has reached. Invoices that are paid or fully credited, or whose
+      client has no email address, are skipped
+
+  4. Security
+    - Finance members can view the reminder schedule; admins and bursars
+      manage it
+    - Only the cron job runs the overdue and reminder functions
+*/
+
+-- Enable pg_net so the cron job can call edge functions
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Create payment reminder steps table
+CREATE TABLE IF NOT EXISTS payment_reminder_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid REFERENCES organisations(id) ON DELETE CASCADE NOT NULL DEFAULT current_organisation_id(),
+  days_offset int NOT NULL,
+  subject text NOT NULL,
+  body text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(organisation_id, days_offset)
+);
+
+-- Log reminders against their step
+ALTER TABLE email_logs
+  ADD COLUMN IF NOT EXISTS reminder_step_id uuid REFERENCES payment_reminder_steps(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS email_logs_reminder_step_idx
+  ON email_logs(invoice_id, reminder_step_id)
+  WHERE reminder_step_id IS NOT NULL;
+
+-- Create function and trigger for updated_at
+CREATE OR REPLACE FUNCTION update_payment_reminder_step_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_payment_reminder_step_timestamp_trigger ON payment_reminder_steps;
+CREATE TRIGGER update_payment_reminder_step_timestamp_trigger
+  BEFORE UPDATE ON payment_reminder_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION update_payment_reminder_step_timestamp();
+
+-- Function to fill in a template's merge fields, matching renderTemplate in
+-- the app. Unknown fields are left as written.
+CREATE OR REPLACE FUNCTION render_email_template(p_template text, p_values jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_result text := p_template;
+  v_field record;
+BEGIN
+  FOR v_field IN SELECT key, value FROM jsonb_each_text(p_values)
+  LOOP
+    v_result := regexp_replace(
+      v_result,
+      '\{\{\s*' || v_field.key || '\s*\}\}',
+      replace(COALESCE(v_field.value, ''), '\', '\\'),
+      'g'
+    );
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Function to mark unpaid invoices past their due date as overdue
+CREATE OR REPLACE FUNCTION mark_overdue_invoices()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count int;
+BEGIN
+  UPDATE invoices
+  SET
+    status = 'overdue',
+    updated_at = now()
+  WHERE
+    status IN ('sent', 'partially_paid')
+    AND due_date < current_date
+    AND get_invoice_balance(id) > 0;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Function to queue the reminders that are due. Each invoice gets the
+-- latest step it has reached, once; steps it passed while reminders were
+-- off are not sent late.
+CREATE OR REPLACE FUNCTION queue_payment_reminders()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count int;
+BEGIN
+  INSERT INTO email_logs (
+    organisation_id,
+    document_type,
+    invoice_id,
+    reminder_step_id,
+    to_email,
+    subject,
+    body,
+    status,
+    metadata,
+    user_id
+  )
+  SELECT
+    i.organisation_id,
+    'invoice',
+    i.id,
+    s.id,
+    c.email,
+    render_email_template(s.subject, v.merge_values),
+    render_email_template(s.body, v.merge_values),
+    'queued',
+    jsonb_build_object('reminder_days_offset', s.days_offset),
+    NULL
+  FROM invoices i
+  JOIN clients c ON c.id = i.client_id
+  CROSS JOIN LATERAL (
+    SELECT get_invoice_balance(i.id) AS balance
+  ) b
+  CROSS JOIN LATERAL (
+    SELECT rs.*
+    FROM payment_reminder_steps rs
+    WHERE
+      rs.organisation_id = i.organisation_id
+      AND rs.is_active
+      AND i.due_date + rs.days_offset <= current_date
+    ORDER BY rs.days_offset DESC
+    LIMIT 1
+  ) s
+  LEFT JOIN organisation_settings os ON os.organisation_id = i.organisation_id
+  CROSS JOIN LATERAL (
+    SELECT jsonb_build_object(
+      'client_name', c.name,
+      'invoice_number', i.number,
+      'invoice_date', to_char(i.date, 'Mon FMDD, YYYY'),
+      'due_date', to_char(i.due_date, 'Mon FMDD, YYYY'),
+      'total', i.currency_code || ' ' || to_char(i.total, 'FM999,999,999,990.00'),
+      'amount_due', i.currency_code || ' ' || to_char(b.balance, 'FM999,999,999,990.00'),
+      'days_overdue', GREATEST(current_date - i.due_date, 0)::text,
+      'company_name', COALESCE(os.company_details->>'name', '')
+    ) AS merge_values
+  ) v
+  WHERE
+    i.status IN ('sent', 'partially_paid', 'overdue')
+    AND b.balance > 0
+    AND NULLIF(trim(c.email), '') IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM email_logs el
+      WHERE el.invoice_id = i.id AND el.reminder_step_id = s.id
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Only the cron job marks invoices and queues reminders
+REVOKE EXECUTE ON FUNCTION mark_overdue_invoices() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION queue_payment_reminders() FROM PUBLIC, anon, authenticated;
+
+-- Enable RLS
+ALTER TABLE payment_reminder_steps ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for payment reminder steps
+CREATE POLICY "Finance members can view payment reminder steps"
+  ON payment_reminder_steps
+  FOR SELECT
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin', 'accountant', 'read_only']));
+
+CREATE POLICY "Bursars can manage payment reminder steps"
+  ON payment_reminder_steps
+  FOR ALL
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin', 'accountant']))
+  WITH CHECK (has_organisation_role(organisation_id, ARRAY['admin', 'accountant']));
+
+-- Replace the job if this migration is run again
+SELECT cron.unschedule('payment-reminders')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'payment-reminders');
+
+-- Create a daily cron job for overdue invoices and reminders
+SELECT cron.schedule(
+  'payment-reminders',  -- name of the cron job
+  '0 5 * * *',          -- run at 07:00 South African time every day
+  $$
+    SELECT mark_overdue_invoices();
+    SELECT queue_payment_reminders();
+    SELECT net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-reminders',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := '{}'::jsonb
+    );
+  $$
+);
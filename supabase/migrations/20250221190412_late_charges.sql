@@ -0,0 +1,577 @@
+/*
+  # Late Payment Charges
+
+  1. New Tables
+    - `late_charges` - Interest or admin fees charged on an overdue invoice,
+      at most one per invoice per month
+      - `id` (uuid, primary key)
+      - `organisation_id` (uuid, references organisations)
+      - `invoice_id` (uuid, references invoices)
+      - `client_id` (uuid, references clients)
+      - `charge_type` (text) - interest or admin_fee
+      - `period` (integer) - Month overdue the charge is for, starting at 1
+      - `date` (date)
+      - `description` (text)
+      - `amount` (numeric)
+      - `status` (text) - active or waived
+      - `waived_at` (timestamptz)
+      - `waived_by` (uuid, references auth.users)
+      - `waive_reason` (text)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `late_charge_settings` to organisation_settings:
+      { enabled, method: 'interest' | 'fee', interestRate (percent per
+      month), feeAmount, graceDays, maxCharges (0 for no limit) }
+    - Active charges are added to the invoice balance, so an invoice is only
+      paid once its charges are settled or waived
+    - Statements list active charges as debits and carry them in the
+      balance brought forward; waived charges are left off
+    - get_client_statement returns `source_id`, the id of the invoice,
+      charge, credit note or payment behind each line
+    - client_statement_summary gains `total_charged`
+    - A daily cron job applies the charges before reminders are queued, so
+      reminders include them
+
+  3. Functions
+    - apply_late_charges() - Charges each invoice that is overdue past the
+      grace period for the month it has reached. Interest is simple interest
+      on the unpaid invoice amount, never on earlier charges. A month that
+      has been charged, or waived, is not charged again
+    - waive_late_charge(charge_id, reason) - Waives an active charge
+    - get_invoice_late_charges(invoice_id) - Active charges on an invoice
+    - get_invoice_balance and update_invoice_payment_status include charges.
+      Like get_invoice_balance, get_invoice_late_charges reads any invoice,
+      so neither can be called by users
+
+  4. Security
+    - Finance members can view late charges
+    - Charges are only created by the cron job and only changed through
+      waive_late_charge, which is limited to admins and bursars
+*/
+
+-- Store the late charge rules with the other organisation settings
+ALTER TABLE organisation_settings
+  ADD COLUMN IF NOT EXISTS late_charge_settings jsonb NOT NULL DEFAULT '{}';
+
+-- Create late charges table
+CREATE TABLE IF NOT EXISTS late_charges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid REFERENCES organisations(id) ON DELETE CASCADE NOT NULL DEFAULT current_organisation_id(),
+  invoice_id uuid REFERENCES invoices(id) ON DELETE CASCADE NOT NULL,
+  client_id uuid REFERENCES clients(id) ON DELETE CASCADE NOT NULL,
+  charge_type text NOT NULL,
+  period int NOT NULL,
+  date date NOT NULL DEFAULT current_date,
+  description text NOT NULL,
+  amount numeric NOT NULL,
+  status text NOT NULL DEFAULT 'active',
+  waived_at timestamptz,
+  waived_by uuid REFERENCES auth.users(id),
+  waive_reason text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(invoice_id, period),
+  CONSTRAINT charge_type_check CHECK (charge_type IN ('interest', 'admin_fee')),
+  CONSTRAINT period_check CHECK (period > 0),
+  CONSTRAINT amount_check CHECK (amount > 0),
+  CONSTRAINT status_check CHECK (status IN ('active', 'waived'))
+);
+
+CREATE INDEX IF NOT EXISTS late_charges_client_id_idx ON late_charges(client_id);
+CREATE INDEX IF NOT EXISTS late_charges_organisation_id_idx ON late_charges(organisation_id);
+
+-- Create function and trigger for updated_at
+CREATE OR REPLACE FUNCTION update_late_charge_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_late_charge_timestamp_trigger ON late_charges;
+CREATE TRIGGER update_late_charge_timestamp_trigger
+  BEFORE UPDATE ON late_charges
+  FOR EACH ROW
+  EXECUTE FUNCTION update_late_charge_timestamp();
+
+-- Active late charges on an invoice
+CREATE OR REPLACE FUNCTION get_invoice_late_charges(p_invoice_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(lc.amount), 0)
+  FROM late_charges lc
+  WHERE lc.invoice_id = p_invoice_id AND lc.status = 'active';
+$$;
+
+-- Function to work out what is still owed on an invoice, charges included
+CREATE OR REPLACE FUNCTION get_invoice_balance(p_invoice_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance numeric;
+BEGIN
+  SELECT
+    i.total
+      + get_invoice_late_charges(i.id)
+      - COALESCE((SELECT SUM(p.amount) FROM payments p WHERE p.invoice_id = i.id), 0)
+      - COALESCE((SELECT SUM(ca.amount) FROM credit_allocations ca WHERE ca.invoice_id = i.id), 0)
+  INTO v_balance
+  FROM invoices i
+  WHERE i.id = p_invoice_id;
+
+  RETURN COALESCE(v_balance, 0);
+END;
+$$;
+
+-- Function to derive an invoice's status from its payments, credits and
+-- late charges
+CREATE OR REPLACE FUNCTION update_invoice_payment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_amount_owed numeric;
+  v_amount_settled numeric;
+  v_status text;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_amount_owed := v_invoice.total + get_invoice_late_charges(p_invoice_id);
+  v_amount_settled := v_amount_owed - get_invoice_balance(p_invoice_id);
+
+  IF v_amount_settled > 0 AND v_amount_settled >= v_amount_owed THEN
+    v_status := 'paid';
+  ELSIF v_amount_settled > 0 THEN
+    v_status := 'partially_paid';
+  ELSIF v_invoice.status IN ('paid', 'partially_paid') THEN
+    -- All payments and credits were removed, so the invoice is owing again
+    v_status := CASE
+      WHEN v_invoice.due_date < current_date THEN 'overdue'
+      ELSE 'sent'
+    END;
+  ELSE
+    -- Nothing settled yet; leave draft/sent/overdue as they are
+    v_status := v_invoice.status;
+  END IF;
+
+  IF v_status <> v_invoice.status THEN
+    UPDATE invoices
+    SET
+      status = v_status,
+      updated_at = now()
+    WHERE id = p_invoice_id;
+  END IF;
+END;
+$$;
+
+-- Trigger function for late charge changes
+CREATE OR REPLACE FUNCTION handle_late_charge_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM update_invoice_payment_status(OLD.invoice_id);
+  ELSE
+    PERFORM update_invoice_payment_status(NEW.invoice_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Re-evaluate the invoice status whenever a charge is added or waived
+DROP TRIGGER IF EXISTS late_charge_status_trigger ON late_charges;
+CREATE TRIGGER late_charge_status_trigger
+AFTER INSERT OR UPDATE OF status, amount OR DELETE ON late_charges
+FOR EACH ROW
+EXECUTE FUNCTION handle_late_charge_change();
+
+-- Function to charge overdue invoices for the month they have reached.
+-- Only the current month is charged, so turning charges on does not
+-- backdate them.
+CREATE OR REPLACE FUNCTION apply_late_charges()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count int;
+BEGIN
+  INSERT INTO late_charges (
+    organisation_id,
+    invoice_id,
+    client_id,
+    charge_type,
+    period,
+    date,
+    description,
+    amount
+  )
+  SELECT
+    i.organisation_id,
+    i.id,
+    i.client_id,
+    CASE WHEN r.method = 'fee' THEN 'admin_fee' ELSE 'interest' END,
+    p.period,
+    (p.first_charge_date + (p.period - 1) * interval '1 month')::date,
+    CASE
+      WHEN r.method = 'fee' THEN 'Late payment fee on Invoice #' || i.number
+      ELSE 'Interest at ' || trim_scale(r.interest_rate) || '% per month on Invoice #' || i.number
+    END,
+    c.amount
+  FROM invoices i
+  JOIN organisation_settings os ON os.organisation_id = i.organisation_id
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(os.late_charge_settings->>'method', 'interest') AS method,
+      COALESCE((os.late_charge_settings->>'interestRate')::numeric, 0) AS interest_rate,
+      COALESCE((os.late_charge_settings->>'feeAmount')::numeric, 0) AS fee_amount,
+      COALESCE((os.late_charge_settings->>'graceDays')::int, 0) AS grace_days,
+      COALESCE((os.late_charge_settings->>'maxCharges')::int, 0) AS max_charges
+  ) r
+  CROSS JOIN LATERAL (
+    -- The first charge falls the day after the grace period ends and the
+    -- rest follow monthly from there
+    SELECT i.due_date + r.grace_days + 1 AS first_charge_date
+  ) f
+  CROSS JOIN LATERAL (
+    SELECT
+      f.first_charge_date,
+      (
+        EXTRACT(year FROM age(current_date, f.first_charge_date)) * 12
+        + EXTRACT(month FROM age(current_date, f.first_charge_date))
+      )::int + 1 AS period
+  ) p
+  CROSS JOIN LATERAL (
+    -- Unpaid part of the invoice itself, leaving earlier charges out
+    SELECT get_invoice_balance(i.id) - get_invoice_late_charges(i.id) AS principal
+  ) b
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN r.method = 'fee' THEN r.fee_amount
+      ELSE round(LEAST(b.principal, i.total) * r.interest_rate / 100, 2)
+    END AS amount
+  ) c
+  WHERE
+    COALESCE((os.late_charge_settings->>'enabled')::boolean, false)
+    AND i.status IN ('sent', 'partially_paid', 'overdue')
+    AND current_date >= f.first_charge_date
+    AND b.principal > 0
+    AND c.amount > 0
+    AND (r.max_charges <= 0 OR p.period <= r.max_charges)
+  ON CONFLICT (invoice_id, period) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Function to waive a late charge
+CREATE OR REPLACE FUNCTION waive_late_charge(p_charge_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_charge late_charges%ROWTYPE;
+BEGIN
+  SELECT * INTO v_charge
+  FROM late_charges
+  WHERE
+    id = p_charge_id
+    AND has_organisation_role(organisation_id, ARRAY['admin', 'accountant']);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Late charge not found';
+  END IF;
+
+  IF v_charge.status <> 'active' THEN
+    RAISE EXCEPTION 'Late charge has already been waived';
+  END IF;
+
+  UPDATE late_charges
+  SET
+    status = 'waived',
+    waived_at = now(),
+    waived_by = auth.uid(),
+    waive_reason = NULLIF(trim(p_reason), '')
+  WHERE id = p_charge_id;
+END;
+$$;
+
+-- Drop the statement function so its columns can change
+DROP FUNCTION IF EXISTS get_client_statement(uuid, date, date);
+
+-- Client statement for the caller's organisation
+CREATE OR REPLACE FUNCTION get_client_statement(
+  p_client_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS TABLE (
+  date DATE,
+  description TEXT,
+  reference TEXT,
+  type TEXT,
+  debit NUMERIC,
+  credit NUMERIC,
+  running_balance NUMERIC,
+  source_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_opening_balance numeric;
+  v_organisation_id uuid;
+BEGIN
+  SELECT c.organisation_id INTO v_organisation_id
+  FROM clients c
+  WHERE
+    c.id = p_client_id
+    AND has_organisation_role(c.organisation_id, ARRAY['admin', 'accountant', 'read_only']);
+
+  IF v_organisation_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Work out the balance brought forward from before the period
+  SELECT
+    COALESCE((
+      SELECT SUM(i.total)
+      FROM invoices i
+      WHERE
+        i.client_id = p_client_id
+        AND i.date < p_start_date
+        AND i.status <> 'draft'
+        AND i.organisation_id = v_organisation_id
+    ), 0)
+    + COALESCE((
+      SELECT SUM(lc.amount)
+      FROM late_charges lc
+      WHERE
+        lc.client_id = p_client_id
+        AND lc.date < p_start_date
+        AND lc.status = 'active'
+        AND lc.organisation_id = v_organisation_id
+    ), 0)
+    - COALESCE((
+      SELECT SUM(cn.total)
+      FROM credit_notes cn
+      WHERE
+        cn.client_id = p_client_id
+        AND cn.date < p_start_date
+        AND cn.status = 'issued'
+        AND cn.organisation_id = v_organisation_id
+    ), 0)
+    - COALESCE((
+      SELECT SUM(p.amount)
+      FROM payments p
+      WHERE
+        p.client_id = p_client_id
+        AND p.date < p_start_date
+        AND p.organisation_id = v_organisation_id
+    ), 0)
+  INTO v_opening_balance;
+
+  RETURN QUERY
+  WITH transactions AS (
+    -- Balance brought forward
+    SELECT
+      p_start_date AS date,
+      'Balance brought forward'::text AS description,
+      ''::text AS reference,
+      'opening_balance'::text AS type,
+      GREATEST(v_opening_balance, 0) AS debit,
+      GREATEST(-v_opening_balance, 0) AS credit,
+      0 AS sort_order,
+      NULL::timestamptz AS created_at,
+      NULL::uuid AS source_id
+
+    UNION ALL
+
+    -- Get invoices
+    SELECT
+      i.date AS date,
+      'Invoice #' || i.number AS description,
+      i.number AS reference,
+      'invoice' AS type,
+      i.total AS debit,
+      0 AS credit,
+      1 AS sort_order,
+      i.created_at,
+      i.id
+    FROM invoices i
+    WHERE
+      i.client_id = p_client_id
+      AND i.date BETWEEN p_start_date AND p_end_date
+      AND i.status <> 'draft'
+      AND i.organisation_id = v_organisation_id
+
+    UNION ALL
+
+    -- Get late charges that have not been waived
+    SELECT
+      lc.date AS date,
+      lc.description,
+      i.number AS reference,
+      'late_charge' AS type,
+      lc.amount AS debit,
+      0 AS credit,
+      2 AS sort_order,
+      lc.created_at,
+      lc.id
+    FROM late_charges lc
+    JOIN invoices i ON i.id = lc.invoice_id
+    WHERE
+      lc.client_id = p_client_id
+      AND lc.date BETWEEN p_start_date AND p_end_date
+      AND lc.status = 'active'
+      AND lc.organisation_id = v_organisation_id
+
+    UNION ALL
+
+    -- Get issued credit notes
+    SELECT
+      cn.date AS date,
+      'Credit Note #' || cn.number || COALESCE(' for Invoice #' || i.number, '') AS description,
+      cn.number AS reference,
+      'credit_note' AS type,
+      0 AS debit,
+      cn.total AS credit,
+      3 AS sort_order,
+      cn.created_at,
+      cn.id
+    FROM credit_notes cn
+    LEFT JOIN invoices i ON i.id = cn.invoice_id
+    WHERE
+      cn.client_id = p_client_id
+      AND cn.date BETWEEN p_start_date AND p_end_date
+      AND cn.status = 'issued'
+      AND cn.organisation_id = v_organisation_id
+
+    UNION ALL
+
+    -- Get payments on the date they were received
+    SELECT
+      p.date AS date,
+      'Payment for Invoice #' || i.number AS description,
+      COALESCE(NULLIF(p.reference, ''), i.number) AS reference,
+      'payment' AS type,
+      0 AS debit,
+      p.amount AS credit,
+      4 AS sort_order,
+      p.created_at,
+      p.id
+    FROM payments p
+    JOIN invoices i ON i.id = p.invoice_id
+    WHERE
+      p.client_id = p_client_id
+      AND p.date BETWEEN p_start_date AND p_end_date
+      AND p.organisation_id = v_organisation_id
+  )
+  SELECT
+    t.date,
+    t.description,
+    t.reference,
+    t.type,
+    t.debit,
+    t.credit,
+    SUM(t.debit - t.credit) OVER (
+      ORDER BY t.date, t.sort_order, t.created_at NULLS FIRST
+      ROWS UNBOUNDED PRECEDING
+    ) AS running_balance,
+    t.source_id
+  FROM transactions t
+  ORDER BY t.date, t.sort_order, t.created_at NULLS FIRST;
+END;
+$$;
+
+-- Statement summary for the caller's organisation
+CREATE OR REPLACE VIEW client_statement_summary AS
+SELECT
+  c.id AS client_id,
+  c.name AS client_name,
+  COUNT(DISTINCT i.id) AS total_invoices,
+  COALESCE(SUM(i.total), 0) AS total_invoiced,
+  COALESCE((
+    SELECT SUM(p.amount) FROM payments p WHERE p.client_id = c.id
+  ), 0) AS total_paid,
+  COALESCE((
+    SELECT SUM(cn.total) FROM credit_notes cn
+    WHERE cn.client_id = c.id AND cn.status = 'issued'
+  ), 0) AS total_credited,
+  COALESCE(SUM(i.total), 0)
+    + COALESCE((
+      SELECT SUM(lc.amount) FROM late_charges lc
+      WHERE lc.client_id = c.id AND lc.status = 'active'
+    ), 0)
+    - COALESCE((
+      SELECT SUM(p.amount) FROM payments p WHERE p.client_id = c.id
+    ), 0)
+    - COALESCE((
+      SELECT SUM(cn.total) FROM credit_notes cn
+      WHERE cn.client_id = c.id AND cn.status = 'issued'
+    ), 0) AS total_outstanding,
+  MIN(i.date) AS first_invoice_date,
+  MAX(i.date) AS last_invoice_date,
+  COALESCE((
+    SELECT SUM(lc.amount) FROM late_charges lc
+    WHERE lc.client_id = c.id AND lc.status = 'active'
+  ), 0) AS total_charged
+FROM clients c
+LEFT JOIN invoices i ON c.id = i.client_id AND i.status <> 'draft'
+WHERE has_organisation_role(c.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+GROUP BY c.id, c.name;
+
+-- The balance helpers read any invoice, so only the functions above use them
+REVOKE EXECUTE ON FUNCTION get_invoice_late_charges(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_invoice_balance(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Only the cron job applies charges; waiving checks the caller's role itself
+REVOKE EXECUTE ON FUNCTION apply_late_charges() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION waive_late_charge TO authenticated;
+GRANT EXECUTE ON FUNCTION get_client_statement TO authenticated;
+
+-- Enable RLS
+ALTER TABLE late_charges ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for late charges
+CREATE POLICY "Finance members can view late charges"
+  ON late_charges
+  FOR SELECT
+  TO authenticated
+  USING (has_organisation_role(organisation_id, ARRAY['admin', 'accountant', 'read_only']));
+
+-- Replace the job if this migration is run again
+SELECT cron.unschedule('late-charges')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'late-charges');
+
+-- Create a daily cron job for late charges, ahead of the payment reminders
+SELECT cron.schedule(
+  'late-charges',  -- name of the cron job
+  '30 4 * * *',    -- run at 06:30 South African time every day
+  $$SELECT apply_late_charges()$$
+);
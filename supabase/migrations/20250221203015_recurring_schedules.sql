@@ -0,0 +1,232 @@
+/*
+  # Recurring Invoice Schedules
+
+  1. Changes
+    - Add `recurring_invoice_id` to invoices so generated invoices link back
+      to their schedule
+    - Add `next_run_date` to recurring_invoices: the date of the next
+      invoice the schedule will create. Existing schedules carry on from
+      their last run
+    - generate_recurring_invoices() now returns how many invoices it made
+
+  2. Functions
+    - recurring_interval(frequency) - Time between invoices
+    - due_recurring_invoices(run_date) - The invoices a run on that date
+      would create, across all organisations
+    - preview_recurring_invoices(run_date) - The same, for the caller's
+      organisation, so the schedules page can show a dry run
+    - generate_recurring_invoices() - Creates one draft invoice for each
+      schedule that is due, with its totals, dated on the schedule's next
+      run date, then moves the schedule on. Schedules are completed once
+      their end date has passed
+
+  3. Security
+    - due_recurring_invoices and generate_recurring_invoices are left to the
+      cron job; the preview is limited to finance members
+*/
+
+-- Link generated invoices to their schedule
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS recurring_invoice_id uuid REFERENCES recurring_invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS invoices_recurring_invoice_id_idx ON invoices(recurring_invoice_id);
+
+-- Function to get the time between a schedule's invoices
+CREATE OR REPLACE FUNCTION recurring_interval(p_frequency text)
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_frequency
+    WHEN 'weekly' THEN interval '1 week'
+    WHEN 'monthly' THEN interval '1 month'
+    WHEN 'quarterly' THEN interval '3 months'
+    WHEN 'yearly' THEN interval '1 year'
+  END;
+$$;
+
+-- Record when each schedule next creates an invoice
+ALTER TABLE recurring_invoices
+  ADD COLUMN IF NOT EXISTS next_run_date date;
+
+UPDATE recurring_invoices
+SET next_run_date = CASE
+  WHEN last_generated IS NULL THEN start_date
+  ELSE (last_generated::date + recurring_interval(frequency))::date
+END
+WHERE next_run_date IS NULL;
+
+ALTER TABLE recurring_invoices ALTER COLUMN next_run_date SET NOT NULL;
+
+-- Function to list the invoices a run on the given date would create
+CREATE OR REPLACE FUNCTION due_recurring_invoices(p_run_date date)
+RETURNS TABLE (
+  recurring_invoice_id uuid,
+  organisation_id uuid,
+  user_id uuid,
+  client_id uuid,
+  client_name text,
+  invoice_date date,
+  due_date date,
+  description text,
+  subtotal numeric,
+  tax_rate numeric,
+  tax_amount numeric,
+  total numeric,
+  currency_code text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.organisation_id,
+    r.user_id,
+    r.client_id,
+    c.name,
+    r.next_run_date,
+    r.next_run_date + 30,
+    r.description,
+    r.amount,
+    r.tax_rate,
+    round(r.amount * r.tax_rate / 100, 2),
+    r.amount + round(r.amount * r.tax_rate / 100, 2),
+    r.currency_code
+  FROM recurring_invoices r
+  JOIN clients c ON c.id = r.client_id
+  WHERE
+    r.status = 'active'
+    AND r.next_run_date <= p_run_date
+    AND (r.end_date IS NULL OR r.next_run_date <= r.end_date)
+  ORDER BY c.name, r.next_run_date;
+$$;
+
+-- Dry run of the nightly job for the caller's organisation
+CREATE OR REPLACE FUNCTION preview_recurring_invoices(p_run_date date)
+RETURNS TABLE (
+  recurring_invoice_id uuid,
+  client_id uuid,
+  client_name text,
+  invoice_date date,
+  due_date date,
+  description text,
+  subtotal numeric,
+  tax_amount numeric,
+  total numeric,
+  currency_code text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.recurring_invoice_id,
+    d.client_id,
+    d.client_name,
+    d.invoice_date,
+    d.due_date,
+    d.description,
+    d.subtotal,
+    d.tax_amount,
+    d.total,
+    d.currency_code
+  FROM due_recurring_invoices(p_run_date) d
+  WHERE has_organisation_role(d.organisation_id, ARRAY['admin', 'accountant', 'read_only']);
+$$;
+
+-- Drop the old generator so it can return a count
+DROP FUNCTION IF EXISTS generate_recurring_invoices();
+
+-- Function to generate recurring invoices
+CREATE OR REPLACE FUNCTION generate_recurring_invoices()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_due record;
+  v_invoice_id uuid;
+  v_count int := 0;
+BEGIN
+  FOR v_due IN SELECT * FROM due_recurring_invoices(current_date)
+  LOOP
+    -- Create the invoice with its totals
+    INSERT INTO invoices (
+      organisation_id,
+      client_id,
+      user_id,
+      recurring_invoice_id,
+      date,
+      due_date,
+      subtotal,
+      tax_rate,
+      tax_amount,
+      total,
+      currency_code,
+      status,
+      number
+    ) VALUES (
+      v_due.organisation_id,
+      v_due.client_id,
+      v_due.user_id,
+      v_due.recurring_invoice_id,
+      v_due.invoice_date,
+      v_due.due_date,
+      v_due.subtotal,
+      v_due.tax_rate,
+      v_due.tax_amount,
+      v_due.total,
+      v_due.currency_code,
+      'draft',
+      generate_invoice_number()
+    )
+    RETURNING id INTO v_invoice_id;
+
+    -- Create invoice item
+    INSERT INTO invoice_items (
+      invoice_id,
+      description,
+      quantity,
+      rate,
+      amount
+    ) VALUES (
+      v_invoice_id,
+      v_due.description,
+      1,
+      v_due.subtotal,
+      v_due.subtotal
+    );
+
+    -- Move the schedule on to its next invoice
+    UPDATE recurring_invoices
+    SET
+      next_run_date = (next_run_date + recurring_interval(frequency))::date,
+      last_generated = now(),
+      updated_at = now()
+    WHERE id = v_due.recurring_invoice_id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Complete schedules with nothing left to create
+  UPDATE recurring_invoices
+  SET
+    status = 'completed',
+    updated_at = now()
+  WHERE
+    status IN ('active', 'paused')
+    AND end_date IS NOT NULL
+    AND next_run_date > end_date;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Only the cron job creates recurring invoices
+REVOKE EXECUTE ON FUNCTION due_recurring_invoices(date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_recurring_invoices() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION preview_recurring_invoices(date) TO authenticated;
@@ -0,0 +1,429 @@
+/*
+  # Recurring Invoice Templates
+
+  1. New Tables
+    - `recurring_invoice_items` - The lines each generated invoice is given,
+      in the same shape as invoice_items
+      - `id` (uuid, primary key)
+      - `recurring_invoice_id` (uuid, references recurring_invoices)
+      - `description` (text)
+      - `quantity` (numeric)
+      - `rate` (numeric)
+      - `amount` (numeric)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Existing schedules get one line from their description and amount.
+      `amount` stays as the schedule's subtotal
+    - Add `auto_send` to recurring_invoices: generated invoices are queued
+      to the client's email address. They are sent by the send-reminders
+      function straight after the nightly run, without a PDF attached, so
+      they use the organisation's recurring invoice email template
+      (email_settings.recurringInvoice), which lists the invoice lines
+      rather than promising an attachment
+    - Add `catch_up` to recurring_invoices, for schedules that have missed
+      runs (paused, or started in the past):
+      - 'latest' creates only the most recent missed invoice and skips the
+        rest
+      - 'all' creates every missed invoice, at most 12 per run
+    - Generated invoices are due after the client's payment terms, or the
+      organisation's default due days when the client has none
+
+  3. Functions
+    - due_recurring_invoices(run_date) - Now one row per invoice, with the
+      schedule's next run date after it
+    - preview_recurring_invoices(run_date) - Likewise, and shows which
+      invoices will be emailed
+    - generate_recurring_invoices() - Copies the schedule's lines onto each
+      invoice and queues the emails
+
+  4. Security
+    - Finance members can view schedule lines; admins and bursars manage them
+*/
+
+-- Create recurring invoice items table
+CREATE TABLE IF NOT EXISTS recurring_invoice_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recurring_invoice_id uuid REFERENCES recurring_invoices(id) ON DELETE CASCADE NOT NULL,
+  description text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 1,
+  rate numeric NOT NULL DEFAULT 0,
+  amount numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS recurring_invoice_items_recurring_invoice_id_idx
+  ON recurring_invoice_items(recurring_invoice_id);
+
+-- Give existing schedules a line for their description and amount
+INSERT INTO recurring_invoice_items (recurring_invoice_id, description, quantity, rate, amount)
+SELECT r.id, r.description, 1, r.amount, r.amount
+FROM recurring_invoices r
+WHERE NOT EXISTS (
+  SELECT 1 FROM recurring_invoice_items ri WHERE ri.recurring_invoice_id = r.id
+);
+
+-- Add emailing and catch-up options to schedules
+ALTER TABLE recurring_invoices
+  ADD COLUMN IF NOT EXISTS auto_send boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS catch_up text NOT NULL DEFAULT 'latest';
+
+ALTER TABLE recurring_invoices
+  DROP CONSTRAINT IF EXISTS recurring_invoices_catch_up_check;
+
+ALTER TABLE recurring_invoices
+  ADD CONSTRAINT recurring_invoices_catch_up_check
+  CHECK (catch_up IN ('latest', 'all'));
+
+-- Drop the old functions so they can return the new columns
+DROP FUNCTION IF EXISTS preview_recurring_invoices(date);
+DROP FUNCTION IF EXISTS due_recurring_invoices(date);
+
+-- Function to list the invoices a run on the given date would create
+CREATE OR REPLACE FUNCTION due_recurring_invoices(p_run_date date)
+RETURNS TABLE (
+  recurring_invoice_id uuid,
+  organisation_id uuid,
+  user_id uuid,
+  client_id uuid,
+  client_name text,
+  client_email text,
+  invoice_date date,
+  due_date date,
+  following_run_date date,
+  description text,
+  subtotal numeric,
+  tax_rate numeric,
+  tax_amount numeric,
+  total numeric,
+  currency_code text,
+  auto_send boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH periods AS (
+    SELECT
+      r.*,
+      p.run_at::date AS invoice_date,
+      row_number() OVER (PARTITION BY r.id ORDER BY p.run_at) AS period_number,
+      count(*) OVER (PARTITION BY r.id) AS periods_due
+    FROM recurring_invoices r
+    CROSS JOIN LATERAL generate_series(
+      r.next_run_date::timestamp,
+      LEAST(p_run_date, COALESCE(r.end_date, p_run_date))::timestamp,
+      recurring_interval(r.frequency)
+    ) AS p(run_at)
+    WHERE r.status = 'active'
+  )
+  SELECT
+    d.id,
+    d.organisation_id,
+    d.user_id,
+    d.client_id,
+    c.name,
+    NULLIF(trim(c.email), ''),
+    d.invoice_date,
+    d.invoice_date + COALESCE(
+      c.payment_terms,
+      (os.invoice_settings->>'defaultDueDate')::int,
+      14
+    ),
+    (d.invoice_date + recurring_interval(d.frequency))::date,
+    d.description,
+    s.subtotal,
+    d.tax_rate,
+    round(s.subtotal * d.tax_rate / 100, 2),
+    s.subtotal + round(s.subtotal * d.tax_rate / 100, 2),
+    d.currency_code,
+    d.auto_send
+  FROM periods d
+  JOIN clients c ON c.id = d.client_id
+  LEFT JOIN organisation_settings os ON os.organisation_id = d.organisation_id
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(
+      (SELECT sum(ri.amount) FROM recurring_invoice_items ri WHERE ri.recurring_invoice_id = d.id),
+      d.amount
+    ) AS subtotal
+  ) s
+  WHERE
+    (d.catch_up = 'all' AND d.period_number <= 12)
+    OR (d.catch_up = 'latest' AND d.period_number = d.periods_due)
+  ORDER BY c.name, d.id, d.invoice_date;
+$$;
+
+-- Dry run of the nightly job for the caller's organisation
+CREATE OR REPLACE FUNCTION preview_recurring_invoices(p_run_date date)
+RETURNS TABLE (
+  recurring_invoice_id uuid,
+  client_id uuid,
+  client_name text,
+  client_email text,
+  invoice_date date,
+  due_date date,
+  description text,
+  subtotal numeric,
+  tax_amount numeric,
+  total numeric,
+  currency_code text,
+  auto_send boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d.recurring_invoice_id,
+    d.client_id,
+    d.client_name,
+    d.client_email,
+    d.invoice_date,
+    d.due_date,
+    d.description,
+    d.subtotal,
+    d.tax_amount,
+    d.total,
+    d.currency_code,
+    d.auto_send
+  FROM due_recurring_invoices(p_run_date) d
+  WHERE has_organisation_role(d.organisation_id, ARRAY['admin', 'accountant', 'read_only']);
+$$;
+
+-- Function to generate recurring invoices
+CREATE OR REPLACE FUNCTION generate_recurring_invoices()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_due record;
+  v_invoice_id uuid;
+  v_invoice_number text;
+  v_template jsonb;
+  v_company_name text;
+  v_merge_values jsonb;
+  v_invoice_lines text;
+  v_count int := 0;
+BEGIN
+  FOR v_due IN SELECT * FROM due_recurring_invoices(current_date)
+  LOOP
+    v_invoice_number := generate_invoice_number();
+
+    -- Create the invoice with its totals
+    INSERT INTO invoices (
+      organisation_id,
+      client_id,
+      user_id,
+      recurring_invoice_id,
+      date,
+      due_date,
+      subtotal,
+      tax_rate,
+      tax_amount,
+      total,
+      currency_code,
+      status,
+      number
+    ) VALUES (
+      v_due.organisation_id,
+      v_due.client_id,
+      v_due.user_id,
+      v_due.recurring_invoice_id,
+      v_due.invoice_date,
+      v_due.due_date,
+      v_due.subtotal,
+      v_due.tax_rate,
+      v_due.tax_amount,
+      v_due.total,
+      v_due.currency_code,
+      'draft',
+      v_invoice_number
+    )
+    RETURNING id INTO v_invoice_id;
+
+    -- Copy the schedule's lines onto the invoice
+    INSERT INTO invoice_items (
+      invoice_id,
+      description,
+      quantity,
+      rate,
+      amount
+    )
+    SELECT
+      v_invoice_id,
+      ri.description,
+      ri.quantity,
+      ri.rate,
+      ri.amount
+    FROM recurring_invoice_items ri
+    WHERE ri.recurring_invoice_id = v_due.recurring_invoice_id
+    ORDER BY ri.created_at, ri.id;
+
+    -- Schedules saved without lines still get one
+    IF NOT FOUND THEN
+      INSERT INTO invoice_items (
+        invoice_id,
+        description,
+        quantity,
+        rate,
+        amount
+      ) VALUES (
+        v_invoice_id,
+        v_due.description,
+        1,
+        v_due.subtotal,
+        v_due.subtotal
+      );
+    END IF;
+
+    -- Queue the invoice email; sending it marks the invoice as sent
+    IF v_due.auto_send AND v_due.client_email IS NOT NULL THEN
+      SELECT
+        os.email_settings->'recurringInvoice',
+        os.company_details->>'name'
+      INTO v_template, v_company_name
+      FROM organisation_settings os
+      WHERE os.organisation_id = v_due.organisation_id;
+
+      -- Organisations that have not changed the template use the app's default
+      v_template := COALESCE(v_template, jsonb_build_object(
+        'subject', 'Invoice {{invoice_number}} from {{company_name}}',
+        'body', E'Dear {{client_name}}\n\nInvoice {{invoice_number}} dated {{invoice_date}} has been issued for:\n\n{{invoice_lines}}\n\nThe total of {{total}} is due on {{due_date}}. Please contact us if you would like a copy of the invoice.\n\nKind regards\n{{company_name}}'
+      ));
+
+      -- There is no PDF, so the email lists the lines copied above
+      SELECT COALESCE(
+        string_agg(
+          ri.description || ': ' || v_due.currency_code || ' ' || to_char(ri.amount, 'FM999,999,999,990.00'),
+          E'\n' ORDER BY ri.created_at, ri.id
+        ),
+        v_due.description || ': ' || v_due.currency_code || ' ' || to_char(v_due.subtotal, 'FM999,999,999,990.00')
+      )
+      INTO v_invoice_lines
+      FROM recurring_invoice_items ri
+      WHERE ri.recurring_invoice_id = v_due.recurring_invoice_id;
+
+      v_merge_values := jsonb_build_object(
+        'client_name', v_due.client_name,
+        'invoice_number', v_invoice_number,
+        'invoice_date', to_char(v_due.invoice_date, 'Mon FMDD, YYYY'),
+        'due_date', to_char(v_due.due_date, 'Mon FMDD, YYYY'),
+        'total', v_due.currency_code || ' ' || to_char(v_due.total, 'FM999,999,999,990.00'),
+        'amount_due', v_due.currency_code || ' ' || to_char(v_due.total, 'FM999,999,999,990.00'),
+        'company_name', COALESCE(v_company_name, ''),
+        'invoice_lines', v_invoice_lines
+      );
+
+      INSERT INTO email_logs (
+        organisation_id,
+        document_type,
+        invoice_id,
+        to_email,
+        subject,
+        body,
+        status,
+        metadata,
+        user_id
+      ) VALUES (
+        v_due.organisation_id,
+        'invoice',
+        v_invoice_id,
+        v_due.client_email,
+        render_email_template(v_template->>'subject', v_merge_values),
+        render_email_template(v_template->>'body', v_merge_values),
+        'queued',
+        jsonb_build_object('recurring_invoice_id', v_due.recurring_invoice_id),
+        NULL
+      );
+    END IF;
+
+    -- Move the schedule on past this invoice. Periods skipped by 'latest'
+    -- catch-up are passed over with it
+    UPDATE recurring_invoices
+    SET
+      next_run_date = v_due.following_run_date,
+      last_generated = now(),
+      updated_at = now()
+    WHERE id = v_due.recurring_invoice_id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Complete schedules with nothing left to create
+  UPDATE recurring_invoices
+  SET
+    status = 'completed',
+    updated_at = now()
+  WHERE
+    status IN ('active', 'paused')
+    AND end_date IS NOT NULL
+    AND next_run_date > end_date;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Only the cron job creates recurring invoices
+REVOKE EXECUTE ON FUNCTION due_recurring_invoices(date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_recurring_invoices() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION preview_recurring_invoices(date) TO authenticated;
+
+-- Enable RLS
+ALTER TABLE recurring_invoice_items ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for recurring invoice items
+CREATE POLICY "Finance members can view recurring invoice items"
+  ON recurring_invoice_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM recurring_invoices
+      WHERE recurring_invoices.id = recurring_invoice_items.recurring_invoice_id
+      AND has_organisation_role(recurring_invoices.organisation_id, ARRAY['admin', 'accountant', 'read_only'])
+    )
+  );
+
+CREATE POLICY "Bursars can manage recurring invoice items"
+  ON recurring_invoice_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM recurring_invoices
+      WHERE recurring_invoices.id = recurring_invoice_items.recurring_invoice_id
+      AND has_organisation_role(recurring_invoices.organisation_id, ARRAY['admin', 'accountant'])
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM recurring_invoices
+      WHERE recurring_invoices.id = recurring_invoice_items.recurring_invoice_id
+      AND has_organisation_role(recurring_invoices.organisation_id, ARRAY['admin', 'accountant'])
+    )
+  );
+
+-- Replace the job if this migration is run again
+SELECT cron.unschedule('generate-recurring-invoices')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'generate-recurring-invoices');
+
+-- Generate recurring invoices at midnight and send the ones set to email
+SELECT cron.schedule(
+  'generate-recurring-invoices',  -- name of the cron job
+  '0 0 * * *',                   -- run at midnight every day
+  $$
+    SELECT generate_recurring_invoices();
+    SELECT net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-reminders',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := '{}'::jsonb
+    );
+  $$
+);
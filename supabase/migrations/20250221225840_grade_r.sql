@@ -0,0 +1,45 @@
+/*
+  # Grade R and Pre-school Grades
+
+  1. Changes
+    - Students, subjects and classes accept grades -2 to 12. Grade R is
+      stored as 0, Grade RR as -1 and Grade RRR as -2, so ordering by grade
+      still runs from youngest to oldest
+    - Add the Grade R subjects: Home Language and First Additional Language
+      in English and Afrikaans, Mathematics and Life Skills. Codes end in R,
+      like the other grades' codes end in the grade number
+*/
+
+-- Allow reception grades for students
+ALTER TABLE students DROP CONSTRAINT IF EXISTS students_grade_check;
+ALTER TABLE students
+  ADD CONSTRAINT students_grade_check CHECK (grade BETWEEN -2 AND 12);
+
+-- Allow reception grades for subjects
+ALTER TABLE subjects DROP CONSTRAINT IF EXISTS subjects_grade_check;
+ALTER TABLE subjects
+  ADD CONSTRAINT subjects_grade_check CHECK (grade BETWEEN -2 AND 12);
+
+-- Allow reception grades for classes
+ALTER TABLE classes DROP CONSTRAINT IF EXISTS classes_grade_check;
+ALTER TABLE classes
+  ADD CONSTRAINT classes_grade_check CHECK (grade BETWEEN -2 AND 12);
+
+-- Insert Grade R subjects
+INSERT INTO subjects (code, name_en, name_af, grade, category)
+SELECT
+  s.code || 'R',
+  s.name_en,
+  s.name_af,
+  0,
+  'core'
+FROM
+  (VALUES
+    ('ENHL', 'English Home Language', 'Engels Huistaal'),
+    ('AFHL', 'Afrikaans Home Language', 'Afrikaans Huistaal'),
+    ('ENFA', 'English First Additional Language', 'Engels Eerste Addisionele Taal'),
+    ('AFFA', 'Afrikaans First Additional Language', 'Afrikaans Eerste Addisionele Taal'),
+    ('MATH', 'Mathematics', 'Wiskunde'),
+    ('LIFE', 'Life Skills', 'Lewensvaardighede')
+  ) AS s(code, name_en, name_af)
+ON CONFLICT (code) DO NOTHING;
@@ -0,0 +1,14 @@
+/*
+  # Report Card Achievement Levels
+
+  1. Changes
+    - Add `report_settings` to organisation_settings:
+      { achievementScale: [{ level, minMark, descriptorEn, descriptorAf }] }
+      Each subject's term mark is given the highest level whose minimum
+      mark it reaches. Organisations that have not saved a scale use the
+      CAPS seven-point scale
+*/
+
+-- Store the report card settings with the other organisation settings
+ALTER TABLE organisation_settings
+  ADD COLUMN IF NOT EXISTS report_settings jsonb NOT NULL DEFAULT '{}';